@@ -15,8 +15,9 @@ import authRoutes from './routes/auth';
 // import userRoutes from './routes/users';
 
 interface CustomError extends Error {
-  status?: number;
+  status?: number | string;
   statusCode?: number;
+  retryAfterSeconds?: number;
 }
 
 class App {
@@ -157,7 +158,8 @@ class App {
   private initializeErrorHandling(): void {
     // Gestionnaire d'erreur global
     this.app.use((error: CustomError, req: Request, res: Response, next: NextFunction) => {
-      const status = error.status || error.statusCode || 500;
+      // AppError.status vaut 'fail'/'error' : le code HTTP est dans statusCode
+      const status = error.statusCode || (typeof error.status === 'number' ? error.status : 500);
       const message = error.message || 'Une erreur interne s\'est produite';
 
       // Logger l'erreur
@@ -182,6 +184,10 @@ class App {
         errorResponse.stack = error.stack;
       }
 
+      if (error.retryAfterSeconds) {
+        res.set('Retry-After', String(error.retryAfterSeconds));
+      }
+
       res.status(status).json(errorResponse);
     });
 
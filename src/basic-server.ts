@@ -1,7 +1,7 @@
-import express, { Request, Response } from 'express';
+import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import multer from 'multer';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, BookmarkTarget } from '@prisma/client';
 import { SimpleAuthService } from './services/simple-auth';
 import { SimpleJWTService } from './utils/simple-jwt';
 import { UsersService } from './services/users';
@@ -15,6 +15,32 @@ import { FileUploadService, FileType } from './services/file-upload';
 import { AnalyticsService } from './services/analytics';
 import { MonitoringService } from './services/monitoring';
 import { AuditService, AuditActions } from './services/audit';
+import { ConnectionsService } from './services/connections';
+import { SessionService, SessionRevokeReason } from './services/sessions';
+import { TwoFactorService } from './services/two-factor';
+import { EmailVerificationService } from './services/email-verification';
+import { EmailService } from './services/email';
+import { LoginProtectionService } from './services/login-protection';
+import { RolesService, Permission } from './services/roles';
+import { ApiKeyService, API_KEY_SCOPES } from './services/api-keys';
+import { ModerationService } from './services/moderation';
+import { DataExportService } from './services/data-export';
+import { AccountDeletionService } from './services/account-deletion';
+import { ImpersonationService } from './services/impersonation';
+import { InvitationService } from './services/invitations';
+import { OrganizationsService } from './services/organizations';
+import { ProfileCompletionService } from './services/profile-completion';
+import { ReviewsService } from './services/reviews';
+import { ExpertisesService, MAX_VERIFICATION_DOCUMENTS } from './services/expertises';
+import { ProfileViewsService } from './services/profile-views';
+import { PrivacyService } from './services/privacy';
+import { SearchService } from './services/search';
+import { LocationsService } from './services/locations';
+import { RecommendationsService } from './services/recommendations';
+import { SavedSearchesService } from './services/saved-searches';
+import { BookmarksService } from './services/bookmarks';
+import { config } from './config';
+import { TooManyRequestsError, AccountSuspendedError } from './types';
 
 // Security middleware imports
 import { 
@@ -33,12 +59,24 @@ import {
   corsOptions 
 } from './middleware/security';
 
+// Authentication middleware imports
+import { authenticateApiKey, applyImpersonationPolicy, optionalAuth } from './middleware/simple-auth';
+
 // Validation middleware imports
-import { validate, validateFileUpload, sanitizeInput, validatePermissions } from './middleware/validation';
+import { validate, validateFileUpload, sanitizeInput, requirePermission } from './middleware/validation';
 
 // Validation schemas imports
 import {
   loginSchema,
+  refreshTokenSchema,
+  verifyEmailSchema,
+  twoFactorLoginSchema,
+  twoFactorChallengeSchema,
+  twoFactorCodeSchema,
+  disableTwoFactorSchema,
+  twoFactorPolicySchema,
+  profileTypeSchema,
+  profileTypeParamSchema,
   registerSchema,
   updateUserSchema,
   sendMessageSchema,
@@ -51,11 +89,22 @@ import {
   userFiltersSchema,
   opportunityFiltersSchema,
   eventFiltersSchema,
+  geoFiltersSchema,
+  locationSuggestSchema,
   resourceFiltersSchema,
   messageFiltersSchema,
   notificationFiltersSchema,
   analyticsUserMetricsSchema,
   analyticsTrendsSchema,
+  auditLogFiltersSchema,
+  auditStatsSchema,
+  sendConnectionRequestSchema,
+  connectionFiltersSchema,
+  updateApplicationStatusSchema,
+  applicationParamsSchema,
+  emailOutboxFiltersSchema,
+  emailIdParamSchema,
+  connectionIdParamSchema,
   fileUploadSchema,
   idParamSchema,
   userIdParamSchema,
@@ -63,7 +112,81 @@ import {
   eventIdParamSchema,
   resourceIdParamSchema,
   messageIdParamSchema,
-  notificationIdParamSchema
+  notificationIdParamSchema,
+  sessionIdParamSchema,
+  grantRoleSchema,
+  userRoleParamsSchema,
+  roleAssignmentsFiltersSchema,
+  createApiKeySchema,
+  apiKeyIdParamSchema,
+  organizationApiKeyParamsSchema,
+  suspendUserSchema,
+  banUserSchema,
+  impersonateUserSchema,
+  createInvitationSchema,
+  sendInvitationsSchema,
+  invitationFiltersSchema,
+  invitationIdParamSchema,
+  invitationCodeParamSchema,
+  createOrganizationSchema,
+  updateOrganizationSchema,
+  organizationFiltersSchema,
+  organizationIdParamSchema,
+  organizationMemberParamsSchema,
+  joinOrganizationSchema,
+  inviteOrganizationMemberSchema,
+  updateOrganizationMemberSchema,
+  createReviewSchema,
+  replyToReviewSchema,
+  reportReviewSchema,
+  reviewIdParamSchema,
+  reviewListSchema,
+  reviewReportFiltersSchema,
+  reviewReportIdParamSchema,
+  resolveReviewReportSchema,
+  expertiseParamsSchema,
+  myExpertiseParamSchema,
+  endorseExpertiseSchema,
+  requestExpertiseVerificationSchema,
+  verificationQueueFiltersSchema,
+  verificationRequestIdParamSchema,
+  reviewExpertiseVerificationSchema,
+  profileViewStatsSchema,
+  profileViewersSchema,
+  profileViewSettingsSchema,
+  updatePrivacySettingsSchema,
+  recommendationFiltersSchema,
+  createSavedSearchSchema,
+  updateSavedSearchSchema,
+  savedSearchIdParamSchema,
+  savedSearchFiltersSchemas,
+  addBookmarkSchema,
+  bookmarkParamsSchema,
+  bookmarkFiltersSchema,
+  createBookmarkCollectionSchema,
+  updateBookmarkCollectionSchema,
+  bookmarkCollectionIdParamSchema,
+  dataExportDownloadParamsSchema,
+  dataExportDownloadQuerySchema,
+  deleteAccountSchema,
+  ProfileViewStatsData,
+  ProfileViewersData,
+  RecommendationFiltersData,
+  BookmarkFiltersData,
+  PaginationData,
+  ConnectionFiltersData,
+  AuditLogFiltersData,
+  AuditStatsData,
+  EmailOutboxFiltersData,
+  RoleAssignmentsFiltersData,
+  UserRoleParamsData,
+  InvitationFiltersData,
+  OrganizationFiltersData,
+  ReviewListData,
+  ReviewReportFiltersData,
+  VerificationQueueFiltersData,
+  LocationSuggestData,
+  ProfileTypeParamData
 } from './validation/schemas';
 
 const app = express();
@@ -92,16 +215,25 @@ app.use(speedLimiter);
 app.use(auditLog);
 app.use(MonitoringService.requestMetricsMiddleware());
 
-// Interface for authenticated requests
-interface AuthenticatedRequest extends Request {
+// Interface for authenticated requests (Query / Params: once parsed by their validation schemas)
+interface AuthenticatedRequest<Query = {}, Params = {}> extends Request {
+  query: Request['query'] & Query;
+  params: Request['params'] & Params;
   user?: {
     id: string;
     email: string;
     profileType: string;
     verified: boolean;
+    sessionId?: string;
+    apiKeyId?: string;
+    scopes?: string[];
+    impersonatorId?: string;
   };
 }
 
+// Public requests whose query string was parsed by its validation schema
+type ValidatedRequest<Query> = Request & { query: Request['query'] & Query };
+
 // ==================== AUTHENTICATION MIDDLEWARE ====================
 
 // Authentication middleware
@@ -119,7 +251,13 @@ const authenticateToken = async (req: AuthenticatedRequest, res: Response, next:
       return;
     }
 
-    const payload = SimpleJWTService.verifyAccessToken(token);
+    // Clés d'API des intégrations (scope et quota vérifiés par la clé)
+    if (ApiKeyService.isApiKey(token)) {
+      await authenticateApiKey(req, res, next as NextFunction, token);
+      return;
+    }
+
+    const payload = await SessionService.authenticateAccessToken(token);
     if (!payload) {
       res.status(401).json({
         success: false,
@@ -134,8 +272,15 @@ const authenticateToken = async (req: AuthenticatedRequest, res: Response, next:
       email: payload.email,
       profileType: payload.profileType,
       verified: payload.verified,
+      sessionId: payload.sessionId,
+      impersonatorId: payload.impersonatorId,
     };
 
+    // Token d'assistance émis pour un administrateur
+    if (payload.impersonatorId && !applyImpersonationPolicy(req, res)) {
+      return;
+    }
+
     next();
   } catch (error: any) {
     res.status(401).json({
@@ -146,6 +291,35 @@ const authenticateToken = async (req: AuthenticatedRequest, res: Response, next:
   }
 };
 
+// Email verification gate (only enforced when RESTRICT_UNVERIFIED_USERS=true)
+const requireVerifiedEmail = async (req: AuthenticatedRequest, res: Response, next: Function) => {
+  try {
+    if (!config.RESTRICT_UNVERIFIED_USERS || req.user?.verified) {
+      next();
+      return;
+    }
+
+    // The token may predate the verification: check the database before refusing
+    if (req.user && await EmailVerificationService.isVerified(req.user.id)) {
+      next();
+      return;
+    }
+
+    res.status(403).json({
+      success: false,
+      error: 'Veuillez vérifier votre adresse email pour utiliser cette fonctionnalité',
+      code: 'EMAIL_NOT_VERIFIED',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString(),
+    });
+  }
+};
+
 // ==================== MONITORING & HEALTH ENDPOINTS ====================
 
 // Enhanced health check with detailed system status
@@ -171,7 +345,7 @@ app.get('/health', async (req: Request, res: Response) => {
 app.get('/api/v1/monitoring/dashboard', 
   generalRateLimit,
   authenticateToken,
-  validatePermissions(['admin']),
+  requirePermission(Permission.MONITORING_READ),
   async (req: Request, res: Response) => {
     try {
       const [healthStatus, dbMetrics, alerts] = await Promise.all([
@@ -240,7 +414,10 @@ app.post('/api/v1/auth/register',
     try {
       const registrationData = req.body;
 
-      const result = await SimpleAuthService.register(registrationData);
+      const result = await SimpleAuthService.register(registrationData, {
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
 
       // Log successful registration
       await AuditService.logAuthentication(
@@ -283,8 +460,26 @@ app.post('/api/v1/auth/login',
   validate({ body: loginSchema }),
   async (req: Request, res: Response) => {
     try {
-      const loginData = req.body;
-      const result = await SimpleAuthService.login(loginData);
+      const { deviceName, ...loginData } = req.body;
+      const result = await SimpleAuthService.login(loginData, {
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        deviceName,
+        country: req.get(config.GEOIP_COUNTRY_HEADER),
+      });
+
+      // Second facteur attendu : la connexion n'est pas encore effective
+      if ('challengeToken' in result) {
+        res.json({
+          success: true,
+          message: result.twoFactorRequired
+            ? 'Code de vérification requis'
+            : 'Configuration de la double authentification requise',
+          data: result,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
 
       // Log successful login
       await AuditService.logAuthentication(
@@ -312,6 +507,28 @@ app.post('/api/v1/auth/login',
         error.message
       );
 
+      if (error instanceof TooManyRequestsError) {
+        res.set('Retry-After', String(error.retryAfterSeconds));
+        res.status(429).json({
+          success: false,
+          error: error.message,
+          retryAfter: error.retryAfterSeconds,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (error instanceof AccountSuspendedError) {
+        res.status(403).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          until: error.until,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
       res.status(401).json({
         success: false,
         error: error.message,
@@ -321,8 +538,186 @@ app.post('/api/v1/auth/login',
   }
 );
 
-// Get profile
-app.get('/api/v1/auth/profile', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+// Complete a two-step login with a TOTP or recovery code
+app.post('/api/v1/auth/login/verify-2fa',
+  authRateLimit,
+  validate({ body: twoFactorLoginSchema }),
+  async (req: Request, res: Response) => {
+    try {
+      const { challengeToken, code, deviceName } = req.body;
+      const result = await SimpleAuthService.verifyTwoFactorLogin(challengeToken, code, {
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        deviceName,
+        country: req.get(config.GEOIP_COUNTRY_HEADER),
+      });
+
+      await AuditService.logAuthentication(
+        AuditActions.LOGIN,
+        result.user.id,
+        true,
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.json({
+        success: true,
+        message: 'Connexion réussie',
+        data: result,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      await AuditService.logAuthentication(
+        AuditActions.LOGIN,
+        'unknown',
+        false,
+        req.ip,
+        req.get('User-Agent'),
+        `2FA: ${error.message}`
+      );
+
+      if (error instanceof TooManyRequestsError) {
+        res.set('Retry-After', String(error.retryAfterSeconds));
+        res.status(429).json({
+          success: false,
+          error: error.message,
+          retryAfter: error.retryAfterSeconds,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (error instanceof AccountSuspendedError) {
+        res.status(403).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          until: error.until,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      res.status(401).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+);
+
+// Start mandatory 2FA enrollment during login
+app.post('/api/v1/auth/login/setup-2fa',
+  authRateLimit,
+  validate({ body: twoFactorChallengeSchema }),
+  async (req: Request, res: Response) => {
+    try {
+      const setup = await SimpleAuthService.beginRequiredTwoFactorSetup(req.body.challengeToken);
+
+      res.json({
+        success: true,
+        message: 'Scannez le QR code puis saisissez le code affiché',
+        data: setup,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      res.status(401).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+);
+
+// Confirm mandatory 2FA enrollment and complete login
+app.post('/api/v1/auth/login/enable-2fa',
+  authRateLimit,
+  validate({ body: twoFactorLoginSchema }),
+  async (req: Request, res: Response) => {
+    try {
+      const { challengeToken, code, deviceName } = req.body;
+      const result = await SimpleAuthService.completeRequiredTwoFactorSetup(challengeToken, code, {
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        deviceName,
+        country: req.get(config.GEOIP_COUNTRY_HEADER),
+      });
+
+      await AuditService.logResourceAction(
+        AuditActions.TWO_FACTOR_ENABLE,
+        result.user.id,
+        'AUTH',
+        result.user.id,
+        { mandatory: true },
+        req.ip,
+        req.get('User-Agent')
+      );
+      await AuditService.logAuthentication(
+        AuditActions.LOGIN,
+        result.user.id,
+        true,
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.json({
+        success: true,
+        message: 'Double authentification activée. Conservez vos codes de secours en lieu sûr.',
+        data: result,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      if (error instanceof AccountSuspendedError) {
+        res.status(403).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          until: error.until,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      res.status(400).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+);
+
+// Refresh tokens (rotation: the presented refresh token is invalidated)
+app.post('/api/v1/auth/refresh',
+  authRateLimit,
+  validate({ body: refreshTokenSchema }),
+  async (req: Request, res: Response) => {
+    try {
+      const result = await SimpleAuthService.refreshTokens(req.body.refreshToken, {
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.json({
+        success: true,
+        message: 'Tokens rafraîchis avec succès',
+        data: result,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      res.status(401).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+);
+
+// Logout current device
+app.post('/api/v1/auth/logout', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
     if (!req.user) {
       res.status(401).json({
@@ -332,50 +727,46 @@ app.get('/api/v1/auth/profile', authenticateToken, async (req: AuthenticatedRequ
       return;
     }
 
-    const user = await SimpleAuthService.getUserById(req.user.id);
+    if (req.user.sessionId) {
+      await SessionService.revokeSession(req.user.sessionId, req.user.id, SessionRevokeReason.LOGOUT);
+    }
+
+    await AuditService.logAuthentication(
+      AuditActions.LOGOUT,
+      req.user.id,
+      true,
+      req.ip,
+      req.get('User-Agent')
+    );
 
     res.json({
       success: true,
-      data: { user },
+      message: 'Déconnexion réussie',
     });
   } catch (error: any) {
-    res.status(404).json({
+    res.status(500).json({
       success: false,
       error: error.message,
     });
   }
 });
 
-// Get all users
-app.get('/api/v1/users', async (req: Request, res: Response) => {
+// List active sessions (one per device)
+app.get('/api/v1/auth/sessions', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const {
-      page = '1',
-      limit = '10',
-      profileType,
-      location,
-      search,
-    } = req.query;
-
-    const filters = {
-      profileType: profileType as string,
-      location: location as string,
-      search: search as string,
-    };
-
-    const pagination = {
-      page: parseInt(page as string),
-      limit: Math.min(parseInt(limit as string), 50),
-      sortBy: 'createdAt',
-      sortOrder: 'desc' as 'desc',
-    };
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
 
-    const result = await UsersService.getAllUsers(filters, pagination);
+    const sessions = await SessionService.getUserSessions(req.user.id, req.user.sessionId);
 
     res.json({
       success: true,
-      data: result.users,
-      meta: result.meta,
+      data: sessions,
     });
   } catch (error: any) {
     res.status(500).json({
@@ -385,34 +776,8 @@ app.get('/api/v1/users', async (req: Request, res: Response) => {
   }
 });
 
-// Get user by ID
-app.get('/api/v1/users/:userId', async (req: Request, res: Response) => {
-  try {
-    const { userId } = req.params;
-    
-    const user = await UsersService.getUserById(userId);
-
-    res.json({
-      success: true,
-      data: user,
-    });
-  } catch (error: any) {
-    if (error.message === 'Utilisateur non trouvé') {
-      res.status(404).json({
-        success: false,
-        error: error.message,
-      });
-    } else {
-      res.status(500).json({
-        success: false,
-        error: error.message,
-      });
-    }
-  }
-});
-
-// Update current user
-app.put('/api/v1/users/me', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+// Revoke all other sessions
+app.delete('/api/v1/auth/sessions', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
     if (!req.user) {
       res.status(401).json({
@@ -422,22 +787,26 @@ app.put('/api/v1/users/me', authenticateToken, async (req: AuthenticatedRequest,
       return;
     }
 
-    const updateData = req.body;
-    const allowedFields = ['name', 'company', 'location', 'description', 'website', 'linkedin', 'phone'];
-    const filteredData: any = {};
-
-    for (const field of allowedFields) {
-      if (updateData[field] !== undefined) {
-        filteredData[field] = updateData[field];
-      }
-    }
+    const revokedCount = await SessionService.revokeAllSessions(
+      req.user.id,
+      SessionRevokeReason.USER_REVOKED,
+      req.user.sessionId
+    );
 
-    const updatedUser = await UsersService.updateUser(req.user.id, filteredData);
+    await AuditService.logResourceAction(
+      AuditActions.SESSION_REVOKE,
+      req.user.id,
+      'SESSION',
+      'all',
+      { revokedCount, keptSessionId: req.user.sessionId },
+      req.ip,
+      req.get('User-Agent')
+    );
 
     res.json({
       success: true,
-      message: 'Profil mis à jour',
-      data: updatedUser,
+      message: 'Autres sessions déconnectées',
+      data: { revokedCount },
     });
   } catch (error: any) {
     res.status(500).json({
@@ -447,53 +816,90 @@ app.put('/api/v1/users/me', authenticateToken, async (req: AuthenticatedRequest,
   }
 });
 
-// ==================== MESSAGING ENDPOINTS ====================
-
-// Send message with validation and rate limiting
-app.post('/api/v1/messages', 
-  messageRateLimit,
-  authenticateToken, 
-  validate({ body: sendMessageSchema }),
+// Revoke a single session (device)
+app.delete('/api/v1/auth/sessions/:sessionId',
+  authenticateToken,
+  validate({ params: sessionIdParamSchema }),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       if (!req.user) {
         res.status(401).json({
           success: false,
           error: 'Utilisateur non authentifié',
-          timestamp: new Date().toISOString(),
         });
         return;
       }
 
-      const messageData = req.body;
-      const message = await SimpleMessagingService.sendMessage(req.user.id, messageData);
+      const { sessionId } = req.params;
+      await SessionService.revokeSession(sessionId, req.user.id, SessionRevokeReason.USER_REVOKED);
 
-      // Log message sending for audit
       await AuditService.logResourceAction(
-        AuditActions.MESSAGE_SEND,
+        AuditActions.SESSION_REVOKE,
         req.user.id,
-        'MESSAGE',
-        message.id,
-        { recipientId: messageData.recipientId, type: messageData.type },
+        'SESSION',
+        sessionId,
+        { current: sessionId === req.user.sessionId },
         req.ip,
         req.get('User-Agent')
       );
 
-    res.status(201).json({
-      success: true,
-      message: 'Message envoyé avec succès',
-      data: message,
-    });
-  } catch (error: any) {
-    res.status(400).json({
-      success: false,
-      error: error.message,
-    });
+      res.json({
+        success: true,
+        message: 'Session révoquée',
+      });
+    } catch (error: any) {
+      if (error.message === 'Session non trouvée') {
+        res.status(404).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
   }
-});
+);
 
-// Get received messages
-app.get('/api/v1/messages/received', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+// Confirm email address from the link sent by email
+app.post('/api/v1/auth/verify-email',
+  authRateLimit,
+  validate({ body: verifyEmailSchema }),
+  async (req: Request, res: Response) => {
+    try {
+      const result = await EmailVerificationService.confirmEmail(req.body.token);
+
+      if (!result.alreadyVerified) {
+        await AuditService.logUserAction(
+          AuditActions.EMAIL_VERIFY,
+          result.userId,
+          result.userId,
+          undefined,
+          req.ip,
+          req.get('User-Agent')
+        );
+      }
+
+      res.json({
+        success: true,
+        message: result.alreadyVerified ? 'Email déjà vérifié' : 'Email vérifié avec succès',
+        data: { verified: true },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+);
+
+// Resend verification email
+app.post('/api/v1/auth/resend-verification', authRateLimit, authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
     if (!req.user) {
       res.status(401).json({
@@ -503,39 +909,29 @@ app.get('/api/v1/messages/received', authenticateToken, async (req: Authenticate
       return;
     }
 
-    const {
-      page = '1',
-      limit = '10',
-      type,
-      status,
-      search,
-    } = req.query;
-
-    const filters = { type: type as string, status: status as string, search: search as string };
-    const pagination = {
-      page: parseInt(page as string),
-      limit: Math.min(parseInt(limit as string), 50),
-      sortBy: 'createdAt',
-      sortOrder: 'desc' as 'desc',
-    };
-
-    const result = await SimpleMessagingService.getMessages(req.user.id, filters, pagination, 'received');
+    await EmailVerificationService.sendVerificationEmail(req.user.id);
 
     res.json({
       success: true,
-      data: result.messages,
-      meta: result.meta,
+      message: 'Email de vérification envoyé',
     });
   } catch (error: any) {
-    res.status(500).json({
-      success: false,
-      error: error.message,
-    });
+    if (error.message.startsWith('Un email de vérification vient')) {
+      res.status(429).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
   }
 });
 
-// Get sent messages
-app.get('/api/v1/messages/sent', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+// Get profile
+app.get('/api/v1/auth/profile', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
     if (!req.user) {
       res.status(401).json({
@@ -545,64 +941,68 @@ app.get('/api/v1/messages/sent', authenticateToken, async (req: AuthenticatedReq
       return;
     }
 
-    const {
-      page = '1',
-      limit = '10',
-      type,
-      status,
-      search,
-    } = req.query;
-
-    const filters = { type: type as string, status: status as string, search: search as string };
-    const pagination = {
-      page: parseInt(page as string),
-      limit: Math.min(parseInt(limit as string), 50),
-      sortBy: 'createdAt',
-      sortOrder: 'desc' as 'desc',
-    };
-
-    const result = await SimpleMessagingService.getMessages(req.user.id, filters, pagination, 'sent');
+    const user = await SimpleAuthService.getUserById(req.user.id);
 
     res.json({
       success: true,
-      data: result.messages,
-      meta: result.meta,
+      data: { user },
     });
   } catch (error: any) {
-    res.status(500).json({
+    res.status(404).json({
       success: false,
       error: error.message,
     });
   }
 });
 
-// Get conversations
-app.get('/api/v1/messages/conversations', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+// Get all users
+app.get('/api/v1/users', optionalAuth, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    if (!req.user) {
-      res.status(401).json({
+    const {
+      page = '1',
+      limit = '10',
+      profileType,
+      location,
+      search,
+      sortBy,
+    } = req.query;
+
+    const geo = geoFiltersSchema.safeParse(req.query);
+    if (!geo.success) {
+      res.status(400).json({
         success: false,
-        error: 'Utilisateur non authentifié',
+        error: geo.error.issues[0]?.message,
       });
       return;
     }
 
-    const {
-      page = '1',
-      limit = '20',
-    } = req.query;
+    // country / region : codes ISO ; near=lat,lng&radiusKm= : les plus proches d'abord
+    const filters = {
+      profileType: profileType as string,
+      location: location as string,
+      search: search as string,
+      ...geo.data,
+    };
 
     const pagination = {
       page: parseInt(page as string),
       limit: Math.min(parseInt(limit as string), 50),
+      // completeness : profils les mieux renseignés d'abord ; endorsements : les plus recommandés d'abord ;
+      // relevance : classement par pertinence (par défaut pour une recherche)
+      sortBy: ['completeness', 'endorsements', 'relevance'].includes(sortBy as string)
+        ? sortBy as string
+        : search ? 'relevance' : 'createdAt',
+      sortOrder: 'desc' as 'desc',
     };
 
-    const result = await SimpleMessagingService.getConversations(req.user.id, pagination);
+    // Les coordonnées affichées dépendent du visiteur (réglages de confidentialité)
+    const result = await UsersService.getAllUsers(filters, pagination, req.user?.id);
 
     res.json({
       success: true,
-      data: result.conversations,
+      data: result.users,
       meta: result.meta,
+      ...('facets' in result && { facets: result.facets, searchMode: result.searchMode }),
     });
   } catch (error: any) {
     res.status(500).json({
@@ -612,26 +1012,29 @@ app.get('/api/v1/messages/conversations', authenticateToken, async (req: Authent
   }
 });
 
-// Get message by ID
-app.get('/api/v1/messages/:messageId', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+// Get user by ID
+app.get('/api/v1/users/:userId', optionalAuth, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    if (!req.user) {
-      res.status(401).json({
-        success: false,
-        error: 'Utilisateur non authentifié',
+    const { userId } = req.params;
+    const viewerId = req.user?.id;
+
+    const user = await UsersService.getUserById(userId, viewerId ?? null);
+
+    // Les consultations faites par le support lors d'une impersonation ne sont pas comptées
+    if (!req.user?.impersonatorId) {
+      await ProfileViewsService.record(userId, {
+        userId: viewerId,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
       });
-      return;
     }
 
-    const { messageId } = req.params;
-    const message = await SimpleMessagingService.getMessageById(messageId, req.user.id);
-
     res.json({
       success: true,
-      data: message,
+      data: user,
     });
   } catch (error: any) {
-    if (error.message === 'Message non trouvé') {
+    if (error.message === 'Utilisateur non trouvé') {
       res.status(404).json({
         success: false,
         error: error.message,
@@ -645,8 +1048,8 @@ app.get('/api/v1/messages/:messageId', authenticateToken, async (req: Authentica
   }
 });
 
-// Mark message as read
-app.put('/api/v1/messages/:messageId/read', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+// Update current user
+app.put('/api/v1/users/me', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
     if (!req.user) {
       res.status(401).json({
@@ -656,65 +1059,41 @@ app.put('/api/v1/messages/:messageId/read', authenticateToken, async (req: Authe
       return;
     }
 
-    const { messageId } = req.params;
-    const message = await SimpleMessagingService.markAsRead(messageId, req.user.id);
+    const updateData = req.body;
+    const allowedFields = ['name', 'company', 'location', 'description', 'website', 'linkedin', 'phone', 'language'];
+    const filteredData: any = {};
 
-    res.json({
-      success: true,
-      message: 'Message marqué comme lu',
-      data: message,
-    });
-  } catch (error: any) {
-    if (error.message === 'Message non trouvé') {
-      res.status(404).json({
-        success: false,
-        error: error.message,
-      });
-    } else {
-      res.status(500).json({
+    if (updateData.language !== undefined && !['fr', 'en'].includes(updateData.language)) {
+      res.status(400).json({
         success: false,
-        error: error.message,
+        error: 'Langue non supportée (fr, en)',
       });
+      return;
     }
-  }
-});
 
-// Delete message
-app.delete('/api/v1/messages/:messageId', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
-  try {
-    if (!req.user) {
-      res.status(401).json({
-        success: false,
-        error: 'Utilisateur non authentifié',
-      });
-      return;
+    for (const field of allowedFields) {
+      if (updateData[field] !== undefined) {
+        filteredData[field] = updateData[field];
+      }
     }
 
-    const { messageId } = req.params;
-    const result = await SimpleMessagingService.deleteMessage(messageId, req.user.id);
+    const updatedUser = await UsersService.updateUser(req.user.id, filteredData);
 
     res.json({
       success: true,
-      message: 'Message supprimé avec succès',
-      data: result,
+      message: 'Profil mis à jour',
+      data: updatedUser,
     });
   } catch (error: any) {
-    if (error.message === 'Message non trouvé') {
-      res.status(404).json({
-        success: false,
-        error: error.message,
-      });
-    } else {
-      res.status(500).json({
-        success: false,
-        error: error.message,
-      });
-    }
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
   }
 });
 
-// Get unread count
-app.get('/api/v1/messages/unread/count', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+// Profile completeness score and checklist of missing items
+app.get('/api/v1/users/me/completion', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
     if (!req.user) {
       res.status(401).json({
@@ -724,146 +1103,149 @@ app.get('/api/v1/messages/unread/count', authenticateToken, async (req: Authenti
       return;
     }
 
-    const result = await SimpleMessagingService.getUnreadCount(req.user.id);
+    const completion = await ProfileCompletionService.recompute(req.user.id);
 
     res.json({
       success: true,
-      data: result,
+      data: completion,
+      timestamp: new Date().toISOString(),
     });
   } catch (error: any) {
-    res.status(500).json({
+    res.status(error.message === 'Utilisateur non trouvé' ? 404 : 500).json({
       success: false,
       error: error.message,
+      timestamp: new Date().toISOString(),
     });
   }
 });
 
-// ==================== OPPORTUNITIES ENDPOINTS ====================
+// Profile view counts over time (identified and anonymous views)
+app.get('/api/v1/users/me/profile-views',
+  authenticateToken,
+  validate({ query: profileViewStatsSchema }),
+  async (req: AuthenticatedRequest<ProfileViewStatsData>, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
 
-// Create opportunity
-app.post('/api/v1/opportunities', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
-  try {
-    if (!req.user) {
-      res.status(401).json({
+      const stats = await ProfileViewsService.getStats(req.user.id, req.query.days);
+
+      res.json({
+        success: true,
+        data: stats,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      res.status(500).json({
         success: false,
-        error: 'Utilisateur non authentifié',
+        error: error.message,
+        timestamp: new Date().toISOString(),
       });
-      return;
     }
+  }
+);
 
-    const { title, description, type, budget, amount, location, remote, deadline, startDate, skills, experience } = req.body;
-
-    if (!title || !description || !type) {
-      res.status(400).json({
+// Members who viewed my profile
+app.get('/api/v1/users/me/profile-views/viewers',
+  authenticateToken,
+  validate({ query: profileViewersSchema }),
+  async (req: AuthenticatedRequest<ProfileViewersData>, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
+
+      const result = await ProfileViewsService.getRecentViewers(req.user.id, req.query);
+
+      res.json({
+        success: true,
+        data: {
+          viewers: result.viewers,
+          anonymousViews: result.anonymousViews,
+        },
+        meta: result.meta,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      res.status(500).json({
         success: false,
-        error: 'Titre, description et type sont requis',
+        error: error.message,
+        timestamp: new Date().toISOString(),
       });
-      return;
     }
-
-    const opportunity = await OpportunitiesService.createOpportunity(req.user.id, {
-      title, description, type, budget, amount, location, remote,
-      deadline: deadline ? new Date(deadline) : undefined,
-      startDate: startDate ? new Date(startDate) : undefined,
-      skills, experience
-    });
-
-    res.status(201).json({
-      success: true,
-      message: 'Opportunité créée avec succès',
-      data: opportunity,
-    });
-  } catch (error: any) {
-    res.status(400).json({
-      success: false,
-      error: error.message,
-    });
   }
-});
+);
 
-// Get opportunities
-app.get('/api/v1/opportunities', async (req: Request, res: Response) => {
+// Profile view privacy settings
+app.get('/api/v1/users/me/profile-views/settings', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const {
-      page = '1',
-      limit = '10',
-      type,
-      status,
-      location,
-      remote,
-      skills,
-      search,
-      authorId,
-    } = req.query;
-
-    const filters = {
-      type: type as string,
-      status: status as string,
-      location: location as string,
-      remote: remote === 'true' ? true : remote === 'false' ? false : undefined,
-      skills: skills as string,
-      search: search as string,
-      authorId: authorId as string,
-    };
-
-    const pagination = {
-      page: parseInt(page as string),
-      limit: Math.min(parseInt(limit as string), 50),
-      sortBy: 'createdAt',
-      sortOrder: 'desc' as 'desc',
-    };
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
 
-    const result = await OpportunitiesService.getOpportunities(filters, pagination);
+    const settings = await ProfileViewsService.getSettings(req.user.id);
 
     res.json({
       success: true,
-      data: result.opportunities,
-      meta: result.meta,
+      data: settings,
+      timestamp: new Date().toISOString(),
     });
-  } catch (error: any) {
-    res.status(500).json({
+  } catch (error) {
+    res.status(error.message === 'Utilisateur non trouvé' ? 404 : 500).json({
       success: false,
       error: error.message,
+      timestamp: new Date().toISOString(),
     });
   }
 });
 
-// Get opportunity by ID
-app.get('/api/v1/opportunities/:opportunityId', async (req: Request, res: Response) => {
-  try {
-    const { opportunityId } = req.params;
-    let userId: string | undefined;
-    if (req.headers.authorization) {
-      const token = SimpleJWTService.extractTokenFromHeader(req.headers.authorization);
-      if (token) {
-        const payload = SimpleJWTService.verifyAccessToken(token);
-        userId = payload?.userId;
+// Browse other profiles anonymously (or not)
+app.put('/api/v1/users/me/profile-views/settings',
+  authenticateToken,
+  validate({ body: profileViewSettingsSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
       }
-    }
 
-    const opportunity = await OpportunitiesService.getOpportunityById(opportunityId, userId);
+      const settings = await ProfileViewsService.setBrowseAnonymously(req.user.id, req.body.browseAnonymously);
 
-    res.json({
-      success: true,
-      data: opportunity,
-    });
-  } catch (error: any) {
-    if (error.message === 'Opportunité non trouvée') {
-      res.status(404).json({
-        success: false,
-        error: error.message,
+      res.json({
+        success: true,
+        message: settings.browseAnonymously ? 'Navigation anonyme activée' : 'Navigation anonyme désactivée',
+        data: settings,
+        timestamp: new Date().toISOString(),
       });
-    } else {
+    } catch (error) {
       res.status(500).json({
         success: false,
         error: error.message,
+        timestamp: new Date().toISOString(),
       });
     }
   }
-});
+);
 
-// Update opportunity
-app.put('/api/v1/opportunities/:opportunityId', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+// Who can see my email, phone, location and connections
+app.get('/api/v1/users/me/privacy', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
     if (!req.user) {
       res.status(401).json({
@@ -873,81 +1255,164 @@ app.put('/api/v1/opportunities/:opportunityId', authenticateToken, async (req: A
       return;
     }
 
-    const { opportunityId } = req.params;
-    const updateData = req.body;
-
-    // Convert date strings to Date objects if provided
-    if (updateData.deadline) updateData.deadline = new Date(updateData.deadline);
-    if (updateData.startDate) updateData.startDate = new Date(updateData.startDate);
-
-    const opportunity = await OpportunitiesService.updateOpportunity(opportunityId, req.user.id, updateData);
+    const settings = await PrivacyService.getSettings(req.user.id);
 
     res.json({
       success: true,
-      message: 'Opportunité mise à jour avec succès',
-      data: opportunity,
+      data: settings,
+      timestamp: new Date().toISOString(),
     });
   } catch (error: any) {
-    if (error.message === 'Opportunité non trouvée') {
-      res.status(404).json({
-        success: false,
-        error: error.message,
-      });
-    } else if (error.message === 'Non autorisé à modifier cette opportunité') {
-      res.status(403).json({
-        success: false,
-        error: error.message,
+    res.status(500).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+// Update privacy settings (public, members, connections or nobody)
+app.put('/api/v1/users/me/privacy',
+  authenticateToken,
+  validate({ body: updatePrivacySettingsSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
+
+      const settings = await PrivacyService.updateSettings(req.user.id, req.body);
+
+      await AuditService.logResourceAction(
+        AuditActions.PRIVACY_SETTINGS_UPDATE,
+        req.user.id,
+        'USER',
+        req.user.id,
+        req.body,
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.json({
+        success: true,
+        message: 'Réglages de confidentialité mis à jour',
+        data: settings,
+        timestamp: new Date().toISOString(),
       });
-    } else {
+    } catch (error: any) {
       res.status(500).json({
         success: false,
         error: error.message,
+        timestamp: new Date().toISOString(),
       });
     }
   }
-});
+);
 
-// Delete opportunity
-app.delete('/api/v1/opportunities/:opportunityId', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
-  try {
-    if (!req.user) {
-      res.status(401).json({
+// People you may know: ranked suggestions with the reasons behind each one
+app.get('/api/v1/users/me/recommendations',
+  authenticateToken,
+  validate({ query: recommendationFiltersSchema }),
+  async (req: AuthenticatedRequest<RecommendationFiltersData>, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
+
+      const result = await RecommendationsService.getRecommendations(req.user.id, req.query);
+
+      res.json({
+        success: true,
+        data: result.recommendations,
+        meta: result.meta,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      res.status(error.message === 'Utilisateur non trouvé' ? 404 : 500).json({
         success: false,
-        error: 'Utilisateur non authentifié',
+        error: error.message,
+        timestamp: new Date().toISOString(),
       });
-      return;
     }
+  }
+);
 
-    const { opportunityId } = req.params;
-    const result = await OpportunitiesService.deleteOpportunity(opportunityId, req.user.id);
+// Dismiss a suggestion (the member is no longer suggested)
+app.post('/api/v1/users/me/recommendations/:userId/dismiss',
+  authenticateToken,
+  validate({ params: userIdParamSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
 
-    res.json({
-      success: true,
-      message: 'Opportunité supprimée avec succès',
-      data: result,
-    });
-  } catch (error: any) {
-    if (error.message === 'Opportunité non trouvée') {
-      res.status(404).json({
-        success: false,
-        error: error.message,
+      await RecommendationsService.dismiss(req.user.id, req.params.userId);
+
+      res.json({
+        success: true,
+        message: 'Suggestion écartée',
+        timestamp: new Date().toISOString(),
       });
-    } else if (error.message === 'Non autorisé à supprimer cette opportunité') {
-      res.status(403).json({
+    } catch (error) {
+      let status = 500;
+      if (error.message === 'Utilisateur non trouvé') status = 404;
+      if (error.message === 'Vous ne pouvez pas écarter votre propre profil') status = 400;
+
+      res.status(status).json({
         success: false,
         error: error.message,
+        timestamp: new Date().toISOString(),
       });
-    } else {
-      res.status(500).json({
+    }
+  }
+);
+
+// Undo a dismissal (the member may be suggested again)
+app.delete('/api/v1/users/me/recommendations/:userId/dismiss',
+  authenticateToken,
+  validate({ params: userIdParamSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
+
+      await RecommendationsService.restore(req.user.id, req.params.userId);
+
+      res.json({
+        success: true,
+        message: 'Suggestion rétablie',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      res.status(error.message === 'Suggestion écartée non trouvée' ? 404 : 500).json({
         success: false,
         error: error.message,
+        timestamp: new Date().toISOString(),
       });
     }
   }
-});
+);
 
-// Apply to opportunity
-app.post('/api/v1/opportunities/:opportunityId/apply', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+// Saved searches: named filters on opportunities, events or resources with alerts on new matches
+app.get('/api/v1/users/me/saved-searches', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
     if (!req.user) {
       res.status(401).json({
@@ -957,94 +1422,276 @@ app.post('/api/v1/opportunities/:opportunityId/apply', authenticateToken, async
       return;
     }
 
-    const { opportunityId } = req.params;
-    const { coverLetter, proposedRate, availability } = req.body;
-
-    if (!coverLetter) {
-      res.status(400).json({
-        success: false,
-        error: 'Lettre de motivation requise',
-      });
-      return;
-    }
-
-    const application = await OpportunitiesService.applyToOpportunity(opportunityId, req.user.id, {
-      coverLetter, proposedRate, availability
-    });
+    const searches = await SavedSearchesService.listSavedSearches(req.user.id);
 
-    res.status(201).json({
+    res.json({
       success: true,
-      message: 'Candidature envoyée avec succès',
-      data: application,
+      data: searches,
+      timestamp: new Date().toISOString(),
     });
   } catch (error: any) {
-    if (error.message === 'Opportunité non trouvée') {
-      res.status(404).json({
+    res.status(500).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+app.post('/api/v1/users/me/saved-searches',
+  authenticateToken,
+  validate({ body: createSavedSearchSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
+
+      const search = await SavedSearchesService.createSavedSearch(req.user.id, req.body);
+
+      res.status(201).json({
+        success: true,
+        data: search,
+        message: 'Recherche sauvegardée',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      let status = 500;
+      if (error.message.startsWith('Nombre maximum de recherches sauvegardées')) status = 400;
+      else if (error.message === 'Une recherche sauvegardée porte déjà ce nom') status = 409;
+
+      res.status(status).json({
         success: false,
         error: error.message,
+        timestamp: new Date().toISOString(),
       });
-    } else if (error.message.includes('déjà postulé') || error.message.includes('propre opportunité') || error.message.includes('plus active')) {
-      res.status(400).json({
+    }
+  }
+);
+
+app.get('/api/v1/users/me/saved-searches/:searchId',
+  authenticateToken,
+  validate({ params: savedSearchIdParamSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
+
+      const search = await SavedSearchesService.getSavedSearch(req.user.id, req.params.searchId);
+
+      res.json({
+        success: true,
+        data: search,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      res.status(error.message === 'Recherche sauvegardée non trouvée' ? 404 : 500).json({
         success: false,
         error: error.message,
+        timestamp: new Date().toISOString(),
       });
-    } else {
-      res.status(500).json({
+    }
+  }
+);
+
+// Rename, change filters or frequency, pause or resume the alerts
+app.put('/api/v1/users/me/saved-searches/:searchId',
+  authenticateToken,
+  validate({ params: savedSearchIdParamSchema, body: updateSavedSearchSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
+
+      const data = { ...req.body };
+
+      // Les filtres dépendent du type de contenu de la recherche enregistrée
+      if (data.filters) {
+        const existing = await SavedSearchesService.getSavedSearch(req.user.id, req.params.searchId);
+        const filters = savedSearchFiltersSchemas[existing.target].safeParse(data.filters);
+        if (!filters.success) {
+          res.status(400).json({
+            success: false,
+            error: filters.error.issues[0]?.message,
+            timestamp: new Date().toISOString(),
+          });
+          return;
+        }
+        data.filters = filters.data;
+      }
+
+      const search = await SavedSearchesService.updateSavedSearch(req.user.id, req.params.searchId, data);
+
+      res.json({
+        success: true,
+        data: search,
+        message: 'Recherche sauvegardée mise à jour',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      let status = 500;
+      if (error.message === 'Recherche sauvegardée non trouvée') status = 404;
+      else if (error.message === 'Une recherche sauvegardée porte déjà ce nom') status = 409;
+
+      res.status(status).json({
         success: false,
         error: error.message,
+        timestamp: new Date().toISOString(),
       });
     }
   }
-});
+);
 
-// Get applications for an opportunity (for opportunity author)
-app.get('/api/v1/opportunities/:opportunityId/applications', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
-  try {
-    if (!req.user) {
-      res.status(401).json({
+app.delete('/api/v1/users/me/saved-searches/:searchId',
+  authenticateToken,
+  validate({ params: savedSearchIdParamSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
+
+      await SavedSearchesService.deleteSavedSearch(req.user.id, req.params.searchId);
+
+      res.json({
+        success: true,
+        message: 'Recherche sauvegardée supprimée',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      res.status(error.message === 'Recherche sauvegardée non trouvée' ? 404 : 500).json({
         success: false,
-        error: 'Utilisateur non authentifié',
+        error: error.message,
+        timestamp: new Date().toISOString(),
       });
-      return;
     }
+  }
+);
 
-    const { opportunityId } = req.params;
-    const { page = '1', limit = '10' } = req.query;
-
-    const pagination = {
-      page: parseInt(page as string),
-      limit: Math.min(parseInt(limit as string), 50),
-    };
+// Bookmarks: opportunities, events, resources and members saved for later
+app.get('/api/v1/users/me/bookmarks',
+  authenticateToken,
+  validate({ query: bookmarkFiltersSchema }),
+  async (req: AuthenticatedRequest<BookmarkFiltersData>, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
 
-    const result = await OpportunitiesService.getApplications(opportunityId, req.user.id, pagination);
+      const result = await BookmarksService.getBookmarks(req.user.id, req.query);
 
-    res.json({
-      success: true,
-      data: result.applications,
-      meta: result.meta,
-    });
-  } catch (error: any) {
-    if (error.message === 'Opportunité non trouvée') {
-      res.status(404).json({
+      res.json({
+        success: true,
+        data: result.bookmarks,
+        meta: result.meta,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      res.status(error.message === 'Collection non trouvée' ? 404 : 500).json({
         success: false,
         error: error.message,
+        timestamp: new Date().toISOString(),
       });
-    } else if (error.message === 'Non autorisé à voir les candidatures') {
-      res.status(403).json({
+    }
+  }
+);
+
+// Add an item to the bookmarks, or move it to another collection
+app.post('/api/v1/users/me/bookmarks',
+  authenticateToken,
+  validate({ body: addBookmarkSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
+
+      const bookmark = await BookmarksService.addBookmark(req.user.id, req.body);
+
+      res.status(201).json({
+        success: true,
+        data: bookmark,
+        message: 'Ajouté aux favoris',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      let status = 500;
+      if ([
+        'Opportunité non trouvée',
+        'Événement non trouvé',
+        'Ressource non trouvée',
+        'Utilisateur non trouvé',
+        'Collection non trouvée',
+      ].includes(error.message)) status = 404;
+      else if (error.message === 'Vous ne pouvez pas ajouter votre propre profil à vos favoris') status = 400;
+
+      res.status(status).json({
         success: false,
         error: error.message,
+        timestamp: new Date().toISOString(),
       });
-    } else {
-      res.status(500).json({
+    }
+  }
+);
+
+app.delete('/api/v1/users/me/bookmarks/:targetType/:targetId',
+  authenticateToken,
+  validate({ params: bookmarkParamsSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
+
+      await BookmarksService.removeBookmark(req.user.id, req.params.targetType as BookmarkTarget, req.params.targetId);
+
+      res.json({
+        success: true,
+        message: 'Retiré des favoris',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      res.status(error.message === 'Favori non trouvé' ? 404 : 500).json({
         success: false,
         error: error.message,
+        timestamp: new Date().toISOString(),
       });
     }
   }
-});
+);
 
-// Get user's applications
-app.get('/api/v1/applications/my', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+// Private bookmark collections (with the number of unsorted bookmarks)
+app.get('/api/v1/users/me/bookmark-collections', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
     if (!req.user) {
       res.status(401).json({
@@ -1054,195 +1701,125 @@ app.get('/api/v1/applications/my', authenticateToken, async (req: AuthenticatedR
       return;
     }
 
-    const { page = '1', limit = '10' } = req.query;
-
-    const pagination = {
-      page: parseInt(page as string),
-      limit: Math.min(parseInt(limit as string), 50),
-    };
-
-    const result = await OpportunitiesService.getUserApplications(req.user.id, pagination);
+    const result = await BookmarksService.getCollections(req.user.id);
 
     res.json({
       success: true,
-      data: result.applications,
-      meta: result.meta,
+      data: result,
+      timestamp: new Date().toISOString(),
     });
-  } catch (error: any) {
+  } catch (error) {
     res.status(500).json({
       success: false,
       error: error.message,
+      timestamp: new Date().toISOString(),
     });
   }
 });
 
-// ==================== RESOURCES ENDPOINTS ====================
+app.post('/api/v1/users/me/bookmark-collections',
+  authenticateToken,
+  validate({ body: createBookmarkCollectionSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
 
-// Create resource
-app.post('/api/v1/resources', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
-  try {
-    if (!req.user) {
-      res.status(401).json({
-        success: false,
-        error: 'Utilisateur non authentifié',
-      });
-      return;
-    }
+      const collection = await BookmarksService.createCollection(req.user.id, req.body);
 
-    const { title, description, content, url, thumbnail, type, author, tags, isPremium } = req.body;
+      res.status(201).json({
+        success: true,
+        data: collection,
+        message: 'Collection créée',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      let status = 500;
+      if (error.message.startsWith('Nombre maximum de collections')) status = 400;
+      else if (error.message === 'Une collection porte déjà ce nom') status = 409;
 
-    if (!title || !description || !type || !author) {
-      res.status(400).json({
+      res.status(status).json({
         success: false,
-        error: 'Titre, description, type et auteur sont requis',
+        error: error.message,
+        timestamp: new Date().toISOString(),
       });
-      return;
     }
-
-    // Get user info to use as default author
-    const user = await UsersService.getUserById(req.user.id);
-    
-    const resource = await ResourcesService.createResource({
-      title, description, content, url, thumbnail, type, author: author || user.name, tags, isPremium
-    });
-
-    res.status(201).json({
-      success: true,
-      message: 'Ressource créée avec succès',
-      data: resource,
-    });
-  } catch (error: any) {
-    res.status(400).json({
-      success: false,
-      error: error.message,
-    });
-  }
-});
-
-// Get resources
-app.get('/api/v1/resources', async (req: Request, res: Response) => {
-  try {
-    const {
-      page = '1',
-      limit = '10',
-      type,
-      status,
-      category,
-      search,
-      authorId,
-      tags,
-    } = req.query;
-
-    const filters = {
-      type: type as string,
-      author: authorId as string,
-      search: search as string,
-      tags: tags as string,
-      isPremium: category === 'premium' ? true : category === 'free' ? false : undefined,
-    };
-
-    const pagination = {
-      page: parseInt(page as string),
-      limit: Math.min(parseInt(limit as string), 50),
-      sortBy: 'createdAt',
-      sortOrder: 'desc' as 'desc',
-    };
-
-    const result = await ResourcesService.getResources(filters, pagination);
-
-    res.json({
-      success: true,
-      data: result.resources,
-      meta: result.meta,
-    });
-  } catch (error: any) {
-    res.status(500).json({
-      success: false,
-      error: error.message,
-    });
   }
-});
+);
 
-// Get resource by ID
-app.get('/api/v1/resources/:resourceId', async (req: Request, res: Response) => {
-  try {
-    const { resourceId } = req.params;
-    let userId: string | undefined;
-    if (req.headers.authorization) {
-      const token = SimpleJWTService.extractTokenFromHeader(req.headers.authorization);
-      if (token) {
-        const payload = SimpleJWTService.verifyAccessToken(token);
-        userId = payload?.userId;
+app.put('/api/v1/users/me/bookmark-collections/:collectionId',
+  authenticateToken,
+  validate({ params: bookmarkCollectionIdParamSchema, body: updateBookmarkCollectionSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
       }
-    }
 
-    const resource = await ResourcesService.getResourceById(resourceId, userId ? true : false);
+      const collection = await BookmarksService.updateCollection(req.user.id, req.params.collectionId, req.body);
 
-    res.json({
-      success: true,
-      data: resource,
-    });
-  } catch (error: any) {
-    if (error.message === 'Ressource non trouvée') {
-      res.status(404).json({
-        success: false,
-        error: error.message,
+      res.json({
+        success: true,
+        data: collection,
+        message: 'Collection mise à jour',
+        timestamp: new Date().toISOString(),
       });
-    } else {
-      res.status(500).json({
+    } catch (error) {
+      let status = 500;
+      if (error.message === 'Collection non trouvée') status = 404;
+      else if (error.message === 'Une collection porte déjà ce nom') status = 409;
+
+      res.status(status).json({
         success: false,
         error: error.message,
+        timestamp: new Date().toISOString(),
       });
     }
   }
-});
-
-// Update resource
-app.put('/api/v1/resources/:resourceId', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
-  try {
-    if (!req.user) {
-      res.status(401).json({
-        success: false,
-        error: 'Utilisateur non authentifié',
-      });
-      return;
-    }
+);
 
-    const { resourceId } = req.params;
-    const updateData = req.body;
+// Delete a collection; its bookmarks are kept as unsorted
+app.delete('/api/v1/users/me/bookmark-collections/:collectionId',
+  authenticateToken,
+  validate({ params: bookmarkCollectionIdParamSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
 
-    // Get user info for authorization
-    const user = await UsersService.getUserById(req.user.id);
-    
-    const resource = await ResourcesService.updateResource(resourceId, user.name, updateData);
+      await BookmarksService.deleteCollection(req.user.id, req.params.collectionId);
 
-    res.json({
-      success: true,
-      message: 'Ressource mise à jour avec succès',
-      data: resource,
-    });
-  } catch (error: any) {
-    if (error.message === 'Ressource non trouvée') {
-      res.status(404).json({
-        success: false,
-        error: error.message,
-      });
-    } else if (error.message === 'Non autorisé à modifier cette ressource') {
-      res.status(403).json({
-        success: false,
-        error: error.message,
+      res.json({
+        success: true,
+        message: 'Collection supprimée',
+        timestamp: new Date().toISOString(),
       });
-    } else {
-      res.status(500).json({
+    } catch (error) {
+      res.status(error.message === 'Collection non trouvée' ? 404 : 500).json({
         success: false,
         error: error.message,
+        timestamp: new Date().toISOString(),
       });
     }
   }
-});
+);
 
-// Delete resource
-app.delete('/api/v1/resources/:resourceId', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+// Recent sign-in attempts on the current account
+app.get('/api/v1/auth/login-history', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
     if (!req.user) {
       res.status(401).json({
@@ -1252,54 +1829,11 @@ app.delete('/api/v1/resources/:resourceId', authenticateToken, async (req: Authe
       return;
     }
 
-    const { resourceId } = req.params;
-    // Get user info for authorization
-    const user = await UsersService.getUserById(req.user.id);
-    
-    const result = await ResourcesService.deleteResource(resourceId, user.name);
-
-    res.json({
-      success: true,
-      message: 'Ressource supprimée avec succès',
-      data: result,
-    });
-  } catch (error: any) {
-    if (error.message === 'Ressource non trouvée') {
-      res.status(404).json({
-        success: false,
-        error: error.message,
-      });
-    } else if (error.message === 'Non autorisé à supprimer cette ressource') {
-      res.status(403).json({
-        success: false,
-        error: error.message,
-      });
-    } else {
-      res.status(500).json({
-        success: false,
-        error: error.message,
-      });
-    }
-  }
-});
-
-// Get resources by author
-app.get('/api/v1/resources/author/:authorName', async (req: Request, res: Response) => {
-  try {
-    const { authorName } = req.params;
-    const { page = '1', limit = '10' } = req.query;
-
-    const pagination = {
-      page: parseInt(page as string),
-      limit: Math.min(parseInt(limit as string), 50),
-    };
-
-    const result = await ResourcesService.getResourcesByAuthor(authorName, pagination);
+    const history = await LoginProtectionService.getLoginHistory(req.user.id);
 
     res.json({
       success: true,
-      data: result.resources,
-      meta: result.meta,
+      data: history,
     });
   } catch (error: any) {
     res.status(500).json({
@@ -1309,22 +1843,24 @@ app.get('/api/v1/resources/author/:authorName', async (req: Request, res: Respon
   }
 });
 
-// Get popular resources
-app.get('/api/v1/resources/popular', async (req: Request, res: Response) => {
-  try {
-    const { page = '1', limit = '10' } = req.query;
+// ==================== TWO-FACTOR AUTHENTICATION ENDPOINTS ====================
 
-    const pagination = {
-      page: parseInt(page as string),
-      limit: Math.min(parseInt(limit as string), 50),
-    };
+// Get 2FA status
+app.get('/api/v1/auth/2fa', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
 
-    const result = await ResourcesService.getPopularResources(pagination);
+    const status = await TwoFactorService.getStatus(req.user.id, profileTypeSchema.parse(req.user.profileType));
 
     res.json({
       success: true,
-      data: result.resources,
-      meta: result.meta,
+      data: status,
     });
   } catch (error: any) {
     res.status(500).json({
@@ -1334,10 +1870,8 @@ app.get('/api/v1/resources/popular', async (req: Request, res: Response) => {
   }
 });
 
-// ==================== EVENTS ENDPOINTS ====================
-
-// Create event
-app.post('/api/v1/events', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+// Start 2FA enrollment (returns secret and otpauth:// URI for the QR code)
+app.post('/api/v1/auth/2fa/setup', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
     if (!req.user) {
       res.status(401).json({
@@ -1347,32 +1881,12 @@ app.post('/api/v1/events', authenticateToken, async (req: AuthenticatedRequest,
       return;
     }
 
-    const { title, description, type, startDate, endDate, location, isOnline, meetingUrl, maxAttendees, price, organizer, organizerContact } = req.body;
-
-    if (!title || !description || !type || !startDate) {
-      res.status(400).json({
-        success: false,
-        error: 'Titre, description, type et date de début sont requis',
-      });
-      return;
-    }
-
-    // Get user info to use as default organizer
-    const user = await UsersService.getUserById(req.user.id);
-    
-    const event = await EventsService.createEvent({
-      title, description, type,
-      startDate: new Date(startDate),
-      endDate: endDate ? new Date(endDate) : undefined,
-      location, isOnline, meetingUrl, maxAttendees, price,
-      organizer: organizer || user.name,
-      organizerContact
-    });
+    const setup = await TwoFactorService.beginSetup(req.user.id);
 
-    res.status(201).json({
+    res.json({
       success: true,
-      message: 'Événement créé avec succès',
-      data: event,
+      message: 'Scannez le QR code puis saisissez le code affiché',
+      data: setup,
     });
   } catch (error: any) {
     res.status(400).json({
@@ -1382,302 +1896,4348 @@ app.post('/api/v1/events', authenticateToken, async (req: AuthenticatedRequest,
   }
 });
 
-// Get events
-app.get('/api/v1/events', async (req: Request, res: Response) => {
-  try {
-    const {
-      page = '1',
-      limit = '10',
-      type,
-      status,
-      isOnline,
-      location,
-      upcoming,
-      search,
-      organizerId,
-      tags,
-    } = req.query;
-
-    const filters = {
-      type: type as string,
-      status: status as string,
-      isOnline: isOnline === 'true' ? true : isOnline === 'false' ? false : undefined,
-      location: location as string,
-      upcoming: upcoming === 'true',
+// Confirm enrollment with a first code
+app.post('/api/v1/auth/2fa/enable',
+  authenticateToken,
+  validate({ body: twoFactorCodeSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
+
+      const result = await TwoFactorService.confirmSetup(req.user.id, req.body.code);
+
+      await AuditService.logResourceAction(
+        AuditActions.TWO_FACTOR_ENABLE,
+        req.user.id,
+        'AUTH',
+        req.user.id,
+        undefined,
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.json({
+        success: true,
+        message: 'Double authentification activée. Conservez vos codes de secours en lieu sûr.',
+        data: result,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+);
+
+// Disable 2FA (password and current code required)
+app.post('/api/v1/auth/2fa/disable',
+  authenticateToken,
+  validate({ body: disableTwoFactorSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
+
+      const { password, code } = req.body;
+      await TwoFactorService.disable(req.user.id, password, code);
+
+      await AuditService.logResourceAction(
+        AuditActions.TWO_FACTOR_DISABLE,
+        req.user.id,
+        'AUTH',
+        req.user.id,
+        undefined,
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.json({
+        success: true,
+        message: 'Double authentification désactivée',
+      });
+    } catch (error: any) {
+      if (error.message === 'La double authentification est obligatoire pour votre type de profil') {
+        res.status(403).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+);
+
+// Regenerate recovery codes (invalidates the previous ones)
+app.post('/api/v1/auth/2fa/recovery-codes',
+  authenticateToken,
+  validate({ body: twoFactorCodeSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
+
+      const result = await TwoFactorService.regenerateRecoveryCodes(req.user.id, req.body.code);
+
+      res.json({
+        success: true,
+        message: 'Nouveaux codes de secours générés',
+        data: result,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+);
+
+// List 2FA requirements per profile type (admin only)
+app.get('/api/v1/auth/2fa/policies',
+  authenticateToken,
+  requirePermission(Permission.SECURITY_MANAGE),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const policies = await TwoFactorService.getPolicies();
+
+      res.json({
+        success: true,
+        data: policies,
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+);
+
+// Require or relax 2FA for a profile type (admin only)
+app.put('/api/v1/auth/2fa/policies/:profileType',
+  authenticateToken,
+  requirePermission(Permission.SECURITY_MANAGE),
+  validate({ params: profileTypeParamSchema, body: twoFactorPolicySchema }),
+  async (req: AuthenticatedRequest<{}, ProfileTypeParamData>, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
+
+      const { profileType } = req.params;
+      const policy = await TwoFactorService.setPolicy(profileType, req.body.required, req.user.id);
+
+      await AuditService.logAdminAction(
+        AuditActions.ADMIN_ACTION,
+        req.user.id,
+        'TWO_FACTOR_POLICY',
+        profileType,
+        { required: req.body.required },
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.json({
+        success: true,
+        message: 'Politique de double authentification mise à jour',
+        data: policy,
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+);
+
+// ==================== CONNECTIONS ENDPOINTS ====================
+
+// Send a connection request
+app.post('/api/v1/connections',
+  generalRateLimit,
+  authenticateToken,
+  validate({ body: sendConnectionRequestSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
+
+      const { targetId, message } = req.body;
+      const connection = await ConnectionsService.sendRequest(req.user.id, targetId, message);
+
+      await AuditService.logResourceAction(
+        AuditActions.CONNECTION_REQUEST,
+        req.user.id,
+        'CONNECTION',
+        connection.id,
+        { targetId },
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Demande de connexion envoyée',
+        data: connection,
+      });
+    } catch (error: any) {
+      if (error.message === 'Utilisateur non trouvé') {
+        res.status(404).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+);
+
+// Get accepted network with mutual connection counts
+app.get('/api/v1/connections',
+  authenticateToken,
+  validate({ query: paginationSchema.merge(connectionFiltersSchema) }),
+  async (req: AuthenticatedRequest<PaginationData & ConnectionFiltersData>, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
+
+      const { page, limit, search, profileType } = req.query;
+      const result = await ConnectionsService.getConnections(req.user.id, { search, profileType }, { page, limit });
+
+      res.json({
+        success: true,
+        data: result.connections,
+        meta: result.meta,
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+);
+
+// Get pending requests received
+app.get('/api/v1/connections/requests/incoming',
+  authenticateToken,
+  validate({ query: paginationSchema }),
+  async (req: AuthenticatedRequest<PaginationData>, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
+
+      const { page, limit } = req.query;
+      const result = await ConnectionsService.getIncomingRequests(req.user.id, { page, limit });
+
+      res.json({
+        success: true,
+        data: result.requests,
+        meta: result.meta,
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+);
+
+// Get pending requests sent
+app.get('/api/v1/connections/requests/outgoing',
+  authenticateToken,
+  validate({ query: paginationSchema }),
+  async (req: AuthenticatedRequest<PaginationData>, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
+
+      const { page, limit } = req.query;
+      const result = await ConnectionsService.getOutgoingRequests(req.user.id, { page, limit });
+
+      res.json({
+        success: true,
+        data: result.requests,
+        meta: result.meta,
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+);
+
+// Get blocked users
+app.get('/api/v1/connections/blocked',
+  authenticateToken,
+  validate({ query: paginationSchema }),
+  async (req: AuthenticatedRequest<PaginationData>, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
+
+      const { page, limit } = req.query;
+      const result = await ConnectionsService.getBlockedUsers(req.user.id, { page, limit });
+
+      res.json({
+        success: true,
+        data: result.blocked,
+        meta: result.meta,
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+);
+
+// Get connection status with another user
+app.get('/api/v1/connections/status/:userId',
+  authenticateToken,
+  validate({ params: userIdParamSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
+
+      const status = await ConnectionsService.getConnectionStatus(req.user.id, req.params.userId);
+
+      res.json({
+        success: true,
+        data: status,
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+);
+
+// Get mutual connections with another user
+app.get('/api/v1/connections/mutual/:userId',
+  authenticateToken,
+  validate({ params: userIdParamSchema, query: paginationSchema }),
+  async (req: AuthenticatedRequest<PaginationData>, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
+
+      const { page, limit } = req.query;
+      const result = await ConnectionsService.getMutualConnections(req.user.id, req.params.userId, { page, limit });
+
+      res.json({
+        success: true,
+        data: result.users,
+        meta: result.meta,
+      });
+    } catch (error: any) {
+      res.status(error.message === 'Les relations de ce membre sont privées' ? 403 : 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+);
+
+// Accept a connection request
+app.put('/api/v1/connections/:connectionId/accept',
+  authenticateToken,
+  validate({ params: connectionIdParamSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
+
+      const { connectionId } = req.params;
+      const connection = await ConnectionsService.acceptRequest(connectionId, req.user.id);
+
+      await AuditService.logResourceAction(
+        AuditActions.CONNECTION_ACCEPT,
+        req.user.id,
+        'CONNECTION',
+        connectionId,
+        { requesterId: connection.requesterId },
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.json({
+        success: true,
+        message: 'Demande de connexion acceptée',
+        data: connection,
+      });
+    } catch (error: any) {
+      if (error.message === 'Demande de connexion non trouvée') {
+        res.status(404).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+);
+
+// Reject a connection request
+app.put('/api/v1/connections/:connectionId/reject',
+  authenticateToken,
+  validate({ params: connectionIdParamSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
+
+      const { connectionId } = req.params;
+      const connection = await ConnectionsService.rejectRequest(connectionId, req.user.id);
+
+      await AuditService.logResourceAction(
+        AuditActions.CONNECTION_REJECT,
+        req.user.id,
+        'CONNECTION',
+        connectionId,
+        { requesterId: connection.requesterId },
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.json({
+        success: true,
+        message: 'Demande de connexion refusée',
+      });
+    } catch (error: any) {
+      if (error.message === 'Demande de connexion non trouvée') {
+        res.status(404).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+);
+
+// Withdraw a pending request (requester) or remove an accepted connection (either side)
+app.delete('/api/v1/connections/:connectionId',
+  authenticateToken,
+  validate({ params: connectionIdParamSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
+
+      const { connectionId } = req.params;
+      const { withdrawn } = await ConnectionsService.deleteConnection(connectionId, req.user.id);
+
+      await AuditService.logResourceAction(
+        withdrawn ? AuditActions.CONNECTION_WITHDRAW : AuditActions.CONNECTION_REMOVE,
+        req.user.id,
+        'CONNECTION',
+        connectionId,
+        undefined,
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.json({
+        success: true,
+        message: withdrawn ? 'Demande de connexion retirée' : 'Connexion supprimée',
+      });
+    } catch (error: any) {
+      if (error.message === 'Demande de connexion non trouvée' || error.message === 'Connexion non trouvée') {
+        res.status(404).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+);
+
+// Block a user
+app.post('/api/v1/connections/block/:userId',
+  authenticateToken,
+  validate({ params: userIdParamSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
+
+      const { userId } = req.params;
+      const connection = await ConnectionsService.blockUser(req.user.id, userId);
+
+      await AuditService.logResourceAction(
+        AuditActions.CONNECTION_BLOCK,
+        req.user.id,
+        'CONNECTION',
+        connection.id,
+        { blockedUserId: userId },
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.json({
+        success: true,
+        message: 'Utilisateur bloqué',
+      });
+    } catch (error: any) {
+      if (error.message === 'Utilisateur non trouvé') {
+        res.status(404).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+);
+
+// Unblock a user
+app.delete('/api/v1/connections/block/:userId',
+  authenticateToken,
+  validate({ params: userIdParamSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
+
+      const { userId } = req.params;
+      await ConnectionsService.unblockUser(req.user.id, userId);
+
+      await AuditService.logResourceAction(
+        AuditActions.CONNECTION_UNBLOCK,
+        req.user.id,
+        'CONNECTION',
+        userId,
+        undefined,
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.json({
+        success: true,
+        message: 'Utilisateur débloqué',
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+);
+
+// ==================== MESSAGING ENDPOINTS ====================
+
+// Send message with validation and rate limiting
+app.post('/api/v1/messages', 
+  messageRateLimit,
+  authenticateToken, 
+  requireVerifiedEmail,
+  validate({ body: sendMessageSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const messageData = req.body;
+      const message = await SimpleMessagingService.sendMessage(req.user.id, messageData);
+
+      // Log message sending for audit
+      await AuditService.logResourceAction(
+        AuditActions.MESSAGE_SEND,
+        req.user.id,
+        'MESSAGE',
+        message.id,
+        { recipientId: messageData.recipientId, type: messageData.type },
+        req.ip,
+        req.get('User-Agent')
+      );
+
+    res.status(201).json({
+      success: true,
+      message: 'Message envoyé avec succès',
+      data: message,
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+// Get received messages
+app.get('/api/v1/messages/received', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    const {
+      page = '1',
+      limit = '10',
+      type,
+      status,
+      search,
+    } = req.query;
+
+    const filters = { type: type as string, status: status as string, search: search as string };
+    const pagination = {
+      page: parseInt(page as string),
+      limit: Math.min(parseInt(limit as string), 50),
+      sortBy: 'createdAt',
+      sortOrder: 'desc' as 'desc',
+    };
+
+    const result = await SimpleMessagingService.getMessages(req.user.id, filters, pagination, 'received');
+
+    res.json({
+      success: true,
+      data: result.messages,
+      meta: result.meta,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+// Get sent messages
+app.get('/api/v1/messages/sent', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    const {
+      page = '1',
+      limit = '10',
+      type,
+      status,
+      search,
+    } = req.query;
+
+    const filters = { type: type as string, status: status as string, search: search as string };
+    const pagination = {
+      page: parseInt(page as string),
+      limit: Math.min(parseInt(limit as string), 50),
+      sortBy: 'createdAt',
+      sortOrder: 'desc' as 'desc',
+    };
+
+    const result = await SimpleMessagingService.getMessages(req.user.id, filters, pagination, 'sent');
+
+    res.json({
+      success: true,
+      data: result.messages,
+      meta: result.meta,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+// Get conversations
+app.get('/api/v1/messages/conversations', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    const {
+      page = '1',
+      limit = '20',
+    } = req.query;
+
+    const pagination = {
+      page: parseInt(page as string),
+      limit: Math.min(parseInt(limit as string), 50),
+    };
+
+    const result = await SimpleMessagingService.getConversations(req.user.id, pagination);
+
+    res.json({
+      success: true,
+      data: result.conversations,
+      meta: result.meta,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+// Get message by ID
+app.get('/api/v1/messages/:messageId', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    const { messageId } = req.params;
+    const message = await SimpleMessagingService.getMessageById(messageId, req.user.id);
+
+    res.json({
+      success: true,
+      data: message,
+    });
+  } catch (error: any) {
+    if (error.message === 'Message non trouvé') {
+      res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+});
+
+// Mark message as read
+app.put('/api/v1/messages/:messageId/read', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    const { messageId } = req.params;
+    const message = await SimpleMessagingService.markAsRead(messageId, req.user.id);
+
+    res.json({
+      success: true,
+      message: 'Message marqué comme lu',
+      data: message,
+    });
+  } catch (error: any) {
+    if (error.message === 'Message non trouvé') {
+      res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+});
+
+// Delete message
+app.delete('/api/v1/messages/:messageId', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    const { messageId } = req.params;
+    const result = await SimpleMessagingService.deleteMessage(messageId, req.user.id);
+
+    res.json({
+      success: true,
+      message: 'Message supprimé avec succès',
+      data: result,
+    });
+  } catch (error: any) {
+    if (error.message === 'Message non trouvé') {
+      res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+});
+
+// Get unread count
+app.get('/api/v1/messages/unread/count', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    const result = await SimpleMessagingService.getUnreadCount(req.user.id);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+// ==================== OPPORTUNITIES ENDPOINTS ====================
+
+// Create opportunity
+app.post('/api/v1/opportunities', authenticateToken, requireVerifiedEmail, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    const { title, description, type, budget, amount, location, remote, deadline, startDate, skills, experience, organizationId } = req.body;
+
+    if (!title || !description || !type) {
+      res.status(400).json({
+        success: false,
+        error: 'Titre, description et type sont requis',
+      });
+      return;
+    }
+
+    const opportunity = await OpportunitiesService.createOpportunity(req.user.id, {
+      title, description, type, budget, amount, location, remote,
+      deadline: deadline ? new Date(deadline) : undefined,
+      startDate: startDate ? new Date(startDate) : undefined,
+      skills, experience, organizationId
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Opportunité créée avec succès',
+      data: opportunity,
+    });
+  } catch (error: any) {
+    res.status(error.message === 'Vous devez être membre de l\'organisation pour publier en son nom' ? 403 : 400).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+// Get opportunities
+app.get('/api/v1/opportunities', optionalAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const {
+      page = '1',
+      limit = '10',
+      type,
+      status,
+      location,
+      remote,
+      skills,
+      search,
+      authorId,
+      organizationId,
+    } = req.query;
+
+    const geo = geoFiltersSchema.safeParse(req.query);
+    if (!geo.success) {
+      res.status(400).json({
+        success: false,
+        error: geo.error.issues[0]?.message,
+      });
+      return;
+    }
+
+    const filters = {
+      type: type as string,
+      status: status as string,
+      location: location as string,
+      remote: remote === 'true' ? true : remote === 'false' ? false : undefined,
+      skills: skills as string,
+      search: search as string,
+      authorId: authorId as string,
+      organizationId: organizationId as string,
+      ...geo.data,
+    };
+
+    const pagination = {
+      page: parseInt(page as string),
+      limit: Math.min(parseInt(limit as string), 50),
+      sortBy: 'createdAt',
+      sortOrder: 'desc' as 'desc',
+    };
+
+    const result = await OpportunitiesService.getOpportunities(filters, pagination, req.user?.id);
+
+    res.json({
+      success: true,
+      data: result.opportunities,
+      meta: result.meta,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+// Get opportunity by ID
+app.get('/api/v1/opportunities/:opportunityId', optionalAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { opportunityId } = req.params;
+    const userId = req.user?.id;
+
+    const opportunity = await OpportunitiesService.getOpportunityById(opportunityId, userId);
+
+    res.json({
+      success: true,
+      data: opportunity,
+    });
+  } catch (error: any) {
+    if (error.message === 'Opportunité non trouvée') {
+      res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+});
+
+// Update opportunity
+app.put('/api/v1/opportunities/:opportunityId', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    const { opportunityId } = req.params;
+    const updateData = req.body;
+
+    // Convert date strings to Date objects if provided
+    if (updateData.deadline) updateData.deadline = new Date(updateData.deadline);
+    if (updateData.startDate) updateData.startDate = new Date(updateData.startDate);
+
+    const opportunity = await OpportunitiesService.updateOpportunity(
+      opportunityId,
+      req.user.id,
+      updateData,
+      await RolesService.hasPermission(req.user, Permission.OPPORTUNITIES_MODERATE)
+    );
+
+    res.json({
+      success: true,
+      message: 'Opportunité mise à jour avec succès',
+      data: opportunity,
+    });
+  } catch (error: any) {
+    if (error.message === 'Opportunité non trouvée') {
+      res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    } else if (error.message === 'Non autorisé à modifier cette opportunité') {
+      res.status(403).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+});
+
+// Delete opportunity
+app.delete('/api/v1/opportunities/:opportunityId', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    const { opportunityId } = req.params;
+    const result = await OpportunitiesService.deleteOpportunity(
+      opportunityId,
+      req.user.id,
+      await RolesService.hasPermission(req.user, Permission.OPPORTUNITIES_MODERATE)
+    );
+
+    res.json({
+      success: true,
+      message: 'Opportunité supprimée avec succès',
+      data: result,
+    });
+  } catch (error: any) {
+    if (error.message === 'Opportunité non trouvée') {
+      res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    } else if (error.message === 'Non autorisé à supprimer cette opportunité') {
+      res.status(403).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+});
+
+// Apply to opportunity
+app.post('/api/v1/opportunities/:opportunityId/apply', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    const { opportunityId } = req.params;
+    const { coverLetter, proposedRate, availability } = req.body;
+
+    if (!coverLetter) {
+      res.status(400).json({
+        success: false,
+        error: 'Lettre de motivation requise',
+      });
+      return;
+    }
+
+    const application = await OpportunitiesService.applyToOpportunity(opportunityId, req.user.id, {
+      coverLetter, proposedRate, availability
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Candidature envoyée avec succès',
+      data: application,
+    });
+  } catch (error: any) {
+    if (error.message === 'Opportunité non trouvée') {
+      res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    } else if (error.message.includes('déjà postulé') || error.message.includes('propre opportunité') || error.message.includes('plus active')) {
+      res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+});
+
+// Get applications for an opportunity (for opportunity author)
+app.get('/api/v1/opportunities/:opportunityId/applications', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    const { opportunityId } = req.params;
+    const { page = '1', limit = '10' } = req.query;
+
+    const pagination = {
+      page: parseInt(page as string),
+      limit: Math.min(parseInt(limit as string), 50),
+    };
+
+    const result = await OpportunitiesService.getApplications(opportunityId, req.user.id, pagination);
+
+    res.json({
+      success: true,
+      data: result.applications,
+      meta: result.meta,
+    });
+  } catch (error: any) {
+    if (error.message === 'Opportunité non trouvée') {
+      res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    } else if (error.message === 'Non autorisé à voir les candidatures') {
+      res.status(403).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+});
+
+// Accept or reject an application (for opportunity author)
+app.put('/api/v1/opportunities/:opportunityId/applications/:applicationId/status',
+  authenticateToken,
+  validate({ params: applicationParamsSchema, body: updateApplicationStatusSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
+
+      const { opportunityId, applicationId } = req.params;
+      const { status } = req.body;
+
+      const application = await OpportunitiesService.updateApplicationStatus(opportunityId, applicationId, req.user.id, status);
+
+      await AuditService.logResourceAction(
+        AuditActions.APPLICATION_UPDATE,
+        req.user.id,
+        'APPLICATION',
+        applicationId,
+        { opportunityId, status },
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.json({
+        success: true,
+        message: 'Statut de la candidature mis à jour',
+        data: application,
+      });
+    } catch (error: any) {
+      if (error.message === 'Candidature non trouvée') {
+        res.status(404).json({
+          success: false,
+          error: error.message,
+        });
+      } else if (error.message === 'Non autorisé à modifier cette candidature') {
+        res.status(403).json({
+          success: false,
+          error: error.message,
+        });
+      } else if (error.message === 'Cette candidature a été retirée') {
+        res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+);
+
+// Get user's applications
+app.get('/api/v1/applications/my', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    const { page = '1', limit = '10' } = req.query;
+
+    const pagination = {
+      page: parseInt(page as string),
+      limit: Math.min(parseInt(limit as string), 50),
+    };
+
+    const result = await OpportunitiesService.getUserApplications(req.user.id, pagination);
+
+    res.json({
+      success: true,
+      data: result.applications,
+      meta: result.meta,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+// ==================== RESOURCES ENDPOINTS ====================
+
+// Create resource
+app.post('/api/v1/resources', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    const { title, description, content, url, thumbnail, type, author, tags, isPremium, organizationId } = req.body;
+
+    // Au nom d'une organisation, l'auteur par défaut est l'organisation
+    if (!title || !description || !type || (!author && !organizationId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Titre, description, type et auteur sont requis',
+      });
+      return;
+    }
+
+    // Get user info to use as default author
+    const user = await UsersService.getUserById(req.user.id);
+    
+    const resource = await ResourcesService.createResource({
+      title, description, content, url, thumbnail, type,
+      author: author || (organizationId ? undefined : user.name),
+      tags, isPremium, organizationId,
+      creatorId: req.user.id,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Ressource créée avec succès',
+      data: resource,
+    });
+  } catch (error: any) {
+    res.status(error.message === 'Vous devez être membre de l\'organisation pour publier en son nom' ? 403 : 400).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+// Get resources
+app.get('/api/v1/resources', optionalAuth, async (req: Request, res: Response) => {
+  try {
+    const {
+      page = '1',
+      limit = '10',
+      type,
+      status,
+      category,
+      search,
+      authorId,
+      tags,
+      organizationId,
+    } = req.query;
+
+    const filters = {
+      type: type as string,
+      author: authorId as string,
+      search: search as string,
+      tags: tags as string,
+      isPremium: category === 'premium' ? true : category === 'free' ? false : undefined,
+      organizationId: organizationId as string,
+    };
+
+    const pagination = {
+      page: parseInt(page as string),
+      limit: Math.min(parseInt(limit as string), 50),
+      sortBy: 'createdAt',
+      sortOrder: 'desc' as 'desc',
+    };
+
+    const result = await ResourcesService.getResources(filters, pagination);
+
+    res.json({
+      success: true,
+      data: result.resources,
+      meta: result.meta,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+// Get resource by ID
+app.get('/api/v1/resources/:resourceId', optionalAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { resourceId } = req.params;
+    const userId = req.user?.id;
+
+    const resource = await ResourcesService.getResourceById(resourceId, userId ? true : false, userId);
+
+    res.json({
+      success: true,
+      data: resource,
+    });
+  } catch (error: any) {
+    if (error.message === 'Ressource non trouvée') {
+      res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+});
+
+// Update resource
+app.put('/api/v1/resources/:resourceId', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    const { resourceId } = req.params;
+    const updateData = req.body;
+
+    // Get user info for authorization
+    const user = await UsersService.getUserById(req.user.id);
+    
+    const resource = await ResourcesService.updateResource(
+      resourceId,
+      user.name,
+      updateData,
+      await RolesService.hasPermission(req.user, Permission.RESOURCES_MODERATE),
+      req.user.id
+    );
+
+    res.json({
+      success: true,
+      message: 'Ressource mise à jour avec succès',
+      data: resource,
+    });
+  } catch (error: any) {
+    if (error.message === 'Ressource non trouvée') {
+      res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    } else if (error.message === 'Non autorisé à modifier cette ressource') {
+      res.status(403).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+});
+
+// Delete resource
+app.delete('/api/v1/resources/:resourceId', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    const { resourceId } = req.params;
+    // Get user info for authorization
+    const user = await UsersService.getUserById(req.user.id);
+    
+    const result = await ResourcesService.deleteResource(
+      resourceId,
+      user.name,
+      await RolesService.hasPermission(req.user, Permission.RESOURCES_MODERATE),
+      req.user.id
+    );
+
+    res.json({
+      success: true,
+      message: 'Ressource supprimée avec succès',
+      data: result,
+    });
+  } catch (error: any) {
+    if (error.message === 'Ressource non trouvée') {
+      res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    } else if (error.message === 'Non autorisé à supprimer cette ressource') {
+      res.status(403).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+});
+
+// Get resources by author
+app.get('/api/v1/resources/author/:authorName', optionalAuth, async (req: Request, res: Response) => {
+  try {
+    const { authorName } = req.params;
+    const { page = '1', limit = '10' } = req.query;
+
+    const pagination = {
+      page: parseInt(page as string),
+      limit: Math.min(parseInt(limit as string), 50),
+    };
+
+    const result = await ResourcesService.getResourcesByAuthor(authorName, pagination);
+
+    res.json({
+      success: true,
+      data: result.resources,
+      meta: result.meta,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+// Get popular resources
+app.get('/api/v1/resources/popular', optionalAuth, async (req: Request, res: Response) => {
+  try {
+    const { page = '1', limit = '10' } = req.query;
+
+    const pagination = {
+      page: parseInt(page as string),
+      limit: Math.min(parseInt(limit as string), 50),
+    };
+
+    const result = await ResourcesService.getPopularResources(pagination);
+
+    res.json({
+      success: true,
+      data: result.resources,
+      meta: result.meta,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+// ==================== EVENTS ENDPOINTS ====================
+
+// Create event
+app.post('/api/v1/events', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    const { title, description, type, startDate, endDate, location, isOnline, meetingUrl, maxAttendees, price, organizer, organizerContact, organizationId } = req.body;
+
+    if (!title || !description || !type || !startDate) {
+      res.status(400).json({
+        success: false,
+        error: 'Titre, description, type et date de début sont requis',
+      });
+      return;
+    }
+
+    // Get user info to use as default organizer
+    const user = await UsersService.getUserById(req.user.id);
+    
+    const event = await EventsService.createEvent({
+      title, description, type,
+      startDate: new Date(startDate),
+      endDate: endDate ? new Date(endDate) : undefined,
+      location, isOnline, meetingUrl, maxAttendees, price,
+      // Au nom d'une organisation, l'organisateur par défaut est l'organisation
+      organizer: organizer || (organizationId ? undefined : user.name),
+      organizerContact,
+      creatorId: req.user.id,
+      organizationId
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Événement créé avec succès',
+      data: event,
+    });
+  } catch (error: any) {
+    res.status(error.message === 'Vous devez être membre de l\'organisation pour publier en son nom' ? 403 : 400).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+// Get events
+app.get('/api/v1/events', optionalAuth, async (req: Request, res: Response) => {
+  try {
+    const {
+      page = '1',
+      limit = '10',
+      type,
+      status,
+      isOnline,
+      location,
+      upcoming,
+      search,
+      organizerId,
+      tags,
+      organizationId,
+    } = req.query;
+
+    const geo = geoFiltersSchema.safeParse(req.query);
+    if (!geo.success) {
+      res.status(400).json({
+        success: false,
+        error: geo.error.issues[0]?.message,
+      });
+      return;
+    }
+
+    const filters = {
+      type: type as string,
+      status: status as string,
+      isOnline: isOnline === 'true' ? true : isOnline === 'false' ? false : undefined,
+      location: location as string,
+      upcoming: upcoming === 'true',
+      search: search as string,
+      organizer: organizerId as string,
+      organizationId: organizationId as string,
+      ...geo.data,
+    };
+
+    const pagination = {
+      page: parseInt(page as string),
+      limit: Math.min(parseInt(limit as string), 50),
+      sortBy: 'startDate',
+      sortOrder: 'asc' as 'asc',
+    };
+
+    const result = await EventsService.getEvents(filters, pagination);
+
+    res.json({
+      success: true,
+      data: result.events,
+      meta: result.meta,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+// Get event by ID
+app.get('/api/v1/events/:eventId', optionalAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { eventId } = req.params;
+    const userId = req.user?.id;
+
+    const event = await EventsService.getEventById(eventId, userId);
+
+    res.json({
+      success: true,
+      data: event,
+    });
+  } catch (error: any) {
+    if (error.message === 'Événement non trouvé') {
+      res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+});
+
+// Update event
+app.put('/api/v1/events/:eventId', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    const { eventId } = req.params;
+    const updateData = req.body;
+
+    // Convert date strings to Date objects if provided
+    if (updateData.startDate) updateData.startDate = new Date(updateData.startDate);
+    if (updateData.endDate) updateData.endDate = new Date(updateData.endDate);
+
+    // Get user info for authorization
+    const user = await UsersService.getUserById(req.user.id);
+    
+    const event = await EventsService.updateEvent(
+      eventId,
+      user.name,
+      updateData,
+      await RolesService.hasPermission(req.user, Permission.EVENTS_MODERATE),
+      req.user.id
+    );
+
+    res.json({
+      success: true,
+      message: 'Événement mis à jour avec succès',
+      data: event,
+    });
+  } catch (error: any) {
+    if (error.message === 'Événement non trouvé') {
+      res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    } else if (error.message === 'Non autorisé à modifier cet événement') {
+      res.status(403).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+});
+
+// Delete event
+app.delete('/api/v1/events/:eventId', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    const { eventId } = req.params;
+    // Get user info for authorization
+    const user = await UsersService.getUserById(req.user.id);
+    
+    const result = await EventsService.deleteEvent(
+      eventId,
+      user.name,
+      await RolesService.hasPermission(req.user, Permission.EVENTS_MODERATE),
+      req.user.id
+    );
+
+    res.json({
+      success: true,
+      message: 'Événement supprimé avec succès',
+      data: result,
+    });
+  } catch (error: any) {
+    if (error.message === 'Événement non trouvé') {
+      res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    } else if (error.message === 'Non autorisé à supprimer cet événement') {
+      res.status(403).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+});
+
+// Register for event
+app.post('/api/v1/events/:eventId/register', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    const { eventId } = req.params;
+    const registration = await EventsService.registerForEvent(eventId, req.user.id);
+
+    res.status(201).json({
+      success: true,
+      message: 'Inscription réussie',
+      data: registration,
+    });
+  } catch (error: any) {
+    if (error.message === 'Événement non trouvé') {
+      res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    } else if (error.message.includes('déjà inscrit') || error.message.includes('complet') || error.message.includes('passé') || error.message.includes('propre événement') || error.message.includes('pas ouvertes')) {
+      res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+});
+
+// Unregister from event
+app.delete('/api/v1/events/:eventId/register', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    const { eventId } = req.params;
+    const result = await EventsService.unregisterFromEvent(eventId, req.user.id);
+
+    res.json({
+      success: true,
+      message: 'Désinscription réussie',
+      data: result,
+    });
+  } catch (error: any) {
+    if (error.message === 'Inscription non trouvée') {
+      res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+});
+
+// Get event registrations (for organizer)
+app.get('/api/v1/events/:eventId/registrations', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    const { eventId } = req.params;
+    const { page = '1', limit = '10' } = req.query;
+
+    const pagination = {
+      page: parseInt(page as string),
+      limit: Math.min(parseInt(limit as string), 50),
+    };
+
+    // Get user info for authorization
+    const user = await UsersService.getUserById(req.user.id);
+    
+    const result = await EventsService.getEventRegistrations(
+      eventId,
+      user.name,
+      pagination,
+      await RolesService.hasPermission(req.user, Permission.EVENTS_REGISTRATIONS),
+      req.user.id
+    );
+
+    res.json({
+      success: true,
+      data: result.registrations,
+      meta: result.meta,
+    });
+  } catch (error: any) {
+    if (error.message === 'Événement non trouvé') {
+      res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    } else if (error.message === 'Non autorisé à voir les inscriptions') {
+      res.status(403).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+});
+
+// Get user's event registrations
+app.get('/api/v1/events/registrations/my', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    const { page = '1', limit = '10' } = req.query;
+
+    const pagination = {
+      page: parseInt(page as string),
+      limit: Math.min(parseInt(limit as string), 50),
+    };
+
+    const result = await EventsService.getUserRegistrations(req.user.id, pagination);
+
+    res.json({
+      success: true,
+      data: result.registrations,
+      meta: result.meta,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+// ==================== FILE UPLOAD ENDPOINTS ====================
+
+// Upload avatar utilisateur with validation and rate limiting
+app.post('/api/v1/upload/avatar', 
+  uploadRateLimit,
+  authenticateToken,
+  upload.single('avatar'),
+  validateFileUpload(['image/jpeg', 'image/png', 'image/webp'], 5 * 1024 * 1024, true),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (!req.file) {
+        res.status(400).json({
+          success: false,
+          error: 'Aucun fichier fourni',
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      // Upload vers Cloudinary
+      const uploadResult = await FileUploadService.uploadFile(
+        req.file,
+        FileType.AVATAR,
+        req.user!.id
+      );
+
+      // Log file upload for audit
+      await AuditService.logResourceAction(
+        AuditActions.FILE_UPLOAD,
+        req.user.id,
+        'FILE',
+        uploadResult.publicId,
+        { fileType: 'avatar', fileSize: req.file.size },
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      // Mettre à jour l'avatar de l'utilisateur en base
+      await prisma.user.update({
+        where: { id: req.user!.id },
+        data: { avatar: uploadResult.url },
+      });
+      await ProfileCompletionService.refresh(req.user!.id);
+
+      res.json({
+        success: true,
+        message: 'Avatar mis à jour avec succès',
+        data: {
+          url: uploadResult.url,
+          publicId: uploadResult.publicId,
+          responsiveUrls: FileUploadService.generateResponsiveUrls(uploadResult.publicId),
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+);
+
+// Upload thumbnail pour ressource
+app.post('/api/v1/upload/resource-thumbnail', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    const upload = FileUploadService.createUploadMiddleware(FileType.RESOURCE_THUMBNAIL);
+    
+    upload.single('thumbnail')(req, res, async (err) => {
+      if (err) {
+        res.status(400).json({
+          success: false,
+          error: err.message,
+        });
+        return;
+      }
+
+      if (!req.file) {
+        res.status(400).json({
+          success: false,
+          error: 'Aucun fichier fourni',
+        });
+        return;
+      }
+
+      try {
+        const hasQuota = await FileUploadService.checkUserQuota(req.user!.id, req.file.size);
+        if (!hasQuota) {
+          res.status(413).json({
+            success: false,
+            error: 'Quota de stockage dépassé',
+          });
+          return;
+        }
+
+        if (!FileUploadService.validateFileType(req.file)) {
+          res.status(400).json({
+            success: false,
+            error: 'Type de fichier non autorisé',
+          });
+          return;
+        }
+
+        const uploadResult = await FileUploadService.uploadFile(
+          req.file,
+          FileType.RESOURCE_THUMBNAIL,
+          req.user!.id
+        );
+
+        res.json({
+          success: true,
+          message: 'Thumbnail uploadé avec succès',
+          data: {
+            url: uploadResult.url,
+            publicId: uploadResult.publicId,
+            responsiveUrls: FileUploadService.generateResponsiveUrls(uploadResult.publicId),
+          },
+        });
+      } catch (uploadError: any) {
+        res.status(500).json({
+          success: false,
+          error: uploadError.message,
+        });
+      }
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+// Upload pièce jointe pour message
+app.post('/api/v1/upload/message-attachment', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    const upload = FileUploadService.createUploadMiddleware(FileType.MESSAGE_ATTACHMENT);
+    
+    upload.single('attachment')(req, res, async (err) => {
+      if (err) {
+        res.status(400).json({
+          success: false,
+          error: err.message,
+        });
+        return;
+      }
+
+      if (!req.file) {
+        res.status(400).json({
+          success: false,
+          error: 'Aucun fichier fourni',
+        });
+        return;
+      }
+
+      try {
+        const hasQuota = await FileUploadService.checkUserQuota(req.user!.id, req.file.size);
+        if (!hasQuota) {
+          res.status(413).json({
+            success: false,
+            error: 'Quota de stockage dépassé',
+          });
+          return;
+        }
+
+        if (!FileUploadService.validateFileType(req.file)) {
+          res.status(400).json({
+            success: false,
+            error: 'Type de fichier non autorisé',
+          });
+          return;
+        }
+
+        const uploadResult = await FileUploadService.uploadFile(
+          req.file,
+          FileType.MESSAGE_ATTACHMENT,
+          req.user!.id
+        );
+
+        res.json({
+          success: true,
+          message: 'Pièce jointe uploadée avec succès',
+          data: {
+            url: uploadResult.url,
+            publicId: uploadResult.publicId,
+            filename: req.file.originalname,
+            size: uploadResult.size,
+            format: uploadResult.format,
+          },
+        });
+      } catch (uploadError: any) {
+        res.status(500).json({
+          success: false,
+          error: uploadError.message,
+        });
+      }
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+// Upload image pour événement  
+app.post('/api/v1/upload/event-image', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    const upload = FileUploadService.createUploadMiddleware(FileType.EVENT_IMAGE);
+    
+    upload.single('image')(req, res, async (err) => {
+      if (err) {
+        res.status(400).json({
+          success: false,
+          error: err.message,
+        });
+        return;
+      }
+
+      if (!req.file) {
+        res.status(400).json({
+          success: false,
+          error: 'Aucun fichier fourni',
+        });
+        return;
+      }
+
+      try {
+        const hasQuota = await FileUploadService.checkUserQuota(req.user!.id, req.file.size);
+        if (!hasQuota) {
+          res.status(413).json({
+            success: false,
+            error: 'Quota de stockage dépassé',
+          });
+          return;
+        }
+
+        if (!FileUploadService.validateFileType(req.file)) {
+          res.status(400).json({
+            success: false,
+            error: 'Type de fichier non autorisé',
+          });
+          return;
+        }
+
+        const uploadResult = await FileUploadService.uploadFile(
+          req.file,
+          FileType.EVENT_IMAGE,
+          req.user!.id
+        );
+
+        res.json({
+          success: true,
+          message: 'Image d\'événement uploadée avec succès',
+          data: {
+            url: uploadResult.url,
+            publicId: uploadResult.publicId,
+            responsiveUrls: FileUploadService.generateResponsiveUrls(uploadResult.publicId),
+          },
+        });
+      } catch (uploadError: any) {
+        res.status(500).json({
+          success: false,
+          error: uploadError.message,
+        });
+      }
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+// Supprimer un fichier
+app.delete('/api/v1/upload/:publicId', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    const { publicId } = req.params;
+    
+    // Vérifier que le fichier appartient à l'utilisateur
+    // (cette logique devrait être améliorée avec une table de suivi des uploads)
+    if (!publicId.includes(req.user.id)) {
+      res.status(403).json({
+        success: false,
+        error: 'Non autorisé à supprimer ce fichier',
+      });
+      return;
+    }
+
+    const deleted = await FileUploadService.deleteFile(publicId);
+    
+    if (deleted) {
+      res.json({
+        success: true,
+        message: 'Fichier supprimé avec succès',
+      });
+    } else {
+      res.status(404).json({
+        success: false,
+        error: 'Fichier non trouvé ou déjà supprimé',
+      });
+    }
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+// Obtenir les informations d'un fichier
+app.get('/api/v1/upload/:publicId/info', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    const { publicId } = req.params;
+    
+    const fileInfo = await FileUploadService.getFileInfo(publicId);
+    
+    res.json({
+      success: true,
+      data: fileInfo,
+    });
+  } catch (error: any) {
+    if (error.message.includes('not found')) {
+      res.status(404).json({
+        success: false,
+        error: 'Fichier non trouvé',
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+});
+
+// ==================== NOTIFICATIONS ENDPOINTS ====================
+
+// Get user notifications
+app.get('/api/v1/notifications', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    const {
+      page = '1',
+      limit = '10',
+      type,
+      read,
+      search,
+    } = req.query;
+
+    const filters = {
+      type: type as any,
+      read: read === 'true' ? true : read === 'false' ? false : undefined,
       search: search as string,
-      organizer: organizerId as string,
     };
 
-    const pagination = {
-      page: parseInt(page as string),
-      limit: Math.min(parseInt(limit as string), 50),
-      sortBy: 'startDate',
-      sortOrder: 'asc' as 'asc',
-    };
+    const pagination = {
+      page: parseInt(page as string),
+      limit: Math.min(parseInt(limit as string), 50),
+      sortBy: 'createdAt',
+      sortOrder: 'desc' as 'desc',
+    };
+
+    const result = await NotificationsService.getUserNotifications(req.user.id, filters, pagination);
+
+    res.json({
+      success: true,
+      data: result.notifications,
+      meta: result.meta,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+// Mark notification as read
+app.put('/api/v1/notifications/:notificationId/read', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    const { notificationId } = req.params;
+    const notification = await NotificationsService.markAsRead(notificationId, req.user.id);
+
+    res.json({
+      success: true,
+      message: 'Notification marquée comme lue',
+      data: notification,
+    });
+  } catch (error: any) {
+    if (error.message === 'Notification non trouvée') {
+      res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+});
+
+// Mark all notifications as read
+app.put('/api/v1/notifications/read-all', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    const result = await NotificationsService.markAllAsRead(req.user.id);
+
+    res.json({
+      success: true,
+      message: `${result.count} notifications marquées comme lues`,
+      data: result,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+// Delete notification
+app.delete('/api/v1/notifications/:notificationId', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    const { notificationId } = req.params;
+    const result = await NotificationsService.deleteNotification(notificationId, req.user.id);
+
+    res.json({
+      success: true,
+      message: 'Notification supprimée avec succès',
+      data: result,
+    });
+  } catch (error: any) {
+    if (error.message === 'Notification non trouvée') {
+      res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+});
+
+// Get unread notifications count
+app.get('/api/v1/notifications/unread/count', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    const result = await NotificationsService.getUnreadCount(req.user.id);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+// ==================== ANALYTICS ENDPOINTS ====================
+
+// Get platform statistics with rate limiting and validation
+app.get('/api/v1/analytics/platform', 
+  analyticsRateLimit,
+  authenticateToken, 
+  requirePermission(Permission.ANALYTICS_READ),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const stats = await AnalyticsService.getPlatformStats();
+
+      // Log analytics access for audit
+      await AuditService.logResourceAction(
+        AuditActions.ADMIN_ACTION,
+        req.user.id,
+        'ANALYTICS',
+        'platform-stats',
+        { action: 'view_platform_statistics' },
+        req.ip,
+        req.get('User-Agent')
+      );
+
+    res.json({
+      success: true,
+      data: stats,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+// Get user activity metrics
+app.get('/api/v1/analytics/user/:userId', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    const { userId } = req.params;
+    const { period = 'month' } = req.query;
+
+    // Vérifier que l'utilisateur peut voir ces métriques (lui-même ou analyste)
+    if (userId !== req.user.id && !(await RolesService.hasPermission(req.user, Permission.ANALYTICS_READ))) {
+      res.status(403).json({
+        success: false,
+        error: 'Accès interdit - Vous ne pouvez voir que vos propres métriques',
+      });
+      return;
+    }
+
+    const metrics = await AnalyticsService.getUserActivityMetrics(
+      userId, 
+      period as 'week' | 'month' | 'year'
+    );
+
+    res.json({
+      success: true,
+      data: metrics,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+// Get my activity metrics
+app.get('/api/v1/analytics/my-activity', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    const { period = 'month' } = req.query;
+
+    const metrics = await AnalyticsService.getUserActivityMetrics(
+      req.user.id, 
+      period as 'week' | 'month' | 'year'
+    );
+
+    res.json({
+      success: true,
+      data: metrics,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+// Get engagement metrics
+app.get('/api/v1/analytics/engagement', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    // Vérifier les permissions (statistiques de la plateforme)
+    if (!(await RolesService.hasPermission(req.user, Permission.ANALYTICS_READ))) {
+      res.status(403).json({
+        success: false,
+        error: 'Accès interdit - Permission analytics:read requise',
+      });
+      return;
+    }
+
+    const metrics = await AnalyticsService.getEngagementMetrics();
+
+    res.json({
+      success: true,
+      data: metrics,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+// Get time trends
+app.get('/api/v1/analytics/trends', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    // Vérifier les permissions (statistiques de la plateforme)
+    if (!(await RolesService.hasPermission(req.user, Permission.ANALYTICS_READ))) {
+      res.status(403).json({
+        success: false,
+        error: 'Accès interdit - Permission analytics:read requise',
+      });
+      return;
+    }
+
+    const { days = '30' } = req.query;
+    const daysInt = Math.min(Math.max(parseInt(days as string), 1), 365);
+
+    const trends = await AnalyticsService.getTimeTrends(daysInt);
+
+    res.json({
+      success: true,
+      data: trends,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+// Get usage statistics
+app.get('/api/v1/analytics/usage', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    // Vérifier les permissions (statistiques de la plateforme)
+    if (!(await RolesService.hasPermission(req.user, Permission.ANALYTICS_READ))) {
+      res.status(403).json({
+        success: false,
+        error: 'Accès interdit - Permission analytics:read requise',
+      });
+      return;
+    }
+
+    const usage = await AnalyticsService.getUsageStatistics();
+
+    res.json({
+      success: true,
+      data: usage,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+// ==================== EMAIL OUTBOX ENDPOINTS ====================
+
+// List queued and sent emails (admin only)
+app.get('/api/v1/emails/outbox',
+  generalRateLimit,
+  authenticateToken,
+  requirePermission(Permission.EMAILS_MANAGE),
+  validate({ query: emailOutboxFiltersSchema }),
+  async (req: AuthenticatedRequest<EmailOutboxFiltersData>, res: Response) => {
+    try {
+      const result = await EmailService.getOutbox(req.query);
+
+      res.json({
+        success: true,
+        data: result.emails,
+        meta: result.meta,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+);
+
+// Delivery statistics per status and template (admin only)
+app.get('/api/v1/emails/stats',
+  generalRateLimit,
+  authenticateToken,
+  requirePermission(Permission.EMAILS_MANAGE),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const stats = await EmailService.getStats();
+
+      res.json({
+        success: true,
+        data: stats,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+);
+
+// Retry a failed email (admin only)
+app.post('/api/v1/emails/outbox/:emailId/retry',
+  generalRateLimit,
+  authenticateToken,
+  requirePermission(Permission.EMAILS_MANAGE),
+  validate({ params: emailIdParamSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const email = await EmailService.retry(req.params.emailId);
+
+      res.json({
+        success: true,
+        message: 'Email replanifié',
+        data: email,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      const status = error.message === 'Email non trouvé' ? 404
+        : error.message === 'Seuls les emails en échec peuvent être relancés' ? 400
+        : 500;
+
+      res.status(status).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+);
+
+// ==================== AUDIT ENDPOINTS ====================
+
+// Search audit trail (admin only)
+app.get('/api/v1/audit/logs',
+  generalRateLimit,
+  authenticateToken,
+  requirePermission(Permission.AUDIT_READ),
+  validate({ query: auditLogFiltersSchema }),
+  async (req: AuthenticatedRequest<AuditLogFiltersData>, res: Response) => {
+    try {
+      const { page, limit, ...filters } = req.query;
+
+      const result = await AuditService.searchAuditLogs({
+        ...filters,
+        limit,
+        offset: (page - 1) * limit,
+      });
+
+      const totalPages = Math.ceil(result.total / limit);
+
+      res.json({
+        success: true,
+        data: result.logs,
+        meta: {
+          page,
+          limit,
+          total: result.total,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+);
+
+// Get audit statistics for a period (admin only)
+app.get('/api/v1/audit/stats',
+  generalRateLimit,
+  authenticateToken,
+  requirePermission(Permission.AUDIT_READ),
+  validate({ query: auditStatsSchema }),
+  async (req: AuthenticatedRequest<AuditStatsData>, res: Response) => {
+    try {
+      const { period } = req.query;
+      const stats = await AuditService.getAuditStats(period);
+
+      res.json({
+        success: true,
+        data: stats,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+);
+
+// Check a user for suspicious activity (admin only)
+app.get('/api/v1/audit/suspicious/:userId',
+  generalRateLimit,
+  authenticateToken,
+  requirePermission(Permission.AUDIT_READ),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { userId } = req.params;
+      const { ip } = req.query;
+
+      const result = await AuditService.detectSuspiciousActivity(userId, ip as string | undefined);
+
+      res.json({
+        success: true,
+        data: result,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+);
+
+// Unlock an account locked after failed logins (admin only)
+app.post('/api/v1/audit/unlock/:userId',
+  generalRateLimit,
+  authenticateToken,
+  requirePermission(Permission.USERS_MANAGE),
+  validate({ params: userIdParamSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { userId } = req.params;
+      await LoginProtectionService.unlockAccount(userId);
+
+      await AuditService.logAdminAction(
+        AuditActions.ACCOUNT_UNLOCKED,
+        req.user!.id,
+        'USER',
+        userId,
+        undefined,
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.json({
+        success: true,
+        message: 'Compte déverrouillé',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      res.status(error.message === 'Utilisateur non trouvé' ? 404 : 500).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+);
+
+// ==================== DATA EXPORT ENDPOINTS ====================
+
+// Request an export of all my personal data (ZIP built asynchronously)
+app.post('/api/v1/users/me/export',
+  generalRateLimit,
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
+
+      const dataExport = await DataExportService.requestExport(req.user.id);
+
+      await AuditService.logUserAction(
+        AuditActions.DATA_EXPORT_REQUEST,
+        req.user.id,
+        req.user.id,
+        { exportId: dataExport.id },
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.status(202).json({
+        success: true,
+        message: 'Export en préparation. Vous recevrez une notification avec le lien de téléchargement.',
+        data: dataExport,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      const status = error.message === 'Un export de vos données est déjà en cours'
+        || error.message === 'Un export a déjà été généré il y a moins de 24 heures'
+        ? 429
+        : 500;
+
+      res.status(status).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+);
+
+// List my data exports
+app.get('/api/v1/users/me/exports', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    const exports = await DataExportService.getUserExports(req.user.id);
+
+    res.json({
+      success: true,
+      data: exports,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+// Download an export archive (time-limited link sent by notification, no bearer token needed)
+app.get('/api/v1/users/me/export/:exportId/download',
+  generalRateLimit,
+  validate({ params: dataExportDownloadParamsSchema, query: dataExportDownloadQuerySchema }),
+  async (req: Request, res: Response) => {
+    try {
+      const download = await DataExportService.getDownload(req.params.exportId, req.query.token as string);
+
+      await AuditService.logUserAction(
+        AuditActions.DATA_EXPORT_DOWNLOAD,
+        download.userId,
+        download.userId,
+        { exportId: req.params.exportId },
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.download(download.filePath, download.fileName);
+    } catch (error: any) {
+      const status = error.message === 'Export non trouvé' ? 404
+        : error.message === 'Lien de téléchargement invalide ou expiré' ? 410
+        : 500;
+
+      res.status(status).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+);
+
+// ==================== ACCOUNT DELETION ENDPOINTS ====================
+
+// Schedule the deletion of my account (anonymized after the grace period)
+app.delete('/api/v1/users/me',
+  authenticateToken,
+  validate({ body: deleteAccountSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
+
+      const result = await AccountDeletionService.requestDeletion(req.user.id, req.body.password, {
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+        sessionId: req.user.sessionId,
+      });
+
+      res.status(202).json({
+        success: true,
+        message: 'Suppression du compte programmée. Vous pouvez l\'annuler jusqu\'à la date prévue.',
+        data: result,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      let status = 500;
+      if (error.message === 'Mot de passe incorrect') status = 401;
+      else if (error.message === 'Utilisateur non trouvé') status = 404;
+      else if (error.message === 'La suppression de ce compte est déjà programmée') status = 409;
+
+      res.status(status).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+);
+
+// Pending deletion of my account
+app.get('/api/v1/users/me/deletion', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    const status = await AccountDeletionService.getDeletionStatus(req.user.id);
+
+    res.json({
+      success: true,
+      data: status,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+// Cancel the scheduled deletion of my account
+app.post('/api/v1/users/me/deletion/cancel', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    await AccountDeletionService.cancelDeletion(req.user.id, { ip: req.ip, userAgent: req.get('User-Agent') });
+
+    res.json({
+      success: true,
+      message: 'Suppression du compte annulée',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    res.status(error.message === 'Aucune suppression programmée pour ce compte' ? 404 : 500).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+// Erase an account immediately, without grace period (users:manage)
+app.delete('/api/v1/users/:userId',
+  generalRateLimit,
+  authenticateToken,
+  requirePermission(Permission.USERS_MANAGE),
+  validate({ params: userIdParamSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { userId } = req.params;
+
+      if (userId === req.user!.id) {
+        res.status(400).json({
+          success: false,
+          error: 'Utilisez la suppression de votre propre compte',
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      // L'effacement est tracé dans l'audit par le service
+      await UsersService.deleteUser(userId, req.user!.id);
+
+      res.json({
+        success: true,
+        message: 'Compte effacé et anonymisé',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      res.status(error.message === 'Utilisateur non trouvé' ? 404 : 500).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+);
+
+// ==================== USER MODERATION ENDPOINTS ====================
+
+// Suspend an account, optionally until a date (users:moderate)
+app.post('/api/v1/users/:userId/suspend',
+  generalRateLimit,
+  authenticateToken,
+  requirePermission(Permission.USERS_MODERATE),
+  validate({ params: userIdParamSchema, body: suspendUserSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { userId } = req.params;
+      const user = await ModerationService.suspendUser(userId, req.user!.id, req.body);
+
+      await AuditService.logAdminAction(
+        AuditActions.USER_SUSPEND,
+        req.user!.id,
+        'USER',
+        userId,
+        { reason: req.body.reason, until: req.body.until },
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.json({
+        success: true,
+        message: 'Compte suspendu',
+        data: user,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      let status = 500;
+      if (error.message === 'Utilisateur non trouvé') status = 404;
+      else if (error.message === 'La date de fin de suspension doit être dans le futur') status = 400;
+      else if (error.message === 'Vous ne pouvez pas modérer votre propre compte'
+        || error.message === 'Impossible de modérer un compte administrateur') status = 403;
+      else if (error.message === 'Ce compte est banni') status = 409;
+
+      res.status(status).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+);
+
+// Ban an account (users:manage)
+app.post('/api/v1/users/:userId/ban',
+  generalRateLimit,
+  authenticateToken,
+  requirePermission(Permission.USERS_MANAGE),
+  validate({ params: userIdParamSchema, body: banUserSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { userId } = req.params;
+      const user = await ModerationService.banUser(userId, req.user!.id, req.body.reason);
+
+      await AuditService.logAdminAction(
+        AuditActions.USER_BAN,
+        req.user!.id,
+        'USER',
+        userId,
+        { reason: req.body.reason },
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.json({
+        success: true,
+        message: 'Compte banni',
+        data: user,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      let status = 500;
+      if (error.message === 'Utilisateur non trouvé') status = 404;
+      else if (error.message === 'Vous ne pouvez pas modérer votre propre compte'
+        || error.message === 'Impossible de modérer un compte administrateur') status = 403;
+      else if (error.message === 'Ce compte est déjà banni') status = 409;
+
+      res.status(status).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+);
+
+// Lift a suspension or a ban (users:moderate)
+app.post('/api/v1/users/:userId/reactivate',
+  generalRateLimit,
+  authenticateToken,
+  requirePermission(Permission.USERS_MODERATE),
+  validate({ params: userIdParamSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { userId } = req.params;
+      const user = await ModerationService.reactivateUser(userId, req.user!.id);
+
+      await AuditService.logAdminAction(
+        user.previousStatus === 'BANNED' ? AuditActions.USER_UNBAN : AuditActions.USER_REACTIVATE,
+        req.user!.id,
+        'USER',
+        userId,
+        { previousStatus: user.previousStatus },
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.json({
+        success: true,
+        message: 'Compte réactivé',
+        data: user,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      let status = 500;
+      if (error.message === 'Utilisateur non trouvé') status = 404;
+      else if (error.message === 'Vous ne pouvez pas modérer votre propre compte'
+        || error.message === 'Impossible de modérer un compte administrateur') status = 403;
+      else if (error.message === 'Ce compte est déjà actif') status = 409;
+
+      res.status(status).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+);
+
+// ==================== IMPERSONATION ENDPOINTS ====================
+
+// Connect as a member for support (users:impersonate)
+app.post('/api/v1/admin/impersonate/:userId',
+  generalRateLimit,
+  authenticateToken,
+  requirePermission(Permission.USERS_IMPERSONATE),
+  validate({ params: userIdParamSchema, body: impersonateUserSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      // Pas d'assistance en cascade à partir d'un token d'assistance
+      if (req.user!.impersonatorId) {
+        res.status(403).json({
+          success: false,
+          error: 'Action interdite pendant une session d\'assistance',
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const result = await ImpersonationService.start(req.params.userId, req.user!.id, req.body.reason, {
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.status(201).json({
+        success: true,
+        message: `Session d'assistance ouverte pour ${result.user.name}`,
+        data: result,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      let status = 500;
+      if (error.message === 'Utilisateur non trouvé') status = 404;
+      else if (error.message === 'Vous ne pouvez pas vous connecter en tant que vous-même'
+        || error.message === 'Impossible de se connecter en tant qu\'un administrateur') status = 403;
+      else if (error.message === 'Impossible de se connecter à un compte suspendu ou banni') status = 409;
+
+      res.status(status).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+);
+
+// End the current impersonation session (the member is notified)
+app.post('/api/v1/auth/impersonation/end', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (!req.user.impersonatorId || !req.user.sessionId) {
+      res.status(400).json({
+        success: false,
+        error: 'Aucune session d\'assistance en cours',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    await ImpersonationService.end(req.user.sessionId, req.user.id, {
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
+
+    res.json({
+      success: true,
+      message: 'Session d\'assistance terminée',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    res.status(error.message === 'Aucune session d\'assistance en cours' ? 400 : 500).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+// ==================== INVITATIONS ENDPOINTS ====================
+
+// Registration mode (open or invitation-only)
+app.get('/api/v1/auth/registration', (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: {
+      mode: config.REGISTRATION_MODE,
+      invitationRequired: config.REGISTRATION_MODE === 'invitation',
+    },
+    timestamp: new Date().toISOString(),
+  });
+});
+
+// Preview an invitation code before registering
+app.get('/api/v1/invitations/code/:code',
+  authRateLimit,
+  validate({ params: invitationCodeParamSchema }),
+  async (req: Request, res: Response) => {
+    try {
+      const invitation = await InvitationService.previewCode(req.params.code);
+
+      res.json({
+        success: true,
+        data: invitation,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      res.status(error.message === 'Code d\'invitation invalide ou expiré' ? 404 : 500).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+);
+
+// List my invitations
+app.get('/api/v1/invitations',
+  authenticateToken,
+  validate({ query: invitationFiltersSchema }),
+  async (req: AuthenticatedRequest<InvitationFiltersData>, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
+
+      const result = await InvitationService.listInvitations(req.user, req.query);
+
+      res.json({
+        success: true,
+        data: result,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+);
+
+// Create an invitation code (incubators, invitations:manage)
+app.post('/api/v1/invitations',
+  generalRateLimit,
+  authenticateToken,
+  validate({ body: createInvitationSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
+
+      const invitation = await InvitationService.createInvitation(req.user, req.body);
+
+      await AuditService.logResourceAction(
+        AuditActions.INVITATION_CREATE,
+        req.user.id,
+        'INVITATION',
+        invitation.id,
+        { profileType: invitation.profileType, maxUses: invitation.maxUses },
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Invitation créée',
+        data: invitation,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      let status = 500;
+      if (error.message === 'Vous n\'êtes pas autorisé à émettre des invitations') status = 403;
+      else if (error.message === 'Ce type de profil ne peut pas être attribué par invitation') status = 400;
+
+      res.status(status).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+);
+
+// Email invitations to a list of addresses (one single-use code each)
+app.post('/api/v1/invitations/email',
+  generalRateLimit,
+  authenticateToken,
+  validate({ body: sendInvitationsSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
+
+      const result = await InvitationService.sendInvitations(req.user, req.body);
+
+      await AuditService.logResourceAction(
+        AuditActions.INVITATION_CREATE,
+        req.user.id,
+        'INVITATION',
+        undefined,
+        { sent: result.sent.length, skipped: result.skipped.length, profileType: req.body.profileType },
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.status(201).json({
+        success: true,
+        message: `${result.sent.length} invitation(s) envoyée(s)`,
+        data: result,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      let status = 500;
+      if (error.message === 'Vous n\'êtes pas autorisé à émettre des invitations') status = 403;
+      else if (error.message === 'Ce type de profil ne peut pas être attribué par invitation') status = 400;
+
+      res.status(status).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+);
+
+// Invitation details and the members who joined with it
+app.get('/api/v1/invitations/:invitationId',
+  authenticateToken,
+  validate({ params: invitationIdParamSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
+
+      const invitation = await InvitationService.getInvitation(req.user, req.params.invitationId);
+
+      res.json({
+        success: true,
+        data: invitation,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      let status = 500;
+      if (error.message === 'Invitation non trouvée') status = 404;
+      else if (error.message === 'Accès non autorisé à cette invitation') status = 403;
+
+      res.status(status).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+);
+
+// Revoke an invitation
+app.delete('/api/v1/invitations/:invitationId',
+  authenticateToken,
+  validate({ params: invitationIdParamSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
+
+      const invitation = await InvitationService.revokeInvitation(req.user, req.params.invitationId);
+
+      await AuditService.logResourceAction(
+        AuditActions.INVITATION_REVOKE,
+        req.user.id,
+        'INVITATION',
+        invitation.id,
+        undefined,
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.json({
+        success: true,
+        message: 'Invitation révoquée',
+        data: invitation,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      let status = 500;
+      if (error.message === 'Invitation non trouvée') status = 404;
+      else if (error.message === 'Accès non autorisé à cette invitation') status = 403;
+      else if (error.message === 'Cette invitation est déjà révoquée') status = 409;
 
-    const result = await EventsService.getEvents(filters, pagination);
+      res.status(status).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+);
+
+// ==================== ORGANIZATIONS ENDPOINTS ====================
+
+// Create an organization (the creator becomes its owner)
+app.post('/api/v1/organizations',
+  generalRateLimit,
+  authenticateToken,
+  validate({ body: createOrganizationSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
+
+      const organization = await OrganizationsService.createOrganization(req.user.id, req.body);
+
+      await AuditService.logResourceAction(
+        AuditActions.ORGANIZATION_CREATE,
+        req.user.id,
+        'ORGANIZATION',
+        organization.id,
+        { name: organization.name },
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Organisation créée',
+        data: organization,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      res.status(error.message === 'Une organisation avec ce numéro d\'immatriculation existe déjà' ? 409 : 500).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+);
+
+// List organizations
+app.get('/api/v1/organizations',
+  validate({ query: organizationFiltersSchema }),
+  async (req: ValidatedRequest<OrganizationFiltersData>, res: Response) => {
+    try {
+      const result = await OrganizationsService.getOrganizations(req.query);
+
+      res.json({
+        success: true,
+        data: result.organizations,
+        meta: result.meta,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+);
+
+// My organizations, pending requests and invitations
+app.get('/api/v1/users/me/organizations', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    const memberships = await OrganizationsService.getUserOrganizations(req.user.id);
 
     res.json({
       success: true,
-      data: result.events,
-      meta: result.meta,
+      data: memberships,
+      timestamp: new Date().toISOString(),
     });
   } catch (error: any) {
     res.status(500).json({
       success: false,
       error: error.message,
+      timestamp: new Date().toISOString(),
     });
   }
 });
 
-// Get event by ID
-app.get('/api/v1/events/:eventId', async (req: Request, res: Response) => {
-  try {
-    const { eventId } = req.params;
-    let userId: string | undefined;
-    if (req.headers.authorization) {
-      const token = SimpleJWTService.extractTokenFromHeader(req.headers.authorization);
-      if (token) {
-        const payload = SimpleJWTService.verifyAccessToken(token);
-        userId = payload?.userId;
+// Organization details (with the caller's membership when authenticated)
+app.get('/api/v1/organizations/:organizationId',
+  optionalAuth,
+  validate({ params: organizationIdParamSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const organization = await OrganizationsService.getOrganizationById(req.params.organizationId, req.user?.id);
+
+      res.json({
+        success: true,
+        data: organization,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      res.status(error.message === 'Organisation non trouvée' ? 404 : 500).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+);
+
+// Update an organization (owners and admins)
+app.put('/api/v1/organizations/:organizationId',
+  authenticateToken,
+  validate({ params: organizationIdParamSchema, body: updateOrganizationSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
+
+      const organization = await OrganizationsService.updateOrganization(req.params.organizationId, req.user.id, req.body);
+
+      await AuditService.logResourceAction(
+        AuditActions.ORGANIZATION_UPDATE,
+        req.user.id,
+        'ORGANIZATION',
+        organization.id,
+        { fields: Object.keys(req.body) },
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.json({
+        success: true,
+        message: 'Organisation mise à jour',
+        data: organization,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      let status = 500;
+      if (error.message === 'Réservé aux administrateurs de l\'organisation') status = 403;
+      else if (error.message === 'Une organisation avec ce numéro d\'immatriculation existe déjà') status = 409;
+
+      res.status(status).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+);
+
+// Delete an organization (owners only)
+app.delete('/api/v1/organizations/:organizationId',
+  authenticateToken,
+  validate({ params: organizationIdParamSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
+
+      const result = await OrganizationsService.deleteOrganization(req.params.organizationId, req.user.id);
+
+      await AuditService.logResourceAction(
+        AuditActions.ORGANIZATION_DELETE,
+        req.user.id,
+        'ORGANIZATION',
+        req.params.organizationId,
+        undefined,
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.json({
+        success: true,
+        message: 'Organisation supprimée',
+        data: result,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      res.status(error.message === 'Seul un propriétaire peut supprimer l\'organisation' ? 403 : 500).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+);
+
+// Upload the organization logo
+app.post('/api/v1/organizations/:organizationId/logo',
+  uploadRateLimit,
+  authenticateToken,
+  validate({ params: organizationIdParamSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Utilisateur non authentifié',
+      });
+      return;
+    }
+
+    const upload = FileUploadService.createUploadMiddleware(FileType.COMPANY_LOGO);
+
+    upload.single('logo')(req, res, async (err) => {
+      if (err) {
+        res.status(400).json({
+          success: false,
+          error: err.message,
+        });
+        return;
+      }
+
+      if (!req.file) {
+        res.status(400).json({
+          success: false,
+          error: 'Aucun fichier fourni',
+        });
+        return;
+      }
+
+      try {
+        // Vérifier les droits avant d'envoyer le fichier vers le stockage
+        if (!(await OrganizationsService.canManage(req.params.organizationId, req.user!.id))) {
+          res.status(403).json({
+            success: false,
+            error: 'Réservé aux administrateurs de l\'organisation',
+          });
+          return;
+        }
+
+        if (!FileUploadService.validateFileType(req.file)) {
+          res.status(400).json({
+            success: false,
+            error: 'Type de fichier non autorisé',
+          });
+          return;
+        }
+
+        const uploadResult = await FileUploadService.uploadFile(req.file, FileType.COMPANY_LOGO, req.user!.id);
+        const { organization, previousLogoPublicId } = await OrganizationsService.updateLogo(
+          req.params.organizationId,
+          req.user!.id,
+          uploadResult
+        );
+
+        if (previousLogoPublicId) {
+          await FileUploadService.deleteFile(previousLogoPublicId);
+        }
+
+        res.json({
+          success: true,
+          message: 'Logo mis à jour',
+          data: organization,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (uploadError: any) {
+        res.status(500).json({
+          success: false,
+          error: uploadError.message,
+        });
       }
+    });
+  }
+);
+
+// Organization members (pending requests and invitations are visible to admins only)
+app.get('/api/v1/organizations/:organizationId/members',
+  authenticateToken,
+  validate({ params: organizationIdParamSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const members = await OrganizationsService.getMembers(req.params.organizationId, req.user?.id);
+
+      res.json({
+        success: true,
+        data: members,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      res.status(error.message === 'Organisation non trouvée' ? 404 : 500).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
     }
+  }
+);
+
+// Request to join an organization (or accept a pending invitation)
+app.post('/api/v1/organizations/:organizationId/join',
+  generalRateLimit,
+  authenticateToken,
+  validate({ params: organizationIdParamSchema, body: joinOrganizationSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
 
-    const event = await EventsService.getEventById(eventId, userId);
+      const membership = await OrganizationsService.requestToJoin(req.params.organizationId, req.user.id, req.body.message);
 
-    res.json({
-      success: true,
-      data: event,
-    });
-  } catch (error: any) {
-    if (error.message === 'Événement non trouvé') {
-      res.status(404).json({
-        success: false,
-        error: error.message,
+      res.status(201).json({
+        success: true,
+        message: membership.status === 'ACTIVE' ? 'Vous avez rejoint l\'organisation' : 'Demande d\'adhésion envoyée',
+        data: membership,
+        timestamp: new Date().toISOString(),
       });
-    } else {
-      res.status(500).json({
+    } catch (error: any) {
+      let status = 500;
+      if (error.message === 'Organisation non trouvée') status = 404;
+      else if (error.message === 'Vous êtes déjà membre de cette organisation') status = 409;
+      else if (error.message === 'Une demande d\'adhésion est déjà en attente') status = 409;
+
+      res.status(status).json({
         success: false,
         error: error.message,
+        timestamp: new Date().toISOString(),
       });
     }
   }
-});
-
-// Update event
-app.put('/api/v1/events/:eventId', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
-  try {
-    if (!req.user) {
-      res.status(401).json({
-        success: false,
-        error: 'Utilisateur non authentifié',
-      });
-      return;
-    }
+);
 
-    const { eventId } = req.params;
-    const updateData = req.body;
+// Invite a member (owners and admins)
+app.post('/api/v1/organizations/:organizationId/members',
+  generalRateLimit,
+  authenticateToken,
+  validate({ params: organizationIdParamSchema, body: inviteOrganizationMemberSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
 
-    // Convert date strings to Date objects if provided
-    if (updateData.startDate) updateData.startDate = new Date(updateData.startDate);
-    if (updateData.endDate) updateData.endDate = new Date(updateData.endDate);
+      const { userId, role, message } = req.body;
+      const membership = await OrganizationsService.inviteMember(req.params.organizationId, req.user.id, userId, role, message);
 
-    // Get user info for authorization
-    const user = await UsersService.getUserById(req.user.id);
-    
-    const event = await EventsService.updateEvent(eventId, user.name, updateData);
+      await AuditService.logResourceAction(
+        AuditActions.ORGANIZATION_MEMBER_UPDATE,
+        req.user.id,
+        'ORGANIZATION',
+        req.params.organizationId,
+        { memberId: userId, role, status: membership.status },
+        req.ip,
+        req.get('User-Agent')
+      );
 
-    res.json({
-      success: true,
-      message: 'Événement mis à jour avec succès',
-      data: event,
-    });
-  } catch (error: any) {
-    if (error.message === 'Événement non trouvé') {
-      res.status(404).json({
-        success: false,
-        error: error.message,
-      });
-    } else if (error.message === 'Non autorisé à modifier cet événement') {
-      res.status(403).json({
-        success: false,
-        error: error.message,
+      res.status(201).json({
+        success: true,
+        message: membership.status === 'ACTIVE' ? 'Membre ajouté' : 'Invitation envoyée',
+        data: membership,
+        timestamp: new Date().toISOString(),
       });
-    } else {
-      res.status(500).json({
+    } catch (error: any) {
+      let status = 500;
+      if (error.message === 'Organisation non trouvée' || error.message === 'Utilisateur non trouvé') status = 404;
+      else if (error.message === 'Réservé aux administrateurs de l\'organisation') status = 403;
+      else if (error.message === 'Seul un propriétaire peut gérer les propriétaires') status = 403;
+      else if (error.message === 'Cet utilisateur est déjà membre de l\'organisation') status = 409;
+      else if (error.message === 'Cet utilisateur a déjà été invité') status = 409;
+
+      res.status(status).json({
         success: false,
         error: error.message,
+        timestamp: new Date().toISOString(),
       });
     }
   }
-});
+);
 
-// Delete event
-app.delete('/api/v1/events/:eventId', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
-  try {
-    if (!req.user) {
-      res.status(401).json({
-        success: false,
-        error: 'Utilisateur non authentifié',
-      });
-      return;
-    }
+// Approve a join request (owners and admins)
+app.post('/api/v1/organizations/:organizationId/members/:userId/approve',
+  authenticateToken,
+  validate({ params: organizationMemberParamsSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
 
-    const { eventId } = req.params;
-    // Get user info for authorization
-    const user = await UsersService.getUserById(req.user.id);
-    
-    const result = await EventsService.deleteEvent(eventId, user.name);
+      const { organizationId, userId } = req.params;
+      const membership = await OrganizationsService.approveRequest(organizationId, req.user.id, userId);
 
-    res.json({
-      success: true,
-      message: 'Événement supprimé avec succès',
-      data: result,
-    });
-  } catch (error: any) {
-    if (error.message === 'Événement non trouvé') {
-      res.status(404).json({
-        success: false,
-        error: error.message,
-      });
-    } else if (error.message === 'Non autorisé à supprimer cet événement') {
-      res.status(403).json({
-        success: false,
-        error: error.message,
+      await AuditService.logResourceAction(
+        AuditActions.ORGANIZATION_MEMBER_UPDATE,
+        req.user.id,
+        'ORGANIZATION',
+        organizationId,
+        { memberId: userId, status: membership.status },
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.json({
+        success: true,
+        message: 'Demande d\'adhésion approuvée',
+        data: membership,
+        timestamp: new Date().toISOString(),
       });
-    } else {
-      res.status(500).json({
+    } catch (error: any) {
+      let status = 500;
+      if (error.message === 'Organisation non trouvée') status = 404;
+      else if (error.message === 'Aucune demande d\'adhésion en attente pour cet utilisateur') status = 404;
+      else if (error.message === 'Réservé aux administrateurs de l\'organisation') status = 403;
+
+      res.status(status).json({
         success: false,
         error: error.message,
+        timestamp: new Date().toISOString(),
       });
     }
   }
-});
+);
 
-// Register for event
-app.post('/api/v1/events/:eventId/register', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
-  try {
-    if (!req.user) {
-      res.status(401).json({
-        success: false,
-        error: 'Utilisateur non authentifié',
-      });
-      return;
-    }
+// Accept an invitation to join an organization
+app.post('/api/v1/organizations/:organizationId/invitation/accept',
+  authenticateToken,
+  validate({ params: organizationIdParamSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
 
-    const { eventId } = req.params;
-    const registration = await EventsService.registerForEvent(eventId, req.user.id);
+      const membership = await OrganizationsService.acceptInvitation(req.params.organizationId, req.user.id);
 
-    res.status(201).json({
-      success: true,
-      message: 'Inscription réussie',
-      data: registration,
-    });
-  } catch (error: any) {
-    if (error.message === 'Événement non trouvé') {
-      res.status(404).json({
-        success: false,
-        error: error.message,
-      });
-    } else if (error.message.includes('déjà inscrit') || error.message.includes('complet') || error.message.includes('passé') || error.message.includes('propre événement') || error.message.includes('pas ouvertes')) {
-      res.status(400).json({
-        success: false,
-        error: error.message,
+      res.json({
+        success: true,
+        message: 'Vous avez rejoint l\'organisation',
+        data: membership,
+        timestamp: new Date().toISOString(),
       });
-    } else {
-      res.status(500).json({
+    } catch (error: any) {
+      let status = 500;
+      if (error.message === 'Organisation non trouvée') status = 404;
+      else if (error.message === 'Aucune invitation en attente pour cette organisation') status = 404;
+
+      res.status(status).json({
         success: false,
         error: error.message,
+        timestamp: new Date().toISOString(),
       });
     }
   }
-});
+);
 
-// Unregister from event
-app.delete('/api/v1/events/:eventId/register', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
-  try {
-    if (!req.user) {
-      res.status(401).json({
-        success: false,
-        error: 'Utilisateur non authentifié',
-      });
-      return;
-    }
+// Change a member's role (owners and admins; only owners manage owners)
+app.put('/api/v1/organizations/:organizationId/members/:userId',
+  authenticateToken,
+  validate({ params: organizationMemberParamsSchema, body: updateOrganizationMemberSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
 
-    const { eventId } = req.params;
-    const result = await EventsService.unregisterFromEvent(eventId, req.user.id);
+      const { organizationId, userId } = req.params;
+      const membership = await OrganizationsService.updateMemberRole(organizationId, req.user.id, userId, req.body.role);
 
-    res.json({
-      success: true,
-      message: 'Désinscription réussie',
-      data: result,
-    });
-  } catch (error: any) {
-    if (error.message === 'Inscription non trouvée') {
-      res.status(404).json({
-        success: false,
-        error: error.message,
+      await AuditService.logResourceAction(
+        AuditActions.ORGANIZATION_MEMBER_UPDATE,
+        req.user.id,
+        'ORGANIZATION',
+        organizationId,
+        { memberId: userId, role: membership.role },
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.json({
+        success: true,
+        message: 'Rôle mis à jour',
+        data: membership,
+        timestamp: new Date().toISOString(),
       });
-    } else {
-      res.status(500).json({
+    } catch (error: any) {
+      let status = 500;
+      if (error.message === 'Membre non trouvé') status = 404;
+      else if (error.message === 'Réservé aux administrateurs de l\'organisation') status = 403;
+      else if (error.message === 'Seul un propriétaire peut gérer les propriétaires') status = 403;
+      else if (error.message === 'L\'organisation doit conserver au moins un propriétaire') status = 409;
+
+      res.status(status).json({
         success: false,
         error: error.message,
+        timestamp: new Date().toISOString(),
       });
     }
   }
-});
+);
 
-// Get event registrations (for organizer)
-app.get('/api/v1/events/:eventId/registrations', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
-  try {
-    if (!req.user) {
-      res.status(401).json({
+// Remove a member: leave, decline an invitation, reject a request or exclude a member
+app.delete('/api/v1/organizations/:organizationId/members/:userId',
+  authenticateToken,
+  validate({ params: organizationMemberParamsSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
+
+      const { organizationId, userId } = req.params;
+      const result = await OrganizationsService.removeMember(organizationId, req.user.id, userId);
+
+      if (userId !== req.user.id) {
+        await AuditService.logResourceAction(
+          AuditActions.ORGANIZATION_MEMBER_UPDATE,
+          req.user.id,
+          'ORGANIZATION',
+          organizationId,
+          { memberId: userId, removed: true, previousStatus: result.previousStatus },
+          req.ip,
+          req.get('User-Agent')
+        );
+      }
+
+      res.json({
+        success: true,
+        message: userId === req.user.id ? 'Vous avez quitté l\'organisation' : 'Membre retiré',
+        data: result,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      let status = 500;
+      if (error.message === 'Membre non trouvé') status = 404;
+      else if (error.message === 'Réservé aux administrateurs de l\'organisation') status = 403;
+      else if (error.message === 'Seul un propriétaire peut gérer les propriétaires') status = 403;
+      else if (error.message === 'L\'organisation doit conserver au moins un propriétaire') status = 409;
+
+      res.status(status).json({
         success: false,
-        error: 'Utilisateur non authentifié',
+        error: error.message,
+        timestamp: new Date().toISOString(),
       });
-      return;
     }
+  }
+);
 
-    const { eventId } = req.params;
-    const { page = '1', limit = '10' } = req.query;
+// ==================== REVIEWS ENDPOINTS ====================
 
-    const pagination = {
-      page: parseInt(page as string),
-      limit: Math.min(parseInt(limit as string), 50),
-    };
+// Leave a review after an accepted application or an attended event
+app.post('/api/v1/reviews',
+  generalRateLimit,
+  authenticateToken,
+  validate({ body: createReviewSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
 
-    // Get user info for authorization
-    const user = await UsersService.getUserById(req.user.id);
-    
-    const result = await EventsService.getEventRegistrations(eventId, user.name, pagination);
+      const review = await ReviewsService.createReview(req.user.id, req.body);
 
-    res.json({
-      success: true,
-      data: result.registrations,
-      meta: result.meta,
-    });
-  } catch (error: any) {
-    if (error.message === 'Événement non trouvé') {
-      res.status(404).json({
-        success: false,
-        error: error.message,
-      });
-    } else if (error.message === 'Non autorisé à voir les inscriptions') {
-      res.status(403).json({
-        success: false,
-        error: error.message,
+      await AuditService.logResourceAction(
+        AuditActions.REVIEW_CREATE,
+        req.user.id,
+        'REVIEW',
+        review.id,
+        { revieweeId: review.revieweeId, context: review.context, contextId: review.contextId, score: review.score },
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Avis publié',
+        data: review,
+        timestamp: new Date().toISOString(),
       });
-    } else {
-      res.status(500).json({
+    } catch (error: any) {
+      let status = 500;
+      if (error.message === 'Collaboration non trouvée' || error.message === 'Utilisateur non trouvé') status = 404;
+      else if (error.message === 'Un avis ne peut être laissé qu\'après une candidature acceptée'
+        || error.message === 'Un avis ne peut être laissé qu\'après la fin de l\'événement'
+        || error.message === 'Vous ne pouvez pas vous évaluer vous-même'
+        || error.message === 'Impossible de laisser un avis à cet utilisateur') status = 403;
+      else if (error.message === 'Vous avez déjà laissé un avis pour cette collaboration') status = 409;
+
+      res.status(status).json({
         success: false,
         error: error.message,
+        timestamp: new Date().toISOString(),
       });
     }
   }
-});
+);
 
-// Get user's event registrations
-app.get('/api/v1/events/registrations/my', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+// Collaborations I can still review
+app.get('/api/v1/reviews/pending', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
     if (!req.user) {
       res.status(401).json({
@@ -1687,88 +6247,154 @@ app.get('/api/v1/events/registrations/my', authenticateToken, async (req: Authen
       return;
     }
 
-    const { page = '1', limit = '10' } = req.query;
-
-    const pagination = {
-      page: parseInt(page as string),
-      limit: Math.min(parseInt(limit as string), 50),
-    };
-
-    const result = await EventsService.getUserRegistrations(req.user.id, pagination);
+    const pending = await ReviewsService.getPendingReviews(req.user.id);
 
     res.json({
       success: true,
-      data: result.registrations,
-      meta: result.meta,
+      data: pending,
+      timestamp: new Date().toISOString(),
     });
   } catch (error: any) {
     res.status(500).json({
       success: false,
       error: error.message,
+      timestamp: new Date().toISOString(),
     });
   }
 });
 
-// ==================== FILE UPLOAD ENDPOINTS ====================
+// Published reviews on a member's profile
+app.get('/api/v1/users/:userId/reviews',
+  optionalAuth,
+  validate({ params: userIdParamSchema, query: reviewListSchema }),
+  async (req: ValidatedRequest<ReviewListData>, res: Response) => {
+    try {
+      const result = await ReviewsService.getUserReviews(req.params.userId, req.query);
 
-// Upload avatar utilisateur with validation and rate limiting
-app.post('/api/v1/upload/avatar', 
-  uploadRateLimit,
+      res.json({
+        success: true,
+        data: result.reviews,
+        summary: result.summary,
+        meta: result.meta,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      res.status(error.message === 'Utilisateur non trouvé' ? 404 : 500).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+);
+
+// Reply to a review I received
+app.put('/api/v1/reviews/:reviewId/reply',
   authenticateToken,
-  upload.single('avatar'),
-  validateFileUpload(['image/jpeg', 'image/png', 'image/webp'], 5 * 1024 * 1024, true),
+  validate({ params: reviewIdParamSchema, body: replyToReviewSchema }),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       if (!req.user) {
         res.status(401).json({
           success: false,
           error: 'Utilisateur non authentifié',
-          timestamp: new Date().toISOString(),
         });
         return;
       }
 
-      if (!req.file) {
-        res.status(400).json({
+      const review = await ReviewsService.replyToReview(req.params.reviewId, req.user.id, req.body.reply);
+
+      await AuditService.logResourceAction(
+        AuditActions.REVIEW_REPLY,
+        req.user.id,
+        'REVIEW',
+        review.id,
+        undefined,
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.json({
+        success: true,
+        message: 'Réponse publiée',
+        data: review,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      let status = 500;
+      if (error.message === 'Avis non trouvé') status = 404;
+      else if (error.message === 'Seule la personne évaluée peut répondre à cet avis') status = 403;
+
+      res.status(status).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+);
+
+// Report an abusive review
+app.post('/api/v1/reviews/:reviewId/report',
+  generalRateLimit,
+  authenticateToken,
+  validate({ params: reviewIdParamSchema, body: reportReviewSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
           success: false,
-          error: 'Aucun fichier fourni',
-          timestamp: new Date().toISOString(),
+          error: 'Utilisateur non authentifié',
         });
         return;
       }
 
-      // Upload vers Cloudinary
-      const uploadResult = await FileUploadService.uploadFile(
-        req.file,
-        FileType.AVATAR,
-        req.user!.id
-      );
+      const report = await ReviewsService.reportReview(req.params.reviewId, req.user.id, req.body.reason, req.body.details);
 
-      // Log file upload for audit
       await AuditService.logResourceAction(
-        AuditActions.FILE_UPLOAD,
+        AuditActions.REVIEW_REPORT,
         req.user.id,
-        'FILE',
-        uploadResult.publicId,
-        { fileType: 'avatar', fileSize: req.file.size },
+        'REVIEW',
+        req.params.reviewId,
+        { reportId: report.id, reason: report.reason },
         req.ip,
         req.get('User-Agent')
       );
 
-      // Mettre à jour l'avatar de l'utilisateur en base
-      await prisma.user.update({
-        where: { id: req.user!.id },
-        data: { avatar: uploadResult.url },
+      res.status(201).json({
+        success: true,
+        message: 'Signalement transmis à la modération',
+        data: { id: report.id, status: report.status },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      let status = 500;
+      if (error.message === 'Avis non trouvé') status = 404;
+      else if (error.message === 'Vous ne pouvez pas signaler votre propre avis') status = 403;
+      else if (error.message === 'Vous avez déjà signalé cet avis') status = 409;
+
+      res.status(status).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
       });
+    }
+  }
+);
+
+// Review reports moderation queue (users:moderate)
+app.get('/api/v1/admin/review-reports',
+  authenticateToken,
+  requirePermission(Permission.USERS_MODERATE),
+  validate({ query: reviewReportFiltersSchema }),
+  async (req: AuthenticatedRequest<ReviewReportFiltersData>, res: Response) => {
+    try {
+      const result = await ReviewsService.getReports(req.query);
 
       res.json({
         success: true,
-        message: 'Avatar mis à jour avec succès',
-        data: {
-          url: uploadResult.url,
-          publicId: uploadResult.publicId,
-          responsiveUrls: FileUploadService.generateResponsiveUrls(uploadResult.publicId),
-        },
+        data: result.reports,
+        meta: result.meta,
         timestamp: new Date().toISOString(),
       });
     } catch (error: any) {
@@ -1781,167 +6407,169 @@ app.post('/api/v1/upload/avatar',
   }
 );
 
-// Upload thumbnail pour ressource
-app.post('/api/v1/upload/resource-thumbnail', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
-  try {
-    if (!req.user) {
-      res.status(401).json({
+// Dismiss a report or hide the reported review (users:moderate)
+app.post('/api/v1/admin/review-reports/:reportId/resolve',
+  authenticateToken,
+  requirePermission(Permission.USERS_MODERATE),
+  validate({ params: reviewReportIdParamSchema, body: resolveReviewReportSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const result = await ReviewsService.resolveReport(req.params.reportId, req.user!.id, req.body.decision, req.body.reason);
+
+      await AuditService.logAdminAction(
+        AuditActions.REVIEW_MODERATE,
+        req.user!.id,
+        'REVIEW',
+        result.reviewId,
+        { reportId: result.reportId, decision: result.decision, reason: req.body.reason },
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.json({
+        success: true,
+        message: result.decision === 'HIDE' ? 'Avis masqué' : 'Signalement rejeté',
+        data: result,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      let status = 500;
+      if (error.message === 'Signalement non trouvé') status = 404;
+      else if (error.message === 'Ce signalement a déjà été traité') status = 409;
+
+      res.status(status).json({
         success: false,
-        error: 'Utilisateur non authentifié',
+        error: error.message,
+        timestamp: new Date().toISOString(),
       });
-      return;
     }
-
-    const upload = FileUploadService.createUploadMiddleware(FileType.RESOURCE_THUMBNAIL);
-    
-    upload.single('thumbnail')(req, res, async (err) => {
-      if (err) {
-        res.status(400).json({
-          success: false,
-          error: err.message,
-        });
-        return;
-      }
-
-      if (!req.file) {
-        res.status(400).json({
-          success: false,
-          error: 'Aucun fichier fourni',
-        });
-        return;
-      }
-
-      try {
-        const hasQuota = await FileUploadService.checkUserQuota(req.user!.id, req.file.size);
-        if (!hasQuota) {
-          res.status(413).json({
-            success: false,
-            error: 'Quota de stockage dépassé',
-          });
-          return;
-        }
-
-        if (!FileUploadService.validateFileType(req.file)) {
-          res.status(400).json({
-            success: false,
-            error: 'Type de fichier non autorisé',
-          });
-          return;
-        }
-
-        const uploadResult = await FileUploadService.uploadFile(
-          req.file,
-          FileType.RESOURCE_THUMBNAIL,
-          req.user!.id
-        );
-
-        res.json({
-          success: true,
-          message: 'Thumbnail uploadé avec succès',
-          data: {
-            url: uploadResult.url,
-            publicId: uploadResult.publicId,
-            responsiveUrls: FileUploadService.generateResponsiveUrls(uploadResult.publicId),
-          },
-        });
-      } catch (uploadError: any) {
-        res.status(500).json({
-          success: false,
-          error: uploadError.message,
-        });
-      }
-    });
-  } catch (error: any) {
-    res.status(500).json({
-      success: false,
-      error: error.message,
-    });
   }
-});
+);
 
-// Upload pièce jointe pour message
-app.post('/api/v1/upload/message-attachment', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
-  try {
-    if (!req.user) {
-      res.status(401).json({
+// ==================== EXPERTISES ENDPOINTS ====================
+
+// Endorsements of a member's expertise
+app.get('/api/v1/users/:userId/expertises/:expertiseId/endorsements',
+  optionalAuth,
+  validate({ params: expertiseParamsSchema }),
+  async (req: Request, res: Response) => {
+    try {
+      const result = await ExpertisesService.getEndorsements(req.params.userId, req.params.expertiseId);
+
+      res.json({
+        success: true,
+        data: result,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      res.status(error.message === 'Expertise non trouvée' ? 404 : 500).json({
         success: false,
-        error: 'Utilisateur non authentifié',
+        error: error.message,
+        timestamp: new Date().toISOString(),
       });
-      return;
     }
+  }
+);
 
-    const upload = FileUploadService.createUploadMiddleware(FileType.MESSAGE_ATTACHMENT);
-    
-    upload.single('attachment')(req, res, async (err) => {
-      if (err) {
-        res.status(400).json({
+// Endorse a connection's expertise
+app.post('/api/v1/users/:userId/expertises/:expertiseId/endorse',
+  generalRateLimit,
+  authenticateToken,
+  validate({ params: expertiseParamsSchema, body: endorseExpertiseSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
           success: false,
-          error: err.message,
+          error: 'Utilisateur non authentifié',
         });
         return;
       }
 
-      if (!req.file) {
-        res.status(400).json({
-          success: false,
-          error: 'Aucun fichier fourni',
-        });
-        return;
-      }
+      const { userId, expertiseId } = req.params;
+      const endorsement = await ExpertisesService.endorse(req.user.id, userId, expertiseId, req.body.comment);
 
-      try {
-        const hasQuota = await FileUploadService.checkUserQuota(req.user!.id, req.file.size);
-        if (!hasQuota) {
-          res.status(413).json({
-            success: false,
-            error: 'Quota de stockage dépassé',
-          });
-          return;
-        }
+      await AuditService.logResourceAction(
+        AuditActions.EXPERTISE_ENDORSE,
+        req.user.id,
+        'EXPERTISE',
+        expertiseId,
+        { userId },
+        req.ip,
+        req.get('User-Agent')
+      );
 
-        if (!FileUploadService.validateFileType(req.file)) {
-          res.status(400).json({
-            success: false,
-            error: 'Type de fichier non autorisé',
-          });
-          return;
-        }
+      res.status(201).json({
+        success: true,
+        message: 'Recommandation ajoutée',
+        data: endorsement,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      let status = 500;
+      if (error.message === 'Expertise non trouvée') status = 404;
+      else if (error.message === 'Vous ne pouvez pas recommander vos propres expertises'
+        || error.message === 'Vous devez être en relation avec ce membre pour recommander ses expertises') status = 403;
+      else if (error.message === 'Vous recommandez déjà cette expertise') status = 409;
 
-        const uploadResult = await FileUploadService.uploadFile(
-          req.file,
-          FileType.MESSAGE_ATTACHMENT,
-          req.user!.id
-        );
+      res.status(status).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+);
 
-        res.json({
-          success: true,
-          message: 'Pièce jointe uploadée avec succès',
-          data: {
-            url: uploadResult.url,
-            publicId: uploadResult.publicId,
-            filename: req.file.originalname,
-            size: uploadResult.size,
-            format: uploadResult.format,
-          },
-        });
-      } catch (uploadError: any) {
-        res.status(500).json({
+// Withdraw an endorsement
+app.delete('/api/v1/users/:userId/expertises/:expertiseId/endorse',
+  authenticateToken,
+  validate({ params: expertiseParamsSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
           success: false,
-          error: uploadError.message,
+          error: 'Utilisateur non authentifié',
         });
+        return;
       }
-    });
-  } catch (error: any) {
-    res.status(500).json({
-      success: false,
-      error: error.message,
-    });
+
+      const { userId, expertiseId } = req.params;
+      const result = await ExpertisesService.withdrawEndorsement(req.user.id, userId, expertiseId);
+
+      await AuditService.logResourceAction(
+        AuditActions.EXPERTISE_ENDORSEMENT_WITHDRAW,
+        req.user.id,
+        'EXPERTISE',
+        expertiseId,
+        { userId },
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.json({
+        success: true,
+        message: 'Recommandation retirée',
+        data: result,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      res.status(error.message === 'Recommandation non trouvée' ? 404 : 500).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
   }
-});
+);
 
-// Upload image pour événement  
-app.post('/api/v1/upload/event-image', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
-  try {
+// Request verification of one of my expertises, with supporting documents (experts and mentors)
+app.post('/api/v1/users/me/expertises/:expertiseId/verification',
+  uploadRateLimit,
+  authenticateToken,
+  validate({ params: myExpertiseParamSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
     if (!req.user) {
       res.status(401).json({
         success: false,
@@ -1950,9 +6578,9 @@ app.post('/api/v1/upload/event-image', authenticateToken, async (req: Authentica
       return;
     }
 
-    const upload = FileUploadService.createUploadMiddleware(FileType.EVENT_IMAGE);
-    
-    upload.single('image')(req, res, async (err) => {
+    const upload = FileUploadService.createUploadMiddleware(FileType.VERIFICATION_DOCUMENT);
+
+    upload.array('documents', MAX_VERIFICATION_DOCUMENTS)(req, res, async (err) => {
       if (err) {
         res.status(400).json({
           success: false,
@@ -1961,144 +6589,63 @@ app.post('/api/v1/upload/event-image', authenticateToken, async (req: Authentica
         return;
       }
 
-      if (!req.file) {
+      const files = (req.files as Express.Multer.File[]) || [];
+      const body = requestExpertiseVerificationSchema.safeParse(req.body);
+
+      if (!body.success) {
         res.status(400).json({
           success: false,
-          error: 'Aucun fichier fourni',
+          error: body.error.issues[0]?.message,
+        });
+        return;
+      }
+      if (files.some(file => !FileUploadService.validateFileType(file))) {
+        res.status(400).json({
+          success: false,
+          error: 'Type de fichier non autorisé',
         });
         return;
       }
 
       try {
-        const hasQuota = await FileUploadService.checkUserQuota(req.user!.id, req.file.size);
-        if (!hasQuota) {
-          res.status(413).json({
-            success: false,
-            error: 'Quota de stockage dépassé',
-          });
-          return;
-        }
-
-        if (!FileUploadService.validateFileType(req.file)) {
-          res.status(400).json({
-            success: false,
-            error: 'Type de fichier non autorisé',
-          });
-          return;
-        }
-
-        const uploadResult = await FileUploadService.uploadFile(
-          req.file,
-          FileType.EVENT_IMAGE,
-          req.user!.id
+        const request = await ExpertisesService.requestVerification(req.user!.id, req.params.expertiseId, files, body.data.message);
+
+        await AuditService.logResourceAction(
+          AuditActions.EXPERTISE_VERIFICATION_REQUEST,
+          req.user!.id,
+          'EXPERTISE',
+          req.params.expertiseId,
+          { requestId: request.id, documents: request.documents.length },
+          req.ip,
+          req.get('User-Agent')
         );
 
-        res.json({
+        res.status(201).json({
           success: true,
-          message: 'Image d\'événement uploadée avec succès',
-          data: {
-            url: uploadResult.url,
-            publicId: uploadResult.publicId,
-            responsiveUrls: FileUploadService.generateResponsiveUrls(uploadResult.publicId),
-          },
+          message: 'Demande de vérification envoyée',
+          data: request,
+          timestamp: new Date().toISOString(),
         });
-      } catch (uploadError: any) {
-        res.status(500).json({
+      } catch (error: any) {
+        let status = 500;
+        if (error.message === 'Expertise non trouvée') status = 404;
+        else if (error.message === 'La vérification des expertises est réservée aux experts et mentors') status = 403;
+        else if (error.message === 'Cette expertise est déjà vérifiée'
+          || error.message === 'Une demande de vérification est déjà en cours pour cette expertise') status = 409;
+        else if (error.message === 'Au moins un justificatif est requis') status = 400;
+
+        res.status(status).json({
           success: false,
-          error: uploadError.message,
+          error: error.message,
+          timestamp: new Date().toISOString(),
         });
       }
     });
-  } catch (error: any) {
-    res.status(500).json({
-      success: false,
-      error: error.message,
-    });
-  }
-});
-
-// Supprimer un fichier
-app.delete('/api/v1/upload/:publicId', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
-  try {
-    if (!req.user) {
-      res.status(401).json({
-        success: false,
-        error: 'Utilisateur non authentifié',
-      });
-      return;
-    }
-
-    const { publicId } = req.params;
-    
-    // Vérifier que le fichier appartient à l'utilisateur
-    // (cette logique devrait être améliorée avec une table de suivi des uploads)
-    if (!publicId.includes(req.user.id)) {
-      res.status(403).json({
-        success: false,
-        error: 'Non autorisé à supprimer ce fichier',
-      });
-      return;
-    }
-
-    const deleted = await FileUploadService.deleteFile(publicId);
-    
-    if (deleted) {
-      res.json({
-        success: true,
-        message: 'Fichier supprimé avec succès',
-      });
-    } else {
-      res.status(404).json({
-        success: false,
-        error: 'Fichier non trouvé ou déjà supprimé',
-      });
-    }
-  } catch (error: any) {
-    res.status(500).json({
-      success: false,
-      error: error.message,
-    });
-  }
-});
-
-// Obtenir les informations d'un fichier
-app.get('/api/v1/upload/:publicId/info', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
-  try {
-    if (!req.user) {
-      res.status(401).json({
-        success: false,
-        error: 'Utilisateur non authentifié',
-      });
-      return;
-    }
-
-    const { publicId } = req.params;
-    
-    const fileInfo = await FileUploadService.getFileInfo(publicId);
-    
-    res.json({
-      success: true,
-      data: fileInfo,
-    });
-  } catch (error: any) {
-    if (error.message.includes('not found')) {
-      res.status(404).json({
-        success: false,
-        error: 'Fichier non trouvé',
-      });
-    } else {
-      res.status(500).json({
-        success: false,
-        error: error.message,
-      });
-    }
   }
-});
-
-// ==================== NOTIFICATIONS ENDPOINTS ====================
+);
 
-// Get user notifications
-app.get('/api/v1/notifications', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+// My verification requests
+app.get('/api/v1/users/me/verification-requests', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
     if (!req.user) {
       res.status(401).json({
@@ -2108,78 +6655,161 @@ app.get('/api/v1/notifications', authenticateToken, async (req: AuthenticatedReq
       return;
     }
 
-    const {
-      page = '1',
-      limit = '10',
-      type,
-      read,
-      search,
-    } = req.query;
-
-    const filters = {
-      type: type as any,
-      read: read === 'true' ? true : read === 'false' ? false : undefined,
-      search: search as string,
-    };
-
-    const pagination = {
-      page: parseInt(page as string),
-      limit: Math.min(parseInt(limit as string), 50),
-      sortBy: 'createdAt',
-      sortOrder: 'desc' as 'desc',
-    };
-
-    const result = await NotificationsService.getUserNotifications(req.user.id, filters, pagination);
+    const requests = await ExpertisesService.getUserVerificationRequests(req.user.id);
 
     res.json({
       success: true,
-      data: result.notifications,
-      meta: result.meta,
+      data: requests,
+      timestamp: new Date().toISOString(),
     });
   } catch (error: any) {
     res.status(500).json({
       success: false,
       error: error.message,
+      timestamp: new Date().toISOString(),
     });
   }
 });
 
-// Mark notification as read
-app.put('/api/v1/notifications/:notificationId/read', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
-  try {
-    if (!req.user) {
-      res.status(401).json({
+// Expertise verification queue (expertises:verify)
+app.get('/api/v1/admin/expertise-verifications',
+  authenticateToken,
+  requirePermission(Permission.EXPERTISES_VERIFY),
+  validate({ query: verificationQueueFiltersSchema }),
+  async (req: AuthenticatedRequest<VerificationQueueFiltersData>, res: Response) => {
+    try {
+      const result = await ExpertisesService.getVerificationQueue(req.query);
+
+      res.json({
+        success: true,
+        data: result.requests,
+        meta: result.meta,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      res.status(500).json({
         success: false,
-        error: 'Utilisateur non authentifié',
+        error: error.message,
+        timestamp: new Date().toISOString(),
       });
-      return;
     }
+  }
+);
 
-    const { notificationId } = req.params;
-    const notification = await NotificationsService.markAsRead(notificationId, req.user.id);
+// Approve or reject a verification request (expertises:verify)
+app.post('/api/v1/admin/expertise-verifications/:requestId/resolve',
+  authenticateToken,
+  requirePermission(Permission.EXPERTISES_VERIFY),
+  validate({ params: verificationRequestIdParamSchema, body: reviewExpertiseVerificationSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const result = await ExpertisesService.reviewVerification(req.params.requestId, req.user!.id, req.body.decision, req.body.note);
+
+      await AuditService.logAdminAction(
+        AuditActions.EXPERTISE_VERIFICATION_REVIEW,
+        req.user!.id,
+        'EXPERTISE',
+        result.expertiseId,
+        { requestId: result.requestId, userId: result.userId, decision: result.decision, note: req.body.note },
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.json({
+        success: true,
+        message: result.decision === 'APPROVE' ? 'Expertise vérifiée' : 'Demande refusée',
+        data: result,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      let status = 500;
+      if (error.message === 'Demande de vérification non trouvée') status = 404;
+      else if (error.message === 'Cette demande a déjà été traitée') status = 409;
+
+      res.status(status).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+);
+
+// ==================== LOCATIONS ENDPOINTS ====================
+
+// City suggestions from the bundled gazetteer (location autocomplete)
+app.get('/api/v1/locations/search',
+  validate({ query: locationSuggestSchema }),
+  async (req: ValidatedRequest<LocationSuggestData>, res: Response) => {
+    const { q, country, limit } = req.query;
 
     res.json({
       success: true,
-      message: 'Notification marquée comme lue',
-      data: notification,
+      data: LocationsService.suggest(q, limit, country),
+      timestamp: new Date().toISOString(),
     });
-  } catch (error: any) {
-    if (error.message === 'Notification non trouvée') {
-      res.status(404).json({
-        success: false,
-        error: error.message,
+  }
+);
+
+// Known countries and their region codes (country / region list filters)
+app.get('/api/v1/locations/countries', async (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: LocationsService.listCountries(),
+    timestamp: new Date().toISOString(),
+  });
+});
+
+// Structure free-text locations entered before the gazetteer (users:manage)
+app.post('/api/v1/admin/locations/migrate',
+  authenticateToken,
+  requirePermission(Permission.USERS_MANAGE),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const report = await LocationsService.migrateFreeText();
+
+      await AuditService.logAdminAction(
+        AuditActions.LOCATIONS_MIGRATE,
+        req.user!.id,
+        'LOCATION',
+        undefined,
+        {
+          users: report.users.resolved,
+          opportunities: report.opportunities.resolved,
+          events: report.events.resolved,
+        },
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.json({
+        success: true,
+        data: report,
+        timestamp: new Date().toISOString(),
       });
-    } else {
+    } catch (error: any) {
       res.status(500).json({
         success: false,
         error: error.message,
+        timestamp: new Date().toISOString(),
       });
     }
   }
+);
+
+// ==================== API KEYS ENDPOINTS ====================
+
+// Available scopes
+app.get('/api/v1/auth/api-keys/scopes', authenticateToken, (req: AuthenticatedRequest, res: Response) => {
+  res.json({
+    success: true,
+    data: API_KEY_SCOPES,
+    timestamp: new Date().toISOString(),
+  });
 });
 
-// Mark all notifications as read
-app.put('/api/v1/notifications/read-all', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+// List my API keys (secrets are never returned)
+app.get('/api/v1/auth/api-keys', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
     if (!req.user) {
       res.status(401).json({
@@ -2189,301 +6819,424 @@ app.put('/api/v1/notifications/read-all', authenticateToken, async (req: Authent
       return;
     }
 
-    const result = await NotificationsService.markAllAsRead(req.user.id);
+    const keys = await ApiKeyService.listKeys(req.user.id);
 
     res.json({
       success: true,
-      message: `${result.count} notifications marquées comme lues`,
-      data: result,
+      data: keys,
+      timestamp: new Date().toISOString(),
     });
   } catch (error: any) {
     res.status(500).json({
       success: false,
       error: error.message,
+      timestamp: new Date().toISOString(),
     });
   }
 });
 
-// Delete notification
-app.delete('/api/v1/notifications/:notificationId', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
-  try {
-    if (!req.user) {
-      res.status(401).json({
+// Create an API key (the key is only shown in this response)
+app.post('/api/v1/auth/api-keys',
+  generalRateLimit,
+  authenticateToken,
+  validate({ body: createApiKeySchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
+
+      const apiKey = await ApiKeyService.createKey(req.user.id, req.body);
+
+      await AuditService.logResourceAction(
+        AuditActions.API_KEY_CREATE,
+        req.user.id,
+        'API_KEY',
+        apiKey.id,
+        { name: apiKey.name, prefix: apiKey.prefix, scopes: apiKey.scopes, expiresAt: apiKey.expiresAt },
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Clé d\'API créée. Conservez-la : elle ne sera plus affichée.',
+        data: apiKey,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      const status = error.message.startsWith('Scopes inconnus') || error.message.startsWith('Nombre maximum de clés')
+        ? 400
+        : 500;
+
+      res.status(status).json({
         success: false,
-        error: 'Utilisateur non authentifié',
+        error: error.message,
+        timestamp: new Date().toISOString(),
       });
-      return;
     }
+  }
+);
 
-    const { notificationId } = req.params;
-    const result = await NotificationsService.deleteNotification(notificationId, req.user.id);
+// Revoke an API key
+app.delete('/api/v1/auth/api-keys/:keyId',
+  authenticateToken,
+  validate({ params: apiKeyIdParamSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
 
-    res.json({
-      success: true,
-      message: 'Notification supprimée avec succès',
-      data: result,
-    });
-  } catch (error: any) {
-    if (error.message === 'Notification non trouvée') {
-      res.status(404).json({
-        success: false,
-        error: error.message,
+      const apiKey = await ApiKeyService.revokeKey(req.user.id, req.params.keyId);
+
+      await AuditService.logResourceAction(
+        AuditActions.API_KEY_REVOKE,
+        req.user.id,
+        'API_KEY',
+        apiKey.id,
+        { prefix: apiKey.prefix },
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.json({
+        success: true,
+        message: 'Clé d\'API révoquée',
+        timestamp: new Date().toISOString(),
       });
-    } else {
-      res.status(500).json({
+    } catch (error: any) {
+      let status = 500;
+      if (error.message === 'Clé d\'API non trouvée') status = 404;
+      else if (error.message === 'Cette clé d\'API est déjà révoquée') status = 409;
+
+      res.status(status).json({
         success: false,
         error: error.message,
+        timestamp: new Date().toISOString(),
       });
     }
   }
-});
+);
 
-// Get unread notifications count
-app.get('/api/v1/notifications/unread/count', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
-  try {
-    if (!req.user) {
-      res.status(401).json({
+// List an organization's API keys (owners and admins)
+app.get('/api/v1/organizations/:organizationId/api-keys',
+  authenticateToken,
+  validate({ params: organizationIdParamSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
+
+      const keys = await ApiKeyService.listOrganizationKeys(req.params.organizationId, req.user.id);
+
+      res.json({
+        success: true,
+        data: keys,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      let status = 500;
+      if (error.message === 'Organisation non trouvée') status = 404;
+      else if (error.message === 'Réservé aux administrateurs de l\'organisation') status = 403;
+
+      res.status(status).json({
         success: false,
-        error: 'Utilisateur non authentifié',
+        error: error.message,
+        timestamp: new Date().toISOString(),
       });
-      return;
     }
+  }
+);
 
-    const result = await NotificationsService.getUnreadCount(req.user.id);
+// Create an organization API key (the key is only shown in this response)
+app.post('/api/v1/organizations/:organizationId/api-keys',
+  generalRateLimit,
+  authenticateToken,
+  validate({ params: organizationIdParamSchema, body: createApiKeySchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
 
-    res.json({
-      success: true,
-      data: result,
-    });
-  } catch (error: any) {
-    res.status(500).json({
-      success: false,
-      error: error.message,
-    });
+      const { organizationId } = req.params;
+      const apiKey = await ApiKeyService.createKey(req.user.id, req.body, organizationId);
+
+      await AuditService.logResourceAction(
+        AuditActions.API_KEY_CREATE,
+        req.user.id,
+        'API_KEY',
+        apiKey.id,
+        { organizationId, name: apiKey.name, prefix: apiKey.prefix, scopes: apiKey.scopes, expiresAt: apiKey.expiresAt },
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Clé d\'API créée. Conservez-la : elle ne sera plus affichée.',
+        data: apiKey,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      let status = 500;
+      if (error.message === 'Organisation non trouvée') status = 404;
+      else if (error.message === 'Réservé aux administrateurs de l\'organisation') status = 403;
+      else if (error.message.startsWith('Scopes inconnus') || error.message.startsWith('Nombre maximum de clés')) status = 400;
+
+      res.status(status).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
   }
-});
-
-// ==================== ANALYTICS ENDPOINTS ====================
+);
 
-// Get platform statistics with rate limiting and validation
-app.get('/api/v1/analytics/platform', 
-  analyticsRateLimit,
-  authenticateToken, 
-  validatePermissions(['admin']),
+// Revoke an organization API key
+app.delete('/api/v1/organizations/:organizationId/api-keys/:keyId',
+  authenticateToken,
+  validate({ params: organizationApiKeyParamsSchema }),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       if (!req.user) {
         res.status(401).json({
           success: false,
           error: 'Utilisateur non authentifié',
-          timestamp: new Date().toISOString(),
         });
         return;
       }
 
-      const stats = await AnalyticsService.getPlatformStats();
+      const { organizationId, keyId } = req.params;
+      const apiKey = await ApiKeyService.revokeKey(req.user.id, keyId, organizationId);
 
-      // Log analytics access for audit
       await AuditService.logResourceAction(
-        AuditActions.ADMIN_ACTION,
+        AuditActions.API_KEY_REVOKE,
         req.user.id,
-        'ANALYTICS',
-        'platform-stats',
-        { action: 'view_platform_statistics' },
+        'API_KEY',
+        apiKey.id,
+        { organizationId, prefix: apiKey.prefix },
         req.ip,
         req.get('User-Agent')
       );
 
-    res.json({
-      success: true,
-      data: stats,
-    });
-  } catch (error: any) {
-    res.status(500).json({
-      success: false,
-      error: error.message,
-    });
-  }
-});
-
-// Get user activity metrics
-app.get('/api/v1/analytics/user/:userId', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
-  try {
-    if (!req.user) {
-      res.status(401).json({
-        success: false,
-        error: 'Utilisateur non authentifié',
+      res.json({
+        success: true,
+        message: 'Clé d\'API révoquée',
+        timestamp: new Date().toISOString(),
       });
-      return;
-    }
-
-    const { userId } = req.params;
-    const { period = 'month' } = req.query;
+    } catch (error: any) {
+      let status = 500;
+      if (error.message === 'Organisation non trouvée' || error.message === 'Clé d\'API non trouvée') status = 404;
+      else if (error.message === 'Réservé aux administrateurs de l\'organisation') status = 403;
+      else if (error.message === 'Cette clé d\'API est déjà révoquée') status = 409;
 
-    // Vérifier que l'utilisateur peut voir ces métriques (lui-même ou admin)
-    const currentUser = await UsersService.getUserById(req.user.id);
-    if (userId !== req.user.id && currentUser.profileType !== 'ADMIN') {
-      res.status(403).json({
+      res.status(status).json({
         success: false,
-        error: 'Accès interdit - Vous ne pouvez voir que vos propres métriques',
+        error: error.message,
+        timestamp: new Date().toISOString(),
       });
-      return;
     }
+  }
+);
 
-    const metrics = await AnalyticsService.getUserActivityMetrics(
-      userId, 
-      period as 'week' | 'month' | 'year'
-    );
+// ==================== ROLES & PERMISSIONS ENDPOINTS ====================
 
-    res.json({
-      success: true,
-      data: metrics,
-    });
-  } catch (error: any) {
-    res.status(500).json({
-      success: false,
-      error: error.message,
-    });
-  }
-});
+// Permissions of the current user
+app.get('/api/v1/auth/permissions',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Utilisateur non authentifié',
+        });
+        return;
+      }
 
-// Get my activity metrics
-app.get('/api/v1/analytics/my-activity', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
-  try {
-    if (!req.user) {
-      res.status(401).json({
+      const data = await RolesService.getUserRoles(req.user.id);
+
+      res.json({
+        success: true,
+        data,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      res.status(500).json({
         success: false,
-        error: 'Utilisateur non authentifié',
+        error: error.message,
+        timestamp: new Date().toISOString(),
       });
-      return;
     }
+  }
+);
 
-    const { period = 'month' } = req.query;
-
-    const metrics = await AnalyticsService.getUserActivityMetrics(
-      req.user.id, 
-      period as 'week' | 'month' | 'year'
-    );
-
+// Role and permission catalogue (roles:manage)
+app.get('/api/v1/roles',
+  generalRateLimit,
+  authenticateToken,
+  requirePermission(Permission.ROLES_MANAGE),
+  (req: AuthenticatedRequest, res: Response) => {
     res.json({
       success: true,
-      data: metrics,
-    });
-  } catch (error: any) {
-    res.status(500).json({
-      success: false,
-      error: error.message,
+      data: RolesService.getCatalogue(),
+      timestamp: new Date().toISOString(),
     });
   }
-});
+);
 
-// Get engagement metrics
-app.get('/api/v1/analytics/engagement', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
-  try {
-    if (!req.user) {
-      res.status(401).json({
+// Users holding a role (roles:manage)
+app.get('/api/v1/roles/assignments',
+  generalRateLimit,
+  authenticateToken,
+  requirePermission(Permission.ROLES_MANAGE),
+  validate({ query: roleAssignmentsFiltersSchema }),
+  async (req: AuthenticatedRequest<RoleAssignmentsFiltersData>, res: Response) => {
+    try {
+      const assignments = await RolesService.getAssignments(req.query.role);
+
+      res.json({
+        success: true,
+        data: assignments,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      res.status(500).json({
         success: false,
-        error: 'Utilisateur non authentifié',
+        error: error.message,
+        timestamp: new Date().toISOString(),
       });
-      return;
     }
+  }
+);
 
-    // Vérifier les permissions (admin seulement)
-    const user = await UsersService.getUserById(req.user.id);
-    if (user.profileType !== 'ADMIN') {
-      res.status(403).json({
+// Roles of a user (roles:manage)
+app.get('/api/v1/users/:userId/roles',
+  generalRateLimit,
+  authenticateToken,
+  requirePermission(Permission.ROLES_MANAGE),
+  validate({ params: userIdParamSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const data = await RolesService.getUserRoles(req.params.userId);
+
+      res.json({
+        success: true,
+        data,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      res.status(error.message === 'Utilisateur non trouvé' ? 404 : 500).json({
         success: false,
-        error: 'Accès interdit - Admin requis',
+        error: error.message,
+        timestamp: new Date().toISOString(),
       });
-      return;
     }
+  }
+);
 
-    const metrics = await AnalyticsService.getEngagementMetrics();
+// Grant a role (roles:manage)
+app.post('/api/v1/users/:userId/roles',
+  generalRateLimit,
+  authenticateToken,
+  requirePermission(Permission.ROLES_MANAGE),
+  validate({ params: userIdParamSchema, body: grantRoleSchema }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { userId } = req.params;
+      const { role } = req.body;
 
-    res.json({
-      success: true,
-      data: metrics,
-    });
-  } catch (error: any) {
-    res.status(500).json({
-      success: false,
-      error: error.message,
-    });
-  }
-});
+      const userRole = await RolesService.grantRole(userId, role, req.user!.id);
 
-// Get time trends
-app.get('/api/v1/analytics/trends', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
-  try {
-    if (!req.user) {
-      res.status(401).json({
-        success: false,
-        error: 'Utilisateur non authentifié',
+      await AuditService.logAdminAction(
+        AuditActions.ROLE_GRANT,
+        req.user!.id,
+        'USER',
+        userId,
+        { role },
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Rôle attribué',
+        data: userRole,
+        timestamp: new Date().toISOString(),
       });
-      return;
-    }
+    } catch (error: any) {
+      let status = 500;
+      if (error.message === 'Utilisateur non trouvé') status = 404;
+      else if (error.message === 'Ce rôle est déjà attribué à l\'utilisateur') status = 409;
 
-    // Vérifier les permissions (admin seulement)
-    const user = await UsersService.getUserById(req.user.id);
-    if (user.profileType !== 'ADMIN') {
-      res.status(403).json({
+      res.status(status).json({
         success: false,
-        error: 'Accès interdit - Admin requis',
+        error: error.message,
+        timestamp: new Date().toISOString(),
       });
-      return;
     }
+  }
+);
 
-    const { days = '30' } = req.query;
-    const daysInt = Math.min(Math.max(parseInt(days as string), 1), 365);
+// Revoke a role (roles:manage)
+app.delete('/api/v1/users/:userId/roles/:role',
+  generalRateLimit,
+  authenticateToken,
+  requirePermission(Permission.ROLES_MANAGE),
+  validate({ params: userRoleParamsSchema }),
+  async (req: AuthenticatedRequest<{}, UserRoleParamsData>, res: Response) => {
+    try {
+      const { userId, role } = req.params;
 
-    const trends = await AnalyticsService.getTimeTrends(daysInt);
+      await RolesService.revokeRole(userId, role, req.user!.id);
 
-    res.json({
-      success: true,
-      data: trends,
-    });
-  } catch (error: any) {
-    res.status(500).json({
-      success: false,
-      error: error.message,
-    });
-  }
-});
+      await AuditService.logAdminAction(
+        AuditActions.ROLE_REVOKE,
+        req.user!.id,
+        'USER',
+        userId,
+        { role },
+        req.ip,
+        req.get('User-Agent')
+      );
 
-// Get usage statistics
-app.get('/api/v1/analytics/usage', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
-  try {
-    if (!req.user) {
-      res.status(401).json({
-        success: false,
-        error: 'Utilisateur non authentifié',
+      res.json({
+        success: true,
+        message: 'Rôle retiré',
+        timestamp: new Date().toISOString(),
       });
-      return;
-    }
+    } catch (error: any) {
+      let status = 500;
+      if (error.message === 'Ce rôle n\'est pas attribué à l\'utilisateur') status = 404;
+      else if (error.message === 'Vous ne pouvez pas retirer votre propre rôle de super administrateur') status = 400;
 
-    // Vérifier les permissions (admin seulement)
-    const user = await UsersService.getUserById(req.user.id);
-    if (user.profileType !== 'ADMIN') {
-      res.status(403).json({
+      res.status(status).json({
         success: false,
-        error: 'Accès interdit - Admin requis',
+        error: error.message,
+        timestamp: new Date().toISOString(),
       });
-      return;
     }
-
-    const usage = await AnalyticsService.getUsageStatistics();
-
-    res.json({
-      success: true,
-      data: usage,
-    });
-  } catch (error: any) {
-    res.status(500).json({
-      success: false,
-      error: error.message,
-    });
   }
-});
+);
 
 // API info
 app.get('/api/v1', (req: Request, res: Response) => {
@@ -2493,10 +7246,62 @@ app.get('/api/v1', (req: Request, res: Response) => {
     endpoints: {
       'POST /api/v1/auth/register': 'User registration',
       'POST /api/v1/auth/login': 'User login',
+      'POST /api/v1/auth/login/verify-2fa': 'Complete login with 2FA code',
+      'POST /api/v1/auth/login/setup-2fa': 'Start mandatory 2FA enrollment',
+      'POST /api/v1/auth/login/enable-2fa': 'Confirm mandatory 2FA and login',
+      'POST /api/v1/auth/refresh': 'Refresh tokens (rotation)',
+      'POST /api/v1/auth/logout': 'Logout current device',
+      'GET /api/v1/auth/sessions': 'List active sessions',
+      'DELETE /api/v1/auth/sessions': 'Revoke all other sessions',
+      'DELETE /api/v1/auth/sessions/:id': 'Revoke a session',
+      'POST /api/v1/auth/verify-email': 'Confirm email address',
+      'POST /api/v1/auth/resend-verification': 'Resend verification email',
+      'GET /api/v1/auth/login-history': 'Recent sign-in attempts',
       'GET /api/v1/auth/profile': 'Get user profile',
-      'GET /api/v1/users': 'List users',
+      'GET /api/v1/auth/2fa': 'Get 2FA status',
+      'POST /api/v1/auth/2fa/setup': 'Start 2FA enrollment',
+      'POST /api/v1/auth/2fa/enable': 'Confirm 2FA enrollment',
+      'POST /api/v1/auth/2fa/disable': 'Disable 2FA',
+      'POST /api/v1/auth/2fa/recovery-codes': 'Regenerate recovery codes',
+      'GET /api/v1/auth/2fa/policies': 'List 2FA policies (Admin)',
+      'PUT /api/v1/auth/2fa/policies/:profileType': 'Set 2FA policy (Admin)',
+      'GET /api/v1/users': 'List users (with search: relevance ranking, highlights and facets; country, region, near=lat,lng&radiusKm=)',
       'GET /api/v1/users/:id': 'Get user by ID',
       'PUT /api/v1/users/me': 'Update profile',
+      'GET /api/v1/users/me/completion': 'Profile completeness and missing items',
+      'GET /api/v1/users/me/profile-views': 'Profile view counts over time',
+      'GET /api/v1/users/me/profile-views/viewers': 'Members who viewed my profile',
+      'GET /api/v1/users/me/profile-views/settings': 'Profile view privacy settings',
+      'PUT /api/v1/users/me/profile-views/settings': 'Enable or disable anonymous browsing',
+      'GET /api/v1/users/me/privacy': 'Privacy settings (email, phone, location, connections)',
+      'PUT /api/v1/users/me/privacy': 'Update privacy settings',
+      'GET /api/v1/users/me/recommendations': 'People you may know, with explanations',
+      'POST /api/v1/users/me/recommendations/:userId/dismiss': 'Dismiss a suggested member',
+      'DELETE /api/v1/users/me/recommendations/:userId/dismiss': 'Undo a dismissal',
+      'GET /api/v1/users/me/saved-searches': 'List my saved searches',
+      'POST /api/v1/users/me/saved-searches': 'Save a search on opportunities, events or resources',
+      'GET /api/v1/users/me/saved-searches/:searchId': 'Get a saved search',
+      'PUT /api/v1/users/me/saved-searches/:searchId': 'Edit a saved search and its alerts',
+      'DELETE /api/v1/users/me/saved-searches/:searchId': 'Delete a saved search',
+      'GET /api/v1/users/me/bookmarks': 'List my bookmarks (by type or collection)',
+      'POST /api/v1/users/me/bookmarks': 'Bookmark an opportunity, event, resource or member',
+      'DELETE /api/v1/users/me/bookmarks/:targetType/:targetId': 'Remove a bookmark',
+      'GET /api/v1/users/me/bookmark-collections': 'List my bookmark collections',
+      'POST /api/v1/users/me/bookmark-collections': 'Create a bookmark collection',
+      'PUT /api/v1/users/me/bookmark-collections/:collectionId': 'Rename a bookmark collection',
+      'DELETE /api/v1/users/me/bookmark-collections/:collectionId': 'Delete a bookmark collection',
+      'POST /api/v1/connections': 'Send connection request',
+      'GET /api/v1/connections': 'Get my network',
+      'GET /api/v1/connections/requests/incoming': 'Get received requests',
+      'GET /api/v1/connections/requests/outgoing': 'Get sent requests',
+      'GET /api/v1/connections/blocked': 'Get blocked users',
+      'GET /api/v1/connections/status/:userId': 'Get connection status',
+      'GET /api/v1/connections/mutual/:userId': 'Get mutual connections',
+      'PUT /api/v1/connections/:id/accept': 'Accept request',
+      'PUT /api/v1/connections/:id/reject': 'Reject request',
+      'DELETE /api/v1/connections/:id': 'Withdraw request or remove connection',
+      'POST /api/v1/connections/block/:userId': 'Block user',
+      'DELETE /api/v1/connections/block/:userId': 'Unblock user',
       'POST /api/v1/messages': 'Send message',
       'GET /api/v1/messages/received': 'Get received messages',
       'GET /api/v1/messages/sent': 'Get sent messages',
@@ -2506,12 +7311,13 @@ app.get('/api/v1', (req: Request, res: Response) => {
       'DELETE /api/v1/messages/:id': 'Delete message',
       'GET /api/v1/messages/unread/count': 'Get unread count',
       'POST /api/v1/opportunities': 'Create opportunity',
-      'GET /api/v1/opportunities': 'List opportunities',
+      'GET /api/v1/opportunities': 'List opportunities (country, region, near=lat,lng&radiusKm=)',
       'GET /api/v1/opportunities/:id': 'Get opportunity by ID',
       'PUT /api/v1/opportunities/:id': 'Update opportunity',
       'DELETE /api/v1/opportunities/:id': 'Delete opportunity',
       'POST /api/v1/opportunities/:id/apply': 'Apply to opportunity',
       'GET /api/v1/opportunities/:id/applications': 'Get applications',
+      'PUT /api/v1/opportunities/:id/applications/:applicationId/status': 'Accept or reject an application',
       'GET /api/v1/applications/my': 'Get my applications',
       'POST /api/v1/resources': 'Create resource',
       'GET /api/v1/resources': 'List resources',
@@ -2521,7 +7327,7 @@ app.get('/api/v1', (req: Request, res: Response) => {
       'POST /api/v1/resources/:id/favorite': 'Toggle favorite',
       'GET /api/v1/resources/favorites/my': 'Get my favorites',
       'POST /api/v1/events': 'Create event',
-      'GET /api/v1/events': 'List events',
+      'GET /api/v1/events': 'List events (country, region, near=lat,lng&radiusKm=)',
       'GET /api/v1/events/:id': 'Get event by ID',
       'PUT /api/v1/events/:id': 'Update event',
       'DELETE /api/v1/events/:id': 'Delete event',
@@ -2546,6 +7352,76 @@ app.get('/api/v1', (req: Request, res: Response) => {
       'GET /api/v1/analytics/engagement': 'Get engagement metrics (Admin)',
       'GET /api/v1/analytics/trends': 'Get time trends (Admin)',
       'GET /api/v1/analytics/usage': 'Get usage statistics (Admin)',
+      'GET /api/v1/emails/outbox': 'List email outbox (Admin)',
+      'GET /api/v1/emails/stats': 'Email delivery statistics (Admin)',
+      'POST /api/v1/emails/outbox/:emailId/retry': 'Retry failed email (Admin)',
+      'GET /api/v1/audit/logs': 'Search audit trail (Admin)',
+      'GET /api/v1/audit/stats': 'Get audit statistics (Admin)',
+      'GET /api/v1/audit/suspicious/:userId': 'Check suspicious activity (Admin)',
+      'POST /api/v1/audit/unlock/:userId': 'Unlock a locked account (Admin)',
+      'POST /api/v1/users/me/export': 'Request a personal data export (GDPR)',
+      'GET /api/v1/users/me/exports': 'List my data exports',
+      'GET /api/v1/users/me/export/:exportId/download': 'Download a data export (signed link)',
+      'DELETE /api/v1/users/me': 'Schedule account deletion (grace period)',
+      'GET /api/v1/users/me/deletion': 'Get pending account deletion',
+      'POST /api/v1/users/me/deletion/cancel': 'Cancel account deletion',
+      'DELETE /api/v1/users/:userId': 'Erase and anonymize an account (Admin)',
+      'POST /api/v1/users/:userId/suspend': 'Suspend a user (Moderator)',
+      'POST /api/v1/users/:userId/ban': 'Ban a user (Admin)',
+      'POST /api/v1/users/:userId/reactivate': 'Reactivate a user (Moderator)',
+      'POST /api/v1/admin/impersonate/:userId': 'Connect as a member for support (Admin)',
+      'POST /api/v1/auth/impersonation/end': 'End the current support session',
+      'GET /api/v1/auth/registration': 'Registration mode (open or invitation-only)',
+      'GET /api/v1/invitations/code/:code': 'Preview an invitation code',
+      'GET /api/v1/invitations': 'List my invitations',
+      'POST /api/v1/invitations': 'Create an invitation code (Incubator)',
+      'POST /api/v1/invitations/email': 'Email invitations (Incubator)',
+      'GET /api/v1/invitations/:invitationId': 'Invitation details and joined members',
+      'DELETE /api/v1/invitations/:invitationId': 'Revoke an invitation',
+      'POST /api/v1/organizations': 'Create an organization',
+      'GET /api/v1/organizations': 'List organizations',
+      'GET /api/v1/users/me/organizations': 'My organizations and pending memberships',
+      'GET /api/v1/organizations/:organizationId': 'Get organization by ID',
+      'PUT /api/v1/organizations/:organizationId': 'Update an organization (Organization admin)',
+      'DELETE /api/v1/organizations/:organizationId': 'Delete an organization (Organization owner)',
+      'POST /api/v1/organizations/:organizationId/logo': 'Upload organization logo (Organization admin)',
+      'GET /api/v1/organizations/:organizationId/members': 'List organization members',
+      'POST /api/v1/organizations/:organizationId/join': 'Request to join an organization',
+      'POST /api/v1/organizations/:organizationId/members': 'Invite a member (Organization admin)',
+      'POST /api/v1/organizations/:organizationId/members/:userId/approve': 'Approve a join request (Organization admin)',
+      'POST /api/v1/organizations/:organizationId/invitation/accept': 'Accept an organization invitation',
+      'PUT /api/v1/organizations/:organizationId/members/:userId': 'Change a member role (Organization admin)',
+      'DELETE /api/v1/organizations/:organizationId/members/:userId': 'Leave, reject or remove a member',
+      'POST /api/v1/reviews': 'Review a collaboration (accepted application or attended event)',
+      'GET /api/v1/reviews/pending': 'Collaborations I can still review',
+      'GET /api/v1/users/:userId/reviews': 'Published reviews of a member',
+      'PUT /api/v1/reviews/:reviewId/reply': 'Reply to a review I received',
+      'POST /api/v1/reviews/:reviewId/report': 'Report an abusive review',
+      'GET /api/v1/admin/review-reports': 'Review reports queue (Moderator)',
+      'POST /api/v1/admin/review-reports/:reportId/resolve': 'Dismiss a report or hide the review (Moderator)',
+      'GET /api/v1/users/:userId/expertises/:expertiseId/endorsements': 'Endorsements of an expertise',
+      'POST /api/v1/users/:userId/expertises/:expertiseId/endorse': 'Endorse a connection\'s expertise',
+      'DELETE /api/v1/users/:userId/expertises/:expertiseId/endorse': 'Withdraw an endorsement',
+      'POST /api/v1/users/me/expertises/:expertiseId/verification': 'Request expertise verification with documents (Expert, Mentor)',
+      'GET /api/v1/users/me/verification-requests': 'My expertise verification requests',
+      'GET /api/v1/admin/expertise-verifications': 'Expertise verification queue (Moderator)',
+      'POST /api/v1/admin/expertise-verifications/:requestId/resolve': 'Approve or reject a verification request (Moderator)',
+      'GET /api/v1/locations/search': 'City suggestions from the location gazetteer',
+      'GET /api/v1/locations/countries': 'Known countries and region codes',
+      'POST /api/v1/admin/locations/migrate': 'Structure free-text locations (Admin)',
+      'GET /api/v1/auth/api-keys/scopes': 'List API key scopes',
+      'GET /api/v1/auth/api-keys': 'List my API keys',
+      'POST /api/v1/auth/api-keys': 'Create an API key (shown once)',
+      'DELETE /api/v1/auth/api-keys/:keyId': 'Revoke an API key',
+      'GET /api/v1/organizations/:organizationId/api-keys': 'List organization API keys (owners and admins)',
+      'POST /api/v1/organizations/:organizationId/api-keys': 'Create an organization API key (shown once)',
+      'DELETE /api/v1/organizations/:organizationId/api-keys/:keyId': 'Revoke an organization API key',
+      'GET /api/v1/auth/permissions': 'Get my roles and permissions',
+      'GET /api/v1/roles': 'Role and permission catalogue (Admin)',
+      'GET /api/v1/roles/assignments': 'List role assignments (Admin)',
+      'GET /api/v1/users/:userId/roles': 'Get user roles (Admin)',
+      'POST /api/v1/users/:userId/roles': 'Grant a role (Admin)',
+      'DELETE /api/v1/users/:userId/roles/:role': 'Revoke a role (Admin)',
     },
   });
 });
@@ -2565,6 +7441,16 @@ async function startServer() {
     await prisma.$connect();
     console.log('✅ Database connected');
 
+    // Recherche de l'annuaire : plein texte PostgreSQL (repli simple sous SQLite) et indexation des profils
+    await SearchService.initialize();
+
+    // Localisations structurées : reprise des saisies libres antérieures au gazetteer
+    try {
+      await LocationsService.migrateFreeText();
+    } catch (error) {
+      console.error('❌ Location migration failed:', error);
+    }
+
     const server = app.listen(PORT, () => {
       console.log('🚀 PME 360 API Server Started');
       console.log('===============================');
@@ -2575,10 +7461,62 @@ async function startServer() {
       console.log('📌 Available Endpoints:');
       console.log('   POST /api/v1/auth/register');
       console.log('   POST /api/v1/auth/login');
+      console.log('   POST /api/v1/auth/login/verify-2fa');
+      console.log('   POST /api/v1/auth/login/setup-2fa');
+      console.log('   POST /api/v1/auth/login/enable-2fa');
+      console.log('   POST /api/v1/auth/refresh');
+      console.log('   POST /api/v1/auth/logout');
+      console.log('   GET  /api/v1/auth/sessions');
+      console.log('   DEL  /api/v1/auth/sessions');
+      console.log('   DEL  /api/v1/auth/sessions/:id');
+      console.log('   POST /api/v1/auth/verify-email');
+      console.log('   POST /api/v1/auth/resend-verification');
+      console.log('   GET  /api/v1/auth/login-history');
       console.log('   GET  /api/v1/auth/profile');
+      console.log('   GET  /api/v1/auth/2fa');
+      console.log('   POST /api/v1/auth/2fa/setup');
+      console.log('   POST /api/v1/auth/2fa/enable');
+      console.log('   POST /api/v1/auth/2fa/disable');
+      console.log('   POST /api/v1/auth/2fa/recovery-codes');
+      console.log('   GET  /api/v1/auth/2fa/policies');
+      console.log('   PUT  /api/v1/auth/2fa/policies/:profileType');
       console.log('   GET  /api/v1/users');
       console.log('   GET  /api/v1/users/:id');
       console.log('   PUT  /api/v1/users/me');
+      console.log('   GET  /api/v1/users/me/completion');
+      console.log('   GET  /api/v1/users/me/profile-views');
+      console.log('   GET  /api/v1/users/me/profile-views/viewers');
+      console.log('   GET  /api/v1/users/me/profile-views/settings');
+      console.log('   PUT  /api/v1/users/me/profile-views/settings');
+      console.log('   GET  /api/v1/users/me/privacy');
+      console.log('   PUT  /api/v1/users/me/privacy');
+      console.log('   GET  /api/v1/users/me/recommendations');
+      console.log('   POST /api/v1/users/me/recommendations/:userId/dismiss');
+      console.log('   DEL  /api/v1/users/me/recommendations/:userId/dismiss');
+      console.log('   GET  /api/v1/users/me/saved-searches');
+      console.log('   POST /api/v1/users/me/saved-searches');
+      console.log('   GET  /api/v1/users/me/saved-searches/:searchId');
+      console.log('   PUT  /api/v1/users/me/saved-searches/:searchId');
+      console.log('   DEL  /api/v1/users/me/saved-searches/:searchId');
+      console.log('   GET  /api/v1/users/me/bookmarks');
+      console.log('   POST /api/v1/users/me/bookmarks');
+      console.log('   DEL  /api/v1/users/me/bookmarks/:targetType/:targetId');
+      console.log('   GET  /api/v1/users/me/bookmark-collections');
+      console.log('   POST /api/v1/users/me/bookmark-collections');
+      console.log('   PUT  /api/v1/users/me/bookmark-collections/:collectionId');
+      console.log('   DEL  /api/v1/users/me/bookmark-collections/:collectionId');
+      console.log('   POST /api/v1/connections');
+      console.log('   GET  /api/v1/connections');
+      console.log('   GET  /api/v1/connections/requests/incoming');
+      console.log('   GET  /api/v1/connections/requests/outgoing');
+      console.log('   GET  /api/v1/connections/blocked');
+      console.log('   GET  /api/v1/connections/status/:userId');
+      console.log('   GET  /api/v1/connections/mutual/:userId');
+      console.log('   PUT  /api/v1/connections/:id/accept');
+      console.log('   PUT  /api/v1/connections/:id/reject');
+      console.log('   DEL  /api/v1/connections/:id');
+      console.log('   POST /api/v1/connections/block/:userId');
+      console.log('   DEL  /api/v1/connections/block/:userId');
       console.log('   POST /api/v1/messages');
       console.log('   GET  /api/v1/messages/received');
       console.log('   GET  /api/v1/messages/sent');
@@ -2594,6 +7532,7 @@ async function startServer() {
       console.log('   DEL  /api/v1/opportunities/:id');
       console.log('   POST /api/v1/opportunities/:id/apply');
       console.log('   GET  /api/v1/opportunities/:id/applications');
+      console.log('   PUT  /api/v1/opportunities/:id/applications/:applicationId/status');
       console.log('   GET  /api/v1/applications/my');
       console.log('   POST /api/v1/resources');
       console.log('   GET  /api/v1/resources');
@@ -2628,6 +7567,76 @@ async function startServer() {
       console.log('   GET  /api/v1/analytics/engagement');
       console.log('   GET  /api/v1/analytics/trends');
       console.log('   GET  /api/v1/analytics/usage');
+      console.log('   GET  /api/v1/emails/outbox');
+      console.log('   GET  /api/v1/emails/stats');
+      console.log('   POST /api/v1/emails/outbox/:emailId/retry');
+      console.log('   GET  /api/v1/audit/logs');
+      console.log('   GET  /api/v1/audit/stats');
+      console.log('   GET  /api/v1/audit/suspicious/:userId');
+      console.log('   POST /api/v1/audit/unlock/:userId');
+      console.log('   POST /api/v1/users/me/export');
+      console.log('   GET  /api/v1/users/me/exports');
+      console.log('   GET  /api/v1/users/me/export/:exportId/download');
+      console.log('   DEL  /api/v1/users/me');
+      console.log('   GET  /api/v1/users/me/deletion');
+      console.log('   POST /api/v1/users/me/deletion/cancel');
+      console.log('   DEL  /api/v1/users/:userId');
+      console.log('   POST /api/v1/users/:userId/suspend');
+      console.log('   POST /api/v1/users/:userId/ban');
+      console.log('   POST /api/v1/users/:userId/reactivate');
+      console.log('   POST /api/v1/admin/impersonate/:userId');
+      console.log('   POST /api/v1/auth/impersonation/end');
+      console.log('   GET  /api/v1/auth/registration');
+      console.log('   GET  /api/v1/invitations/code/:code');
+      console.log('   GET  /api/v1/invitations');
+      console.log('   POST /api/v1/invitations');
+      console.log('   POST /api/v1/invitations/email');
+      console.log('   GET  /api/v1/invitations/:invitationId');
+      console.log('   DEL  /api/v1/invitations/:invitationId');
+      console.log('   POST /api/v1/organizations');
+      console.log('   GET  /api/v1/organizations');
+      console.log('   GET  /api/v1/users/me/organizations');
+      console.log('   GET  /api/v1/organizations/:organizationId');
+      console.log('   PUT  /api/v1/organizations/:organizationId');
+      console.log('   DEL  /api/v1/organizations/:organizationId');
+      console.log('   POST /api/v1/organizations/:organizationId/logo');
+      console.log('   GET  /api/v1/organizations/:organizationId/members');
+      console.log('   POST /api/v1/organizations/:organizationId/join');
+      console.log('   POST /api/v1/organizations/:organizationId/members');
+      console.log('   POST /api/v1/organizations/:organizationId/members/:userId/approve');
+      console.log('   POST /api/v1/organizations/:organizationId/invitation/accept');
+      console.log('   PUT  /api/v1/organizations/:organizationId/members/:userId');
+      console.log('   DEL  /api/v1/organizations/:organizationId/members/:userId');
+      console.log('   POST /api/v1/reviews');
+      console.log('   GET  /api/v1/reviews/pending');
+      console.log('   GET  /api/v1/users/:userId/reviews');
+      console.log('   PUT  /api/v1/reviews/:reviewId/reply');
+      console.log('   POST /api/v1/reviews/:reviewId/report');
+      console.log('   GET  /api/v1/admin/review-reports');
+      console.log('   POST /api/v1/admin/review-reports/:reportId/resolve');
+      console.log('   GET  /api/v1/users/:userId/expertises/:expertiseId/endorsements');
+      console.log('   POST /api/v1/users/:userId/expertises/:expertiseId/endorse');
+      console.log('   DEL  /api/v1/users/:userId/expertises/:expertiseId/endorse');
+      console.log('   POST /api/v1/users/me/expertises/:expertiseId/verification');
+      console.log('   GET  /api/v1/users/me/verification-requests');
+      console.log('   GET  /api/v1/admin/expertise-verifications');
+      console.log('   POST /api/v1/admin/expertise-verifications/:requestId/resolve');
+      console.log('   GET  /api/v1/locations/search');
+      console.log('   GET  /api/v1/locations/countries');
+      console.log('   POST /api/v1/admin/locations/migrate');
+      console.log('   GET  /api/v1/auth/api-keys/scopes');
+      console.log('   GET  /api/v1/auth/api-keys');
+      console.log('   POST /api/v1/auth/api-keys');
+      console.log('   DEL  /api/v1/auth/api-keys/:keyId');
+      console.log('   GET  /api/v1/organizations/:organizationId/api-keys');
+      console.log('   POST /api/v1/organizations/:organizationId/api-keys');
+      console.log('   DEL  /api/v1/organizations/:organizationId/api-keys/:keyId');
+      console.log('   GET  /api/v1/auth/permissions');
+      console.log('   GET  /api/v1/roles');
+      console.log('   GET  /api/v1/roles/assignments');
+      console.log('   GET  /api/v1/users/:userId/roles');
+      console.log('   POST /api/v1/users/:userId/roles');
+      console.log('   DEL  /api/v1/users/:userId/roles/:role');
       console.log('===============================');
     });
 
@@ -2636,6 +7645,29 @@ async function startServer() {
     
     // Rendre le service WebSocket accessible globalement pour les notifications
     (global as any).wsService = wsService;
+
+    // File d'emails : envois, nouvelles tentatives, rappels d'événements et résumés de messages
+    if (config.EMAIL_WORKER_ENABLED) {
+      EmailService.startWorker();
+    }
+
+    // Exports RGPD : purge des archives expirées et reprise des exports interrompus
+    DataExportService.startWorker();
+
+    // Droit à l'effacement : anonymisation des comptes dont le délai de grâce est écoulé
+    AccountDeletionService.startWorker();
+
+    // Assistance : clôture des sessions d'usurpation expirées et information des utilisateurs
+    ImpersonationService.startWorker();
+
+    // Suggestions « Vous connaissez peut-être » : calcul nocturne pour les membres actifs
+    RecommendationsService.startWorker();
+
+    // Alertes des recherches sauvegardées sur les nouvelles opportunités, événements et ressources
+    SavedSearchesService.startWorker();
+
+    // Rappels des favoris : date limite d'opportunité, début d'événement
+    BookmarksService.startWorker();
   } catch (error) {
     console.error('❌ Server start failed:', error);
     process.exit(1);
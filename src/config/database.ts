@@ -53,6 +53,28 @@ export const disconnectDatabase = async (): Promise<void> => {
 export const cleanupDatabase = async (): Promise<void> => {
   if (process.env.NODE_ENV === 'test') {
     // Nettoyer les données de test
+    await prisma.auditLog.deleteMany();
+    await prisma.userSession.deleteMany();
+    await prisma.twoFactorAuth.deleteMany();
+    await prisma.twoFactorPolicy.deleteMany();
+    await prisma.emailOutbox.deleteMany();
+    await prisma.loginAttempt.deleteMany();
+    await prisma.userRole.deleteMany();
+    await prisma.apiKey.deleteMany();
+    await prisma.dataExport.deleteMany();
+    await prisma.invitation.deleteMany();
+    await prisma.organizationMember.deleteMany();
+    await prisma.reviewReport.deleteMany();
+    await prisma.review.deleteMany();
+    await prisma.expertiseEndorsement.deleteMany();
+    await prisma.expertiseVerificationRequest.deleteMany();
+    await prisma.profileView.deleteMany();
+    await prisma.privacySettings.deleteMany();
+    await prisma.memberRecommendation.deleteMany();
+    await prisma.recommendationDismissal.deleteMany();
+    await prisma.savedSearch.deleteMany();
+    await prisma.bookmark.deleteMany();
+    await prisma.bookmarkCollection.deleteMany();
     await prisma.userActivity.deleteMany();
     await prisma.notification.deleteMany();
     await prisma.eventRegistration.deleteMany();
@@ -65,6 +87,7 @@ export const cleanupDatabase = async (): Promise<void> => {
     await prisma.conversation.deleteMany();
     await prisma.connection.deleteMany();
     await prisma.userExpertise.deleteMany();
+    await prisma.organization.deleteMany();
     await prisma.user.deleteMany();
     
     logger.info('✅ Test database cleaned');
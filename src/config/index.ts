@@ -20,6 +20,9 @@ interface Config {
   JWT_EXPIRES_IN: string;
   JWT_REFRESH_EXPIRES_IN: string;
 
+  // 2FA
+  TOTP_ENCRYPTION_KEY: string;
+
   // CORS
   FRONTEND_URL: string;
 
@@ -34,6 +37,40 @@ interface Config {
   // Email
   SENDGRID_API_KEY: string;
   FROM_EMAIL: string;
+  MAIL_TRANSPORT: 'sendgrid' | 'smtp' | 'file';
+  MAIL_FILE_DIR: string;
+  SMTP_HOST: string;
+  SMTP_PORT: number;
+  SMTP_SECURE: boolean;
+  SMTP_USER: string;
+  SMTP_PASS: string;
+  EMAIL_WORKER_ENABLED: boolean;
+
+  // Vérification d'email
+  RESTRICT_UNVERIFIED_USERS: boolean;
+
+  // Protection contre la force brute
+  LOGIN_MAX_FAILED_ATTEMPTS: number;
+  LOGIN_LOCKOUT_MINUTES: number;
+  LOGIN_IP_MAX_FAILURES: number;
+  GEOIP_COUNTRY_HEADER: string;
+
+  // Clés d'API
+  API_KEY_DEFAULT_RATE_LIMIT: number;
+  API_KEY_MAX_PER_USER: number;
+
+  // Export des données personnelles
+  API_PUBLIC_URL: string;
+  DATA_EXPORT_DIR: string;
+  DATA_EXPORT_TTL_HOURS: number;
+  ACCOUNT_DELETION_GRACE_DAYS: number;
+
+  // Assistance
+  IMPERSONATION_TTL_MINUTES: number;
+
+  // Inscriptions
+  REGISTRATION_MODE: 'open' | 'invitation';
+  INVITATION_DEFAULT_TTL_DAYS: number;
 
   // Rate Limiting
   RATE_LIMIT_WINDOW_MS: number;
@@ -77,6 +114,9 @@ const validateConfig = (): Config => {
     JWT_EXPIRES_IN: process.env.JWT_EXPIRES_IN || '24h',
     JWT_REFRESH_EXPIRES_IN: process.env.JWT_REFRESH_EXPIRES_IN || '7d',
 
+    // 2FA (clé de chiffrement des secrets TOTP, à définir séparément en production)
+    TOTP_ENCRYPTION_KEY: process.env.TOTP_ENCRYPTION_KEY || process.env.JWT_SECRET!,
+
     // CORS
     FRONTEND_URL: process.env.FRONTEND_URL!,
 
@@ -91,6 +131,46 @@ const validateConfig = (): Config => {
     // Email
     SENDGRID_API_KEY: process.env.SENDGRID_API_KEY || '',
     FROM_EMAIL: process.env.FROM_EMAIL || 'noreply@pme360.com',
+    // SendGrid dès qu'une clé est fournie, puis SMTP si un hôte est configuré, sinon écriture des emails dans MAIL_FILE_DIR
+    MAIL_TRANSPORT: (process.env.MAIL_TRANSPORT
+      || (process.env.SENDGRID_API_KEY ? 'sendgrid' : process.env.SMTP_HOST ? 'smtp' : 'file')) as 'sendgrid' | 'smtp' | 'file',
+    MAIL_FILE_DIR: process.env.MAIL_FILE_DIR || 'tmp/mails',
+    SMTP_HOST: process.env.SMTP_HOST || 'localhost',
+    SMTP_PORT: parseInt(process.env.SMTP_PORT || '1025', 10),
+    SMTP_SECURE: process.env.SMTP_SECURE === 'true',
+    SMTP_USER: process.env.SMTP_USER || '',
+    SMTP_PASS: process.env.SMTP_PASS || '',
+    // Traitement de la file d'emails dans le processus du serveur
+    EMAIL_WORKER_ENABLED: process.env.EMAIL_WORKER_ENABLED !== 'false',
+
+    // Vérification d'email : bloque la publication d'opportunités et la messagerie tant que l'email n'est pas vérifié
+    RESTRICT_UNVERIFIED_USERS: process.env.RESTRICT_UNVERIFIED_USERS === 'true',
+
+    // Protection contre la force brute : verrouillage du compte après N échecs consécutifs,
+    // blocage d'une IP après LOGIN_IP_MAX_FAILURES échecs (tous comptes confondus) en 15 minutes
+    LOGIN_MAX_FAILED_ATTEMPTS: parseInt(process.env.LOGIN_MAX_FAILED_ATTEMPTS || '5', 10),
+    LOGIN_LOCKOUT_MINUTES: parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15', 10),
+    LOGIN_IP_MAX_FAILURES: parseInt(process.env.LOGIN_IP_MAX_FAILURES || '20', 10),
+    // En-tête ajouté par le proxy/CDN avec le pays de l'IP cliente (Cloudflare : CF-IPCountry)
+    GEOIP_COUNTRY_HEADER: (process.env.GEOIP_COUNTRY_HEADER || 'cf-ipcountry').toLowerCase(),
+
+    // Clés d'API : quota horaire par défaut de chaque clé et nombre de clés actives par utilisateur
+    API_KEY_DEFAULT_RATE_LIMIT: parseInt(process.env.API_KEY_DEFAULT_RATE_LIMIT || '1000', 10),
+    API_KEY_MAX_PER_USER: parseInt(process.env.API_KEY_MAX_PER_USER || '10', 10),
+
+    // Export RGPD : les archives sont écrites sur le disque et téléchargées via un lien signé de l'API
+    API_PUBLIC_URL: process.env.API_PUBLIC_URL || `http://localhost:${process.env.PORT || '3000'}`,
+    DATA_EXPORT_DIR: process.env.DATA_EXPORT_DIR || 'tmp/exports',
+    DATA_EXPORT_TTL_HOURS: parseInt(process.env.DATA_EXPORT_TTL_HOURS || '48', 10),
+    // Droit à l'effacement : délai pendant lequel l'utilisateur peut annuler la suppression de son compte
+    ACCOUNT_DELETION_GRACE_DAYS: parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '30', 10),
+
+    // Assistance : durée de validité d'un token d'usurpation d'identité émis pour un administrateur
+    IMPERSONATION_TTL_MINUTES: parseInt(process.env.IMPERSONATION_TTL_MINUTES || '15', 10),
+
+    // Inscriptions : "invitation" réserve l'inscription aux détenteurs d'un code (déploiements privés)
+    REGISTRATION_MODE: process.env.REGISTRATION_MODE === 'invitation' ? 'invitation' : 'open',
+    INVITATION_DEFAULT_TTL_DAYS: parseInt(process.env.INVITATION_DEFAULT_TTL_DAYS || '30', 10),
 
     // Rate Limiting
     RATE_LIMIT_WINDOW_MS: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000', 10),
@@ -113,9 +193,11 @@ export const logConfig = (): void => {
     ...config,
     JWT_SECRET: '[HIDDEN]',
     JWT_REFRESH_SECRET: '[HIDDEN]',
+    TOTP_ENCRYPTION_KEY: '[HIDDEN]',
     DATABASE_URL: config.DATABASE_URL.replace(/\/\/.*:.*@/, '//[HIDDEN]@'),
     CLOUDINARY_API_SECRET: '[HIDDEN]',
     SENDGRID_API_KEY: '[HIDDEN]',
+    SMTP_PASS: '[HIDDEN]',
   };
 
   logger.info('🔧 Configuration loaded:');
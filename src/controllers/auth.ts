@@ -1,7 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import { AuthService } from '../services/auth';
+import { EmailVerificationService } from '../services/email-verification';
 import { AuthenticatedRequest } from '../types';
 import { logger } from '../config/logger';
+import { config } from '../config';
 import {
   ValidationError,
   UnauthorizedError,
@@ -13,7 +15,7 @@ export class AuthController {
   
   static async register(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { name, email, password, profileType, company, location } = req.body;
+      const { name, email, password, profileType, company, location, invitationCode } = req.body;
 
       // Validation basique
       if (!name || !email || !password || !profileType) {
@@ -39,7 +41,8 @@ export class AuthController {
         profileType,
         company,
         location,
-      });
+        invitationCode,
+      }, { ipAddress: req.ip, userAgent: req.get('User-Agent') });
 
       logger.info(`✅ User registered: ${email}`);
 
@@ -62,7 +65,15 @@ export class AuthController {
         throw new ValidationError('Email et mot de passe sont requis');
       }
 
-      const authResponse = await AuthService.login({ email, password });
+      const authResponse = await AuthService.login(
+        { email, password },
+        {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+          deviceName: req.body.deviceName,
+          country: req.get(config.GEOIP_COUNTRY_HEADER),
+        }
+      );
 
       logger.info(`✅ User logged in: ${email}`);
 
@@ -76,6 +87,32 @@ export class AuthController {
     }
   }
 
+  static async verifyTwoFactor(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { challengeToken, code, deviceName } = req.body;
+
+      if (!challengeToken || !code) {
+        throw new ValidationError('Challenge et code de vérification requis');
+      }
+
+      const authResponse = await AuthService.verifyTwoFactorLogin(
+        challengeToken,
+        code,
+        { ipAddress: req.ip, userAgent: req.get('User-Agent'), deviceName, country: req.get(config.GEOIP_COUNTRY_HEADER) }
+      );
+
+      logger.info(`✅ User logged in with 2FA: ${authResponse.user.email}`);
+
+      res.json({
+        success: true,
+        message: 'Connexion réussie',
+        data: authResponse,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   static async refreshToken(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const { refreshToken } = req.body;
@@ -84,7 +121,7 @@ export class AuthController {
         throw new ValidationError('Refresh token requis');
       }
 
-      const tokens = await AuthService.refreshTokens(refreshToken);
+      const tokens = await AuthService.refreshTokens(refreshToken, { ipAddress: req.ip, userAgent: req.get('User-Agent') });
 
       res.json({
         success: true,
@@ -102,7 +139,7 @@ export class AuthController {
         throw new UnauthorizedError('Utilisateur non authentifié');
       }
 
-      await AuthService.logout(req.user.id);
+      await AuthService.logout(req.user.id, req.user.sessionId);
 
       res.json({
         success: true,
@@ -255,26 +292,23 @@ export class AuthController {
 
   static async verifyEmail(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { userId, verificationToken } = req.body;
+      const { token } = req.body;
 
-      if (!userId || !verificationToken) {
-        throw new ValidationError('ID utilisateur et token de vérification requis');
+      if (!token) {
+        throw new ValidationError('Token de vérification requis');
       }
 
-      // TODO: Implémenter la vérification d'email
-      // Pour l'instant, on simule la vérification
-      const { PrismaClient } = await import('@prisma/client');
-      const prisma = new PrismaClient();
-
-      const user = await prisma.user.update({
-        where: { id: userId },
-        data: { verified: true },
-      });
+      let result;
+      try {
+        result = await EmailVerificationService.confirmEmail(token);
+      } catch (verificationError: any) {
+        throw new ValidationError(verificationError.message);
+      }
 
       res.json({
         success: true,
-        message: 'Email vérifié avec succès',
-        data: { verified: user.verified },
+        message: result.alreadyVerified ? 'Email déjà vérifié' : 'Email vérifié avec succès',
+        data: { verified: true },
       });
     } catch (error) {
       next(error);
@@ -287,17 +321,12 @@ export class AuthController {
         throw new UnauthorizedError('Utilisateur non authentifié');
       }
 
-      if (req.user.verified) {
-        res.json({
-          success: true,
-          message: 'Email déjà vérifié',
-        });
-        return;
+      try {
+        await EmailVerificationService.sendVerificationEmail(req.user.id);
+      } catch (mailError: any) {
+        throw new ValidationError(mailError.message);
       }
 
-      // TODO: Implémenter l'envoi d'email de vérification
-      logger.info(`📧 Verification email requested for user: ${req.user.email}`);
-
       res.json({
         success: true,
         message: 'Email de vérification envoyé',
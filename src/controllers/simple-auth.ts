@@ -45,7 +45,7 @@ export class SimpleAuthController {
         profileType,
         company,
         location,
-      });
+      }, { ipAddress: req.ip, userAgent: req.get('User-Agent') });
 
       logger.info(`✅ User registered: ${email}`);
 
@@ -75,7 +75,10 @@ export class SimpleAuthController {
         return;
       }
 
-      const authResponse = await SimpleAuthService.login({ email, password });
+      const authResponse = await SimpleAuthService.login(
+        { email, password },
+        { ipAddress: req.ip, userAgent: req.get('User-Agent'), deviceName: req.body.deviceName }
+      );
 
       logger.info(`✅ User logged in: ${email}`);
 
@@ -60,7 +60,7 @@ export class SimpleUsersController {
         return;
       }
 
-      const user = await UsersService.getUserById(userId);
+      const user = await UsersService.getUserById(userId, null);
 
       res.json({
         success: true,
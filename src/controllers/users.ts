@@ -1,11 +1,12 @@
-import { Request, Response } from 'express';
+import { Response } from 'express';
 import { UsersService } from '../services/users';
+import { AccountDeletionService } from '../services/account-deletion';
 import { AuthenticatedRequest } from '../middleware/simple-auth';
 import { logger } from '../config/logger';
 
 export class UsersController {
   
-  static async getAllUsers(req: Request, res: Response): Promise<void> {
+  static async getAllUsers(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const {
         page = '1',
@@ -32,7 +33,7 @@ export class UsersController {
         sortOrder: sortOrder as 'asc' | 'desc',
       };
 
-      const result = await UsersService.getAllUsers(filters, pagination);
+      const result = await UsersService.getAllUsers(filters, pagination, req.user?.id);
 
       res.json({
         success: true,
@@ -48,7 +49,7 @@ export class UsersController {
     }
   }
 
-  static async getUserById(req: Request, res: Response): Promise<void> {
+  static async getUserById(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const { userId } = req.params;
 
@@ -59,7 +60,7 @@ export class UsersController {
         });
       }
 
-      const user = await UsersService.getUserById(userId);
+      const user = await UsersService.getUserById(userId, req.user?.id ?? null);
 
       res.json({
         success: true,
@@ -194,14 +195,27 @@ export class UsersController {
         });
       }
 
-      await UsersService.deleteUser(req.user.id);
+      // Suppression différée : le compte est anonymisé à l'issue du délai de grâce
+      const { scheduledFor } = await AccountDeletionService.requestDeletion(req.user.id, req.body?.password || '', {
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+        sessionId: req.user.sessionId,
+      });
 
       res.json({
         success: true,
-        message: 'Compte supprimé avec succès',
+        message: 'Suppression du compte programmée',
+        data: { scheduledFor },
       });
     } catch (error: any) {
       logger.error('❌ Delete current user error:', error);
+      if (error.message === 'Mot de passe incorrect' || error.message === 'La suppression de ce compte est déjà programmée') {
+        res.status(error.message === 'Mot de passe incorrect' ? 401 : 409).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
       res.status(500).json({
         success: false,
         error: 'Erreur lors de la suppression du compte',
@@ -0,0 +1,287 @@
+// Gazetteer hors ligne : pays, régions (codes ISO 3166) et principales villes des marchés de la plateforme.
+// Les alias couvrent les graphies courantes (français, anglais, langue locale) et les communes
+// rattachées à une agglomération. Coordonnées en degrés décimaux (WGS 84).
+
+export interface GazetteerCountry {
+  code: string; // ISO 3166-1 alpha-2
+  name: string;
+  nameEn: string;
+  aliases?: string[];
+}
+
+export interface GazetteerRegion {
+  code: string; // ISO 3166-2
+  countryCode: string;
+  name: string;
+  aliases?: string[];
+}
+
+export interface GazetteerCity {
+  name: string;
+  countryCode: string;
+  regionCode: string | null;
+  latitude: number;
+  longitude: number;
+  aliases?: string[];
+}
+
+export const COUNTRIES: GazetteerCountry[] = [
+  { code: 'FR', name: 'France', nameEn: 'France' },
+  { code: 'BE', name: 'Belgique', nameEn: 'Belgium' },
+  { code: 'CH', name: 'Suisse', nameEn: 'Switzerland' },
+  { code: 'LU', name: 'Luxembourg', nameEn: 'Luxembourg' },
+  { code: 'CA', name: 'Canada', nameEn: 'Canada' },
+  { code: 'US', name: 'États-Unis', nameEn: 'United States', aliases: ['USA', 'Etats Unis d\'Amérique'] },
+  { code: 'GB', name: 'Royaume-Uni', nameEn: 'United Kingdom', aliases: ['UK', 'Angleterre', 'England'] },
+  { code: 'DE', name: 'Allemagne', nameEn: 'Germany', aliases: ['Deutschland'] },
+  { code: 'ES', name: 'Espagne', nameEn: 'Spain', aliases: ['España'] },
+  { code: 'PT', name: 'Portugal', nameEn: 'Portugal' },
+  { code: 'AE', name: 'Émirats arabes unis', nameEn: 'United Arab Emirates', aliases: ['EAU', 'UAE'] },
+  { code: 'CI', name: 'Côte d\'Ivoire', nameEn: 'Ivory Coast', aliases: ['Cote d\'Ivoire', 'RCI'] },
+  { code: 'SN', name: 'Sénégal', nameEn: 'Senegal' },
+  { code: 'ML', name: 'Mali', nameEn: 'Mali' },
+  { code: 'BF', name: 'Burkina Faso', nameEn: 'Burkina Faso', aliases: ['Burkina'] },
+  { code: 'NE', name: 'Niger', nameEn: 'Niger' },
+  { code: 'GN', name: 'Guinée', nameEn: 'Guinea', aliases: ['Guinée Conakry'] },
+  { code: 'TG', name: 'Togo', nameEn: 'Togo' },
+  { code: 'BJ', name: 'Bénin', nameEn: 'Benin' },
+  { code: 'CM', name: 'Cameroun', nameEn: 'Cameroon' },
+  { code: 'GA', name: 'Gabon', nameEn: 'Gabon' },
+  { code: 'CG', name: 'Congo', nameEn: 'Republic of the Congo', aliases: ['Congo-Brazzaville', 'République du Congo'] },
+  { code: 'CD', name: 'République démocratique du Congo', nameEn: 'Democratic Republic of the Congo', aliases: ['RDC', 'DRC', 'Congo-Kinshasa'] },
+  { code: 'RW', name: 'Rwanda', nameEn: 'Rwanda' },
+  { code: 'MG', name: 'Madagascar', nameEn: 'Madagascar' },
+  { code: 'MA', name: 'Maroc', nameEn: 'Morocco' },
+  { code: 'TN', name: 'Tunisie', nameEn: 'Tunisia' },
+  { code: 'DZ', name: 'Algérie', nameEn: 'Algeria' },
+  { code: 'MR', name: 'Mauritanie', nameEn: 'Mauritania' },
+  { code: 'NG', name: 'Nigeria', nameEn: 'Nigeria' },
+  { code: 'GH', name: 'Ghana', nameEn: 'Ghana' },
+  { code: 'KE', name: 'Kenya', nameEn: 'Kenya' },
+  { code: 'ZA', name: 'Afrique du Sud', nameEn: 'South Africa' },
+  { code: 'EG', name: 'Égypte', nameEn: 'Egypt' },
+  { code: 'MU', name: 'Maurice', nameEn: 'Mauritius', aliases: ['Île Maurice'] },
+];
+
+export const REGIONS: GazetteerRegion[] = [
+  // France (régions métropolitaines)
+  { code: 'FR-IDF', countryCode: 'FR', name: 'Île-de-France' },
+  { code: 'FR-ARA', countryCode: 'FR', name: 'Auvergne-Rhône-Alpes' },
+  { code: 'FR-PAC', countryCode: 'FR', name: 'Provence-Alpes-Côte d\'Azur', aliases: ['PACA'] },
+  { code: 'FR-OCC', countryCode: 'FR', name: 'Occitanie' },
+  { code: 'FR-NAQ', countryCode: 'FR', name: 'Nouvelle-Aquitaine' },
+  { code: 'FR-HDF', countryCode: 'FR', name: 'Hauts-de-France' },
+  { code: 'FR-GES', countryCode: 'FR', name: 'Grand Est' },
+  { code: 'FR-BRE', countryCode: 'FR', name: 'Bretagne' },
+  { code: 'FR-PDL', countryCode: 'FR', name: 'Pays de la Loire' },
+  { code: 'FR-NOR', countryCode: 'FR', name: 'Normandie' },
+  { code: 'FR-BFC', countryCode: 'FR', name: 'Bourgogne-Franche-Comté' },
+  { code: 'FR-CVL', countryCode: 'FR', name: 'Centre-Val de Loire' },
+  { code: 'FR-COR', countryCode: 'FR', name: 'Corse' },
+  // Europe et Amérique du Nord
+  { code: 'BE-BRU', countryCode: 'BE', name: 'Région de Bruxelles-Capitale' },
+  { code: 'BE-VLG', countryCode: 'BE', name: 'Flandre', aliases: ['Vlaanderen'] },
+  { code: 'BE-WAL', countryCode: 'BE', name: 'Wallonie' },
+  { code: 'CH-GE', countryCode: 'CH', name: 'Genève' },
+  { code: 'CH-VD', countryCode: 'CH', name: 'Vaud' },
+  { code: 'CH-ZH', countryCode: 'CH', name: 'Zurich' },
+  { code: 'CH-BE', countryCode: 'CH', name: 'Berne' },
+  { code: 'CH-BS', countryCode: 'CH', name: 'Bâle-Ville' },
+  { code: 'CA-QC', countryCode: 'CA', name: 'Québec' },
+  { code: 'CA-ON', countryCode: 'CA', name: 'Ontario' },
+  { code: 'CA-BC', countryCode: 'CA', name: 'Colombie-Britannique', aliases: ['British Columbia'] },
+  { code: 'US-NY', countryCode: 'US', name: 'New York' },
+  { code: 'US-CA', countryCode: 'US', name: 'Californie', aliases: ['California'] },
+  { code: 'GB-ENG', countryCode: 'GB', name: 'Angleterre' },
+  { code: 'DE-BE', countryCode: 'DE', name: 'Berlin' },
+  { code: 'ES-MD', countryCode: 'ES', name: 'Communauté de Madrid' },
+  { code: 'PT-11', countryCode: 'PT', name: 'Lisbonne' },
+  { code: 'AE-DU', countryCode: 'AE', name: 'Dubaï' },
+  // Afrique
+  { code: 'CI-AB', countryCode: 'CI', name: 'District autonome d\'Abidjan' },
+  { code: 'CI-YM', countryCode: 'CI', name: 'District autonome de Yamoussoukro' },
+  { code: 'CI-VB', countryCode: 'CI', name: 'Vallée du Bandama' },
+  { code: 'CI-BS', countryCode: 'CI', name: 'Bas-Sassandra' },
+  { code: 'CI-SM', countryCode: 'CI', name: 'Sassandra-Marahoué' },
+  { code: 'CI-SV', countryCode: 'CI', name: 'Savanes' },
+  { code: 'CI-MG', countryCode: 'CI', name: 'Montagnes' },
+  { code: 'CI-CM', countryCode: 'CI', name: 'Comoé' },
+  { code: 'SN-DK', countryCode: 'SN', name: 'Dakar' },
+  { code: 'SN-TH', countryCode: 'SN', name: 'Thiès' },
+  { code: 'SN-SL', countryCode: 'SN', name: 'Saint-Louis' },
+  { code: 'SN-DB', countryCode: 'SN', name: 'Diourbel' },
+  { code: 'SN-ZG', countryCode: 'SN', name: 'Ziguinchor' },
+  { code: 'SN-KL', countryCode: 'SN', name: 'Kaolack' },
+  { code: 'ML-BKO', countryCode: 'ML', name: 'Bamako' },
+  { code: 'BF-03', countryCode: 'BF', name: 'Centre' },
+  { code: 'BF-09', countryCode: 'BF', name: 'Hauts-Bassins' },
+  { code: 'NE-8', countryCode: 'NE', name: 'Niamey' },
+  { code: 'GN-C', countryCode: 'GN', name: 'Conakry' },
+  { code: 'TG-M', countryCode: 'TG', name: 'Maritime' },
+  { code: 'BJ-LI', countryCode: 'BJ', name: 'Littoral' },
+  { code: 'BJ-OU', countryCode: 'BJ', name: 'Ouémé' },
+  { code: 'CM-LT', countryCode: 'CM', name: 'Littoral' },
+  { code: 'CM-CE', countryCode: 'CM', name: 'Centre' },
+  { code: 'GA-1', countryCode: 'GA', name: 'Estuaire' },
+  { code: 'CG-BZV', countryCode: 'CG', name: 'Brazzaville' },
+  { code: 'CG-16', countryCode: 'CG', name: 'Pointe-Noire' },
+  { code: 'CD-KN', countryCode: 'CD', name: 'Kinshasa' },
+  { code: 'CD-HK', countryCode: 'CD', name: 'Haut-Katanga' },
+  { code: 'RW-01', countryCode: 'RW', name: 'Kigali' },
+  { code: 'MG-T', countryCode: 'MG', name: 'Antananarivo' },
+  { code: 'MA-01', countryCode: 'MA', name: 'Tanger-Tétouan-Al Hoceïma' },
+  { code: 'MA-03', countryCode: 'MA', name: 'Fès-Meknès' },
+  { code: 'MA-04', countryCode: 'MA', name: 'Rabat-Salé-Kénitra' },
+  { code: 'MA-06', countryCode: 'MA', name: 'Casablanca-Settat' },
+  { code: 'MA-07', countryCode: 'MA', name: 'Marrakech-Safi' },
+  { code: 'MA-09', countryCode: 'MA', name: 'Souss-Massa' },
+  { code: 'TN-11', countryCode: 'TN', name: 'Tunis' },
+  { code: 'TN-51', countryCode: 'TN', name: 'Sousse' },
+  { code: 'TN-61', countryCode: 'TN', name: 'Sfax' },
+  { code: 'DZ-16', countryCode: 'DZ', name: 'Alger' },
+  { code: 'DZ-25', countryCode: 'DZ', name: 'Constantine' },
+  { code: 'DZ-31', countryCode: 'DZ', name: 'Oran' },
+  { code: 'MR-NKC', countryCode: 'MR', name: 'Nouakchott' },
+  { code: 'NG-LA', countryCode: 'NG', name: 'Lagos' },
+  { code: 'NG-FC', countryCode: 'NG', name: 'Territoire de la capitale fédérale' },
+  { code: 'GH-AA', countryCode: 'GH', name: 'Grand Accra', aliases: ['Greater Accra'] },
+  { code: 'KE-30', countryCode: 'KE', name: 'Nairobi' },
+  { code: 'ZA-GP', countryCode: 'ZA', name: 'Gauteng' },
+  { code: 'ZA-WC', countryCode: 'ZA', name: 'Cap-Occidental', aliases: ['Western Cape'] },
+  { code: 'EG-C', countryCode: 'EG', name: 'Le Caire' },
+  { code: 'MU-PL', countryCode: 'MU', name: 'Port-Louis' },
+];
+
+// Par pays, les villes les plus peuplées d'abord (départage des homonymes)
+export const CITIES: GazetteerCity[] = [
+  // France
+  { name: 'Paris', countryCode: 'FR', regionCode: 'FR-IDF', latitude: 48.8566, longitude: 2.3522 },
+  { name: 'Marseille', countryCode: 'FR', regionCode: 'FR-PAC', latitude: 43.2965, longitude: 5.3698 },
+  { name: 'Lyon', countryCode: 'FR', regionCode: 'FR-ARA', latitude: 45.764, longitude: 4.8357 },
+  { name: 'Toulouse', countryCode: 'FR', regionCode: 'FR-OCC', latitude: 43.6047, longitude: 1.4442 },
+  { name: 'Nice', countryCode: 'FR', regionCode: 'FR-PAC', latitude: 43.7102, longitude: 7.262 },
+  { name: 'Nantes', countryCode: 'FR', regionCode: 'FR-PDL', latitude: 47.2184, longitude: -1.5536 },
+  { name: 'Montpellier', countryCode: 'FR', regionCode: 'FR-OCC', latitude: 43.6108, longitude: 3.8767 },
+  { name: 'Strasbourg', countryCode: 'FR', regionCode: 'FR-GES', latitude: 48.5734, longitude: 7.7521 },
+  { name: 'Bordeaux', countryCode: 'FR', regionCode: 'FR-NAQ', latitude: 44.8378, longitude: -0.5792 },
+  { name: 'Lille', countryCode: 'FR', regionCode: 'FR-HDF', latitude: 50.6292, longitude: 3.0573 },
+  { name: 'Rennes', countryCode: 'FR', regionCode: 'FR-BRE', latitude: 48.1173, longitude: -1.6778 },
+  { name: 'Reims', countryCode: 'FR', regionCode: 'FR-GES', latitude: 49.2583, longitude: 4.0317 },
+  { name: 'Toulon', countryCode: 'FR', regionCode: 'FR-PAC', latitude: 43.1242, longitude: 5.928 },
+  { name: 'Saint-Étienne', countryCode: 'FR', regionCode: 'FR-ARA', latitude: 45.4397, longitude: 4.3872 },
+  { name: 'Le Havre', countryCode: 'FR', regionCode: 'FR-NOR', latitude: 49.4944, longitude: 0.1079 },
+  { name: 'Grenoble', countryCode: 'FR', regionCode: 'FR-ARA', latitude: 45.1885, longitude: 5.7245 },
+  { name: 'Dijon', countryCode: 'FR', regionCode: 'FR-BFC', latitude: 47.322, longitude: 5.0415 },
+  { name: 'Angers', countryCode: 'FR', regionCode: 'FR-PDL', latitude: 47.4784, longitude: -0.5632 },
+  { name: 'Nîmes', countryCode: 'FR', regionCode: 'FR-OCC', latitude: 43.8367, longitude: 4.3601 },
+  { name: 'Villeurbanne', countryCode: 'FR', regionCode: 'FR-ARA', latitude: 45.7719, longitude: 4.8902 },
+  { name: 'Clermont-Ferrand', countryCode: 'FR', regionCode: 'FR-ARA', latitude: 45.7772, longitude: 3.087 },
+  { name: 'Le Mans', countryCode: 'FR', regionCode: 'FR-PDL', latitude: 48.0061, longitude: 0.1996 },
+  { name: 'Aix-en-Provence', countryCode: 'FR', regionCode: 'FR-PAC', latitude: 43.5297, longitude: 5.4474 },
+  { name: 'Brest', countryCode: 'FR', regionCode: 'FR-BRE', latitude: 48.3904, longitude: -4.4861 },
+  { name: 'Tours', countryCode: 'FR', regionCode: 'FR-CVL', latitude: 47.3941, longitude: 0.6848 },
+  { name: 'Amiens', countryCode: 'FR', regionCode: 'FR-HDF', latitude: 49.8941, longitude: 2.2958 },
+  { name: 'Limoges', countryCode: 'FR', regionCode: 'FR-NAQ', latitude: 45.8336, longitude: 1.2611 },
+  { name: 'Annecy', countryCode: 'FR', regionCode: 'FR-ARA', latitude: 45.8992, longitude: 6.1294 },
+  { name: 'Perpignan', countryCode: 'FR', regionCode: 'FR-OCC', latitude: 42.6887, longitude: 2.8948 },
+  { name: 'Metz', countryCode: 'FR', regionCode: 'FR-GES', latitude: 49.1193, longitude: 6.1757 },
+  { name: 'Besançon', countryCode: 'FR', regionCode: 'FR-BFC', latitude: 47.2378, longitude: 6.0241 },
+  { name: 'Orléans', countryCode: 'FR', regionCode: 'FR-CVL', latitude: 47.903, longitude: 1.9093 },
+  { name: 'Rouen', countryCode: 'FR', regionCode: 'FR-NOR', latitude: 49.4432, longitude: 1.0999 },
+  { name: 'Mulhouse', countryCode: 'FR', regionCode: 'FR-GES', latitude: 47.7508, longitude: 7.3359 },
+  { name: 'Caen', countryCode: 'FR', regionCode: 'FR-NOR', latitude: 49.1829, longitude: -0.3707 },
+  { name: 'Nancy', countryCode: 'FR', regionCode: 'FR-GES', latitude: 48.6921, longitude: 6.1844 },
+  { name: 'Poitiers', countryCode: 'FR', regionCode: 'FR-NAQ', latitude: 46.5802, longitude: 0.3404 },
+  { name: 'La Rochelle', countryCode: 'FR', regionCode: 'FR-NAQ', latitude: 46.1603, longitude: -1.1511 },
+  { name: 'Pau', countryCode: 'FR', regionCode: 'FR-NAQ', latitude: 43.2951, longitude: -0.3708 },
+  { name: 'Ajaccio', countryCode: 'FR', regionCode: 'FR-COR', latitude: 41.9192, longitude: 8.7386 },
+  // Belgique, Suisse, Luxembourg
+  { name: 'Bruxelles', countryCode: 'BE', regionCode: 'BE-BRU', latitude: 50.8503, longitude: 4.3517, aliases: ['Brussels', 'Brussel'] },
+  { name: 'Anvers', countryCode: 'BE', regionCode: 'BE-VLG', latitude: 51.2194, longitude: 4.4025, aliases: ['Antwerpen', 'Antwerp'] },
+  { name: 'Gand', countryCode: 'BE', regionCode: 'BE-VLG', latitude: 51.0543, longitude: 3.7174, aliases: ['Gent', 'Ghent'] },
+  { name: 'Charleroi', countryCode: 'BE', regionCode: 'BE-WAL', latitude: 50.4108, longitude: 4.4446 },
+  { name: 'Liège', countryCode: 'BE', regionCode: 'BE-WAL', latitude: 50.6326, longitude: 5.5797 },
+  { name: 'Namur', countryCode: 'BE', regionCode: 'BE-WAL', latitude: 50.4674, longitude: 4.872 },
+  { name: 'Zurich', countryCode: 'CH', regionCode: 'CH-ZH', latitude: 47.3769, longitude: 8.5417, aliases: ['Zürich'] },
+  { name: 'Genève', countryCode: 'CH', regionCode: 'CH-GE', latitude: 46.2044, longitude: 6.1432, aliases: ['Geneva', 'Genf'] },
+  { name: 'Bâle', countryCode: 'CH', regionCode: 'CH-BS', latitude: 47.5596, longitude: 7.5886, aliases: ['Basel'] },
+  { name: 'Lausanne', countryCode: 'CH', regionCode: 'CH-VD', latitude: 46.5197, longitude: 6.6323 },
+  { name: 'Berne', countryCode: 'CH', regionCode: 'CH-BE', latitude: 46.948, longitude: 7.4474, aliases: ['Bern'] },
+  { name: 'Luxembourg', countryCode: 'LU', regionCode: null, latitude: 49.6116, longitude: 6.1319 },
+  // Amérique du Nord
+  { name: 'Toronto', countryCode: 'CA', regionCode: 'CA-ON', latitude: 43.6532, longitude: -79.3832 },
+  { name: 'Montréal', countryCode: 'CA', regionCode: 'CA-QC', latitude: 45.5017, longitude: -73.5673, aliases: ['Montreal'] },
+  { name: 'Vancouver', countryCode: 'CA', regionCode: 'CA-BC', latitude: 49.2827, longitude: -123.1207 },
+  { name: 'Ottawa', countryCode: 'CA', regionCode: 'CA-ON', latitude: 45.4215, longitude: -75.6972 },
+  { name: 'Québec', countryCode: 'CA', regionCode: 'CA-QC', latitude: 46.8139, longitude: -71.208, aliases: ['Ville de Québec', 'Quebec City'] },
+  { name: 'Gatineau', countryCode: 'CA', regionCode: 'CA-QC', latitude: 45.4765, longitude: -75.7013 },
+  { name: 'New York', countryCode: 'US', regionCode: 'US-NY', latitude: 40.7128, longitude: -74.006, aliases: ['NYC', 'New York City'] },
+  { name: 'San Francisco', countryCode: 'US', regionCode: 'US-CA', latitude: 37.7749, longitude: -122.4194 },
+  // Reste de l'Europe et Moyen-Orient
+  { name: 'Londres', countryCode: 'GB', regionCode: 'GB-ENG', latitude: 51.5074, longitude: -0.1278, aliases: ['London'] },
+  { name: 'Berlin', countryCode: 'DE', regionCode: 'DE-BE', latitude: 52.52, longitude: 13.405 },
+  { name: 'Madrid', countryCode: 'ES', regionCode: 'ES-MD', latitude: 40.4168, longitude: -3.7038 },
+  { name: 'Lisbonne', countryCode: 'PT', regionCode: 'PT-11', latitude: 38.7223, longitude: -9.1393, aliases: ['Lisbon', 'Lisboa'] },
+  { name: 'Dubaï', countryCode: 'AE', regionCode: 'AE-DU', latitude: 25.2048, longitude: 55.2708, aliases: ['Dubai'] },
+  // Côte d'Ivoire
+  {
+    name: 'Abidjan', countryCode: 'CI', regionCode: 'CI-AB', latitude: 5.36, longitude: -4.0083,
+    aliases: ['Cocody', 'Plateau', 'Yopougon', 'Marcory', 'Treichville', 'Abobo', 'Adjamé', 'Koumassi', 'Port-Bouët', 'Bingerville'],
+  },
+  { name: 'Bouaké', countryCode: 'CI', regionCode: 'CI-VB', latitude: 7.6899, longitude: -5.0303 },
+  { name: 'Daloa', countryCode: 'CI', regionCode: 'CI-SM', latitude: 6.8774, longitude: -6.4502 },
+  { name: 'Yamoussoukro', countryCode: 'CI', regionCode: 'CI-YM', latitude: 6.8276, longitude: -5.2893 },
+  { name: 'San-Pédro', countryCode: 'CI', regionCode: 'CI-BS', latitude: 4.7485, longitude: -6.6363 },
+  { name: 'Korhogo', countryCode: 'CI', regionCode: 'CI-SV', latitude: 9.458, longitude: -5.6296 },
+  { name: 'Man', countryCode: 'CI', regionCode: 'CI-MG', latitude: 7.4125, longitude: -7.5538 },
+  { name: 'Grand-Bassam', countryCode: 'CI', regionCode: 'CI-CM', latitude: 5.2118, longitude: -3.7388 },
+  // Sénégal
+  { name: 'Dakar', countryCode: 'SN', regionCode: 'SN-DK', latitude: 14.7167, longitude: -17.4677, aliases: ['Pikine', 'Guédiawaye', 'Rufisque', 'Almadies'] },
+  { name: 'Touba', countryCode: 'SN', regionCode: 'SN-DB', latitude: 14.85, longitude: -15.8833 },
+  { name: 'Thiès', countryCode: 'SN', regionCode: 'SN-TH', latitude: 14.791, longitude: -16.9359 },
+  { name: 'Kaolack', countryCode: 'SN', regionCode: 'SN-KL', latitude: 14.152, longitude: -16.0726 },
+  { name: 'Mbour', countryCode: 'SN', regionCode: 'SN-TH', latitude: 14.4199, longitude: -16.964 },
+  { name: 'Saint-Louis', countryCode: 'SN', regionCode: 'SN-SL', latitude: 16.0179, longitude: -16.4896 },
+  { name: 'Ziguinchor', countryCode: 'SN', regionCode: 'SN-ZG', latitude: 12.5681, longitude: -16.2719 },
+  // Afrique de l'Ouest et centrale
+  { name: 'Bamako', countryCode: 'ML', regionCode: 'ML-BKO', latitude: 12.6392, longitude: -8.0029 },
+  { name: 'Ouagadougou', countryCode: 'BF', regionCode: 'BF-03', latitude: 12.3714, longitude: -1.5197, aliases: ['Ouaga'] },
+  { name: 'Bobo-Dioulasso', countryCode: 'BF', regionCode: 'BF-09', latitude: 11.1771, longitude: -4.2979 },
+  { name: 'Niamey', countryCode: 'NE', regionCode: 'NE-8', latitude: 13.5116, longitude: 2.1254 },
+  { name: 'Conakry', countryCode: 'GN', regionCode: 'GN-C', latitude: 9.6412, longitude: -13.5784 },
+  { name: 'Lomé', countryCode: 'TG', regionCode: 'TG-M', latitude: 6.1319, longitude: 1.2228 },
+  { name: 'Cotonou', countryCode: 'BJ', regionCode: 'BJ-LI', latitude: 6.3703, longitude: 2.3912 },
+  { name: 'Porto-Novo', countryCode: 'BJ', regionCode: 'BJ-OU', latitude: 6.4969, longitude: 2.6289 },
+  { name: 'Douala', countryCode: 'CM', regionCode: 'CM-LT', latitude: 4.0511, longitude: 9.7679 },
+  { name: 'Yaoundé', countryCode: 'CM', regionCode: 'CM-CE', latitude: 3.848, longitude: 11.5021 },
+  { name: 'Libreville', countryCode: 'GA', regionCode: 'GA-1', latitude: 0.4162, longitude: 9.4673 },
+  { name: 'Brazzaville', countryCode: 'CG', regionCode: 'CG-BZV', latitude: -4.2634, longitude: 15.2429 },
+  { name: 'Pointe-Noire', countryCode: 'CG', regionCode: 'CG-16', latitude: -4.7692, longitude: 11.8664 },
+  { name: 'Kinshasa', countryCode: 'CD', regionCode: 'CD-KN', latitude: -4.4419, longitude: 15.2663 },
+  { name: 'Lubumbashi', countryCode: 'CD', regionCode: 'CD-HK', latitude: -11.6647, longitude: 27.4794 },
+  { name: 'Nouakchott', countryCode: 'MR', regionCode: 'MR-NKC', latitude: 18.0735, longitude: -15.9582 },
+  { name: 'Lagos', countryCode: 'NG', regionCode: 'NG-LA', latitude: 6.5244, longitude: 3.3792 },
+  { name: 'Abuja', countryCode: 'NG', regionCode: 'NG-FC', latitude: 9.0765, longitude: 7.3986 },
+  { name: 'Accra', countryCode: 'GH', regionCode: 'GH-AA', latitude: 5.6037, longitude: -0.187 },
+  // Afrique de l'Est et australe
+  { name: 'Kigali', countryCode: 'RW', regionCode: 'RW-01', latitude: -1.9441, longitude: 30.0619 },
+  { name: 'Nairobi', countryCode: 'KE', regionCode: 'KE-30', latitude: -1.2921, longitude: 36.8219 },
+  { name: 'Antananarivo', countryCode: 'MG', regionCode: 'MG-T', latitude: -18.8792, longitude: 47.5079, aliases: ['Tananarive', 'Tana'] },
+  { name: 'Johannesburg', countryCode: 'ZA', regionCode: 'ZA-GP', latitude: -26.2041, longitude: 28.0473 },
+  { name: 'Le Cap', countryCode: 'ZA', regionCode: 'ZA-WC', latitude: -33.9249, longitude: 18.4241, aliases: ['Cape Town'] },
+  { name: 'Port-Louis', countryCode: 'MU', regionCode: 'MU-PL', latitude: -20.1609, longitude: 57.5012 },
+  // Afrique du Nord
+  { name: 'Casablanca', countryCode: 'MA', regionCode: 'MA-06', latitude: 33.5731, longitude: -7.5898, aliases: ['Casa'] },
+  { name: 'Fès', countryCode: 'MA', regionCode: 'MA-03', latitude: 34.0181, longitude: -5.0078, aliases: ['Fez'] },
+  { name: 'Tanger', countryCode: 'MA', regionCode: 'MA-01', latitude: 35.7595, longitude: -5.834, aliases: ['Tangier'] },
+  { name: 'Marrakech', countryCode: 'MA', regionCode: 'MA-07', latitude: 31.6295, longitude: -7.9811, aliases: ['Marrakesh'] },
+  { name: 'Rabat', countryCode: 'MA', regionCode: 'MA-04', latitude: 34.0209, longitude: -6.8416 },
+  { name: 'Agadir', countryCode: 'MA', regionCode: 'MA-09', latitude: 30.4278, longitude: -9.5981 },
+  { name: 'Alger', countryCode: 'DZ', regionCode: 'DZ-16', latitude: 36.7538, longitude: 3.0588, aliases: ['Algiers'] },
+  { name: 'Oran', countryCode: 'DZ', regionCode: 'DZ-31', latitude: 35.6971, longitude: -0.6308 },
+  { name: 'Constantine', countryCode: 'DZ', regionCode: 'DZ-25', latitude: 36.365, longitude: 6.6147 },
+  { name: 'Tunis', countryCode: 'TN', regionCode: 'TN-11', latitude: 36.8065, longitude: 10.1815 },
+  { name: 'Sfax', countryCode: 'TN', regionCode: 'TN-61', latitude: 34.7406, longitude: 10.7603 },
+  { name: 'Sousse', countryCode: 'TN', regionCode: 'TN-51', latitude: 35.8256, longitude: 10.6084 },
+  { name: 'Le Caire', countryCode: 'EG', regionCode: 'EG-C', latitude: 30.0444, longitude: 31.2357, aliases: ['Cairo', 'Caire'] },
+];
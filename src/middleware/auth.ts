@@ -1,7 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import { JWTService } from '../utils/jwt';
+import { SessionService } from '../services/sessions';
+import { ModerationService } from '../services/moderation';
 import { AuthenticatedRequest } from '../types';
-import { UnauthorizedError } from '../types';
+import { UnauthorizedError, ForbiddenError } from '../types';
 import { logger } from '../config/logger';
 
 export const authenticateToken = async (
@@ -24,18 +26,37 @@ export const authenticateToken = async (
       throw new UnauthorizedError('Token invalide ou expiré');
     }
 
+    // Le token doit appartenir à une session toujours active (déconnexion, révocation d'appareil)
+    if (!payload.sessionId || !(await SessionService.isSessionActive(payload.sessionId))) {
+      logger.debug('🚫 Session revoked or expired');
+      throw new UnauthorizedError('Session expirée ou révoquée');
+    }
+
+    // Un compte suspendu ou banni perd l'accès immédiatement, même avec un token encore valide
+    if (!(await ModerationService.isAccessAllowed(payload.userId))) {
+      logger.debug(`🚫 Account ${payload.userId} suspended or banned`);
+      throw new UnauthorizedError('Compte suspendu ou banni');
+    }
+
+    // Ces routes (mot de passe, profil) ne sont pas couvertes par la politique d'assistance
+    if (payload.impersonatorId) {
+      logger.warn(`🕵️ Blocked ${req.method} ${req.originalUrl} during impersonation of ${payload.userId} by ${payload.impersonatorId}`);
+      throw new ForbiddenError('Action interdite pendant une session d\'assistance');
+    }
+
     // Ajouter les informations utilisateur à la requête
     req.user = {
       id: payload.userId,
       email: payload.email,
       profileType: payload.profileType,
       verified: payload.verified,
+      sessionId: payload.sessionId,
     };
 
     logger.debug(`✅ User authenticated: ${payload.email}`);
     next();
   } catch (error) {
-    if (error instanceof UnauthorizedError) {
+    if (error instanceof UnauthorizedError || error instanceof ForbiddenError) {
       return next(error);
     }
     
@@ -55,7 +76,12 @@ export const optionalAuth = async (
 
     if (token) {
       const payload = JWTService.verifyAccessToken(token);
-      if (payload) {
+      if (
+        payload?.sessionId &&
+        !payload.impersonatorId &&
+        await SessionService.isSessionActive(payload.sessionId) &&
+        await ModerationService.isAccessAllowed(payload.userId)
+      ) {
         req.user = {
           id: payload.userId,
           email: payload.email,
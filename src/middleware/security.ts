@@ -5,6 +5,7 @@ import compression from 'compression';
 import { Request, Response, NextFunction } from 'express';
 import { logger } from '../config/logger';
 import { config } from '../config';
+import { AuditService, AuditActions, redactSensitiveFields } from '../services/audit';
 
 // ==================== HELMET CONFIGURATION ====================
 
@@ -264,9 +265,11 @@ export const removeFromBlacklist = (ip: string) => {
 
 // ==================== AUDIT MIDDLEWARE ====================
 
+// Méthodes HTTP dont les requêtes sont persistées dans la piste d'audit
+const AUDITED_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
 export const auditLog = (req: Request, res: Response, next: NextFunction) => {
   const startTime = Date.now();
-  const user = (req as any).user;
 
   // Logger la requête
   const requestLog = {
@@ -274,8 +277,6 @@ export const auditLog = (req: Request, res: Response, next: NextFunction) => {
     url: req.originalUrl,
     ip: req.ip,
     userAgent: req.get('User-Agent'),
-    userId: user?.id,
-    userEmail: user?.email,
     timestamp: new Date().toISOString(),
   };
 
@@ -285,14 +286,41 @@ export const auditLog = (req: Request, res: Response, next: NextFunction) => {
   const originalSend = res.send;
   res.send = function(data) {
     const duration = Date.now() - startTime;
-    
+    // L'utilisateur n'est connu qu'après authenticateToken, donc au moment de la réponse
+    const user = (req as any).user;
+
     logger.info('Request completed:', {
       ...requestLog,
+      userId: user?.id,
+      userEmail: user?.email,
       statusCode: res.statusCode,
       duration,
       responseSize: data ? data.length : 0,
     });
 
+    // Persister les requêtes qui modifient des données et les requêtes refusées
+    if (AUDITED_METHODS.includes(req.method) || [401, 403].includes(res.statusCode)) {
+      const success = res.statusCode < 400;
+
+      AuditService.log({
+        userId: user?.id,
+        action: AuditActions.API_REQUEST,
+        resource: 'API',
+        resourceId: `${req.method} ${req.originalUrl.split('?')[0]}`,
+        details: {
+          method: req.method,
+          url: req.originalUrl,
+          statusCode: res.statusCode,
+          duration,
+          body: req.method !== 'GET' ? redactSensitiveFields(req.body) : undefined,
+        },
+        success,
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+        error: success ? undefined : `HTTP ${res.statusCode}`,
+      });
+    }
+
     return originalSend.call(this, data);
   };
 
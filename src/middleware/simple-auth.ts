@@ -1,5 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import { SimpleJWTService } from '../utils/simple-jwt';
+import { SessionService } from '../services/sessions';
+import { ApiKeyService } from '../services/api-keys';
+import { AuditService, AuditActions } from '../services/audit';
+import { ImpersonationService } from '../services/impersonation';
 import { logger } from '../config/logger';
 
 export interface AuthenticatedRequest extends Request {
@@ -8,9 +12,35 @@ export interface AuthenticatedRequest extends Request {
     email: string;
     profileType: string;
     verified: boolean;
+    sessionId?: string;
+    apiKeyId?: string;
+    scopes?: string[];
+    impersonatorId?: string;
   };
 }
 
+// Actions réservées au titulaire du compte : interdites avec un token d'assistance,
+// en plus de toute suppression (méthode, chemin complet)
+const IMPERSONATION_DENY_LIST: Array<[string[], RegExp]> = [
+  // Mot de passe
+  [['POST', 'PUT', 'PATCH'], /^\/api\/v1\/auth\/(change-password|reset-password|forgot-password)$/],
+  // Double authentification et codes de secours
+  [['POST', 'PUT'], /^\/api\/v1\/auth\/2fa\/(setup|enable|disable|recovery-codes|policies\/[^/]+)$/],
+  // Clés d'API : elles survivraient à la session d'assistance
+  [['POST', 'PUT', 'PATCH'], /^\/api\/v1\/auth\/api-keys(\/[^/]+)?$/],
+  [['POST', 'PUT', 'PATCH'], /^\/api\/v1\/organizations\/[^/]+\/api-keys(\/[^/]+)?$/],
+  // Export des données personnelles
+  [['GET', 'POST'], /^\/api\/v1\/users\/me\/exports?(\/.*)?$/],
+  // Cycle de vie du compte
+  [['POST'], /^\/api\/v1\/users\/me\/deletion\/cancel$/],
+];
+
+// Contenus créés au nom de l'organisation d'une clé d'API
+const ORGANIZATION_CONTENT_PATHS = /^\/api\/v1\/(opportunities|events|resources)\/?$/;
+
+const isForbiddenDuringImpersonation = (method: string, path: string): boolean =>
+  method === 'DELETE' || IMPERSONATION_DENY_LIST.some(([methods, pattern]) => methods.includes(method) && pattern.test(path));
+
 export const authenticateToken = async (
   req: AuthenticatedRequest,
   res: Response,
@@ -29,7 +59,12 @@ export const authenticateToken = async (
       return;
     }
 
-    const payload = SimpleJWTService.verifyAccessToken(token);
+    if (ApiKeyService.isApiKey(token)) {
+      await authenticateApiKey(req, res, next, token);
+      return;
+    }
+
+    const payload = await SessionService.authenticateAccessToken(token);
     if (!payload) {
       logger.debug('🚫 Invalid or expired token');
       res.status(401).json({
@@ -45,8 +80,14 @@ export const authenticateToken = async (
       email: payload.email,
       profileType: payload.profileType,
       verified: payload.verified,
+      sessionId: payload.sessionId,
+      impersonatorId: payload.impersonatorId,
     };
 
+    if (payload.impersonatorId && !applyImpersonationPolicy(req, res)) {
+      return;
+    }
+
     logger.debug(`✅ User authenticated: ${payload.email}`);
     next();
   } catch (error) {
@@ -58,6 +99,11 @@ export const authenticateToken = async (
   }
 };
 
+/**
+ * Routes publiques dont la réponse dépend du visiteur : un token invalide est ignoré,
+ * un token d'assistance est soumis à la même politique que sur les routes authentifiées
+ * et une clé d'API aux mêmes vérifications de scope et de quota
+ */
 export const optionalAuth = async (
   req: AuthenticatedRequest,
   res: Response,
@@ -67,15 +113,26 @@ export const optionalAuth = async (
     const authHeader = req.headers.authorization;
     const token = SimpleJWTService.extractTokenFromHeader(authHeader);
 
+    if (token && ApiKeyService.isApiKey(token)) {
+      await authenticateApiKey(req, res, next, token);
+      return;
+    }
+
     if (token) {
-      const payload = SimpleJWTService.verifyAccessToken(token);
+      const payload = await SessionService.authenticateAccessToken(token);
       if (payload) {
         req.user = {
           id: payload.userId,
           email: payload.email,
           profileType: payload.profileType,
           verified: payload.verified,
+          sessionId: payload.sessionId,
+          impersonatorId: payload.impersonatorId,
         };
+
+        if (payload.impersonatorId && !applyImpersonationPolicy(req, res)) {
+          return;
+        }
         logger.debug(`✅ Optional auth - User authenticated: ${payload.email}`);
       }
     }
@@ -85,4 +142,141 @@ export const optionalAuth = async (
     logger.debug('Optional auth failed, continuing without authentication');
     next();
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Authentification par clé d'API : vérifie la clé, le scope requis par la route
+ * et le quota horaire de la clé
+ */
+export const authenticateApiKey = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+  key: string
+) => {
+  const apiKey = await ApiKeyService.authenticate(key, { ipAddress: req.ip, userAgent: req.get('User-Agent') });
+  if (!apiKey) {
+    logger.debug('🚫 Invalid, revoked or expired API key');
+    res.status(401).json({
+      success: false,
+      error: 'Clé d\'API invalide, révoquée ou expirée',
+      timestamp: new Date().toISOString(),
+    });
+    return;
+  }
+
+  const requiredScope = ApiKeyService.requiredScope(req.method, req.originalUrl);
+  if (!requiredScope || !apiKey.scopes.includes(requiredScope)) {
+    res.status(403).json({
+      success: false,
+      error: requiredScope
+        ? `Scope ${requiredScope} requis pour cette clé d'API`
+        : 'Cette route n\'est pas accessible avec une clé d\'API',
+      timestamp: new Date().toISOString(),
+    });
+    return;
+  }
+
+  const rateLimit = await ApiKeyService.consumeRateLimit(apiKey.id, apiKey.rateLimitPerHour);
+  res.setHeader('X-RateLimit-Limit', rateLimit.limit.toString());
+  res.setHeader('X-RateLimit-Remaining', rateLimit.remaining.toString());
+
+  if (!rateLimit.allowed) {
+    if (rateLimit.firstRejection) {
+      await AuditService.logSecurityEvent(
+        AuditActions.RATE_LIMIT_EXCEEDED,
+        `Quota horaire dépassé pour la clé d'API ${apiKey.prefix}`,
+        req.ip,
+        req.get('User-Agent'),
+        apiKey.user.id,
+        { apiKeyId: apiKey.id, limit: rateLimit.limit }
+      );
+    }
+
+    res.setHeader('Retry-After', rateLimit.retryAfterSeconds.toString());
+    res.status(429).json({
+      success: false,
+      error: 'Quota de requêtes de la clé d\'API dépassé',
+      retryAfter: rateLimit.retryAfterSeconds,
+      timestamp: new Date().toISOString(),
+    });
+    return;
+  }
+
+  // Une clé d'organisation publie toujours au nom de son organisation
+  if (apiKey.organizationId && req.body && typeof req.body === 'object') {
+    if (req.body.organizationId && req.body.organizationId !== apiKey.organizationId) {
+      res.status(403).json({
+        success: false,
+        error: 'Cette clé d\'API ne peut agir qu\'au nom de son organisation',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (req.method === 'POST' && ORGANIZATION_CONTENT_PATHS.test(`${req.baseUrl}${req.path}`)) {
+      req.body.organizationId = apiKey.organizationId;
+    }
+  }
+
+  req.user = {
+    id: apiKey.user.id,
+    email: apiKey.user.email,
+    profileType: apiKey.user.profileType,
+    verified: apiKey.user.verified,
+    apiKeyId: apiKey.id,
+    scopes: apiKey.scopes,
+  };
+
+  // Les lectures sont trop nombreuses pour la piste d'audit : seules les écritures sont tracées
+  if (req.method !== 'GET') {
+    await AuditService.logResourceAction(
+      AuditActions.API_KEY_USE,
+      apiKey.user.id,
+      'API_KEY',
+      apiKey.id,
+      { method: req.method, path: req.originalUrl },
+      req.ip,
+      req.get('User-Agent')
+    );
+  }
+
+  logger.debug(`✅ API key ${apiKey.prefix} authenticated for ${apiKey.user.email}`);
+  next();
+};
+
+/**
+ * Token d'assistance : bloque les suppressions et les actions sur les identifiants, la 2FA,
+ * les clés d'API, l'export et le cycle de vie du compte, et trace chaque requête
+ * sous l'identité de l'utilisateur et de l'administrateur.
+ * Retourne false si la requête a été refusée.
+ */
+export const applyImpersonationPolicy = (req: AuthenticatedRequest, res: Response): boolean => {
+  const { id: userId, impersonatorId, sessionId } = req.user!;
+  const audit = (statusCode: number) => ImpersonationService.auditRequest({
+    userId,
+    impersonatorId: impersonatorId!,
+    sessionId,
+    method: req.method,
+    path: req.originalUrl,
+    statusCode,
+    ip: req.ip,
+    userAgent: req.get('User-Agent'),
+  });
+
+  if (isForbiddenDuringImpersonation(req.method, `${req.baseUrl}${req.path}`)) {
+    logger.warn(`🕵️ Blocked ${req.method} ${req.originalUrl} during impersonation of ${userId} by ${impersonatorId}`);
+    void audit(403);
+    res.status(403).json({
+      success: false,
+      error: 'Action interdite pendant une session d\'assistance',
+      timestamp: new Date().toISOString(),
+    });
+    return false;
+  }
+
+  res.on('finish', () => {
+    void audit(res.statusCode);
+  });
+  return true;
+};
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { z, ZodSchema } from 'zod';
 import { logger } from '../config/logger';
+import { RolesService, Permission } from '../services/roles';
 
 export interface ValidationTargets {
   body?: ZodSchema;
@@ -292,4 +293,44 @@ export const validatePermissions = (requiredPermissions: string[]) => {
       });
     }
   };
-};
\ No newline at end of file
+};
+// Vérification des permissions à partir des rôles (voir src/services/roles.ts)
+export const requirePermission = (...requiredPermissions: Permission[]) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = (req as any).user;
+
+      if (!user) {
+        return res.status(401).json({
+          success: false,
+          error: 'Authentification requise',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      if (!(await RolesService.hasPermission(user, ...requiredPermissions))) {
+        logger.warn('Insufficient permissions:', {
+          userId: user.id,
+          requiredPermissions,
+          url: req.originalUrl,
+          ip: req.ip,
+        });
+
+        return res.status(403).json({
+          success: false,
+          error: 'Permissions insuffisantes',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      next();
+    } catch (error) {
+      logger.error('Permission validation error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Erreur de validation des permissions',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  };
+};
@@ -55,6 +55,14 @@ router.post('/register', registrationLimiter, AuthController.register);
  */
 router.post('/login', authLimiter, AuthController.login);
 
+/**
+ * @route   POST /api/v1/auth/login/verify-2fa
+ * @desc    Seconde étape de connexion (code TOTP ou code de secours)
+ * @access  Public
+ * @body    { challengeToken, code, deviceName? }
+ */
+router.post('/login/verify-2fa', authLimiter, AuthController.verifyTwoFactor);
+
 /**
  * @route   POST /api/v1/auth/refresh
  * @desc    Rafraîchir les tokens d'accès
@@ -83,7 +91,7 @@ router.post('/reset-password', AuthController.resetPassword);
  * @route   POST /api/v1/auth/verify-email
  * @desc    Vérification de l'adresse email
  * @access  Public
- * @body    { userId, verificationToken }
+ * @body    { token }
  */
 router.post('/verify-email', AuthController.verifyEmail);
 
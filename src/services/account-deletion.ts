@@ -0,0 +1,288 @@
+import { PrismaClient, UserStatus, OpportunityStatus, EventStatus, BookmarkTarget } from '@prisma/client';
+import crypto from 'crypto';
+import { NotificationsService } from './notifications';
+import { SessionService, SessionRevokeReason } from './sessions';
+import { DataExportService } from './data-export';
+import { ExpertisesService } from './expertises';
+import { SearchService } from './search';
+import { AuditService, AuditActions } from './audit';
+import { PasswordService } from '../utils/password';
+import redisManager from '../config/redis';
+import { config } from '../config';
+import { logger } from '../config/logger';
+
+const prisma = new PrismaClient();
+
+// Identité affichée à la place d'un compte effacé dans les contenus partagés
+export const DELETED_USER_NAME = 'Utilisateur supprimé';
+
+const DELETION_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+export class AccountDeletionService {
+  private static sweepTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Programme la suppression du compte à l'issue du délai de grâce.
+   * Les sessions sont fermées mais l'utilisateur peut se reconnecter pour annuler.
+   */
+  static async requestDeletion(userId: string, password: string, context: { ip?: string; userAgent?: string; sessionId?: string } = {}) {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { id: true, password: true, deletionScheduledFor: true, deletedAt: true },
+      });
+
+      if (!user || user.deletedAt) {
+        throw new Error('Utilisateur non trouvé');
+      }
+      if (user.deletionScheduledFor) {
+        throw new Error('La suppression de ce compte est déjà programmée');
+      }
+      if (!(await PasswordService.verify(password, user.password))) {
+        throw new Error('Mot de passe incorrect');
+      }
+
+      const scheduledFor = new Date(Date.now() + config.ACCOUNT_DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000);
+
+      await prisma.user.update({
+        where: { id: userId },
+        data: { deletionRequestedAt: new Date(), deletionScheduledFor: scheduledFor },
+      });
+
+      await SessionService.revokeAllSessions(userId, SessionRevokeReason.ACCOUNT_DELETION, context.sessionId);
+
+      await AuditService.logUserAction(
+        AuditActions.ACCOUNT_DELETION_REQUEST,
+        userId,
+        userId,
+        { scheduledFor },
+        context.ip,
+        context.userAgent
+      );
+
+      try {
+        await NotificationsService.createSystemNotification(
+          userId,
+          'Suppression du compte programmée',
+          `Votre compte sera définitivement supprimé le ${scheduledFor.toLocaleDateString('fr-FR')}. Vous pouvez annuler d'ici là depuis vos paramètres.`,
+          '/settings/account'
+        );
+      } catch (notificationError) {
+        logger.error('❌ Failed to notify deletion request:', notificationError);
+      }
+
+      logger.info(`🗑️ Account deletion scheduled for user ${userId} on ${scheduledFor.toISOString()}`);
+      return { scheduledFor };
+
+    } catch (error) {
+      logger.error('❌ Request account deletion error:', error);
+      throw error;
+    }
+  }
+
+  static async cancelDeletion(userId: string, context: { ip?: string; userAgent?: string } = {}) {
+    try {
+      const { count } = await prisma.user.updateMany({
+        where: { id: userId, deletedAt: null, deletionScheduledFor: { not: null } },
+        data: { deletionRequestedAt: null, deletionScheduledFor: null },
+      });
+
+      if (count === 0) {
+        throw new Error('Aucune suppression programmée pour ce compte');
+      }
+
+      await AuditService.logUserAction(
+        AuditActions.ACCOUNT_DELETION_CANCEL,
+        userId,
+        userId,
+        undefined,
+        context.ip,
+        context.userAgent
+      );
+
+      logger.info(`↩️ Account deletion cancelled for user ${userId}`);
+      return { success: true };
+
+    } catch (error) {
+      logger.error('❌ Cancel account deletion error:', error);
+      throw error;
+    }
+  }
+
+  static async getDeletionStatus(userId: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { deletionRequestedAt: true, deletionScheduledFor: true },
+    });
+
+    if (!user) {
+      throw new Error('Utilisateur non trouvé');
+    }
+
+    return {
+      scheduled: !!user.deletionScheduledFor,
+      requestedAt: user.deletionRequestedAt,
+      scheduledFor: user.deletionScheduledFor,
+    };
+  }
+
+  /**
+   * Efface les données personnelles du compte sans supprimer la ligne utilisateur :
+   * les contenus partagés (messages, candidatures, opportunités...) restent visibles
+   * pour leurs autres propriétaires, attribués à "Utilisateur supprimé".
+   */
+  static async eraseUser(userId: string, erasedBy?: string) {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { id: true, name: true, deletedAt: true },
+      });
+
+      if (!user) {
+        throw new Error('Utilisateur non trouvé');
+      }
+      if (user.deletedAt) {
+        return;
+      }
+
+      const now = new Date();
+      const homonyms = await prisma.user.count({ where: { name: user.name, id: { not: userId } } });
+
+      // Recommandations données et justificatifs de vérification
+      await ExpertisesService.purgeUser(userId);
+
+      await prisma.$transaction([
+        // Données strictement personnelles
+        prisma.userExpertise.deleteMany({ where: { userId } }),
+        prisma.notification.deleteMany({ where: { userId } }),
+        prisma.userActivity.deleteMany({ where: { userId } }),
+        prisma.userSession.deleteMany({ where: { userId } }),
+        prisma.twoFactorAuth.deleteMany({ where: { userId } }),
+        prisma.userRole.deleteMany({ where: { userId } }),
+        prisma.apiKey.deleteMany({ where: { userId } }),
+        prisma.emailOutbox.deleteMany({ where: { userId } }),
+        prisma.loginAttempt.updateMany({ where: { userId }, data: { userId: null, email: `deleted-${userId}` } }),
+        prisma.connection.deleteMany({ where: { OR: [{ requesterId: userId }, { targetId: userId }] } }),
+        prisma.invitation.updateMany({ where: { createdById: userId, revokedAt: null }, data: { revokedAt: now } }),
+        prisma.organizationMember.deleteMany({ where: { userId } }),
+        prisma.profileView.deleteMany({ where: { OR: [{ profileId: userId }, { viewerId: userId }] } }),
+        prisma.privacySettings.deleteMany({ where: { userId } }),
+        prisma.memberRecommendation.deleteMany({ where: { OR: [{ userId }, { candidateId: userId }] } }),
+        prisma.recommendationDismissal.deleteMany({ where: { OR: [{ userId }, { candidateId: userId }] } }),
+        prisma.savedSearch.deleteMany({ where: { userId } }),
+        prisma.bookmark.deleteMany({ where: { OR: [{ userId }, { targetType: BookmarkTarget.USER, targetId: userId }] } }),
+        prisma.bookmarkCollection.deleteMany({ where: { userId } }),
+
+        // Libérer les places des événements à venir, garder l'historique des participations passées
+        prisma.eventRegistration.deleteMany({ where: { userId, event: { startDate: { gt: now } } } }),
+
+        // Contenus publiés : conservés pour les candidats et inscrits, mais retirés des listes
+        prisma.opportunity.updateMany({
+          where: { authorId: userId, status: { in: [OpportunityStatus.ACTIVE, OpportunityStatus.DRAFT] } },
+          data: { status: OpportunityStatus.CLOSED },
+        }),
+        prisma.event.updateMany({
+          where: { creatorId: userId, startDate: { gt: now }, status: EventStatus.UPCOMING },
+          data: { status: EventStatus.CANCELLED },
+        }),
+        prisma.event.updateMany({
+          where: { creatorId: userId, organizer: user.name },
+          data: { organizer: DELETED_USER_NAME, organizerContact: null },
+        }),
+        // Les ressources ne référencent leur auteur que par son nom : ne les renommer
+        // que si aucun autre membre ne porte le même nom
+        ...(homonyms === 0
+          ? [prisma.resource.updateMany({ where: { author: user.name }, data: { author: DELETED_USER_NAME } })]
+          : []),
+
+        // Pierre tombale : identité neutre, identifiants inutilisables
+        prisma.user.update({
+          where: { id: userId },
+          data: {
+            name: DELETED_USER_NAME,
+            email: `deleted-${userId}@deleted.invalid`,
+            password: await PasswordService.hash(crypto.randomBytes(32).toString('hex')),
+            status: UserStatus.INACTIVE,
+            company: null,
+            location: null,
+            city: null,
+            regionCode: null,
+            countryCode: null,
+            latitude: null,
+            longitude: null,
+            avatar: null,
+            description: null,
+            website: null,
+            linkedin: null,
+            phone: null,
+            verified: false,
+            rating: null,
+            reviewCount: 0,
+            endorsementCount: 0,
+            searchText: null,
+            deletionScheduledFor: null,
+            deletedAt: now,
+          },
+        }),
+      ]);
+
+      await SearchService.reindexUsers(userId);
+      await DataExportService.deleteUserExports(userId);
+      await redisManager.del(`account_status:${userId}`);
+      await redisManager.del(`permissions:${userId}`);
+
+      await AuditService.logUserAction(
+        AuditActions.ACCOUNT_ERASED,
+        erasedBy || userId,
+        userId,
+        { automatic: !erasedBy }
+      );
+
+      logger.info(`🗑️ User ${userId} erased and anonymized`);
+
+    } catch (error) {
+      logger.error('❌ Erase user error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Anonymise les comptes dont le délai de grâce est écoulé
+   */
+  static async processDueDeletions(now: Date = new Date()) {
+    try {
+      const due = await prisma.user.findMany({
+        where: { deletedAt: null, deletionScheduledFor: { lte: now } },
+        select: { id: true },
+      });
+
+      for (const user of due) {
+        await this.eraseUser(user.id).catch(() => undefined);
+      }
+
+      if (due.length > 0) {
+        logger.info(`🗑️ ${due.length} scheduled account deletions processed`);
+      }
+      return due.length;
+
+    } catch (error) {
+      logger.error('❌ Process due deletions error:', error);
+      return 0;
+    }
+  }
+
+  static startWorker() {
+    if (this.sweepTimer) {
+      return;
+    }
+
+    this.sweepTimer = setInterval(() => this.processDueDeletions(), DELETION_SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+    this.processDueDeletions();
+  }
+
+  static stopWorker() {
+    if (this.sweepTimer) clearInterval(this.sweepTimer);
+    this.sweepTimer = null;
+  }
+}
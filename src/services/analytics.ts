@@ -1,5 +1,6 @@
 import { PrismaClient } from '@prisma/client';
 import { logger } from '../config/logger';
+import { ProfileViewsService } from './profile-views';
 
 const prisma = new PrismaClient();
 
@@ -162,10 +163,13 @@ export class AnalyticsService {
             createdAt: { gte: thisMonth },
           },
         }),
-        prisma.connection.count(),
+        prisma.connection.count({
+          where: { status: 'ACCEPTED' },
+        }),
         prisma.connection.count({
           where: {
-            createdAt: { gte: thisMonth },
+            status: 'ACCEPTED',
+            respondedAt: { gte: thisMonth },
           },
         }),
       ]);
@@ -268,6 +272,7 @@ export class AnalyticsService {
         messagesSent,
         messagesReceived,
         connectionsEstablished,
+        profileViews,
       ] = await Promise.all([
         // Opportunités créées
         prisma.opportunity.count({
@@ -333,9 +338,12 @@ export class AnalyticsService {
               { targetId: userId },
             ],
             status: 'ACCEPTED',
-            createdAt: { gte: startDate },
+            respondedAt: { gte: startDate },
           },
         }),
+
+        // Vues du profil (une par visiteur et par jour)
+        ProfileViewsService.countSince(userId, startDate),
       ]);
 
       const stats: UserActivityMetrics = {
@@ -351,7 +359,7 @@ export class AnalyticsService {
           messagesSent,
           messagesReceived,
           connectionsEstablished,
-          profileViews: 0, // TODO: Implémenter le tracking des vues de profil
+          profileViews,
         },
       };
 
@@ -513,7 +521,8 @@ export class AnalyticsService {
           }),
           prisma.connection.count({
             where: {
-              createdAt: {
+              status: 'ACCEPTED',
+              respondedAt: {
                 gte: date,
                 lt: nextDate,
               },
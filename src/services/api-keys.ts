@@ -0,0 +1,415 @@
+import { PrismaClient } from '@prisma/client';
+import crypto from 'crypto';
+import redisManager from '../config/redis';
+import { config } from '../config';
+import { logger } from '../config/logger';
+import { ModerationService } from './moderation';
+import { OrganizationsService } from './organizations';
+
+const prisma = new PrismaClient();
+
+// Préfixe des clés : permet de les distinguer d'un JWT dans l'en-tête Authorization
+export const API_KEY_PREFIX = 'pme_';
+
+// Évite une écriture en base à chaque requête : lastUsedAt est rafraîchi au plus une fois par minute
+const LAST_USED_REFRESH_MS = 60 * 1000;
+
+const RATE_LIMIT_WINDOW_SECONDS = 60 * 60;
+
+// Routes ouvertes aux intégrations, par scope. Toute route absente de cette liste est refusée
+// aux clés d'API : authentification, identifiants, administration, modération, exports,
+// confidentialité et cycle de vie du compte.
+const API_KEY_ROUTES: Record<string, string[]> = {
+  'users:read': [
+    'GET /api/v1/users',
+    'GET /api/v1/users/:userId',
+    'GET /api/v1/users/me/completion',
+    'GET /api/v1/users/me/organizations',
+    'GET /api/v1/users/me/recommendations',
+    'GET /api/v1/users/me/saved-searches',
+    'GET /api/v1/users/me/saved-searches/:searchId',
+    'GET /api/v1/users/me/bookmarks',
+    'GET /api/v1/users/me/bookmark-collections',
+    'GET /api/v1/users/:userId/reviews',
+    'GET /api/v1/users/:userId/expertises/:expertiseId/endorsements',
+  ],
+  'users:write': [
+    'PUT /api/v1/users/me',
+    'POST /api/v1/users/me/recommendations/:userId/dismiss',
+    'DELETE /api/v1/users/me/recommendations/:userId/dismiss',
+    'POST /api/v1/users/me/saved-searches',
+    'PUT /api/v1/users/me/saved-searches/:searchId',
+    'DELETE /api/v1/users/me/saved-searches/:searchId',
+    'POST /api/v1/users/me/bookmarks',
+    'DELETE /api/v1/users/me/bookmarks/:targetType/:targetId',
+    'POST /api/v1/users/me/bookmark-collections',
+    'PUT /api/v1/users/me/bookmark-collections/:collectionId',
+    'DELETE /api/v1/users/me/bookmark-collections/:collectionId',
+    'POST /api/v1/users/:userId/expertises/:expertiseId/endorse',
+    'DELETE /api/v1/users/:userId/expertises/:expertiseId/endorse',
+  ],
+  'opportunities:read': [
+    'GET /api/v1/opportunities',
+    'GET /api/v1/opportunities/:opportunityId',
+    'GET /api/v1/opportunities/:opportunityId/applications',
+  ],
+  'opportunities:write': [
+    'POST /api/v1/opportunities',
+    'PUT /api/v1/opportunities/:opportunityId',
+    'DELETE /api/v1/opportunities/:opportunityId',
+    'POST /api/v1/opportunities/:opportunityId/apply',
+    'PUT /api/v1/opportunities/:opportunityId/applications/:applicationId/status',
+  ],
+  'events:read': [
+    'GET /api/v1/events',
+    'GET /api/v1/events/:eventId',
+    'GET /api/v1/events/:eventId/registrations',
+    'GET /api/v1/events/registrations/my',
+  ],
+  'events:write': [
+    'POST /api/v1/events',
+    'PUT /api/v1/events/:eventId',
+    'DELETE /api/v1/events/:eventId',
+    'POST /api/v1/events/:eventId/register',
+    'DELETE /api/v1/events/:eventId/register',
+  ],
+  'resources:read': [
+    'GET /api/v1/resources',
+    'GET /api/v1/resources/:resourceId',
+    'GET /api/v1/resources/author/:authorName',
+    'GET /api/v1/resources/popular',
+  ],
+  'resources:write': [
+    'POST /api/v1/resources',
+    'PUT /api/v1/resources/:resourceId',
+    'DELETE /api/v1/resources/:resourceId',
+  ],
+  'messages:read': [
+    'GET /api/v1/messages/received',
+    'GET /api/v1/messages/sent',
+    'GET /api/v1/messages/conversations',
+    'GET /api/v1/messages/unread/count',
+    'GET /api/v1/messages/:messageId',
+  ],
+  'messages:write': [
+    'POST /api/v1/messages',
+    'PUT /api/v1/messages/:messageId/read',
+    'DELETE /api/v1/messages/:messageId',
+  ],
+  'notifications:read': [
+    'GET /api/v1/notifications',
+    'GET /api/v1/notifications/unread/count',
+  ],
+  'notifications:write': [
+    'PUT /api/v1/notifications/:notificationId/read',
+    'PUT /api/v1/notifications/read-all',
+    'DELETE /api/v1/notifications/:notificationId',
+  ],
+  'connections:read': [
+    'GET /api/v1/connections',
+    'GET /api/v1/connections/requests/incoming',
+    'GET /api/v1/connections/requests/outgoing',
+    'GET /api/v1/connections/blocked',
+    'GET /api/v1/connections/status/:userId',
+    'GET /api/v1/connections/mutual/:userId',
+  ],
+  'connections:write': [
+    'POST /api/v1/connections',
+    'PUT /api/v1/connections/:connectionId/accept',
+    'PUT /api/v1/connections/:connectionId/reject',
+    'DELETE /api/v1/connections/:connectionId',
+    'POST /api/v1/connections/block/:userId',
+    'DELETE /api/v1/connections/block/:userId',
+  ],
+};
+
+export const API_KEY_SCOPES = Object.keys(API_KEY_ROUTES);
+
+// Une clé d'organisation sert à synchroniser ses contenus publics, pas le compte de son créateur
+export const ORGANIZATION_API_KEY_SCOPES = API_KEY_SCOPES.filter(scope =>
+  ['opportunities', 'events', 'resources'].includes(scope.split(':')[0])
+);
+
+// Les paramètres (`:userId`) correspondent à un segment de chemin quelconque
+const compiledApiKeyRoutes = Object.entries(API_KEY_ROUTES).flatMap(([scope, routes]) =>
+  routes.map(route => {
+    const [method, path] = route.split(' ');
+    const pattern = path.replace(/:[^/]+/g, '[^/]+');
+    return { scope, method, pattern: new RegExp(`^${pattern}/?$`) };
+  })
+);
+
+export interface CreateApiKeyData {
+  name: string;
+  scopes: string[];
+  expiresInDays?: number;
+  rateLimitPerHour?: number;
+}
+
+export interface ApiKeyContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface ApiKeyRateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfterSeconds: number;
+  firstRejection: boolean; // Première requête refusée de la fenêtre
+}
+
+// Compteurs locaux utilisés lorsque Redis n'est pas disponible (un seul processus)
+const localRateLimitCounters = new Map<string, number>();
+
+const publicKeySelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  rateLimitPerHour: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  revokedAt: true,
+  createdAt: true,
+};
+
+const organizationKeySelect = {
+  ...publicKeySelect,
+  user: { select: { id: true, name: true } },
+};
+
+export class ApiKeyService {
+
+  static isApiKey(token: string): boolean {
+    return token.startsWith(API_KEY_PREFIX);
+  }
+
+  /**
+   * Crée une clé d'API. La valeur complète n'est retournée qu'ici : seul son hash est stocké.
+   * Avec organizationId, la clé appartient à l'organisation : réservé à ses propriétaires et administrateurs.
+   */
+  static async createKey(userId: string, data: CreateApiKeyData, organizationId?: string) {
+    try {
+      if (organizationId) {
+        await OrganizationsService.assertManager(organizationId, userId);
+      }
+
+      const allowedScopes = organizationId ? ORGANIZATION_API_KEY_SCOPES : API_KEY_SCOPES;
+      const invalidScopes = data.scopes.filter(scope => !allowedScopes.includes(scope));
+      if (invalidScopes.length > 0) {
+        throw new Error(`Scopes inconnus : ${invalidScopes.join(', ')}`);
+      }
+
+      const activeKeys = await prisma.apiKey.count({
+        where: {
+          ...(organizationId ? { organizationId } : { userId, organizationId: null }),
+          revokedAt: null,
+          OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+        },
+      });
+      if (activeKeys >= config.API_KEY_MAX_PER_USER) {
+        throw new Error(`Nombre maximum de clés d'API atteint (${config.API_KEY_MAX_PER_USER})`);
+      }
+
+      const prefix = crypto.randomBytes(6).toString('hex');
+      const key = `${API_KEY_PREFIX}${prefix}_${crypto.randomBytes(24).toString('base64url')}`;
+
+      const apiKey = await prisma.apiKey.create({
+        data: {
+          userId,
+          organizationId,
+          name: data.name,
+          prefix,
+          keyHash: this.hashKey(key),
+          scopes: JSON.stringify(Array.from(new Set(data.scopes))),
+          rateLimitPerHour: data.rateLimitPerHour ?? config.API_KEY_DEFAULT_RATE_LIMIT,
+          expiresAt: data.expiresInDays ? new Date(Date.now() + data.expiresInDays * 24 * 60 * 60 * 1000) : null,
+        },
+        select: publicKeySelect,
+      });
+
+      logger.info(organizationId
+        ? `🔑 API key ${apiKey.prefix} created for organization ${organizationId} by user ${userId}`
+        : `🔑 API key ${apiKey.prefix} created for user ${userId}`);
+
+      return { ...this.formatKey(apiKey), key };
+
+    } catch (error) {
+      logger.error('❌ Create API key error:', error);
+      throw error;
+    }
+  }
+
+  // Clés personnelles uniquement : les clés d'organisation sont listées avec l'organisation
+  static async listKeys(userId: string) {
+    const keys = await prisma.apiKey.findMany({
+      where: { userId, organizationId: null },
+      select: publicKeySelect,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return keys.map(key => this.formatKey(key));
+  }
+
+  static async listOrganizationKeys(organizationId: string, userId: string) {
+    await OrganizationsService.assertManager(organizationId, userId);
+
+    const keys = await prisma.apiKey.findMany({
+      where: { organizationId },
+      select: organizationKeySelect,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return keys.map(({ user, ...key }) => ({ ...this.formatKey(key), createdBy: user }));
+  }
+
+  static async revokeKey(userId: string, keyId: string, organizationId?: string) {
+    try {
+      if (organizationId) {
+        await OrganizationsService.assertManager(organizationId, userId);
+      }
+
+      const apiKey = await prisma.apiKey.findFirst({
+        where: organizationId ? { id: keyId, organizationId } : { id: keyId, userId, organizationId: null },
+        select: { id: true, prefix: true, revokedAt: true },
+      });
+
+      if (!apiKey) {
+        throw new Error('Clé d\'API non trouvée');
+      }
+      if (apiKey.revokedAt) {
+        throw new Error('Cette clé d\'API est déjà révoquée');
+      }
+
+      await prisma.apiKey.update({
+        where: { id: keyId },
+        data: { revokedAt: new Date() },
+      });
+
+      logger.info(`🔑 API key ${apiKey.prefix} revoked by user ${userId}`);
+      return { id: apiKey.id, prefix: apiKey.prefix };
+
+    } catch (error) {
+      logger.error('❌ Revoke API key error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Vérifie une clé présentée dans l'en-tête Authorization.
+   * Retourne null si la clé est inconnue, révoquée ou expirée.
+   */
+  static async authenticate(key: string, context: ApiKeyContext = {}) {
+    try {
+      const apiKey = await prisma.apiKey.findUnique({
+        where: { keyHash: this.hashKey(key) },
+        include: {
+          user: { select: { id: true, email: true, profileType: true, verified: true } },
+        },
+      });
+
+      if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt <= new Date())) {
+        return null;
+      }
+
+      if (!(await ModerationService.isAccessAllowed(apiKey.userId))) {
+        return null;
+      }
+
+      // Une clé d'organisation cesse de fonctionner dès que son créateur n'administre plus l'organisation
+      if (apiKey.organizationId && !(await OrganizationsService.canManage(apiKey.organizationId, apiKey.userId))) {
+        return null;
+      }
+
+      if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_REFRESH_MS) {
+        await prisma.apiKey.update({
+          where: { id: apiKey.id },
+          data: { lastUsedAt: new Date(), lastUsedIp: context.ipAddress },
+        });
+      }
+
+      return {
+        id: apiKey.id,
+        prefix: apiKey.prefix,
+        organizationId: apiKey.organizationId,
+        scopes: this.parseScopes(apiKey.scopes),
+        rateLimitPerHour: apiKey.rateLimitPerHour,
+        user: apiKey.user,
+      };
+
+    } catch (error) {
+      logger.error('❌ API key authentication error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Scope nécessaire pour une requête, ou null si la route n'est pas ouverte aux clés d'API
+   */
+  static requiredScope(method: string, path: string): string | null {
+    const pathname = path.split('?')[0];
+    const verb = method.toUpperCase();
+
+    const route = compiledApiKeyRoutes.find(candidate => candidate.method === verb && candidate.pattern.test(pathname));
+    return route ? route.scope : null;
+  }
+
+  /**
+   * Quota horaire propre à chaque clé (fenêtre fixe)
+   */
+  static async consumeRateLimit(keyId: string, limit: number): Promise<ApiKeyRateLimitResult> {
+    const window = Math.floor(Date.now() / 1000 / RATE_LIMIT_WINDOW_SECONDS);
+    const counterKey = `ratelimit:apikey:${keyId}:${window}`;
+
+    let count = await redisManager.incrementRateLimit(counterKey, RATE_LIMIT_WINDOW_SECONDS);
+    if (count === 0) {
+      count = this.incrementLocalCounter(counterKey, window);
+    }
+
+    const retryAfterSeconds = (window + 1) * RATE_LIMIT_WINDOW_SECONDS - Math.floor(Date.now() / 1000);
+
+    return {
+      allowed: count <= limit,
+      limit,
+      remaining: Math.max(0, limit - count),
+      retryAfterSeconds,
+      firstRejection: count === limit + 1,
+    };
+  }
+
+  private static incrementLocalCounter(counterKey: string, window: number): number {
+    // Purger les fenêtres écoulées
+    for (const key of localRateLimitCounters.keys()) {
+      if (!key.endsWith(`:${window}`)) {
+        localRateLimitCounters.delete(key);
+      }
+    }
+
+    const count = (localRateLimitCounters.get(counterKey) || 0) + 1;
+    localRateLimitCounters.set(counterKey, count);
+    return count;
+  }
+
+  private static formatKey<T extends { scopes: string; expiresAt: Date | null; revokedAt: Date | null }>(apiKey: T) {
+    const now = new Date();
+    return {
+      ...apiKey,
+      scopes: this.parseScopes(apiKey.scopes),
+      active: !apiKey.revokedAt && (!apiKey.expiresAt || apiKey.expiresAt > now),
+    };
+  }
+
+  private static parseScopes(scopes: string): string[] {
+    try {
+      return JSON.parse(scopes);
+    } catch {
+      return [];
+    }
+  }
+
+  private static hashKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+}
@@ -15,6 +15,19 @@ export interface AuditLogEntry {
   error?: string;
 }
 
+export interface AuditLogFilters {
+  userId?: string;
+  action?: string;
+  resource?: string;
+  resourceId?: string;
+  startDate?: Date;
+  endDate?: Date;
+  ip?: string;
+  success?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
 export enum AuditActions {
   // Authentification
   LOGIN = 'LOGIN',
@@ -22,11 +35,26 @@ export enum AuditActions {
   REGISTER = 'REGISTER',
   PASSWORD_CHANGE = 'PASSWORD_CHANGE',
   PASSWORD_RESET = 'PASSWORD_RESET',
+  EMAIL_VERIFY = 'EMAIL_VERIFY',
+  SESSION_REVOKE = 'SESSION_REVOKE',
+  TWO_FACTOR_ENABLE = 'TWO_FACTOR_ENABLE',
+  TWO_FACTOR_DISABLE = 'TWO_FACTOR_DISABLE',
   
   // Utilisateurs
   USER_CREATE = 'USER_CREATE',
   USER_UPDATE = 'USER_UPDATE',
   USER_DELETE = 'USER_DELETE',
+  EXPERTISE_ENDORSE = 'EXPERTISE_ENDORSE',
+  EXPERTISE_ENDORSEMENT_WITHDRAW = 'EXPERTISE_ENDORSEMENT_WITHDRAW',
+  EXPERTISE_VERIFICATION_REQUEST = 'EXPERTISE_VERIFICATION_REQUEST',
+  EXPERTISE_VERIFICATION_REVIEW = 'EXPERTISE_VERIFICATION_REVIEW',
+  INVITATION_CREATE = 'INVITATION_CREATE',
+  INVITATION_REVOKE = 'INVITATION_REVOKE',
+  ORGANIZATION_CREATE = 'ORGANIZATION_CREATE',
+  ORGANIZATION_UPDATE = 'ORGANIZATION_UPDATE',
+  ORGANIZATION_DELETE = 'ORGANIZATION_DELETE',
+  ORGANIZATION_MEMBER_UPDATE = 'ORGANIZATION_MEMBER_UPDATE',
+  PRIVACY_SETTINGS_UPDATE = 'PRIVACY_SETTINGS_UPDATE',
   PROFILE_VIEW = 'PROFILE_VIEW',
   
   // Opportunités
@@ -59,22 +87,63 @@ export enum AuditActions {
   CONNECTION_REQUEST = 'CONNECTION_REQUEST',
   CONNECTION_ACCEPT = 'CONNECTION_ACCEPT',
   CONNECTION_REJECT = 'CONNECTION_REJECT',
+  CONNECTION_WITHDRAW = 'CONNECTION_WITHDRAW',
+  CONNECTION_REMOVE = 'CONNECTION_REMOVE',
+  CONNECTION_BLOCK = 'CONNECTION_BLOCK',
+  CONNECTION_UNBLOCK = 'CONNECTION_UNBLOCK',
+  
+  // Avis
+  REVIEW_CREATE = 'REVIEW_CREATE',
+  REVIEW_REPLY = 'REVIEW_REPLY',
+  REVIEW_REPORT = 'REVIEW_REPORT',
+  REVIEW_MODERATE = 'REVIEW_MODERATE',
   
   // Uploads
   FILE_UPLOAD = 'FILE_UPLOAD',
   FILE_DELETE = 'FILE_DELETE',
   
+  // Données personnelles (RGPD)
+  DATA_EXPORT_REQUEST = 'DATA_EXPORT_REQUEST',
+  DATA_EXPORT_DOWNLOAD = 'DATA_EXPORT_DOWNLOAD',
+  ACCOUNT_DELETION_REQUEST = 'ACCOUNT_DELETION_REQUEST',
+  ACCOUNT_DELETION_CANCEL = 'ACCOUNT_DELETION_CANCEL',
+  ACCOUNT_ERASED = 'ACCOUNT_ERASED',
+  
   // Administration
   ADMIN_ACTION = 'ADMIN_ACTION',
+  USER_SUSPEND = 'USER_SUSPEND',
+  USER_REACTIVATE = 'USER_REACTIVATE',
   USER_BAN = 'USER_BAN',
   USER_UNBAN = 'USER_UNBAN',
+  ROLE_GRANT = 'ROLE_GRANT',
+  ROLE_REVOKE = 'ROLE_REVOKE',
+  IMPERSONATION_START = 'IMPERSONATION_START',
+  IMPERSONATION_END = 'IMPERSONATION_END',
+  IMPERSONATION_REQUEST = 'IMPERSONATION_REQUEST',
+  LOCATIONS_MIGRATE = 'LOCATIONS_MIGRATE',
   
   // Sécurité
   SECURITY_VIOLATION = 'SECURITY_VIOLATION',
   SUSPICIOUS_ACTIVITY = 'SUSPICIOUS_ACTIVITY',
   RATE_LIMIT_EXCEEDED = 'RATE_LIMIT_EXCEEDED',
+  ACCOUNT_LOCKED = 'ACCOUNT_LOCKED',
+  ACCOUNT_UNLOCKED = 'ACCOUNT_UNLOCKED',
+  API_KEY_CREATE = 'API_KEY_CREATE',
+  API_KEY_REVOKE = 'API_KEY_REVOKE',
+  API_KEY_USE = 'API_KEY_USE',
+
+  // Requêtes HTTP (middleware d'audit global)
+  API_REQUEST = 'API_REQUEST',
 }
 
+// Actions comptabilisées comme actions d'administration
+const ADMIN_AUDIT_ACTIONS: string[] = [
+  AuditActions.ADMIN_ACTION,
+  AuditActions.USER_BAN,
+  AuditActions.USER_UNBAN,
+  AuditActions.IMPERSONATION_START,
+];
+
 export class AuditService {
   
   static async log(entry: AuditLogEntry): Promise<void> {
@@ -86,11 +155,19 @@ export class AuditService {
       });
 
       // Sauvegarder en base de données pour l'audit persistant
-      // Note: Il faudrait créer un modèle AuditLog dans Prisma pour cela
-      // Pour l'instant, on utilise seulement les logs Winston
-      
-      // En production, on pourrait aussi envoyer vers un service externe
-      // comme Elasticsearch, Splunk, ou un SIEM
+      await prisma.auditLog.create({
+        data: {
+          userId: entry.userId,
+          action: entry.action,
+          resource: entry.resource,
+          resourceId: entry.resourceId,
+          details: entry.details !== undefined ? JSON.stringify(entry.details) : null,
+          ipAddress: entry.ip,
+          userAgent: entry.userAgent,
+          success: entry.success,
+          error: entry.error,
+        },
+      });
 
     } catch (error) {
       // Ne pas faire échouer la requête principale à cause des logs
@@ -201,27 +278,63 @@ export class AuditService {
   }
 
   // Recherche dans les logs d'audit (pour l'administration)
-  static async searchAuditLogs(filters: {
-    userId?: string;
-    action?: string;
-    resource?: string;
-    startDate?: Date;
-    endDate?: Date;
-    ip?: string;
-    success?: boolean;
-    limit?: number;
-    offset?: number;
-  }) {
+  static async searchAuditLogs(filters: AuditLogFilters) {
     try {
-      // Cette fonction nécessiterait un modèle AuditLog en base
-      // Pour l'instant, retourner un placeholder
-      
       logger.info('Audit log search requested:', filters);
-      
+
+      const where: any = {};
+
+      if (filters.userId) {
+        where.userId = filters.userId;
+      }
+
+      if (filters.action) {
+        where.action = filters.action;
+      }
+
+      if (filters.resource) {
+        where.resource = filters.resource.toUpperCase();
+      }
+
+      if (filters.resourceId) {
+        where.resourceId = filters.resourceId;
+      }
+
+      if (filters.ip) {
+        where.ipAddress = filters.ip;
+      }
+
+      if (filters.success !== undefined) {
+        where.success = filters.success;
+      }
+
+      if (filters.startDate || filters.endDate) {
+        where.createdAt = {};
+        if (filters.startDate) where.createdAt.gte = filters.startDate;
+        if (filters.endDate) where.createdAt.lte = filters.endDate;
+      }
+
+      const limit = Math.min(filters.limit || 50, 500);
+      const offset = filters.offset || 0;
+
+      const [logs, total] = await Promise.all([
+        prisma.auditLog.findMany({
+          where,
+          orderBy: { createdAt: 'desc' },
+          skip: offset,
+          take: limit,
+        }),
+        prisma.auditLog.count({ where }),
+      ]);
+
       return {
-        logs: [],
-        total: 0,
-        message: 'Audit log search not yet implemented - using Winston logs',
+        logs: logs.map(log => ({
+          ...log,
+          details: log.details ? JSON.parse(log.details) : null,
+        })),
+        total,
+        limit,
+        offset,
       };
 
     } catch (error) {
@@ -248,19 +361,58 @@ export class AuditService {
           break;
       }
 
-      // Cette fonction nécessiterait un modèle AuditLog en base
-      // Pour l'instant, retourner des statistiques simulées
-      
+      const inPeriod = { createdAt: { gte: startDate, lte: now } };
+
+      const [
+        totalEvents,
+        loginAttempts,
+        failedLogins,
+        securityEvents,
+        adminActions,
+        topActions,
+      ] = await Promise.all([
+        prisma.auditLog.count({ where: inPeriod }),
+        prisma.auditLog.count({
+          where: { ...inPeriod, action: AuditActions.LOGIN },
+        }),
+        prisma.auditLog.count({
+          where: { ...inPeriod, action: AuditActions.LOGIN, success: false },
+        }),
+        prisma.auditLog.count({
+          where: { ...inPeriod, resource: 'SECURITY' },
+        }),
+        prisma.auditLog.count({
+          where: {
+            ...inPeriod,
+            OR: [
+              { action: { in: ADMIN_AUDIT_ACTIONS } },
+              { details: { contains: '"adminAction":true' } },
+            ],
+          },
+        }),
+        prisma.auditLog.groupBy({
+          by: ['action'],
+          where: inPeriod,
+          _count: { _all: true },
+          orderBy: { _count: { action: 'desc' } },
+          take: 10,
+        }),
+      ]);
+
       return {
-        totalEvents: 0,
-        loginAttempts: 0,
-        failedLogins: 0,
-        securityEvents: 0,
-        adminActions: 0,
+        totalEvents,
+        loginAttempts,
+        successfulLogins: loginAttempts - failedLogins,
+        failedLogins,
+        securityEvents,
+        adminActions,
+        topActions: topActions.map(item => ({
+          action: item.action,
+          count: item._count._all,
+        })),
         period,
         startDate: startDate.toISOString(),
         endDate: now.toISOString(),
-        message: 'Audit stats not yet implemented - using Winston logs',
       };
 
     } catch (error) {
@@ -272,21 +424,74 @@ export class AuditService {
   // Détecter les activités suspectes
   static async detectSuspiciousActivity(userId: string, ip?: string) {
     try {
-      // Cette fonction analyserait les patterns suspects
-      // comme plusieurs tentatives de connexion, accès depuis des IPs différentes, etc.
-      
-      const suspiciousPatterns = [];
+      logger.info('Suspicious activity check requested:', { userId, ip });
 
-      // Exemple de détection : trop de tentatives de connexion
-      // En production, on analyserait les vrais logs
+      const now = Date.now();
+      const oneHourAgo = new Date(now - 60 * 60 * 1000);
+      const oneDayAgo = new Date(now - 24 * 60 * 60 * 1000);
 
-      logger.info('Suspicious activity check requested:', { userId, ip });
+      const suspiciousPatterns: string[] = [];
+      const recommendations: string[] = [];
+      let riskScore = 0;
+
+      // Les échecs de connexion sont comptés dans l'historique des tentatives (login_attempts) :
+      // l'audit ne connaît pas l'utilisateur d'une tentative échouée
+      const [failedLoginsForUser, failedLoginsFromIp, recentLogins, securityEvents] = await Promise.all([
+        prisma.loginAttempt.count({
+          where: { userId, success: false, createdAt: { gte: oneHourAgo } },
+        }),
+        ip ? prisma.loginAttempt.count({
+          where: { ipAddress: ip, success: false, createdAt: { gte: oneHourAgo } },
+        }) : Promise.resolve(0),
+        prisma.loginAttempt.findMany({
+          where: { userId, success: true, createdAt: { gte: oneDayAgo } },
+          select: { ipAddress: true, country: true },
+        }),
+        prisma.auditLog.count({
+          where: { userId, resource: 'SECURITY', createdAt: { gte: oneDayAgo } },
+        }),
+      ]);
+
+      // Trop de tentatives de connexion échouées
+      if (failedLoginsForUser >= 5) {
+        suspiciousPatterns.push(`${failedLoginsForUser} échecs de connexion sur le compte en 1h`);
+        recommendations.push('Verrouiller temporairement le compte');
+        riskScore += 40;
+      }
+
+      if (failedLoginsFromIp >= 10) {
+        suspiciousPatterns.push(`${failedLoginsFromIp} échecs de connexion depuis ${ip} en 1h`);
+        recommendations.push('Bloquer l\'adresse IP');
+        riskScore += 30;
+      }
+
+      // Connexions depuis de nombreuses IPs différentes
+      const distinctIps = new Set(recentLogins.map(login => login.ipAddress).filter(Boolean));
+      if (distinctIps.size >= 4) {
+        suspiciousPatterns.push(`Connexions depuis ${distinctIps.size} adresses IP différentes en 24h`);
+        recommendations.push('Demander à l\'utilisateur de vérifier ses sessions');
+        riskScore += 20;
+      }
+
+      const distinctCountries = new Set(recentLogins.map(login => login.country).filter(Boolean));
+      if (distinctCountries.size >= 2) {
+        suspiciousPatterns.push(`Connexions depuis ${distinctCountries.size} pays différents en 24h`);
+        recommendations.push('Révoquer les sessions et forcer un changement de mot de passe');
+        riskScore += 30;
+      }
+
+      if (securityEvents > 0) {
+        suspiciousPatterns.push(`${securityEvents} événement(s) de sécurité en 24h`);
+        riskScore += Math.min(securityEvents * 10, 30);
+      }
+
+      riskScore = Math.min(riskScore, 100);
 
       return {
-        suspicious: false,
+        suspicious: riskScore >= 50,
         patterns: suspiciousPatterns,
-        riskScore: 0,
-        recommendations: [],
+        riskScore,
+        recommendations,
       };
 
     } catch (error) {
@@ -296,6 +501,28 @@ export class AuditService {
   }
 }
 
+// Champs à ne jamais persister dans la piste d'audit, à toute profondeur (comparaison insensible à la casse)
+const SENSITIVE_FIELDS = new Set([
+  'password', 'currentpassword', 'newpassword',
+  'token', 'refreshtoken', 'resettoken', 'challengetoken',
+  'code', 'recoverycode', 'invitationcode',
+]);
+
+export const redactSensitiveFields = (body: any): any => {
+  if (Array.isArray(body)) {
+    return body.map(item => redactSensitiveFields(item));
+  }
+  if (!body || typeof body !== 'object' || body instanceof Date) {
+    return body;
+  }
+
+  const redacted: Record<string, unknown> = {};
+  for (const key of Object.keys(body)) {
+    redacted[key] = SENSITIVE_FIELDS.has(key.toLowerCase()) ? '[REDACTED]' : redactSensitiveFields(body[key]);
+  }
+  return redacted;
+};
+
 // Middleware pour l'audit automatique
 export const auditMiddleware = (action: AuditActions, resource: string) => {
   return async (req: any, res: any, next: any) => {
@@ -315,13 +542,14 @@ export const auditMiddleware = (action: AuditActions, resource: string) => {
         userId: user?.id,
         action,
         resource,
-        resourceId: req.params.id || req.params.userId || req.params.opportunityId,
+        resourceId: req.params.id || req.params.userId || req.params.opportunityId ||
+          req.params.eventId || req.params.resourceId || req.params.messageId,
         details: {
           method: req.method,
           url: req.originalUrl,
           statusCode: res.statusCode,
           duration,
-          body: req.method !== 'GET' ? req.body : undefined,
+          body: req.method !== 'GET' ? redactSensitiveFields(req.body) : undefined,
         },
         success,
         ip,
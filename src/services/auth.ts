@@ -1,7 +1,17 @@
-import { PrismaClient, User } from '@prisma/client';
+import { PrismaClient, User, UserExpertise } from '@prisma/client';
 import { JWTService } from '../utils/jwt';
 import { PasswordService } from '../utils/password';
 import redisManager from '../config/redis';
+import { SessionService, SessionContext, SessionRevokeReason } from './sessions';
+import { ModerationService } from './moderation';
+import { LoginProtectionService, LoginFailureReason } from './login-protection';
+import { TwoFactorService, TwoFactorChallenge } from './two-factor';
+import { EmailVerificationService } from './email-verification';
+import { EmailService } from './email';
+import { InvitationService } from './invitations';
+import { ProfileCompletionService } from './profile-completion';
+import { SearchService } from './search';
+import { LocationsService } from './locations';
 import { logger } from '../config/logger';
 import {
   UserCreateData,
@@ -13,13 +23,14 @@ import {
   UnauthorizedError,
   ValidationError,
   NotFoundError,
+  TooManyRequestsError,
 } from '../types';
 
 const prisma = new PrismaClient();
 
 export class AuthService {
   
-  static async register(userData: RegisterData): Promise<AuthResponse> {
+  static async register(userData: RegisterData, context: SessionContext = {}): Promise<AuthResponse> {
     try {
       logger.info(`📝 Starting registration for: ${userData.email}`);
 
@@ -39,25 +50,55 @@ export class AuthService {
         throw new ValidationError(passwordValidation.errors.join(', '));
       }
 
+      // Code d'invitation : obligatoire en mode "invitation", il peut imposer le type de profil
+      const invitation = await InvitationService.resolveForRegistration(userData.invitationCode, userData.email);
+
       // Hasher le mot de passe
       const hashedPassword = await PasswordService.hash(userData.password);
 
-      // Créer l'utilisateur
-      const newUser = await prisma.user.create({
-        data: {
-          name: userData.name.trim(),
-          email: userData.email.toLowerCase().trim(),
-          password: hashedPassword,
-          profileType: userData.profileType,
-          company: userData.company?.trim(),
-          location: userData.location?.trim(),
-          verified: false,
-          completionScore: 25, // Score initial basé sur les informations fournies
-        },
+      // Créer l'utilisateur (et consommer l'invitation dans la même transaction)
+      const profileType = invitation?.profileType ?? userData.profileType;
+      const company = userData.company?.trim();
+      const location = userData.location?.trim();
+
+      const newUser = await prisma.$transaction(async (tx) => {
+        if (invitation) {
+          await InvitationService.consume(tx, invitation);
+        }
+
+        return tx.user.create({
+          data: {
+            name: userData.name.trim(),
+            email: userData.email.toLowerCase().trim(),
+            password: hashedPassword,
+            profileType,
+            company,
+            location,
+            ...LocationsService.toFields(location),
+            verified: false,
+            // Score initial basé sur les informations fournies
+            completionScore: ProfileCompletionService.evaluate({ profileType, company, location }).score,
+            invitationId: invitation?.id,
+            invitedById: invitation?.createdById,
+          },
+        });
       });
 
       logger.info(`✅ User registered successfully: ${newUser.email}`);
 
+      await SearchService.reindexUsers(newUser.id);
+
+      if (invitation) {
+        await InvitationService.onRegistered(invitation, newUser);
+      }
+
+      // Envoyer le lien de vérification ; un échec d'envoi ne bloque pas l'inscription (renvoi possible)
+      try {
+        await EmailVerificationService.sendVerificationEmail(newUser.id);
+      } catch (mailError) {
+        logger.error('❌ Failed to send verification email:', mailError);
+      }
+
       // Générer les tokens JWT
       const jwtPayload: JWTPayload = {
         userId: newUser.id,
@@ -66,10 +107,10 @@ export class AuthService {
         verified: newUser.verified,
       };
 
-      const authResponse = JWTService.generateAuthResponse(jwtPayload);
-
-      // Stocker le refresh token dans Redis
-      await this.storeRefreshToken(newUser.id, authResponse.tokens.refreshToken);
+      // Ouvrir une session pour cet appareil (le refresh token est lié à la session)
+      const tokens = await SessionService.startSession(newUser.id, context, (sessionId) =>
+        JWTService.generateAuthResponse({ ...jwtPayload, sessionId }).tokens
+      );
 
       // Créer la réponse complète
       return {
@@ -95,7 +136,7 @@ export class AuthService {
           updatedAt: newUser.updatedAt,
           lastLogin: newUser.lastLogin,
         },
-        tokens: authResponse.tokens,
+        tokens,
       };
     } catch (error) {
       logger.error('❌ Registration error:', error);
@@ -103,10 +144,13 @@ export class AuthService {
     }
   }
 
-  static async login(credentials: LoginCredentials): Promise<AuthResponse> {
+  static async login(credentials: LoginCredentials, context: SessionContext = {}): Promise<AuthResponse | TwoFactorChallenge> {
     try {
       logger.info(`🔐 Login attempt for: ${credentials.email}`);
 
+      // Compte verrouillé, IP bloquée ou délai progressif en cours
+      await LoginProtectionService.assertLoginAllowed(credentials.email, context.ipAddress);
+
       // Rechercher l'utilisateur
       const user = await prisma.user.findUnique({
         where: { email: credentials.email.toLowerCase() },
@@ -117,6 +161,7 @@ export class AuthService {
 
       if (!user) {
         logger.warn(`⚠️  Login attempt with non-existent email: ${credentials.email}`);
+        await LoginProtectionService.recordFailure(credentials.email, context, null, LoginFailureReason.UNKNOWN_EMAIL);
         throw new UnauthorizedError('Identifiants invalides');
       }
 
@@ -124,109 +169,87 @@ export class AuthService {
       const isPasswordValid = await PasswordService.verify(credentials.password, user.password);
       if (!isPasswordValid) {
         logger.warn(`⚠️  Invalid password for user: ${credentials.email}`);
+        await LoginProtectionService.recordFailure(credentials.email, context, user, LoginFailureReason.INVALID_PASSWORD);
         throw new UnauthorizedError('Identifiants invalides');
       }
 
-      // Mettre à jour la dernière connexion
-      await prisma.user.update({
-        where: { id: user.id },
-        data: { lastLogin: new Date() },
-      });
-
-      logger.info(`✅ User logged in successfully: ${user.email}`);
+      // Compte suspendu ou banni par la modération
+      await ModerationService.assertAccountActive(user);
 
-      // Générer les tokens JWT
-      const jwtPayload: JWTPayload = {
-        userId: user.id,
-        email: user.email,
-        profileType: user.profileType,
-        verified: user.verified,
-      };
-
-      const authResponse = JWTService.generateAuthResponse(jwtPayload);
-
-      // Stocker le refresh token dans Redis
-      await this.storeRefreshToken(user.id, authResponse.tokens.refreshToken);
+      // Double authentification : la session n'est ouverte qu'après vérification du second facteur
+      const challenge = await TwoFactorService.getLoginChallenge(user.id, user.profileType);
+      if (challenge) {
+        logger.info(`🔐 2FA challenge issued for: ${user.email}`);
+        return challenge;
+      }
 
-      return {
-        user: {
-          id: user.id,
-          email: user.email,
-          name: user.name,
-          profileType: user.profileType,
-          status: user.status,
-          company: user.company,
-          location: user.location,
-          avatar: user.avatar,
-          description: user.description,
-          website: user.website,
-          linkedin: user.linkedin,
-          phone: user.phone,
-          verified: user.verified,
-          completionScore: user.completionScore,
-          rating: user.rating,
-          reviewCount: user.reviewCount,
-          expertises: user.expertises.map(exp => ({
-            id: exp.id,
-            name: exp.name,
-            level: exp.level,
-            verified: exp.verified,
-          })),
-          createdAt: user.createdAt,
-          updatedAt: user.updatedAt,
-          lastLogin: user.lastLogin,
-        },
-        tokens: authResponse.tokens,
-      };
+      return await this.completeLogin(user, context);
     } catch (error) {
       logger.error('❌ Login error:', error);
       throw error;
     }
   }
 
-  static async refreshTokens(refreshToken: string): Promise<{ tokens: any }> {
+  static async verifyTwoFactorLogin(challengeToken: string, code: string, context: SessionContext = {}): Promise<AuthResponse> {
     try {
-      logger.debug('🔄 Token refresh attempt');
-
-      // Vérifier le refresh token
-      const decoded = JWTService.verifyRefreshToken(refreshToken);
-      if (!decoded) {
-        throw new UnauthorizedError('Refresh token invalide');
-      }
-
-      // Vérifier que le token existe dans Redis
-      const storedToken = await redisManager.get(`refresh_token:${decoded.userId}`);
-      if (!storedToken || storedToken !== refreshToken) {
-        logger.warn(`⚠️  Invalid refresh token for user: ${decoded.userId}`);
-        throw new UnauthorizedError('Refresh token invalide ou expiré');
+      let userId: string;
+      try {
+        userId = await LoginProtectionService.verifyTwoFactorChallenge(challengeToken, code, context);
+      } catch (challengeError: any) {
+        if (challengeError instanceof TooManyRequestsError) {
+          throw challengeError;
+        }
+        throw new UnauthorizedError(challengeError.message);
       }
 
-      // Récupérer l'utilisateur
       const user = await prisma.user.findUnique({
-        where: { id: decoded.userId },
+        where: { id: userId },
+        include: {
+          expertises: true,
+        },
       });
 
       if (!user) {
         throw new NotFoundError('Utilisateur non trouvé');
       }
 
-      // Générer de nouveaux tokens
-      const jwtPayload: JWTPayload = {
-        userId: user.id,
-        email: user.email,
-        profileType: user.profileType,
-        verified: user.verified,
-      };
+      return await this.completeLogin(user, context);
+    } catch (error) {
+      logger.error('❌ 2FA login error:', error);
+      throw error;
+    }
+  }
+
+  static async refreshTokens(refreshToken: string, context: SessionContext = {}): Promise<{ tokens: any }> {
+    try {
+      logger.debug('🔄 Token refresh attempt');
 
-      const authResponse = JWTService.generateAuthResponse(jwtPayload);
+      // Vérifier le refresh token
+      const decoded = JWTService.verifyRefreshToken(refreshToken);
+      if (!decoded || !decoded.sessionId) {
+        throw new UnauthorizedError('Refresh token invalide');
+      }
 
-      // Stocker le nouveau refresh token dans Redis
-      await this.storeRefreshToken(user.id, authResponse.tokens.refreshToken);
+      // Rotation : le token présenté doit être le dernier émis pour cette session
+      let tokens;
+      try {
+        tokens = await SessionService.rotateSession(decoded.sessionId, refreshToken, context, (session) =>
+          JWTService.generateAuthResponse({
+            userId: session.user.id,
+            email: session.user.email,
+            profileType: session.user.profileType,
+            verified: session.user.verified,
+            sessionId: session.id,
+          }).tokens
+        );
+      } catch (sessionError: any) {
+        throw new UnauthorizedError(sessionError.message);
+      }
 
-      logger.info(`✅ Tokens refreshed for user: ${user.email}`);
+      logger.info(`✅ Tokens refreshed for user: ${decoded.userId}`);
 
       return {
-        tokens: authResponse.tokens,
+        tokens,
       };
     } catch (error) {
       logger.error('❌ Token refresh error:', error);
@@ -234,12 +257,14 @@ export class AuthService {
     }
   }
 
-  static async logout(userId: string): Promise<void> {
+  static async logout(userId: string, sessionId?: string): Promise<void> {
     try {
       logger.info(`🚪 Logout for user: ${userId}`);
 
-      // Supprimer le refresh token de Redis
-      await redisManager.del(`refresh_token:${userId}`);
+      // Révoquer uniquement la session de cet appareil
+      if (sessionId) {
+        await SessionService.revokeSession(sessionId, userId, SessionRevokeReason.LOGOUT);
+      }
 
       logger.info(`✅ User logged out successfully: ${userId}`);
     } catch (error) {
@@ -282,8 +307,8 @@ export class AuthService {
         data: { password: hashedNewPassword },
       });
 
-      // Invalider tous les refresh tokens existants
-      await redisManager.del(`refresh_token:${userId}`);
+      // Déconnecter tous les appareils
+      await SessionService.revokeAllSessions(userId, SessionRevokeReason.PASSWORD_CHANGED);
 
       logger.info(`✅ Password changed successfully for user: ${userId}`);
     } catch (error) {
@@ -308,7 +333,6 @@ export class AuthService {
 
       // Générer un token de réinitialisation
       const resetToken = PasswordService.generateTempPassword(32);
-      const resetTokenExpiry = new Date(Date.now() + 1000 * 60 * 60); // 1 heure
 
       // Stocker le token dans Redis
       await redisManager.setex(
@@ -317,9 +341,8 @@ export class AuthService {
         resetToken
       );
 
-      // TODO: Envoyer l'email de réinitialisation
-      logger.info(`📧 Password reset token generated for user: ${user.email}`);
-      logger.debug(`Reset token: ${resetToken}`); // À supprimer en production
+      await EmailService.sendPasswordReset(user.id, resetToken, 60);
+      logger.info(`📧 Password reset email queued for user: ${user.email}`);
 
     } catch (error) {
       logger.error('❌ Password reset request error:', error);
@@ -355,8 +378,8 @@ export class AuthService {
       // Supprimer le token de réinitialisation
       await redisManager.del(`password_reset:${userId}`);
 
-      // Invalider tous les refresh tokens existants
-      await redisManager.del(`refresh_token:${userId}`);
+      // Déconnecter tous les appareils
+      await SessionService.revokeAllSessions(userId, SessionRevokeReason.PASSWORD_CHANGED);
 
       logger.info(`✅ Password reset successfully for user: ${userId}`);
     } catch (error) {
@@ -365,17 +388,63 @@ export class AuthService {
     }
   }
 
-  private static async storeRefreshToken(userId: string, refreshToken: string): Promise<void> {
-    try {
-      // Stocker le refresh token avec expiration (30 jours)
-      await redisManager.setex(
-        `refresh_token:${userId}`,
-        30 * 24 * 60 * 60, // 30 jours en secondes
-        refreshToken
-      );
-    } catch (error) {
-      logger.error('❌ Error storing refresh token:', error);
-      throw error;
-    }
+  private static async completeLogin(
+    user: User & { expertises: UserExpertise[] },
+    context: SessionContext
+  ): Promise<AuthResponse> {
+    // Mettre à jour la dernière connexion
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { lastLogin: new Date() },
+    });
+
+    logger.info(`✅ User logged in successfully: ${user.email}`);
+
+    // Historique de connexion : réinitialise les échecs et détecte les nouvelles IP/pays
+    await LoginProtectionService.recordSuccess(user, context);
+
+    // Générer les tokens JWT
+    const jwtPayload: JWTPayload = {
+      userId: user.id,
+      email: user.email,
+      profileType: user.profileType,
+      verified: user.verified,
+    };
+
+    // Ouvrir une session pour cet appareil (le refresh token est lié à la session)
+    const tokens = await SessionService.startSession(user.id, context, (sessionId) =>
+      JWTService.generateAuthResponse({ ...jwtPayload, sessionId }).tokens
+    );
+
+    return {
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        profileType: user.profileType,
+        status: user.status,
+        company: user.company,
+        location: user.location,
+        avatar: user.avatar,
+        description: user.description,
+        website: user.website,
+        linkedin: user.linkedin,
+        phone: user.phone,
+        verified: user.verified,
+        completionScore: user.completionScore,
+        rating: user.rating,
+        reviewCount: user.reviewCount,
+        expertises: user.expertises.map(exp => ({
+          id: exp.id,
+          name: exp.name,
+          level: exp.level,
+          verified: exp.verified,
+        })),
+        createdAt: user.createdAt,
+        updatedAt: user.updatedAt,
+        lastLogin: user.lastLogin,
+      },
+      tokens,
+    };
   }
-}
\ No newline at end of file
+}
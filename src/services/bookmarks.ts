@@ -0,0 +1,471 @@
+import { PrismaClient, BookmarkTarget, OpportunityStatus, EventStatus } from '@prisma/client';
+import { NotificationsService } from './notifications';
+import { PrivacyService } from './privacy';
+import { RESTRICTED_USER_STATUSES } from './moderation';
+import { logger } from '../config/logger';
+
+const prisma = new PrismaClient();
+
+export const MAX_BOOKMARK_COLLECTIONS_PER_USER = 50;
+
+// Rappels : date limite d'une opportunité, début d'un événement
+const OPPORTUNITY_DEADLINE_LEAD_MS = 48 * 60 * 60 * 1000;
+const EVENT_START_LEAD_MS = 24 * 60 * 60 * 1000;
+const REMINDERS_INTERVAL_MS = 15 * 60 * 1000;
+
+// Message d'erreur renvoyé quand l'élément ciblé n'existe pas (ou plus)
+const TARGET_NOT_FOUND: Record<BookmarkTarget, string> = {
+  OPPORTUNITY: 'Opportunité non trouvée',
+  EVENT: 'Événement non trouvé',
+  RESOURCE: 'Ressource non trouvée',
+  USER: 'Utilisateur non trouvé',
+};
+
+const opportunitySummarySelect = {
+  id: true,
+  title: true,
+  type: true,
+  status: true,
+  location: true,
+  remote: true,
+  deadline: true,
+};
+
+const eventSummarySelect = {
+  id: true,
+  title: true,
+  type: true,
+  status: true,
+  location: true,
+  isOnline: true,
+  startDate: true,
+  endDate: true,
+};
+
+const resourceSummarySelect = {
+  id: true,
+  title: true,
+  type: true,
+  author: true,
+  thumbnail: true,
+  isPremium: true,
+};
+
+const memberSummarySelect = {
+  id: true,
+  name: true,
+  avatar: true,
+  profileType: true,
+  company: true,
+  location: true,
+};
+
+const visibleMemberWhere = {
+  deletedAt: null,
+  status: { notIn: RESTRICTED_USER_STATUSES },
+};
+
+export interface AddBookmarkData {
+  targetType: BookmarkTarget;
+  targetId: string;
+  collectionId?: string | null;
+}
+
+export interface BookmarkFilters {
+  targetType?: BookmarkTarget;
+  collectionId?: string; // 'none' : favoris non classés
+  page: number;
+  limit: number;
+}
+
+export interface BookmarkCollectionData {
+  name: string;
+  description?: string | null;
+}
+
+export class BookmarksService {
+  private static remindersTimer: NodeJS.Timeout | null = null;
+
+  // ==================== FAVORIS ====================
+
+  /**
+   * Ajoute un élément aux favoris, ou le déplace s'il y figure déjà
+   */
+  static async addBookmark(userId: string, data: AddBookmarkData) {
+    try {
+      if (data.targetType === BookmarkTarget.USER && data.targetId === userId) {
+        throw new Error('Vous ne pouvez pas ajouter votre propre profil à vos favoris');
+      }
+
+      await this.assertTargetExists(data.targetType, data.targetId);
+      if (data.collectionId) {
+        await this.findCollection(userId, data.collectionId);
+      }
+
+      const bookmark = await prisma.bookmark.upsert({
+        where: {
+          userId_targetType_targetId: { userId, targetType: data.targetType, targetId: data.targetId },
+        },
+        create: {
+          userId,
+          targetType: data.targetType,
+          targetId: data.targetId,
+          collectionId: data.collectionId ?? null,
+        },
+        update: {
+          collectionId: data.collectionId === undefined ? undefined : data.collectionId,
+        },
+        select: { id: true, targetType: true, targetId: true, collectionId: true, createdAt: true },
+      });
+
+      logger.info(`🔖 ${data.targetType} ${data.targetId} bookmarked by ${userId}`);
+      return bookmark;
+
+    } catch (error) {
+      logger.error('❌ Add bookmark error:', error);
+      throw error;
+    }
+  }
+
+  static async removeBookmark(userId: string, targetType: BookmarkTarget, targetId: string) {
+    try {
+      const { count } = await prisma.bookmark.deleteMany({
+        where: { userId, targetType, targetId },
+      });
+
+      if (count === 0) {
+        throw new Error('Favori non trouvé');
+      }
+
+      logger.info(`🔖 ${targetType} ${targetId} removed from bookmarks of ${userId}`);
+      return { success: true };
+
+    } catch (error) {
+      logger.error('❌ Remove bookmark error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Favoris du membre avec un résumé de chaque élément (null si l'élément n'est plus disponible)
+   */
+  static async getBookmarks(userId: string, filters: BookmarkFilters) {
+    try {
+      const where: any = { userId };
+
+      if (filters.targetType) {
+        where.targetType = filters.targetType;
+      }
+
+      if (filters.collectionId === 'none') {
+        where.collectionId = null;
+      } else if (filters.collectionId) {
+        await this.findCollection(userId, filters.collectionId);
+        where.collectionId = filters.collectionId;
+      }
+
+      const [total, bookmarks] = await Promise.all([
+        prisma.bookmark.count({ where }),
+        prisma.bookmark.findMany({
+          where,
+          select: { id: true, targetType: true, targetId: true, collectionId: true, createdAt: true },
+          orderBy: { createdAt: 'desc' },
+          skip: (filters.page - 1) * filters.limit,
+          take: filters.limit,
+        }),
+      ]);
+
+      const idsOf = (type: BookmarkTarget) => bookmarks.filter(b => b.targetType === type).map(b => b.targetId);
+
+      const [opportunities, events, resources, members] = await Promise.all([
+        prisma.opportunity.findMany({ where: { id: { in: idsOf(BookmarkTarget.OPPORTUNITY) } }, select: opportunitySummarySelect }),
+        prisma.event.findMany({ where: { id: { in: idsOf(BookmarkTarget.EVENT) } }, select: eventSummarySelect }),
+        prisma.resource.findMany({ where: { id: { in: idsOf(BookmarkTarget.RESOURCE) } }, select: resourceSummarySelect }),
+        prisma.user.findMany({ where: { id: { in: idsOf(BookmarkTarget.USER) }, ...visibleMemberWhere }, select: memberSummarySelect }),
+      ]);
+
+      const targets = new Map<string, unknown>([
+        ...opportunities.map(o => [`${BookmarkTarget.OPPORTUNITY}:${o.id}`, o] as [string, unknown]),
+        ...events.map(e => [`${BookmarkTarget.EVENT}:${e.id}`, e] as [string, unknown]),
+        ...resources.map(r => [`${BookmarkTarget.RESOURCE}:${r.id}`, r] as [string, unknown]),
+        ...(await PrivacyService.serializeMany(userId, members)).map(m => [`${BookmarkTarget.USER}:${m.id}`, m] as [string, unknown]),
+      ]);
+
+      return {
+        bookmarks: bookmarks.map(bookmark => ({
+          ...bookmark,
+          target: targets.get(`${bookmark.targetType}:${bookmark.targetId}`) ?? null,
+        })),
+        meta: {
+          page: filters.page,
+          limit: filters.limit,
+          total,
+          totalPages: Math.ceil(total / filters.limit),
+          hasNext: filters.page * filters.limit < total,
+          hasPrev: filters.page > 1,
+        },
+      };
+
+    } catch (error) {
+      logger.error('❌ Get bookmarks error:', error);
+      throw error;
+    }
+  }
+
+  static async isBookmarked(userId: string | undefined, targetType: BookmarkTarget, targetId: string): Promise<boolean> {
+    if (!userId) {
+      return false;
+    }
+
+    const bookmark = await prisma.bookmark.findUnique({
+      where: { userId_targetType_targetId: { userId, targetType, targetId } },
+      select: { id: true },
+    });
+
+    return bookmark !== null;
+  }
+
+  /**
+   * Retire un élément supprimé des favoris de tous les membres
+   */
+  static async removeTarget(targetType: BookmarkTarget, targetId: string) {
+    await prisma.bookmark.deleteMany({ where: { targetType, targetId } });
+  }
+
+  // ==================== COLLECTIONS ====================
+
+  static async getCollections(userId: string) {
+    const [collections, unsorted] = await Promise.all([
+      prisma.bookmarkCollection.findMany({
+        where: { userId },
+        select: {
+          id: true,
+          name: true,
+          description: true,
+          createdAt: true,
+          updatedAt: true,
+          _count: { select: { bookmarks: true } },
+        },
+        orderBy: { name: 'asc' },
+      }),
+      prisma.bookmark.count({ where: { userId, collectionId: null } }),
+    ]);
+
+    return { collections, unsorted };
+  }
+
+  static async createCollection(userId: string, data: BookmarkCollectionData) {
+    try {
+      const count = await prisma.bookmarkCollection.count({ where: { userId } });
+      if (count >= MAX_BOOKMARK_COLLECTIONS_PER_USER) {
+        throw new Error(`Nombre maximum de collections atteint (${MAX_BOOKMARK_COLLECTIONS_PER_USER})`);
+      }
+
+      await this.assertCollectionNameAvailable(userId, data.name);
+
+      const collection = await prisma.bookmarkCollection.create({
+        data: { userId, name: data.name, description: data.description ?? null },
+      });
+
+      logger.info(`🗂️ Bookmark collection ${collection.id} created by ${userId}`);
+      return collection;
+
+    } catch (error) {
+      logger.error('❌ Create bookmark collection error:', error);
+      throw error;
+    }
+  }
+
+  static async updateCollection(userId: string, collectionId: string, data: Partial<BookmarkCollectionData>) {
+    try {
+      const existing = await this.findCollection(userId, collectionId);
+
+      if (data.name !== undefined && data.name !== existing.name) {
+        await this.assertCollectionNameAvailable(userId, data.name);
+      }
+
+      const collection = await prisma.bookmarkCollection.update({
+        where: { id: collectionId },
+        data: { name: data.name, description: data.description },
+      });
+
+      logger.info(`🗂️ Bookmark collection ${collectionId} updated by ${userId}`);
+      return collection;
+
+    } catch (error) {
+      logger.error('❌ Update bookmark collection error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Supprime une collection : ses favoris sont conservés et redeviennent non classés
+   */
+  static async deleteCollection(userId: string, collectionId: string) {
+    try {
+      await this.findCollection(userId, collectionId);
+
+      await prisma.$transaction([
+        prisma.bookmark.updateMany({ where: { collectionId }, data: { collectionId: null } }),
+        prisma.bookmarkCollection.delete({ where: { id: collectionId } }),
+      ]);
+
+      logger.info(`🗂️ Bookmark collection ${collectionId} deleted by ${userId}`);
+      return { success: true };
+
+    } catch (error) {
+      logger.error('❌ Delete bookmark collection error:', error);
+      throw error;
+    }
+  }
+
+  // ==================== RAPPELS ====================
+
+  /**
+   * Prévient une fois les membres dont une opportunité en favori arrive à échéance
+   * ou dont un événement en favori va commencer
+   */
+  static async sendReminders(now: Date = new Date()) {
+    try {
+      const [opportunities, events] = await Promise.all([
+        prisma.opportunity.findMany({
+          where: {
+            status: OpportunityStatus.ACTIVE,
+            deadline: { gt: now, lte: new Date(now.getTime() + OPPORTUNITY_DEADLINE_LEAD_MS) },
+          },
+          select: { id: true, title: true, deadline: true },
+        }),
+        prisma.event.findMany({
+          where: {
+            status: EventStatus.UPCOMING,
+            startDate: { gt: now, lte: new Date(now.getTime() + EVENT_START_LEAD_MS) },
+          },
+          select: { id: true, title: true, startDate: true, registrations: { select: { userId: true } } },
+        }),
+      ]);
+
+      let sent = 0;
+
+      if (opportunities.length > 0) {
+        const byId = new Map(opportunities.map(o => [o.id, o]));
+        const bookmarks = await prisma.bookmark.findMany({
+          where: {
+            targetType: BookmarkTarget.OPPORTUNITY,
+            targetId: { in: opportunities.map(o => o.id) },
+            reminderSentAt: null,
+            user: visibleMemberWhere,
+          },
+          select: { id: true, userId: true, targetId: true },
+        });
+
+        for (const bookmark of bookmarks) {
+          const opportunity = byId.get(bookmark.targetId)!;
+          await NotificationsService.createSystemNotification(
+            bookmark.userId,
+            'Date limite proche',
+            `L'opportunité "${opportunity.title}" de vos favoris se clôture le ${opportunity.deadline!.toLocaleDateString('fr-FR')}`,
+            `/opportunities/${opportunity.id}`
+          );
+          await prisma.bookmark.update({ where: { id: bookmark.id }, data: { reminderSentAt: now } });
+          sent++;
+        }
+      }
+
+      if (events.length > 0) {
+        const byId = new Map(events.map(e => [e.id, e]));
+        const bookmarks = await prisma.bookmark.findMany({
+          where: {
+            targetType: BookmarkTarget.EVENT,
+            targetId: { in: events.map(e => e.id) },
+            reminderSentAt: null,
+            user: visibleMemberWhere,
+          },
+          select: { id: true, userId: true, targetId: true },
+        });
+
+        for (const bookmark of bookmarks) {
+          const event = byId.get(bookmark.targetId)!;
+          // Les inscrits reçoivent déjà le rappel de l'événement
+          if (!event.registrations.some(r => r.userId === bookmark.userId)) {
+            await NotificationsService.createEventReminderNotification(bookmark.userId, event.title, event.startDate, event.id);
+            sent++;
+          }
+          await prisma.bookmark.update({ where: { id: bookmark.id }, data: { reminderSentAt: now } });
+        }
+      }
+
+      if (sent > 0) {
+        logger.info(`⏰ ${sent} bookmark reminder(s) sent`);
+      }
+      return { sent };
+
+    } catch (error) {
+      logger.error('❌ Bookmark reminders error:', error);
+      throw error;
+    }
+  }
+
+  static startWorker() {
+    if (this.remindersTimer) {
+      return;
+    }
+
+    const run = () => this.sendReminders().catch(() => undefined);
+
+    this.remindersTimer = setInterval(run, REMINDERS_INTERVAL_MS);
+    this.remindersTimer.unref();
+    run();
+  }
+
+  static stopWorker() {
+    if (this.remindersTimer) clearInterval(this.remindersTimer);
+    this.remindersTimer = null;
+  }
+
+  private static async assertTargetExists(targetType: BookmarkTarget, targetId: string) {
+    const where = { id: targetId };
+    let target: { id: string } | null;
+
+    switch (targetType) {
+      case BookmarkTarget.OPPORTUNITY:
+        target = await prisma.opportunity.findUnique({ where, select: { id: true } });
+        break;
+      case BookmarkTarget.EVENT:
+        target = await prisma.event.findUnique({ where, select: { id: true } });
+        break;
+      case BookmarkTarget.RESOURCE:
+        target = await prisma.resource.findUnique({ where, select: { id: true } });
+        break;
+      case BookmarkTarget.USER:
+        target = await prisma.user.findFirst({ where: { ...where, ...visibleMemberWhere }, select: { id: true } });
+        break;
+    }
+
+    if (!target) {
+      throw new Error(TARGET_NOT_FOUND[targetType]);
+    }
+  }
+
+  private static async findCollection(userId: string, collectionId: string) {
+    const collection = await prisma.bookmarkCollection.findFirst({
+      where: { id: collectionId, userId },
+    });
+
+    if (!collection) {
+      throw new Error('Collection non trouvée');
+    }
+
+    return collection;
+  }
+
+  private static async assertCollectionNameAvailable(userId: string, name: string) {
+    const duplicate = await prisma.bookmarkCollection.findFirst({
+      where: { userId, name },
+      select: { id: true },
+    });
+
+    if (duplicate) {
+      throw new Error('Une collection porte déjà ce nom');
+    }
+  }
+}
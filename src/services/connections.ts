@@ -0,0 +1,636 @@
+import { PrismaClient, ConnectionStatus } from '@prisma/client';
+import { NotificationsService } from './notifications';
+import { PrivacyService } from './privacy';
+import { RESTRICTED_USER_STATUSES } from './moderation';
+import { logger } from '../config/logger';
+
+const prisma = new PrismaClient();
+
+// Délai avant de pouvoir renvoyer une demande refusée
+const REQUEST_COOLDOWN_DAYS = 30;
+
+const connectionUserSelect = {
+  id: true,
+  name: true,
+  profileType: true,
+  avatar: true,
+  company: true,
+  location: true,
+  verified: true,
+};
+
+export interface ConnectionPagination {
+  page: number;
+  limit: number;
+}
+
+export interface ConnectionFilters {
+  search?: string;
+  profileType?: string;
+}
+
+export class ConnectionsService {
+
+  static async sendRequest(requesterId: string, targetId: string, message?: string) {
+    try {
+      logger.info(`🤝 Connection request from ${requesterId} to ${targetId}`);
+
+      if (requesterId === targetId) {
+        throw new Error('Vous ne pouvez pas vous connecter avec vous-même');
+      }
+
+      const [requester, target] = await Promise.all([
+        prisma.user.findUnique({ where: { id: requesterId }, select: { id: true, name: true } }),
+        prisma.user.findUnique({ where: { id: targetId }, select: { id: true, status: true, deletedAt: true } }),
+      ]);
+
+      // Comptes suspendus, bannis ou effacés : aucune demande ni notification
+      if (!requester || !target || target.deletedAt || RESTRICTED_USER_STATUSES.includes(target.status)) {
+        throw new Error('Utilisateur non trouvé');
+      }
+
+      const existing = await this.findBetween(requesterId, targetId);
+
+      if (existing) {
+        if (existing.status === ConnectionStatus.BLOCKED) {
+          throw new Error('Impossible d\'envoyer une demande à cet utilisateur');
+        }
+
+        if (existing.status === ConnectionStatus.ACCEPTED) {
+          throw new Error('Vous êtes déjà connectés');
+        }
+
+        if (existing.status === ConnectionStatus.PENDING) {
+          throw new Error(existing.requesterId === requesterId
+            ? 'Demande de connexion déjà envoyée'
+            : 'Cet utilisateur vous a déjà envoyé une demande de connexion');
+        }
+
+        // REJECTED : autoriser une nouvelle demande après le délai de carence
+        if (existing.requesterId === requesterId) {
+          const cooldownEnd = new Date((existing.respondedAt || existing.updatedAt).getTime() + REQUEST_COOLDOWN_DAYS * 24 * 60 * 60 * 1000);
+          if (cooldownEnd > new Date()) {
+            throw new Error('Demande de connexion refusée récemment, veuillez réessayer plus tard');
+          }
+        }
+
+        await prisma.connection.delete({ where: { id: existing.id } });
+      }
+
+      const connection = await prisma.connection.create({
+        data: {
+          requesterId,
+          targetId,
+          message: message?.trim() || null,
+        },
+        include: {
+          target: { select: connectionUserSelect },
+        },
+      });
+
+      try {
+        await NotificationsService.createConnectionRequestNotification(targetId, requester.name);
+      } catch (notificationError) {
+        logger.error('❌ Failed to create connection request notification:', notificationError);
+      }
+
+      logger.info(`✅ Connection request created: ${connection.id}`);
+      return connection;
+
+    } catch (error) {
+      logger.error('❌ Send connection request error:', error);
+      throw error;
+    }
+  }
+
+  static async acceptRequest(connectionId: string, userId: string) {
+    try {
+      logger.info(`🤝 Accepting connection ${connectionId}`);
+
+      const connection = await this.getPendingForTarget(connectionId, userId);
+
+      const updated = await prisma.connection.update({
+        where: { id: connection.id },
+        data: {
+          status: ConnectionStatus.ACCEPTED,
+          respondedAt: new Date(),
+        },
+        include: {
+          requester: { select: connectionUserSelect },
+          target: { select: { name: true } },
+        },
+      });
+
+      try {
+        await NotificationsService.createConnectionAcceptedNotification(
+          updated.requesterId,
+          updated.target.name,
+          userId
+        );
+      } catch (notificationError) {
+        logger.error('❌ Failed to create connection accepted notification:', notificationError);
+      }
+
+      logger.info(`✅ Connection accepted: ${connectionId}`);
+      return updated;
+
+    } catch (error) {
+      logger.error('❌ Accept connection error:', error);
+      throw error;
+    }
+  }
+
+  static async rejectRequest(connectionId: string, userId: string) {
+    try {
+      logger.info(`🚫 Rejecting connection ${connectionId}`);
+
+      const connection = await this.getPendingForTarget(connectionId, userId);
+
+      // Pas de notification au demandeur : un refus reste discret
+      const updated = await prisma.connection.update({
+        where: { id: connection.id },
+        data: {
+          status: ConnectionStatus.REJECTED,
+          respondedAt: new Date(),
+        },
+      });
+
+      logger.info(`✅ Connection rejected: ${connectionId}`);
+      return updated;
+
+    } catch (error) {
+      logger.error('❌ Reject connection error:', error);
+      throw error;
+    }
+  }
+
+  static async withdrawRequest(connectionId: string, userId: string) {
+    try {
+      logger.info(`↩️ Withdrawing connection request ${connectionId}`);
+
+      const connection = await prisma.connection.findUnique({
+        where: { id: connectionId },
+      });
+
+      if (!connection || connection.requesterId !== userId) {
+        throw new Error('Demande de connexion non trouvée');
+      }
+
+      if (connection.status !== ConnectionStatus.PENDING) {
+        throw new Error('Cette demande n\'est plus en attente');
+      }
+
+      await prisma.connection.delete({ where: { id: connectionId } });
+
+      logger.info(`✅ Connection request withdrawn: ${connectionId}`);
+      return { success: true };
+
+    } catch (error) {
+      logger.error('❌ Withdraw connection error:', error);
+      throw error;
+    }
+  }
+
+  static async removeConnection(connectionId: string, userId: string) {
+    try {
+      logger.info(`✂️ Removing connection ${connectionId}`);
+
+      const connection = await prisma.connection.findUnique({
+        where: { id: connectionId },
+      });
+
+      if (!connection || (connection.requesterId !== userId && connection.targetId !== userId)) {
+        throw new Error('Connexion non trouvée');
+      }
+
+      if (connection.status !== ConnectionStatus.ACCEPTED) {
+        throw new Error('Cette connexion n\'est pas active');
+      }
+
+      await prisma.connection.delete({ where: { id: connectionId } });
+
+      logger.info(`✅ Connection removed: ${connectionId}`);
+      return { success: true };
+
+    } catch (error) {
+      logger.error('❌ Remove connection error:', error);
+      throw error;
+    }
+  }
+
+  // Retire une demande en attente (demandeur) ou supprime une connexion acceptée (l'un ou l'autre)
+  static async deleteConnection(connectionId: string, userId: string) {
+    const connection = await prisma.connection.findUnique({
+      where: { id: connectionId },
+      select: { status: true },
+    });
+
+    if (connection?.status === ConnectionStatus.PENDING) {
+      await this.withdrawRequest(connectionId, userId);
+      return { withdrawn: true };
+    }
+
+    await this.removeConnection(connectionId, userId);
+    return { withdrawn: false };
+  }
+
+  static async blockUser(blockerId: string, blockedId: string) {
+    try {
+      logger.info(`⛔ User ${blockerId} blocking ${blockedId}`);
+
+      if (blockerId === blockedId) {
+        throw new Error('Vous ne pouvez pas vous bloquer vous-même');
+      }
+
+      const blocked = await prisma.user.findUnique({ where: { id: blockedId }, select: { id: true } });
+      if (!blocked) {
+        throw new Error('Utilisateur non trouvé');
+      }
+
+      const relations = await prisma.connection.findMany({
+        where: {
+          OR: [
+            { requesterId: blockerId, targetId: blockedId },
+            { requesterId: blockedId, targetId: blockerId },
+          ],
+        },
+      });
+      const own = relations.find(c => c.requesterId === blockerId);
+      const reverse = relations.find(c => c.requesterId === blockedId);
+
+      if (own?.status === ConnectionStatus.BLOCKED) {
+        throw new Error('Cet utilisateur est déjà bloqué');
+      }
+
+      // Le blocage remplace toute relation existante ; le requester devient celui qui bloque.
+      // Un blocage posé par l'autre membre est conservé : chacun ne lève que le sien.
+      const connection = await prisma.$transaction(async (tx) => {
+        if (own) {
+          await tx.connection.delete({ where: { id: own.id } });
+        }
+        if (reverse && reverse.status !== ConnectionStatus.BLOCKED) {
+          await tx.connection.delete({ where: { id: reverse.id } });
+        }
+
+        return tx.connection.create({
+          data: {
+            requesterId: blockerId,
+            targetId: blockedId,
+            status: ConnectionStatus.BLOCKED,
+            respondedAt: new Date(),
+          },
+        });
+      });
+
+      logger.info(`✅ User blocked: ${blockedId}`);
+      return connection;
+
+    } catch (error) {
+      logger.error('❌ Block user error:', error);
+      throw error;
+    }
+  }
+
+  static async unblockUser(blockerId: string, blockedId: string) {
+    try {
+      logger.info(`🔓 User ${blockerId} unblocking ${blockedId}`);
+
+      const connection = await prisma.connection.findUnique({
+        where: {
+          requesterId_targetId: {
+            requesterId: blockerId,
+            targetId: blockedId,
+          },
+        },
+      });
+
+      if (!connection || connection.status !== ConnectionStatus.BLOCKED) {
+        throw new Error('Cet utilisateur n\'est pas bloqué');
+      }
+
+      await prisma.connection.delete({ where: { id: connection.id } });
+
+      logger.info(`✅ User unblocked: ${blockedId}`);
+      return { success: true };
+
+    } catch (error) {
+      logger.error('❌ Unblock user error:', error);
+      throw error;
+    }
+  }
+
+  static async getIncomingRequests(userId: string, pagination: ConnectionPagination) {
+    try {
+      const where = { targetId: userId, status: ConnectionStatus.PENDING };
+
+      const [total, requests] = await Promise.all([
+        prisma.connection.count({ where }),
+        prisma.connection.findMany({
+          where,
+          include: { requester: { select: connectionUserSelect } },
+          orderBy: { createdAt: 'desc' },
+          skip: (pagination.page - 1) * pagination.limit,
+          take: pagination.limit,
+        }),
+      ]);
+
+      const [mutualCounts, privacy] = await Promise.all([
+        this.countMutualConnections(userId, requests.map(r => r.requesterId)),
+        PrivacyService.scope(userId, requests.map(r => r.requester)),
+      ]);
+
+      return {
+        requests: requests.map(request => ({
+          id: request.id,
+          message: request.message,
+          createdAt: request.createdAt,
+          user: privacy.serialize(request.requester),
+          mutualConnections: mutualCounts.get(request.requesterId) || 0,
+        })),
+        meta: this.buildMeta(pagination, total),
+      };
+
+    } catch (error) {
+      logger.error('❌ Get incoming requests error:', error);
+      throw error;
+    }
+  }
+
+  static async getOutgoingRequests(userId: string, pagination: ConnectionPagination) {
+    try {
+      const where = { requesterId: userId, status: ConnectionStatus.PENDING };
+
+      const [total, requests] = await Promise.all([
+        prisma.connection.count({ where }),
+        prisma.connection.findMany({
+          where,
+          include: { target: { select: connectionUserSelect } },
+          orderBy: { createdAt: 'desc' },
+          skip: (pagination.page - 1) * pagination.limit,
+          take: pagination.limit,
+        }),
+      ]);
+
+      const privacy = await PrivacyService.scope(userId, requests.map(r => r.target));
+
+      return {
+        requests: requests.map(request => ({
+          id: request.id,
+          message: request.message,
+          createdAt: request.createdAt,
+          user: privacy.serialize(request.target),
+        })),
+        meta: this.buildMeta(pagination, total),
+      };
+
+    } catch (error) {
+      logger.error('❌ Get outgoing requests error:', error);
+      throw error;
+    }
+  }
+
+  static async getConnections(userId: string, filters: ConnectionFilters, pagination: ConnectionPagination) {
+    try {
+      logger.info(`👥 Getting network for user ${userId}`);
+
+      const userWhere: any = {};
+      if (filters.profileType) {
+        userWhere.profileType = filters.profileType;
+      }
+      if (filters.search) {
+        userWhere.OR = [
+          { name: { contains: filters.search } },
+          { company: { contains: filters.search } },
+        ];
+      }
+
+      const where: any = {
+        status: ConnectionStatus.ACCEPTED,
+        OR: [
+          { requesterId: userId, target: userWhere },
+          { targetId: userId, requester: userWhere },
+        ],
+      };
+
+      const [total, connections] = await Promise.all([
+        prisma.connection.count({ where }),
+        prisma.connection.findMany({
+          where,
+          include: {
+            requester: { select: connectionUserSelect },
+            target: { select: connectionUserSelect },
+          },
+          orderBy: { respondedAt: 'desc' },
+          skip: (pagination.page - 1) * pagination.limit,
+          take: pagination.limit,
+        }),
+      ]);
+
+      const others = connections.map(c => c.requesterId === userId ? c.target : c.requester);
+      const [mutualCounts, privacy] = await Promise.all([
+        this.countMutualConnections(userId, others.map(u => u.id)),
+        PrivacyService.scope(userId, others),
+      ]);
+
+      return {
+        connections: connections.map((connection, index) => ({
+          id: connection.id,
+          connectedAt: connection.respondedAt,
+          user: privacy.serialize(others[index]),
+          mutualConnections: mutualCounts.get(others[index].id) || 0,
+        })),
+        meta: this.buildMeta(pagination, total),
+      };
+
+    } catch (error) {
+      logger.error('❌ Get connections error:', error);
+      throw error;
+    }
+  }
+
+  static async getBlockedUsers(userId: string, pagination: ConnectionPagination) {
+    try {
+      const where = { requesterId: userId, status: ConnectionStatus.BLOCKED };
+
+      const [total, blocked] = await Promise.all([
+        prisma.connection.count({ where }),
+        prisma.connection.findMany({
+          where,
+          include: { target: { select: { id: true, name: true, avatar: true } } },
+          orderBy: { createdAt: 'desc' },
+          skip: (pagination.page - 1) * pagination.limit,
+          take: pagination.limit,
+        }),
+      ]);
+
+      return {
+        blocked: blocked.map(b => ({ id: b.id, blockedAt: b.respondedAt, user: b.target })),
+        meta: this.buildMeta(pagination, total),
+      };
+
+    } catch (error) {
+      logger.error('❌ Get blocked users error:', error);
+      throw error;
+    }
+  }
+
+  static async getMutualConnections(userId: string, otherUserId: string, pagination: ConnectionPagination) {
+    try {
+      if (!(await PrivacyService.canSee(userId, otherUserId, 'connections'))) {
+        throw new Error('Les relations de ce membre sont privées');
+      }
+
+      const [mine, theirs] = await Promise.all([
+        this.getConnectedUserIds(userId),
+        this.getConnectedUserIds(otherUserId),
+      ]);
+
+      const theirSet = new Set(theirs);
+      const mutualIds = mine.filter(id => theirSet.has(id));
+
+      const users = await prisma.user.findMany({
+        where: { id: { in: mutualIds } },
+        select: connectionUserSelect,
+        orderBy: { name: 'asc' },
+        skip: (pagination.page - 1) * pagination.limit,
+        take: pagination.limit,
+      });
+
+      return {
+        users: await PrivacyService.serializeMany(userId, users),
+        meta: this.buildMeta(pagination, mutualIds.length),
+      };
+
+    } catch (error) {
+      logger.error('❌ Get mutual connections error:', error);
+      throw error;
+    }
+  }
+
+  // Statut de la relation entre l'utilisateur courant et un autre membre (pour les profils)
+  static async getConnectionStatus(userId: string, otherUserId: string) {
+    try {
+      const connection = await this.findBetween(userId, otherUserId);
+
+      if (!connection) {
+        return { status: 'NONE', connectionId: null, direction: null };
+      }
+
+      // Ne pas révéler à un utilisateur bloqué qu'il l'est
+      if (connection.status === ConnectionStatus.BLOCKED && connection.requesterId !== userId) {
+        return { status: 'NONE', connectionId: null, direction: null };
+      }
+
+      // Un refus est présenté au demandeur comme une demande toujours en attente
+      const status = connection.status === ConnectionStatus.REJECTED && connection.requesterId === userId
+        ? ConnectionStatus.PENDING
+        : connection.status;
+
+      return {
+        status,
+        connectionId: connection.id,
+        direction: connection.requesterId === userId ? 'outgoing' : 'incoming',
+      };
+
+    } catch (error) {
+      logger.error('❌ Get connection status error:', error);
+      throw error;
+    }
+  }
+
+  // Indique si l'un des deux utilisateurs a bloqué l'autre
+  static async isBlocked(userId: string, otherUserId: string): Promise<boolean> {
+    const connection = await this.findBetween(userId, otherUserId);
+    return connection?.status === ConnectionStatus.BLOCKED;
+  }
+
+  static async areConnected(userId: string, otherUserId: string): Promise<boolean> {
+    const connection = await this.findBetween(userId, otherUserId);
+    return connection?.status === ConnectionStatus.ACCEPTED;
+  }
+
+  static async getConnectedUserIds(userId: string): Promise<string[]> {
+    const connections = await prisma.connection.findMany({
+      where: {
+        status: ConnectionStatus.ACCEPTED,
+        OR: [{ requesterId: userId }, { targetId: userId }],
+      },
+      select: { requesterId: true, targetId: true },
+    });
+
+    return connections.map(c => c.requesterId === userId ? c.targetId : c.requesterId);
+  }
+
+  // Relation entre deux membres ; si chacun a bloqué l'autre, celle de l'utilisateur courant
+  private static async findBetween(userId: string, otherUserId: string) {
+    const connections = await prisma.connection.findMany({
+      where: {
+        OR: [
+          { requesterId: userId, targetId: otherUserId },
+          { requesterId: otherUserId, targetId: userId },
+        ],
+      },
+    });
+
+    return connections.find(c => c.requesterId === userId) ?? connections[0] ?? null;
+  }
+
+  private static async getPendingForTarget(connectionId: string, userId: string) {
+    const connection = await prisma.connection.findUnique({
+      where: { id: connectionId },
+    });
+
+    if (!connection || connection.targetId !== userId) {
+      throw new Error('Demande de connexion non trouvée');
+    }
+
+    if (connection.status !== ConnectionStatus.PENDING) {
+      throw new Error('Cette demande n\'est plus en attente');
+    }
+
+    return connection;
+  }
+
+  // Nombre de connexions communes entre userId et chacun des otherIds, en une seule requête
+  private static async countMutualConnections(userId: string, otherIds: string[]): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+    if (otherIds.length === 0) {
+      return counts;
+    }
+
+    const myConnections = await this.getConnectedUserIds(userId);
+    if (myConnections.length === 0) {
+      return counts;
+    }
+
+    const links = await prisma.connection.findMany({
+      where: {
+        status: ConnectionStatus.ACCEPTED,
+        OR: [
+          { requesterId: { in: otherIds }, targetId: { in: myConnections } },
+          { targetId: { in: otherIds }, requesterId: { in: myConnections } },
+        ],
+      },
+      select: { requesterId: true, targetId: true },
+    });
+
+    const otherSet = new Set(otherIds);
+    for (const link of links) {
+      const otherId = otherSet.has(link.requesterId) ? link.requesterId : link.targetId;
+      counts.set(otherId, (counts.get(otherId) || 0) + 1);
+    }
+
+    return counts;
+  }
+
+  private static buildMeta(pagination: ConnectionPagination, total: number) {
+    return {
+      page: pagination.page,
+      limit: pagination.limit,
+      total,
+      totalPages: Math.ceil(total / pagination.limit),
+      hasNext: pagination.page * pagination.limit < total,
+      hasPrev: pagination.page > 1,
+    };
+  }
+}
@@ -0,0 +1,428 @@
+import { PrismaClient, DataExportStatus } from '@prisma/client';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { NotificationsService } from './notifications';
+import { ZipService, ZipEntry } from '../utils/zip';
+import { config } from '../config';
+import { logger } from '../config/logger';
+
+const prisma = new PrismaClient();
+
+// Un export par jour suffit : chaque archive reprend l'intégralité des données
+const EXPORT_COOLDOWN_MS = 24 * 60 * 60 * 1000;
+
+// Exports restés en attente après un redémarrage du serveur
+const STALE_PENDING_MS = 5 * 60 * 1000;
+
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+type ExportRow = Record<string, any>;
+
+export class DataExportService {
+  private static cleanupTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Demande un export : l'archive est construite en arrière-plan puis l'utilisateur est notifié
+   */
+  static async requestExport(userId: string) {
+    try {
+      const inProgress = await prisma.dataExport.findFirst({
+        where: { userId, status: { in: [DataExportStatus.PENDING, DataExportStatus.PROCESSING] } },
+      });
+      if (inProgress) {
+        throw new Error('Un export de vos données est déjà en cours');
+      }
+
+      const recent = await prisma.dataExport.findFirst({
+        where: {
+          userId,
+          status: DataExportStatus.READY,
+          createdAt: { gt: new Date(Date.now() - EXPORT_COOLDOWN_MS) },
+        },
+      });
+      if (recent) {
+        throw new Error('Un export a déjà été généré il y a moins de 24 heures');
+      }
+
+      const dataExport = await prisma.dataExport.create({
+        data: { userId },
+        select: { id: true, status: true, createdAt: true },
+      });
+
+      setImmediate(() => {
+        this.processExport(dataExport.id).catch(() => undefined);
+      });
+
+      logger.info(`📦 Data export ${dataExport.id} requested by user ${userId}`);
+      return dataExport;
+
+    } catch (error) {
+      logger.error('❌ Request data export error:', error);
+      throw error;
+    }
+  }
+
+  static async getUserExports(userId: string) {
+    return prisma.dataExport.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        status: true,
+        fileSize: true,
+        expiresAt: true,
+        downloadedAt: true,
+        completedAt: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 10,
+    });
+  }
+
+  /**
+   * Vérifie le lien de téléchargement et retourne le chemin de l'archive
+   */
+  static async getDownload(exportId: string, token: string) {
+    const dataExport = await prisma.dataExport.findUnique({ where: { id: exportId } });
+
+    if (!dataExport) {
+      throw new Error('Export non trouvé');
+    }
+
+    const valid = dataExport.status === DataExportStatus.READY
+      && !!dataExport.filePath
+      && !!dataExport.downloadTokenHash
+      && !!dataExport.expiresAt
+      && dataExport.expiresAt > new Date()
+      && crypto.timingSafeEqual(Buffer.from(this.hashToken(token)), Buffer.from(dataExport.downloadTokenHash));
+
+    if (!valid) {
+      throw new Error('Lien de téléchargement invalide ou expiré');
+    }
+
+    await prisma.dataExport.update({
+      where: { id: exportId },
+      data: { downloadedAt: new Date() },
+    });
+
+    return {
+      userId: dataExport.userId,
+      filePath: dataExport.filePath!,
+      fileName: `pme360-export-${dataExport.createdAt.toISOString().slice(0, 10)}.zip`,
+    };
+  }
+
+  static async processExport(exportId: string) {
+    // Réserver l'export : un seul traitement même si le worker le reprend en parallèle
+    const { count } = await prisma.dataExport.updateMany({
+      where: { id: exportId, status: DataExportStatus.PENDING },
+      data: { status: DataExportStatus.PROCESSING },
+    });
+    if (count === 0) {
+      return;
+    }
+
+    const dataExport = await prisma.dataExport.findUnique({ where: { id: exportId } });
+    if (!dataExport) {
+      return;
+    }
+
+    try {
+      const data = await this.collectUserData(dataExport.userId);
+      const archive = ZipService.create(this.buildEntries(data));
+
+      await fs.mkdir(config.DATA_EXPORT_DIR, { recursive: true });
+      const filePath = path.join(config.DATA_EXPORT_DIR, `${exportId}.zip`);
+      await fs.writeFile(filePath, archive);
+
+      const token = crypto.randomBytes(32).toString('base64url');
+      const expiresAt = new Date(Date.now() + config.DATA_EXPORT_TTL_HOURS * 60 * 60 * 1000);
+
+      await prisma.dataExport.update({
+        where: { id: exportId },
+        data: {
+          status: DataExportStatus.READY,
+          filePath,
+          fileSize: archive.length,
+          downloadTokenHash: this.hashToken(token),
+          expiresAt,
+          completedAt: new Date(),
+        },
+      });
+
+      const downloadUrl = `${config.API_PUBLIC_URL}/api/v1/users/me/export/${exportId}/download?token=${encodeURIComponent(token)}`;
+
+      await NotificationsService.createSystemNotification(
+        dataExport.userId,
+        'Votre export de données est prêt',
+        `Votre archive est disponible au téléchargement pendant ${config.DATA_EXPORT_TTL_HOURS} heures.`,
+        downloadUrl
+      );
+
+      logger.info(`📦 Data export ${exportId} ready (${archive.length} bytes)`);
+
+    } catch (error: any) {
+      logger.error(`❌ Data export ${exportId} failed:`, error);
+
+      await prisma.dataExport.update({
+        where: { id: exportId },
+        data: { status: DataExportStatus.FAILED, error: error.message },
+      });
+
+      await NotificationsService.createSystemNotification(
+        dataExport.userId,
+        'Échec de l\'export de vos données',
+        'La génération de votre archive a échoué. Vous pouvez relancer la demande.'
+      ).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Supprime les archives expirées et relance les exports interrompus par un redémarrage
+   */
+  static async runMaintenance() {
+    try {
+      const expired = await prisma.dataExport.findMany({
+        where: { status: DataExportStatus.READY, expiresAt: { lte: new Date() } },
+        select: { id: true, filePath: true },
+      });
+
+      for (const dataExport of expired) {
+        if (dataExport.filePath) {
+          await fs.rm(dataExport.filePath, { force: true });
+        }
+        await prisma.dataExport.update({
+          where: { id: dataExport.id },
+          data: { status: DataExportStatus.EXPIRED, filePath: null, downloadTokenHash: null },
+        });
+      }
+
+      // Un export PROCESSING trop ancien a été interrompu : le remettre en file
+      await prisma.dataExport.updateMany({
+        where: { status: DataExportStatus.PROCESSING, updatedAt: { lt: new Date(Date.now() - STALE_PENDING_MS) } },
+        data: { status: DataExportStatus.PENDING },
+      });
+
+      const pending = await prisma.dataExport.findMany({
+        where: { status: DataExportStatus.PENDING, createdAt: { lt: new Date(Date.now() - STALE_PENDING_MS) } },
+        select: { id: true },
+      });
+      for (const dataExport of pending) {
+        await this.processExport(dataExport.id);
+      }
+
+      if (expired.length > 0) {
+        logger.info(`🧹 ${expired.length} expired data exports removed`);
+      }
+
+    } catch (error) {
+      logger.error('❌ Data export maintenance error:', error);
+    }
+  }
+
+  // Effacement du compte : supprimer les archives et leur historique
+  static async deleteUserExports(userId: string) {
+    const exports = await prisma.dataExport.findMany({
+      where: { userId },
+      select: { filePath: true },
+    });
+
+    for (const dataExport of exports) {
+      if (dataExport.filePath) {
+        await fs.rm(dataExport.filePath, { force: true });
+      }
+    }
+
+    await prisma.dataExport.deleteMany({ where: { userId } });
+  }
+
+  static startWorker() {
+    if (this.cleanupTimer) {
+      return;
+    }
+
+    this.cleanupTimer = setInterval(() => this.runMaintenance(), CLEANUP_INTERVAL_MS);
+    this.cleanupTimer.unref();
+    this.runMaintenance();
+  }
+
+  static stopWorker() {
+    if (this.cleanupTimer) clearInterval(this.cleanupTimer);
+    this.cleanupTimer = null;
+  }
+
+  // ==================== COLLECTE ====================
+
+  private static async collectUserData(userId: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      include: {
+        expertises: { select: { name: true, level: true } },
+        sentMessages: { include: { attachments: { select: { filename: true, mimeType: true, size: true, url: true } } } },
+        receivedMessages: {
+          include: {
+            sender: { select: { id: true, name: true } },
+            attachments: { select: { filename: true, mimeType: true, size: true, url: true } },
+          },
+        },
+        conversations: {
+          include: {
+            conversation: {
+              select: {
+                id: true,
+                title: true,
+                isGroup: true,
+                createdAt: true,
+                participants: { select: { user: { select: { id: true, name: true } } } },
+              },
+            },
+          },
+        },
+        opportunities: true,
+        applications: {
+          include: {
+            opportunity: { select: { id: true, title: true } },
+            attachments: { select: { filename: true, mimeType: true, size: true, url: true } },
+          },
+        },
+        connections: { include: { target: { select: { id: true, name: true } } } },
+        connectedTo: { include: { requester: { select: { id: true, name: true } } } },
+        eventRegistrations: { include: { event: { select: { id: true, title: true, startDate: true } } } },
+        createdEvents: true,
+        notifications: true,
+        activities: true,
+        sessions: { select: { deviceName: true, ipAddress: true, userAgent: true, lastUsedAt: true, revokedAt: true, createdAt: true } },
+        loginAttempts: { select: { ipAddress: true, country: true, success: true, failureReason: true, createdAt: true } },
+        roles: { select: { role: true, createdAt: true } },
+        apiKeys: { select: { name: true, prefix: true, organizationId: true, scopes: true, expiresAt: true, lastUsedAt: true, revokedAt: true, createdAt: true } },
+        reviewsGiven: { include: { reviewee: { select: { id: true, name: true } } } },
+        reviewsReceived: { include: { reviewer: { select: { id: true, name: true } } } },
+        endorsementsGiven: { include: { expertise: { select: { name: true, user: { select: { id: true, name: true } } } } } },
+        expertiseVerificationRequests: { include: { expertise: { select: { name: true } } } },
+        profileViewsGiven: { select: { profileId: true, day: true, lastViewedAt: true } },
+        privacySettings: true,
+        recommendationDismissals: { select: { candidateId: true, createdAt: true } },
+        savedSearches: { select: { name: true, target: true, filters: true, frequency: true, emailDigest: true, enabled: true, createdAt: true } },
+        bookmarks: { select: { targetType: true, targetId: true, createdAt: true, collection: { select: { name: true } } } },
+        bookmarkCollections: { select: { name: true, description: true, createdAt: true } },
+      },
+    });
+
+    if (!user) {
+      throw new Error('Utilisateur non trouvé');
+    }
+
+    const {
+      password, expertises, sentMessages, receivedMessages, conversations, opportunities, applications,
+      connections, connectedTo, eventRegistrations, createdEvents, notifications, activities,
+      sessions, loginAttempts, roles, apiKeys, reviewsGiven, reviewsReceived,
+      endorsementsGiven, expertiseVerificationRequests, profileViewsGiven, privacySettings, recommendationDismissals,
+      savedSearches, bookmarks, bookmarkCollections, ...profile
+    } = user;
+
+    return {
+      profile,
+      sections: {
+        expertises,
+        messages_sent: sentMessages.map(({ attachments, ...message }) => ({ ...message, attachments })),
+        messages_received: receivedMessages.map(({ sender, attachments, ...message }) => ({
+          ...message,
+          senderName: sender.name,
+          attachments,
+        })),
+        conversations: conversations.map(({ conversation, joinedAt, leftAt }) => ({
+          id: conversation.id,
+          title: conversation.title,
+          isGroup: conversation.isGroup,
+          participants: conversation.participants.map(p => p.user.name),
+          joinedAt,
+          leftAt,
+          createdAt: conversation.createdAt,
+        })),
+        opportunities,
+        applications: applications.map(({ opportunity, attachments, ...application }) => ({
+          ...application,
+          opportunityTitle: opportunity.title,
+          attachments,
+        })),
+        connections: [
+          ...connections.map(({ target, ...c }) => ({ ...c, direction: 'sent', otherUserId: target.id, otherUserName: target.name })),
+          ...connectedTo.map(({ requester, ...c }) => ({ ...c, direction: 'received', otherUserId: requester.id, otherUserName: requester.name })),
+        ],
+        event_registrations: eventRegistrations.map(({ event, ...registration }) => ({
+          ...registration,
+          eventTitle: event.title,
+          eventStartDate: event.startDate,
+        })),
+        events_created: createdEvents,
+        notifications,
+        activities,
+        sessions,
+        login_attempts: loginAttempts,
+        roles,
+        api_keys: apiKeys,
+        reviews_given: reviewsGiven.map(({ reviewee, ...review }) => ({ ...review, revieweeName: reviewee.name })),
+        reviews_received: reviewsReceived.map(({ reviewer, ...review }) => ({ ...review, reviewerName: reviewer.name })),
+        endorsements_given: endorsementsGiven.map(({ expertise, ...endorsement }) => ({
+          ...endorsement, expertiseName: expertise.name, endorsedUserName: expertise.user.name,
+        })),
+        expertise_verification_requests: expertiseVerificationRequests.map(({ expertise, ...request }) => ({
+          ...request, expertiseName: expertise.name,
+        })),
+        profile_views: profileViewsGiven,
+        privacy_settings: privacySettings ? [privacySettings] : [],
+        recommendation_dismissals: recommendationDismissals,
+        saved_searches: savedSearches,
+        bookmarks: bookmarks.map(({ collection, ...bookmark }) => ({ ...bookmark, collectionName: collection?.name ?? null })),
+        bookmark_collections: bookmarkCollections,
+      } as Record<string, ExportRow[]>,
+    };
+  }
+
+  private static buildEntries(data: Awaited<ReturnType<typeof DataExportService.collectUserData>>): ZipEntry[] {
+    const entries: ZipEntry[] = [
+      {
+        name: 'README.txt',
+        content: [
+          'Export de vos données personnelles - PME 360',
+          `Généré le ${new Date().toISOString()}`,
+          '',
+          'data.json : l\'ensemble de vos données au format JSON',
+          'csv/ : une table par catégorie de données, au format CSV (séparateur virgule, UTF-8)',
+          '',
+          'Les pièces jointes sont listées avec leurs métadonnées et leur URL de téléchargement.',
+        ].join('\n'),
+      },
+      { name: 'data.json', content: JSON.stringify({ profile: data.profile, ...data.sections }, null, 2) },
+      { name: 'csv/profile.csv', content: this.toCsv([data.profile]) },
+    ];
+
+    for (const [name, rows] of Object.entries(data.sections)) {
+      entries.push({ name: `csv/${name}.csv`, content: this.toCsv(rows) });
+    }
+
+    return entries;
+  }
+
+  private static toCsv(rows: ExportRow[]): string {
+    const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+
+    const format = (value: any): string => {
+      if (value === null || value === undefined) return '';
+      if (value instanceof Date) return value.toISOString();
+      const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+      return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    // BOM pour une ouverture correcte des accents dans Excel
+    return '\uFEFF' + [
+      columns.join(','),
+      ...rows.map(row => columns.map(column => format(row[column])).join(',')),
+    ].join('\r\n');
+  }
+
+  private static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,425 @@
+export enum EmailTemplate {
+  PASSWORD_RESET = 'PASSWORD_RESET',
+  EMAIL_VERIFICATION = 'EMAIL_VERIFICATION',
+  APPLICATION_UPDATE = 'APPLICATION_UPDATE',
+  EVENT_REMINDER = 'EVENT_REMINDER',
+  MESSAGE_DIGEST = 'MESSAGE_DIGEST',
+  SECURITY_ALERT = 'SECURITY_ALERT',
+  ACCOUNT_STATUS = 'ACCOUNT_STATUS',
+  INVITATION = 'INVITATION',
+  SAVED_SEARCH_DIGEST = 'SAVED_SEARCH_DIGEST',
+}
+
+export type EmailLocale = 'fr' | 'en';
+
+export const SUPPORTED_EMAIL_LOCALES: EmailLocale[] = ['fr', 'en'];
+
+export interface EmailTemplateData {
+  [EmailTemplate.PASSWORD_RESET]: { name: string; resetUrl: string; expiresInMinutes: number };
+  [EmailTemplate.EMAIL_VERIFICATION]: { name: string; verificationUrl: string; expiresInHours: number };
+  [EmailTemplate.APPLICATION_UPDATE]: { name: string; opportunityTitle: string; status: string; opportunityUrl: string };
+  [EmailTemplate.EVENT_REMINDER]: {
+    name: string;
+    eventTitle: string;
+    startDate: Date;
+    location?: string | null;
+    meetingUrl?: string | null;
+    eventUrl: string;
+  };
+  [EmailTemplate.MESSAGE_DIGEST]: {
+    name: string;
+    unreadCount: number;
+    conversations: Array<{ senderName: string; preview: string; count: number }>;
+    messagesUrl: string;
+  };
+  [EmailTemplate.SECURITY_ALERT]: {
+    name: string;
+    alert: 'ACCOUNT_LOCKED' | 'NEW_LOGIN';
+    date: Date;
+    ipAddress?: string | null;
+    country?: string | null;
+    device?: string | null;
+    lockedUntil?: Date | null;
+    securityUrl: string;
+  };
+  [EmailTemplate.ACCOUNT_STATUS]: {
+    name: string;
+    status: 'SUSPENDED' | 'BANNED' | 'ACTIVE';
+    reason?: string | null;
+    until?: Date | null;
+    supportEmail: string;
+  };
+  [EmailTemplate.INVITATION]: {
+    inviterName: string;
+    organization?: string | null;
+    message?: string | null;
+    code: string;
+    registerUrl: string;
+    expiresAt?: Date | null;
+  };
+  [EmailTemplate.SAVED_SEARCH_DIGEST]: {
+    name: string;
+    searches: Array<{ name: string; total: number; titles: string[] }>;
+    savedSearchesUrl: string;
+  };
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// Un bloc de contenu = un paragraphe, éventuellement un bouton d'action
+interface EmailContent {
+  subject: string;
+  paragraphs: string[];
+  action?: { label: string; url: string };
+  footnote?: string;
+}
+
+type TemplateRenderer<T extends EmailTemplate> = (data: EmailTemplateData[T], locale: EmailLocale) => EmailContent;
+
+const APPLICATION_STATUS_LABELS: Record<EmailLocale, Record<string, string>> = {
+  fr: { ACCEPTED: 'acceptée', REJECTED: 'refusée', PENDING: 'en cours d\'examen', WITHDRAWN: 'retirée' },
+  en: { ACCEPTED: 'accepted', REJECTED: 'declined', PENDING: 'under review', WITHDRAWN: 'withdrawn' },
+};
+
+const renderers: { [T in EmailTemplate]: TemplateRenderer<T> } = {
+  [EmailTemplate.PASSWORD_RESET]: (data, locale) => locale === 'en'
+    ? {
+      subject: 'Reset your password - PME 360',
+      paragraphs: [
+        `Hello ${data.name},`,
+        'We received a request to reset the password of your PME 360 account.',
+      ],
+      action: { label: 'Choose a new password', url: data.resetUrl },
+      footnote: `This link expires in ${data.expiresInMinutes} minutes. If you did not request it, you can ignore this email.`,
+    }
+    : {
+      subject: 'Réinitialisation de votre mot de passe - PME 360',
+      paragraphs: [
+        `Bonjour ${data.name},`,
+        'Nous avons reçu une demande de réinitialisation du mot de passe de votre compte PME 360.',
+      ],
+      action: { label: 'Choisir un nouveau mot de passe', url: data.resetUrl },
+      footnote: `Ce lien expire dans ${data.expiresInMinutes} minutes. Si vous n'êtes pas à l'origine de cette demande, ignorez cet email.`,
+    },
+
+  [EmailTemplate.EMAIL_VERIFICATION]: (data, locale) => locale === 'en'
+    ? {
+      subject: 'Confirm your email address - PME 360',
+      paragraphs: [
+        `Hello ${data.name},`,
+        'Welcome to PME 360! Please confirm your email address.',
+      ],
+      action: { label: 'Verify my email address', url: data.verificationUrl },
+      footnote: `This link expires in ${data.expiresInHours} hours.`,
+    }
+    : {
+      subject: 'Confirmez votre adresse email - PME 360',
+      paragraphs: [
+        `Bonjour ${data.name},`,
+        'Bienvenue sur PME 360 ! Merci de confirmer votre adresse email.',
+      ],
+      action: { label: 'Vérifier mon adresse email', url: data.verificationUrl },
+      footnote: `Ce lien expire dans ${data.expiresInHours} heures.`,
+    },
+
+  [EmailTemplate.APPLICATION_UPDATE]: (data, locale) => {
+    const status = APPLICATION_STATUS_LABELS[locale][data.status]
+      || (locale === 'en' ? 'updated' : 'mise à jour');
+
+    return locale === 'en'
+      ? {
+        subject: `Your application for "${data.opportunityTitle}" - PME 360`,
+        paragraphs: [
+          `Hello ${data.name},`,
+          `Your application for "${data.opportunityTitle}" has been ${status}.`,
+        ],
+        action: { label: 'View the opportunity', url: data.opportunityUrl },
+      }
+      : {
+        subject: `Votre candidature pour "${data.opportunityTitle}" - PME 360`,
+        paragraphs: [
+          `Bonjour ${data.name},`,
+          `Votre candidature pour "${data.opportunityTitle}" a été ${status}.`,
+        ],
+        action: { label: 'Voir l\'opportunité', url: data.opportunityUrl },
+      };
+  },
+
+  [EmailTemplate.EVENT_REMINDER]: (data, locale) => {
+    const date = data.startDate.toLocaleString(locale === 'en' ? 'en-GB' : 'fr-FR', {
+      dateStyle: 'full',
+      timeStyle: 'short',
+      timeZone: 'UTC',
+    });
+    const place = data.meetingUrl || data.location;
+
+    return locale === 'en'
+      ? {
+        subject: `Reminder: ${data.eventTitle} - PME 360`,
+        paragraphs: [
+          `Hello ${data.name},`,
+          `"${data.eventTitle}" starts on ${date} (UTC).`,
+          ...(place ? [`Location: ${place}`] : []),
+        ],
+        action: { label: 'View the event', url: data.eventUrl },
+      }
+      : {
+        subject: `Rappel : ${data.eventTitle} - PME 360`,
+        paragraphs: [
+          `Bonjour ${data.name},`,
+          `"${data.eventTitle}" commence le ${date} (UTC).`,
+          ...(place ? [`Lieu : ${place}`] : []),
+        ],
+        action: { label: 'Voir l\'événement', url: data.eventUrl },
+      };
+  },
+
+  [EmailTemplate.MESSAGE_DIGEST]: (data, locale) => {
+    const lines = data.conversations.map(c => `${c.senderName} (${c.count})${locale === 'en' ? ':' : ' :'} ${c.preview}`);
+
+    return locale === 'en'
+      ? {
+        subject: `You have ${data.unreadCount} unread message(s) - PME 360`,
+        paragraphs: [
+          `Hello ${data.name},`,
+          `You have ${data.unreadCount} unread message(s):`,
+          ...lines,
+        ],
+        action: { label: 'Open my messages', url: data.messagesUrl },
+      }
+      : {
+        subject: `Vous avez ${data.unreadCount} message(s) non lu(s) - PME 360`,
+        paragraphs: [
+          `Bonjour ${data.name},`,
+          `Vous avez ${data.unreadCount} message(s) non lu(s) :`,
+          ...lines,
+        ],
+        action: { label: 'Ouvrir ma messagerie', url: data.messagesUrl },
+      };
+  },
+
+  [EmailTemplate.SECURITY_ALERT]: (data, locale) => {
+    const format = (date: Date) => date.toLocaleString(locale === 'en' ? 'en-GB' : 'fr-FR', {
+      dateStyle: 'long',
+      timeStyle: 'short',
+      timeZone: 'UTC',
+    });
+    const origin = [data.ipAddress, data.country, data.device].filter(Boolean).join(' - ');
+
+    if (data.alert === 'ACCOUNT_LOCKED') {
+      return locale === 'en'
+        ? {
+          subject: 'Your account has been temporarily locked - PME 360',
+          paragraphs: [
+            `Hello ${data.name},`,
+            `After several failed sign-in attempts, your account is locked until ${format(data.lockedUntil || data.date)} (UTC).`,
+            ...(origin ? [`Last attempt from: ${origin}`] : []),
+            'If this was not you, we recommend changing your password and enabling two-factor authentication.',
+          ],
+          action: { label: 'Review my security settings', url: data.securityUrl },
+        }
+        : {
+          subject: 'Votre compte est temporairement verrouillé - PME 360',
+          paragraphs: [
+            `Bonjour ${data.name},`,
+            `Suite à plusieurs tentatives de connexion échouées, votre compte est verrouillé jusqu'au ${format(data.lockedUntil || data.date)} (UTC).`,
+            ...(origin ? [`Dernière tentative depuis : ${origin}`] : []),
+            'Si ce n\'était pas vous, nous vous recommandons de changer votre mot de passe et d\'activer la double authentification.',
+          ],
+          action: { label: 'Vérifier mes paramètres de sécurité', url: data.securityUrl },
+        };
+    }
+
+    return locale === 'en'
+      ? {
+        subject: 'New sign-in to your account - PME 360',
+        paragraphs: [
+          `Hello ${data.name},`,
+          `Your account was accessed on ${format(data.date)} (UTC) from a new location.`,
+          ...(origin ? [`Origin: ${origin}`] : []),
+          'If this was you, no action is needed. Otherwise, change your password and revoke the session.',
+        ],
+        action: { label: 'Review my sessions', url: data.securityUrl },
+      }
+      : {
+        subject: 'Nouvelle connexion à votre compte - PME 360',
+        paragraphs: [
+          `Bonjour ${data.name},`,
+          `Une connexion à votre compte a eu lieu le ${format(data.date)} (UTC) depuis un nouvel emplacement.`,
+          ...(origin ? [`Origine : ${origin}`] : []),
+          'Si c\'était vous, aucune action n\'est nécessaire. Sinon, changez votre mot de passe et révoquez la session.',
+        ],
+        action: { label: 'Vérifier mes sessions', url: data.securityUrl },
+      };
+  },
+
+  [EmailTemplate.ACCOUNT_STATUS]: (data, locale) => {
+    const until = data.until?.toLocaleString(locale === 'en' ? 'en-GB' : 'fr-FR', {
+      dateStyle: 'long',
+      timeStyle: 'short',
+      timeZone: 'UTC',
+    });
+    const reason = data.reason ? [locale === 'en' ? `Reason: ${data.reason}` : `Motif : ${data.reason}`] : [];
+
+    if (data.status === 'ACTIVE') {
+      return locale === 'en'
+        ? {
+          subject: 'Your account has been reactivated - PME 360',
+          paragraphs: [`Hello ${data.name},`, 'Your PME 360 account has been reactivated. You can sign in again.'],
+        }
+        : {
+          subject: 'Votre compte a été réactivé - PME 360',
+          paragraphs: [`Bonjour ${data.name},`, 'Votre compte PME 360 a été réactivé. Vous pouvez à nouveau vous connecter.'],
+        };
+    }
+
+    if (data.status === 'BANNED') {
+      return locale === 'en'
+        ? {
+          subject: 'Your account has been closed - PME 360',
+          paragraphs: [`Hello ${data.name},`, 'Your PME 360 account has been closed by our moderation team.', ...reason],
+          footnote: `To contest this decision, write to ${data.supportEmail}.`,
+        }
+        : {
+          subject: 'Votre compte a été fermé - PME 360',
+          paragraphs: [`Bonjour ${data.name},`, 'Votre compte PME 360 a été fermé par notre équipe de modération.', ...reason],
+          footnote: `Pour contester cette décision, écrivez à ${data.supportEmail}.`,
+        };
+    }
+
+    return locale === 'en'
+      ? {
+        subject: 'Your account has been suspended - PME 360',
+        paragraphs: [
+          `Hello ${data.name},`,
+          until
+            ? `Your PME 360 account is suspended until ${until} (UTC).`
+            : 'Your PME 360 account is suspended until further notice.',
+          ...reason,
+        ],
+        footnote: `To contest this decision, write to ${data.supportEmail}.`,
+      }
+      : {
+        subject: 'Votre compte a été suspendu - PME 360',
+        paragraphs: [
+          `Bonjour ${data.name},`,
+          until
+            ? `Votre compte PME 360 est suspendu jusqu'au ${until} (UTC).`
+            : 'Votre compte PME 360 est suspendu jusqu\'à nouvel ordre.',
+          ...reason,
+        ],
+        footnote: `Pour contester cette décision, écrivez à ${data.supportEmail}.`,
+      };
+  },
+
+  [EmailTemplate.INVITATION]: (data, locale) => {
+    const inviter = data.organization ? `${data.inviterName} (${data.organization})` : data.inviterName;
+    const expires = data.expiresAt?.toLocaleDateString(locale === 'en' ? 'en-GB' : 'fr-FR', {
+      dateStyle: 'long',
+      timeZone: 'UTC',
+    });
+
+    return locale === 'en'
+      ? {
+        subject: `${data.inviterName} invites you to join PME 360`,
+        paragraphs: [
+          'Hello,',
+          `${inviter} invites you to join PME 360, the network of entrepreneurs, experts and investors.`,
+          ...(data.message ? [`"${data.message}"`] : []),
+          `Your invitation code: ${data.code}`,
+        ],
+        action: { label: 'Create my account', url: data.registerUrl },
+        footnote: expires ? `This invitation is valid until ${expires}.` : undefined,
+      }
+      : {
+        subject: `${data.inviterName} vous invite à rejoindre PME 360`,
+        paragraphs: [
+          'Bonjour,',
+          `${inviter} vous invite à rejoindre PME 360, le réseau des entrepreneurs, experts et investisseurs.`,
+          ...(data.message ? [`« ${data.message} »`] : []),
+          `Votre code d'invitation : ${data.code}`,
+        ],
+        action: { label: 'Créer mon compte', url: data.registerUrl },
+        footnote: expires ? `Cette invitation est valable jusqu'au ${expires}.` : undefined,
+      };
+  },
+
+  [EmailTemplate.SAVED_SEARCH_DIGEST]: (data, locale) => {
+    const total = data.searches.reduce((sum, s) => sum + s.total, 0);
+    const lines = data.searches.map(s => locale === 'en'
+      ? `"${s.name}" (${s.total}): ${s.titles.join(', ')}`
+      : `« ${s.name} » (${s.total}) : ${s.titles.join(', ')}`);
+
+    return locale === 'en'
+      ? {
+        subject: `${total} new result(s) for your saved searches - PME 360`,
+        paragraphs: [
+          `Hello ${data.name},`,
+          'New items match your saved searches:',
+          ...lines,
+        ],
+        action: { label: 'View my saved searches', url: data.savedSearchesUrl },
+        footnote: 'You can change the frequency of these alerts or turn off emails from your saved searches.',
+      }
+      : {
+        subject: `${total} nouveau(x) résultat(s) pour vos recherches sauvegardées - PME 360`,
+        paragraphs: [
+          `Bonjour ${data.name},`,
+          'De nouveaux éléments correspondent à vos recherches sauvegardées :',
+          ...lines,
+        ],
+        action: { label: 'Voir mes recherches sauvegardées', url: data.savedSearchesUrl },
+        footnote: 'Vous pouvez modifier la fréquence de ces alertes ou désactiver les emails depuis vos recherches sauvegardées.',
+      };
+  },
+};
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+export const normalizeEmailLocale = (locale?: string | null): EmailLocale =>
+  SUPPORTED_EMAIL_LOCALES.includes(locale as EmailLocale) ? locale as EmailLocale : 'fr';
+
+/**
+ * Produit le sujet et les versions HTML et texte d'un email transactionnel
+ */
+export function renderEmailTemplate<T extends EmailTemplate>(
+  template: T,
+  locale: EmailLocale,
+  data: EmailTemplateData[T]
+): RenderedEmail {
+  const content = (renderers[template] as TemplateRenderer<T>)(data, locale);
+
+  const text = [
+    ...content.paragraphs.flatMap(p => [p, '']),
+    ...(content.action ? [`${content.action.label}${locale === 'en' ? ':' : ' :'} ${content.action.url}`, ''] : []),
+    ...(content.footnote ? [content.footnote, ''] : []),
+    '--',
+    'PME 360',
+  ].join('\n');
+
+  const html = `<!DOCTYPE html>
+<html lang="${locale}">
+  <head><meta charset="utf-8"><title>${escapeHtml(content.subject)}</title></head>
+  <body style="margin:0;padding:24px;background:#f4f5f7;font-family:Arial,Helvetica,sans-serif;color:#1f2933;">
+    <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:32px;">
+      <h1 style="margin:0 0 24px;font-size:20px;color:#1d4ed8;">PME 360</h1>
+      ${content.paragraphs.map(p => `<p style="margin:0 0 16px;line-height:1.5;">${escapeHtml(p)}</p>`).join('\n      ')}
+      ${content.action
+        ? `<p style="margin:24px 0;"><a href="${escapeHtml(content.action.url)}" style="background:#1d4ed8;color:#ffffff;padding:12px 20px;border-radius:6px;text-decoration:none;">${escapeHtml(content.action.label)}</a></p>`
+        : ''}
+      ${content.footnote ? `<p style="margin:0;font-size:13px;color:#616e7c;">${escapeHtml(content.footnote)}</p>` : ''}
+    </div>
+  </body>
+</html>`;
+
+  return { subject: content.subject, html, text };
+}
@@ -0,0 +1,95 @@
+import { PrismaClient } from '@prisma/client';
+import { SimpleJWTService } from '../utils/simple-jwt';
+import { EmailService } from './email';
+import { ProfileCompletionService } from './profile-completion';
+import redisManager from '../config/redis';
+import { logger } from '../config/logger';
+
+const prisma = new PrismaClient();
+
+// Délai minimum entre deux envois pour un même compte
+const RESEND_COOLDOWN_SECONDS = 60;
+// Doit correspondre à l'expiration du token (SimpleJWTService.generateEmailVerificationToken)
+const VERIFICATION_LINK_VALIDITY_HOURS = 24;
+
+export class EmailVerificationService {
+
+  static async sendVerificationEmail(userId: string) {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { id: true, email: true, verified: true },
+      });
+
+      if (!user) {
+        throw new Error('Utilisateur non trouvé');
+      }
+
+      if (user.verified) {
+        throw new Error('Adresse email déjà vérifiée');
+      }
+
+      const cooldownKey = `email_verification_sent:${user.id}`;
+      if (await redisManager.exists(cooldownKey)) {
+        throw new Error('Un email de vérification vient d\'être envoyé, veuillez patienter avant de réessayer');
+      }
+
+      const token = SimpleJWTService.generateEmailVerificationToken(user.id, user.email);
+      await EmailService.sendEmailVerification(user.id, token, VERIFICATION_LINK_VALIDITY_HOURS);
+
+      await redisManager.setex(cooldownKey, RESEND_COOLDOWN_SECONDS, '1');
+
+      logger.info(`📧 Verification email sent to user: ${user.id}`);
+      return { success: true };
+
+    } catch (error) {
+      logger.error('❌ Send verification email error:', error);
+      throw error;
+    }
+  }
+
+  static async confirmEmail(token: string) {
+    try {
+      const payload = SimpleJWTService.verifyEmailVerificationToken(token);
+      if (!payload) {
+        throw new Error('Lien de vérification invalide ou expiré');
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: payload.userId },
+        select: { id: true, email: true, verified: true },
+      });
+
+      // L'email a changé depuis l'envoi du lien : le lien ne prouve plus rien
+      if (!user || user.email !== payload.email) {
+        throw new Error('Lien de vérification invalide ou expiré');
+      }
+
+      if (user.verified) {
+        return { userId: user.id, alreadyVerified: true };
+      }
+
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { verified: true },
+      });
+      await ProfileCompletionService.refresh(user.id);
+
+      logger.info(`✅ Email verified for user: ${user.id}`);
+      return { userId: user.id, alreadyVerified: false };
+
+    } catch (error) {
+      logger.error('❌ Confirm email error:', error);
+      throw error;
+    }
+  }
+
+  // Le claim "verified" du JWT peut dater d'avant la vérification : la base fait foi
+  static async isVerified(userId: string): Promise<boolean> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { verified: true },
+    });
+    return !!user?.verified;
+  }
+}
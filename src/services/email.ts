@@ -0,0 +1,533 @@
+import { PrismaClient, EmailStatus, EventStatus } from '@prisma/client';
+import { MailerService } from './mailer';
+import { NotificationsService } from './notifications';
+import {
+  EmailTemplate,
+  EmailTemplateData,
+  EmailLocale,
+  renderEmailTemplate,
+  normalizeEmailLocale,
+} from './email-templates';
+import { config } from '../config';
+import { logger } from '../config/logger';
+
+const prisma = new PrismaClient();
+
+const OUTBOX_BATCH_SIZE = 20;
+const OUTBOX_POLL_INTERVAL_MS = 30 * 1000;
+const SCHEDULED_JOBS_INTERVAL_MS = 15 * 60 * 1000;
+// Un email resté en SENDING plus longtemps que ça appartient à un worker arrêté en cours d'envoi
+const STALE_LOCK_MS = 10 * 60 * 1000;
+// Délai entre tentatives : 1 min, 4 min, 16 min, ~1 h, ~4 h, puis plafonné à 6 h
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+
+const EVENT_REMINDER_LEAD_MS = 24 * 60 * 60 * 1000;
+// Les messages lus dans l'heure n'ont pas besoin d'apparaître dans le résumé
+const MESSAGE_DIGEST_GRACE_MS = 60 * 60 * 1000;
+
+export interface QueueEmailOptions {
+  userId?: string;
+  dedupeKey?: string;
+  sendAt?: Date;
+}
+
+export interface EmailOutboxFilters {
+  status?: EmailStatus;
+  template?: string;
+  userId?: string;
+  page: number;
+  limit: number;
+}
+
+export class EmailService {
+  private static outboxTimer: NodeJS.Timeout | null = null;
+  private static jobsTimer: NodeJS.Timeout | null = null;
+  private static processing = false;
+
+  /**
+   * Rend le template et l'enregistre dans la file d'envoi.
+   * Retourne null si un email avec la même dedupeKey existe déjà.
+   */
+  static async queue<T extends EmailTemplate>(
+    to: string,
+    template: T,
+    locale: EmailLocale,
+    data: EmailTemplateData[T],
+    options: QueueEmailOptions = {}
+  ) {
+    try {
+      const rendered = renderEmailTemplate(template, locale, data);
+
+      const email = await prisma.emailOutbox.create({
+        data: {
+          userId: options.userId,
+          toEmail: to,
+          template,
+          locale,
+          subject: rendered.subject,
+          html: rendered.html,
+          text: rendered.text,
+          dedupeKey: options.dedupeKey,
+          nextAttemptAt: options.sendAt || new Date(),
+        },
+      });
+
+      logger.info(`📨 Email ${template} queued for ${to} (${email.id})`);
+      return email;
+
+    } catch (error: any) {
+      if (error.code === 'P2002' && options.dedupeKey) {
+        logger.debug(`Email ${template} already queued (${options.dedupeKey})`);
+        return null;
+      }
+      logger.error('❌ Queue email error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Envoie un template à un utilisateur, dans sa langue
+   */
+  static async queueForUser<T extends EmailTemplate>(
+    userId: string,
+    template: T,
+    data: Omit<EmailTemplateData[T], 'name'>,
+    options: Omit<QueueEmailOptions, 'userId'> = {}
+  ) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true, name: true, language: true },
+    });
+
+    if (!user) {
+      throw new Error('Utilisateur non trouvé');
+    }
+
+    return this.queue(
+      user.email,
+      template,
+      normalizeEmailLocale(user.language),
+      { ...data, name: user.name } as EmailTemplateData[T],
+      { ...options, userId }
+    );
+  }
+
+  // ==================== EMAILS MÉTIER ====================
+
+  static async sendPasswordReset(userId: string, resetToken: string, expiresInMinutes: number) {
+    const resetUrl = `${config.FRONTEND_URL}/reset-password?userId=${encodeURIComponent(userId)}&token=${encodeURIComponent(resetToken)}`;
+    // Pas d'attente du worker : l'utilisateur attend ce lien
+    const email = await this.queueForUser(userId, EmailTemplate.PASSWORD_RESET, { resetUrl, expiresInMinutes });
+    if (email) {
+      await this.deliver(email.id);
+    }
+  }
+
+  static async sendEmailVerification(userId: string, verificationToken: string, expiresInHours: number) {
+    const verificationUrl = `${config.FRONTEND_URL}/verify-email?token=${encodeURIComponent(verificationToken)}`;
+    const email = await this.queueForUser(userId, EmailTemplate.EMAIL_VERIFICATION, { verificationUrl, expiresInHours });
+    if (email) {
+      await this.deliver(email.id);
+    }
+  }
+
+  static async sendSecurityAlert(
+    userId: string,
+    alert: Omit<EmailTemplateData[EmailTemplate.SECURITY_ALERT], 'name' | 'securityUrl'>
+  ) {
+    const email = await this.queueForUser(userId, EmailTemplate.SECURITY_ALERT, {
+      ...alert,
+      securityUrl: `${config.FRONTEND_URL}/settings/security`,
+    });
+    if (email) {
+      await this.deliver(email.id);
+    }
+  }
+
+  static async sendAccountStatus(
+    userId: string,
+    status: Omit<EmailTemplateData[EmailTemplate.ACCOUNT_STATUS], 'name' | 'supportEmail'>
+  ) {
+    // Envoi immédiat : l'utilisateur suspendu ne peut plus consulter ses notifications
+    const email = await this.queueForUser(userId, EmailTemplate.ACCOUNT_STATUS, {
+      ...status,
+      supportEmail: config.ADMIN_EMAIL,
+    });
+    if (email) {
+      await this.deliver(email.id);
+    }
+  }
+
+  // Le destinataire n'a pas encore de compte : langue de l'invitant
+  static async sendInvitation(
+    to: string,
+    locale: EmailLocale,
+    invitation: Omit<EmailTemplateData[EmailTemplate.INVITATION], 'registerUrl'>
+  ) {
+    return this.queue(to, EmailTemplate.INVITATION, locale, {
+      ...invitation,
+      registerUrl: `${config.FRONTEND_URL}/register?invitation=${encodeURIComponent(invitation.code)}`,
+    });
+  }
+
+  static async sendApplicationUpdate(applicantId: string, opportunityId: string, opportunityTitle: string, status: string) {
+    return this.queueForUser(applicantId, EmailTemplate.APPLICATION_UPDATE, {
+      opportunityTitle,
+      status,
+      opportunityUrl: `${config.FRONTEND_URL}/opportunities/${opportunityId}`,
+    });
+  }
+
+  /**
+   * Rappel (notification + email) aux inscrits des événements qui commencent dans les 24 h
+   */
+  static async queueEventReminders(now: Date = new Date()) {
+    try {
+      const events = await prisma.event.findMany({
+        where: {
+          status: EventStatus.UPCOMING,
+          startDate: { gt: now, lte: new Date(now.getTime() + EVENT_REMINDER_LEAD_MS) },
+        },
+        include: { registrations: { select: { userId: true } } },
+      });
+
+      let queued = 0;
+      for (const event of events) {
+        for (const { userId } of event.registrations) {
+          const email = await this.queueForUser(userId, EmailTemplate.EVENT_REMINDER, {
+            eventTitle: event.title,
+            startDate: event.startDate,
+            location: event.location,
+            meetingUrl: event.meetingUrl,
+            eventUrl: `${config.FRONTEND_URL}/events/${event.id}`,
+          }, { dedupeKey: `event_reminder:${event.id}:${userId}` });
+
+          // La dedupeKey garantit aussi une seule notification par inscrit
+          if (email) {
+            queued++;
+            await NotificationsService.createEventReminderNotification(userId, event.title, event.startDate, event.id);
+          }
+        }
+      }
+
+      if (queued > 0) {
+        logger.info(`📅 ${queued} event reminder(s) queued`);
+      }
+      return { queued };
+
+    } catch (error) {
+      logger.error('❌ Event reminders error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Résumé quotidien des messages non lus. La fenêtre est calée sur le jour UTC
+   * ([minuit - 24 h - délai de grâce, minuit - délai de grâce[) : tous les passages d'une même
+   * journée couvrent la même période et deux journées consécutives se suivent sans trou.
+   */
+  static async queueMessageDigests(now: Date = new Date()) {
+    try {
+      const startOfDay = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+      const windowEnd = new Date(startOfDay.getTime() - MESSAGE_DIGEST_GRACE_MS);
+      const windowStart = new Date(windowEnd.getTime() - 24 * 60 * 60 * 1000);
+
+      const unread = await prisma.message.findMany({
+        where: {
+          readAt: null,
+          recipientId: { not: null },
+          createdAt: { gte: windowStart, lt: windowEnd },
+        },
+        select: {
+          recipientId: true,
+          content: true,
+          sender: { select: { id: true, name: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      const byRecipient = new Map<string, Map<string, { senderName: string; preview: string; count: number }>>();
+      for (const message of unread) {
+        const senders = byRecipient.get(message.recipientId!) || new Map();
+        const entry = senders.get(message.sender.id);
+        if (entry) {
+          entry.count++;
+        } else {
+          senders.set(message.sender.id, {
+            senderName: message.sender.name,
+            preview: message.content.length > 100 ? `${message.content.slice(0, 97)}...` : message.content,
+            count: 1,
+          });
+        }
+        byRecipient.set(message.recipientId!, senders);
+      }
+
+      const day = startOfDay.toISOString().slice(0, 10);
+      let queued = 0;
+      for (const [recipientId, senders] of byRecipient) {
+        const conversations = Array.from(senders.values());
+        const email = await this.queueForUser(recipientId, EmailTemplate.MESSAGE_DIGEST, {
+          unreadCount: conversations.reduce((sum, c) => sum + c.count, 0),
+          conversations: conversations.slice(0, 5),
+          messagesUrl: `${config.FRONTEND_URL}/messages`,
+        }, { dedupeKey: `message_digest:${recipientId}:${day}` });
+
+        if (email) {
+          queued++;
+        }
+      }
+
+      if (queued > 0) {
+        logger.info(`💬 ${queued} message digest(s) queued`);
+      }
+      return { queued };
+
+    } catch (error) {
+      logger.error('❌ Message digests error:', error);
+      throw error;
+    }
+  }
+
+  // ==================== TRAITEMENT DE LA FILE ====================
+
+  /**
+   * Envoie les emails arrivés à échéance. Plusieurs workers peuvent tourner en parallèle :
+   * chaque email est réservé par une mise à jour conditionnelle avant l'envoi.
+   */
+  static async processOutbox(batchSize: number = OUTBOX_BATCH_SIZE) {
+    if (this.processing) {
+      return { sent: 0, failed: 0 };
+    }
+    this.processing = true;
+
+    try {
+      await this.releaseStaleLocks();
+
+      const due = await prisma.emailOutbox.findMany({
+        where: { status: EmailStatus.PENDING, nextAttemptAt: { lte: new Date() } },
+        select: { id: true },
+        orderBy: { nextAttemptAt: 'asc' },
+        take: batchSize,
+      });
+
+      let sent = 0;
+      let failed = 0;
+      for (const { id } of due) {
+        const delivered = await this.deliver(id);
+        if (delivered === true) sent++;
+        if (delivered === false) failed++;
+      }
+
+      if (sent > 0 || failed > 0) {
+        logger.info(`📬 Email outbox: ${sent} sent, ${failed} failed`);
+      }
+      return { sent, failed };
+
+    } catch (error) {
+      logger.error('❌ Email outbox processing error:', error);
+      throw error;
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  static startWorker() {
+    if (this.outboxTimer) {
+      return;
+    }
+
+    const runOutbox = () => this.processOutbox().catch(() => undefined);
+    const runJobs = async () => {
+      await this.queueEventReminders().catch(() => undefined);
+      await this.queueMessageDigests().catch(() => undefined);
+    };
+
+    this.outboxTimer = setInterval(runOutbox, OUTBOX_POLL_INTERVAL_MS);
+    this.jobsTimer = setInterval(runJobs, SCHEDULED_JOBS_INTERVAL_MS);
+    // Ne pas empêcher l'arrêt du processus
+    this.outboxTimer.unref();
+    this.jobsTimer.unref();
+
+    runOutbox();
+    runJobs();
+    logger.info('📬 Email outbox worker started');
+  }
+
+  static stopWorker() {
+    if (this.outboxTimer) clearInterval(this.outboxTimer);
+    if (this.jobsTimer) clearInterval(this.jobsTimer);
+    this.outboxTimer = null;
+    this.jobsTimer = null;
+  }
+
+  // ==================== ADMINISTRATION ====================
+
+  static async getOutbox(filters: EmailOutboxFilters) {
+    const where: any = {};
+    if (filters.status) where.status = filters.status;
+    if (filters.template) where.template = filters.template;
+    if (filters.userId) where.userId = filters.userId;
+
+    const [total, emails] = await Promise.all([
+      prisma.emailOutbox.count({ where }),
+      prisma.emailOutbox.findMany({
+        where,
+        // Le contenu peut contenir des liens sensibles (réinitialisation de mot de passe)
+        select: {
+          id: true,
+          userId: true,
+          toEmail: true,
+          template: true,
+          locale: true,
+          subject: true,
+          status: true,
+          attempts: true,
+          maxAttempts: true,
+          nextAttemptAt: true,
+          lastError: true,
+          provider: true,
+          providerMessageId: true,
+          sentAt: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit,
+      }),
+    ]);
+
+    return {
+      emails,
+      meta: {
+        page: filters.page,
+        limit: filters.limit,
+        total,
+        totalPages: Math.ceil(total / filters.limit),
+        hasNext: filters.page * filters.limit < total,
+        hasPrev: filters.page > 1,
+      },
+    };
+  }
+
+  static async getStats() {
+    const [byStatus, byTemplate] = await Promise.all([
+      prisma.emailOutbox.groupBy({ by: ['status'], _count: { _all: true } }),
+      prisma.emailOutbox.groupBy({ by: ['template', 'status'], _count: { _all: true } }),
+    ]);
+
+    return {
+      byStatus: Object.fromEntries(
+        Object.values(EmailStatus).map(status => [
+          status,
+          byStatus.find(s => s.status === status)?._count._all || 0,
+        ])
+      ),
+      byTemplate: byTemplate.map(t => ({ template: t.template, status: t.status, count: t._count._all })),
+    };
+  }
+
+  // Relance manuelle d'un email abandonné
+  static async retry(emailId: string) {
+    const email = await prisma.emailOutbox.findUnique({ where: { id: emailId } });
+
+    if (!email) {
+      throw new Error('Email non trouvé');
+    }
+
+    if (email.status !== EmailStatus.FAILED) {
+      throw new Error('Seuls les emails en échec peuvent être relancés');
+    }
+
+    return prisma.emailOutbox.update({
+      where: { id: emailId },
+      data: { status: EmailStatus.PENDING, attempts: 0, nextAttemptAt: new Date(), lastError: null },
+      select: { id: true, status: true, nextAttemptAt: true },
+    });
+  }
+
+  // ==================== MÉTHODES PRIVÉES ====================
+
+  /**
+   * Tente l'envoi d'un email de la file.
+   * Retourne true si envoyé, false en cas d'échec, null s'il était déjà pris par un autre worker.
+   */
+  private static async deliver(emailId: string): Promise<boolean | null> {
+    const { count } = await prisma.emailOutbox.updateMany({
+      where: { id: emailId, status: EmailStatus.PENDING },
+      data: { status: EmailStatus.SENDING, lockedAt: new Date(), attempts: { increment: 1 } },
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    const email = await prisma.emailOutbox.findUnique({ where: { id: emailId } });
+    if (!email) {
+      return null;
+    }
+
+    try {
+      const providerMessageId = await MailerService.send({
+        to: email.toEmail,
+        subject: email.subject,
+        html: email.html,
+        text: email.text,
+      });
+
+      await prisma.emailOutbox.update({
+        where: { id: emailId },
+        data: {
+          status: EmailStatus.SENT,
+          sentAt: new Date(),
+          lockedAt: null,
+          lastError: null,
+          provider: this.transportName(),
+          providerMessageId,
+        },
+      });
+      return true;
+
+    } catch (error: any) {
+      const exhausted = email.attempts >= email.maxAttempts;
+      const delay = Math.min(RETRY_BASE_DELAY_MS * 4 ** (email.attempts - 1), RETRY_MAX_DELAY_MS);
+
+      await prisma.emailOutbox.update({
+        where: { id: emailId },
+        data: {
+          status: exhausted ? EmailStatus.FAILED : EmailStatus.PENDING,
+          nextAttemptAt: new Date(Date.now() + delay),
+          lockedAt: null,
+          lastError: String(error?.message || error).slice(0, 1000),
+          provider: this.transportName(),
+        },
+      });
+
+      if (exhausted) {
+        logger.error(`❌ Email ${emailId} abandoned after ${email.attempts} attempts`);
+      } else {
+        logger.warn(`⚠️ Email ${emailId} failed (attempt ${email.attempts}/${email.maxAttempts}), retry in ${Math.round(delay / 1000)}s`);
+      }
+      return false;
+    }
+  }
+
+  private static transportName(): string | null {
+    try {
+      return MailerService.getTransport().name;
+    } catch {
+      return null;
+    }
+  }
+
+  private static async releaseStaleLocks() {
+    const { count } = await prisma.emailOutbox.updateMany({
+      where: { status: EmailStatus.SENDING, lockedAt: { lt: new Date(Date.now() - STALE_LOCK_MS) } },
+      data: { status: EmailStatus.PENDING, lockedAt: null },
+    });
+
+    if (count > 0) {
+      logger.warn(`⚠️ ${count} stale email lock(s) released`);
+    }
+  }
+}
@@ -1,5 +1,11 @@
-import { PrismaClient, EventType, EventStatus } from '@prisma/client';
+import { PrismaClient, EventType, EventStatus, BookmarkTarget } from '@prisma/client';
 import { NotificationsService } from './notifications';
+import { RESTRICTED_USER_STATUSES } from './moderation';
+import { OrganizationsService, organizationSummarySelect } from './organizations';
+import { PrivacyService } from './privacy';
+import { LocationsService, GeoFilters } from './locations';
+import { BookmarksService } from './bookmarks';
+import { ConnectionsService } from './connections';
 
 const prisma = new PrismaClient();
 
@@ -18,9 +24,10 @@ export interface CreateEventData {
   organizerContact?: string;
   imageFile?: Express.Multer.File;
   creatorId?: string;
+  organizationId?: string; // Publication au nom d'une organisation dont le créateur est membre
 }
 
-export interface EventFilters {
+export interface EventFilters extends GeoFilters {
   type?: string;
   status?: string;
   isOnline?: boolean;
@@ -28,6 +35,10 @@ export interface EventFilters {
   upcoming?: boolean;
   search?: string;
   organizer?: string;
+  organizationId?: string;
+  // Fenêtre de création, utilisée par les alertes des recherches sauvegardées
+  createdAfter?: Date;
+  createdBefore?: Date;
 }
 
 export interface EventPagination {
@@ -43,6 +54,11 @@ export class EventsService {
     try {
       console.log(`📅 Creating event: ${eventData.title}`);
 
+      // Au nom d'une organisation, celle-ci est l'organisatrice par défaut
+      const organizationName = eventData.organizationId
+        ? await OrganizationsService.assertCanPublish(eventData.organizationId, eventData.creatorId)
+        : undefined;
+
       // Upload event image if provided as file
       let imageUrl: string | undefined;
       if (eventData.imageFile && eventData.creatorId) {
@@ -63,15 +79,19 @@ export class EventsService {
           startDate: eventData.startDate,
           endDate: eventData.endDate,
           location: eventData.location,
+          ...LocationsService.toFields(eventData.location),
           isOnline: eventData.isOnline || false,
           meetingUrl: eventData.meetingUrl,
           maxAttendees: eventData.maxAttendees,
           price: eventData.price,
-          organizer: eventData.organizer,
+          organizer: eventData.organizer || organizationName,
           organizerContact: eventData.organizerContact,
+          creatorId: eventData.creatorId,
+          organizationId: eventData.organizationId,
           imageUrl,
         },
         include: {
+          organization: { select: organizationSummarySelect },
           registrations: {
             include: {
               user: {
@@ -106,6 +126,15 @@ export class EventsService {
 
       const where: any = {
         status: EventStatus.UPCOMING, // Par défaut, ne montrer que les événements à venir
+        // Masquer les événements publiés par des comptes suspendus ou bannis
+        AND: [
+          {
+            OR: [
+              { creatorId: null },
+              { creator: { status: { notIn: RESTRICTED_USER_STATUSES } } },
+            ],
+          },
+        ],
       };
 
       // Filtres
@@ -125,14 +154,26 @@ export class EventsService {
         where.location = { contains: filters.location };
       }
 
+      if (filters.country || filters.region || filters.near) {
+        Object.assign(where, LocationsService.where(filters));
+      }
+
       if (filters.organizer) {
         where.organizer = { contains: filters.organizer };
       }
 
+      if (filters.organizationId) {
+        where.organizationId = filters.organizationId;
+      }
+
       if (filters.upcoming) {
         where.startDate = { gte: new Date() };
       }
 
+      if (filters.createdAfter || filters.createdBefore) {
+        where.createdAt = { gt: filters.createdAfter, lte: filters.createdBefore };
+      }
+
       if (filters.search) {
         where.OR = [
           { title: { contains: filters.search } },
@@ -142,17 +183,45 @@ export class EventsService {
         ];
       }
 
+      const include = {
+        organization: { select: organizationSummarySelect },
+        _count: {
+          select: {
+            registrations: true,
+          },
+        },
+      };
+
+      if (filters.near) {
+        // Rayon : les plus proches d'abord, la page est ensuite chargée par identifiants
+        const candidates = await prisma.event.findMany({
+          where,
+          select: { id: true, latitude: true, longitude: true },
+        });
+        const nearby = LocationsService.paginateByDistance(candidates, { ...filters, near: filters.near }, pagination.page, pagination.limit);
+        const rows = await prisma.event.findMany({ where: { id: { in: nearby.ids } }, include });
+        const rowsById = new Map(rows.map(row => [row.id, row]));
+
+        return {
+          events: nearby.ids
+            .filter(id => rowsById.has(id))
+            .map(id => ({ ...rowsById.get(id)!, distanceKm: nearby.distances.get(id) })),
+          meta: {
+            page: pagination.page,
+            limit: pagination.limit,
+            total: nearby.total,
+            totalPages: Math.ceil(nearby.total / pagination.limit),
+            hasNext: pagination.page * pagination.limit < nearby.total,
+            hasPrev: pagination.page > 1,
+          },
+        };
+      }
+
       const total = await prisma.event.count({ where });
 
       const events = await prisma.event.findMany({
         where,
-        include: {
-          _count: {
-            select: {
-              registrations: true,
-            },
-          },
-        },
+        include,
         orderBy: {
           [pagination.sortBy || 'startDate']: pagination.sortOrder || 'asc',
         },
@@ -185,6 +254,7 @@ export class EventsService {
       const event = await prisma.event.findUnique({
         where: { id: eventId },
         include: {
+          organization: { select: organizationSummarySelect },
           registrations: userId ? {
             where: { userId },
           } : {
@@ -211,7 +281,15 @@ export class EventsService {
         throw new Error('Événement non trouvé');
       }
 
-      return event;
+      // Les événements d'un membre bloqué (ou qui a bloqué le visiteur) restent masqués
+      if (userId && event.creatorId && userId !== event.creatorId && await ConnectionsService.isBlocked(userId, event.creatorId)) {
+        throw new Error('Événement non trouvé');
+      }
+
+      return {
+        ...event,
+        isBookmarked: await BookmarksService.isBookmarked(userId, BookmarkTarget.EVENT, eventId),
+      };
 
     } catch (error) {
       console.error('❌ Get event by ID error:', error);
@@ -219,7 +297,7 @@ export class EventsService {
     }
   }
 
-  static async updateEvent(eventId: string, organizerName: string, updateData: Partial<CreateEventData>) {
+  static async updateEvent(eventId: string, organizerName: string, updateData: Partial<CreateEventData>, canModerate = false, userId?: string) {
     try {
       console.log(`📅 Updating event ${eventId}`);
 
@@ -232,7 +310,11 @@ export class EventsService {
         throw new Error('Événement non trouvé');
       }
 
-      if (existingEvent.organizer !== organizerName) {
+      if (
+        existingEvent.organizer !== organizerName &&
+        !canModerate &&
+        !(await OrganizationsService.canManage(existingEvent.organizationId, userId))
+      ) {
         throw new Error('Non autorisé à modifier cet événement');
       }
 
@@ -266,6 +348,7 @@ export class EventsService {
           startDate: updateData.startDate,
           endDate: updateData.endDate,
           location: updateData.location,
+          ...(updateData.location !== undefined ? LocationsService.toFields(updateData.location) : {}),
           isOnline: updateData.isOnline,
           meetingUrl: updateData.meetingUrl,
           maxAttendees: updateData.maxAttendees,
@@ -292,7 +375,7 @@ export class EventsService {
     }
   }
 
-  static async deleteEvent(eventId: string, organizerName: string) {
+  static async deleteEvent(eventId: string, organizerName: string, canModerate = false, userId?: string) {
     try {
       console.log(`🗑️ Deleting event ${eventId}`);
 
@@ -304,13 +387,18 @@ export class EventsService {
         throw new Error('Événement non trouvé');
       }
 
-      if (existingEvent.organizer !== organizerName) {
+      if (
+        existingEvent.organizer !== organizerName &&
+        !canModerate &&
+        !(await OrganizationsService.canManage(existingEvent.organizationId, userId))
+      ) {
         throw new Error('Non autorisé à supprimer cet événement');
       }
 
       await prisma.event.delete({
         where: { id: eventId },
       });
+      await BookmarksService.removeTarget(BookmarkTarget.EVENT, eventId);
 
       console.log(`✅ Event deleted: ${eventId}`);
       return { success: true };
@@ -451,7 +539,7 @@ export class EventsService {
     }
   }
 
-  static async getEventRegistrations(eventId: string, organizerName: string, pagination: EventPagination) {
+  static async getEventRegistrations(eventId: string, organizerName: string, pagination: EventPagination, canViewAll = false, userId?: string) {
     try {
       console.log(`📋 Getting registrations for event ${eventId}`);
 
@@ -464,7 +552,11 @@ export class EventsService {
         throw new Error('Événement non trouvé');
       }
 
-      if (event.organizer !== organizerName) {
+      if (
+        event.organizer !== organizerName &&
+        !canViewAll &&
+        !(await OrganizationsService.canManage(event.organizationId, userId))
+      ) {
         throw new Error('Non autorisé à voir les inscriptions');
       }
 
@@ -493,8 +585,14 @@ export class EventsService {
         take: pagination.limit,
       });
 
+      // Coordonnées des inscrits selon leurs réglages de confidentialité vis-à-vis de l'organisateur
+      const privacy = await PrivacyService.scope(userId, registrations.map(registration => registration.user));
+
       return {
-        registrations,
+        registrations: registrations.map(registration => ({
+          ...registration,
+          user: privacy.serialize(registration.user),
+        })),
         meta: {
           page: pagination.page,
           limit: pagination.limit,
@@ -0,0 +1,362 @@
+import { PrismaClient, Prisma, ProfileType, ExpertiseVerificationStatus } from '@prisma/client';
+import { ConnectionsService } from './connections';
+import { NotificationsService } from './notifications';
+import { logger } from '../config/logger';
+
+const prisma = new PrismaClient();
+
+// Profils pouvant faire vérifier leurs expertises sur justificatifs
+export const VERIFICATION_PROFILE_TYPES: ProfileType[] = [ProfileType.EXPERT, ProfileType.MENTOR];
+
+export const MAX_VERIFICATION_DOCUMENTS = 5;
+
+export interface VerificationDocument {
+  url: string;
+  publicId: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+}
+
+export interface VerificationQueueFilters {
+  status?: ExpertiseVerificationStatus;
+  page: number;
+  limit: number;
+}
+
+export type VerificationDecision = 'APPROVE' | 'REJECT';
+
+const endorserSelect = {
+  id: true,
+  name: true,
+  avatar: true,
+  profileType: true,
+  company: true,
+};
+
+export class ExpertisesService {
+
+  // ==================== RECOMMANDATIONS ====================
+
+  /**
+   * Recommandation d'une expertise par une relation (connexion acceptée)
+   */
+  static async endorse(endorserId: string, userId: string, expertiseId: string, comment?: string) {
+    try {
+      const expertise = await this.findExpertise(userId, expertiseId);
+
+      if (endorserId === userId) {
+        throw new Error('Vous ne pouvez pas recommander vos propres expertises');
+      }
+      if (!(await ConnectionsService.areConnected(endorserId, userId))) {
+        throw new Error('Vous devez être en relation avec ce membre pour recommander ses expertises');
+      }
+
+      const endorsement = await prisma.expertiseEndorsement.create({
+        data: { expertiseId, endorserId, comment: comment?.trim() },
+        include: { endorser: { select: endorserSelect } },
+      });
+
+      await this.syncCounts([expertiseId]);
+
+      try {
+        await NotificationsService.createSystemNotification(
+          userId,
+          'Nouvelle recommandation',
+          `${endorsement.endorser.name} recommande votre expertise « ${expertise.name} ».`,
+          '/profile/expertises'
+        );
+      } catch (notificationError) {
+        logger.error('❌ Failed to notify endorsement:', notificationError);
+      }
+
+      logger.info(`👍 Expertise ${expertiseId} endorsed by ${endorserId}`);
+      return endorsement;
+
+    } catch (error: any) {
+      if (error?.code === 'P2002') {
+        throw new Error('Vous recommandez déjà cette expertise');
+      }
+      logger.error('❌ Endorse expertise error:', error);
+      throw error;
+    }
+  }
+
+  static async withdrawEndorsement(endorserId: string, userId: string, expertiseId: string) {
+    try {
+      const { count } = await prisma.expertiseEndorsement.deleteMany({
+        where: { expertiseId, endorserId, expertise: { userId } },
+      });
+
+      if (count === 0) {
+        throw new Error('Recommandation non trouvée');
+      }
+
+      await this.syncCounts([expertiseId]);
+      return { success: true };
+
+    } catch (error) {
+      logger.error('❌ Withdraw endorsement error:', error);
+      throw error;
+    }
+  }
+
+  static async getEndorsements(userId: string, expertiseId: string) {
+    const expertise = await this.findExpertise(userId, expertiseId);
+
+    const endorsements = await prisma.expertiseEndorsement.findMany({
+      where: { expertiseId, endorser: { deletedAt: null } },
+      select: { comment: true, createdAt: true, endorser: { select: endorserSelect } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return {
+      expertise: {
+        id: expertise.id,
+        name: expertise.name,
+        level: expertise.level,
+        verified: expertise.verified,
+        endorsementCount: expertise.endorsementCount,
+      },
+      endorsements,
+    };
+  }
+
+  /**
+   * Recalcule les compteurs dénormalisés des expertises et de leurs propriétaires
+   */
+  static async syncCounts(expertiseIds: string[]) {
+    const userIds = new Set<string>();
+
+    for (const expertiseId of expertiseIds) {
+      const endorsementCount = await prisma.expertiseEndorsement.count({ where: { expertiseId } });
+      const expertise = await prisma.userExpertise.update({
+        where: { id: expertiseId },
+        data: { endorsementCount },
+        select: { userId: true },
+      }).catch(() => null); // Expertise supprimée entre-temps
+
+      if (expertise) userIds.add(expertise.userId);
+    }
+
+    for (const userId of userIds) {
+      await this.syncUserCount(userId);
+    }
+  }
+
+  static async syncUserCount(userId: string) {
+    const { _sum } = await prisma.userExpertise.aggregate({
+      where: { userId },
+      _sum: { endorsementCount: true },
+    });
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { endorsementCount: _sum.endorsementCount ?? 0 },
+    });
+  }
+
+  /**
+   * Effacement du compte : retire ses recommandations et supprime ses justificatifs du stockage
+   */
+  static async purgeUser(userId: string) {
+    const endorsed = await prisma.expertiseEndorsement.findMany({
+      where: { endorserId: userId },
+      select: { expertiseId: true },
+    });
+    await prisma.expertiseEndorsement.deleteMany({ where: { endorserId: userId } });
+    await this.syncCounts(endorsed.map(endorsement => endorsement.expertiseId));
+
+    const requests = await prisma.expertiseVerificationRequest.findMany({
+      where: { userId },
+      select: { documents: true },
+    });
+    if (requests.length > 0) {
+      const { FileUploadService } = await import('./file-upload');
+      for (const request of requests) {
+        for (const document of this.formatRequest(request).documents) {
+          await FileUploadService.deleteFile(document.publicId);
+        }
+      }
+      await prisma.expertiseVerificationRequest.deleteMany({ where: { userId } });
+    }
+  }
+
+  // ==================== VÉRIFICATION SUR JUSTIFICATIFS ====================
+
+  /**
+   * Demande de vérification d'une expertise (experts et mentors).
+   * Les justificatifs ne sont envoyés vers le stockage qu'une fois la demande jugée recevable.
+   */
+  static async requestVerification(userId: string, expertiseId: string, files: Express.Multer.File[], message?: string) {
+    try {
+      const user = await prisma.user.findUnique({ where: { id: userId }, select: { profileType: true } });
+      if (!user || !VERIFICATION_PROFILE_TYPES.includes(user.profileType)) {
+        throw new Error('La vérification des expertises est réservée aux experts et mentors');
+      }
+
+      const expertise = await this.findExpertise(userId, expertiseId);
+      if (expertise.verified) {
+        throw new Error('Cette expertise est déjà vérifiée');
+      }
+
+      const pending = await prisma.expertiseVerificationRequest.count({
+        where: { expertiseId, status: ExpertiseVerificationStatus.PENDING },
+      });
+      if (pending > 0) {
+        throw new Error('Une demande de vérification est déjà en cours pour cette expertise');
+      }
+
+      if (files.length === 0) {
+        throw new Error('Au moins un justificatif est requis');
+      }
+
+      const { FileUploadService, FileType } = await import('./file-upload');
+      const documents: VerificationDocument[] = [];
+      for (const file of files) {
+        const uploadResult = await FileUploadService.uploadFile(file, FileType.VERIFICATION_DOCUMENT, userId);
+        documents.push({
+          url: uploadResult.url,
+          publicId: uploadResult.publicId,
+          filename: file.originalname,
+          mimeType: file.mimetype,
+          size: file.size,
+        });
+      }
+
+      const request = await prisma.expertiseVerificationRequest.create({
+        data: {
+          expertiseId,
+          userId,
+          message: message?.trim(),
+          documents: JSON.stringify(documents),
+        },
+      });
+
+      logger.info(`📑 Verification requested for expertise ${expertiseId} by ${userId} (${documents.length} document(s))`);
+      return this.formatRequest({ ...request, expertise: { id: expertise.id, name: expertise.name, level: expertise.level } });
+
+    } catch (error) {
+      logger.error('❌ Request expertise verification error:', error);
+      throw error;
+    }
+  }
+
+  static async getUserVerificationRequests(userId: string) {
+    const requests = await prisma.expertiseVerificationRequest.findMany({
+      where: { userId },
+      include: { expertise: { select: { id: true, name: true, level: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return requests.map(request => this.formatRequest(request));
+  }
+
+  /**
+   * File d'examen des demandes (les plus anciennes d'abord)
+   */
+  static async getVerificationQueue(filters: VerificationQueueFilters) {
+    try {
+      const where: Prisma.ExpertiseVerificationRequestWhereInput = {
+        status: filters.status ?? ExpertiseVerificationStatus.PENDING,
+      };
+
+      const [requests, total] = await Promise.all([
+        prisma.expertiseVerificationRequest.findMany({
+          where,
+          include: {
+            expertise: { select: { id: true, name: true, level: true, endorsementCount: true } },
+            user: { select: { ...endorserSelect, email: true, linkedin: true, website: true } },
+          },
+          orderBy: { createdAt: 'asc' },
+          skip: (filters.page - 1) * filters.limit,
+          take: filters.limit,
+        }),
+        prisma.expertiseVerificationRequest.count({ where }),
+      ]);
+
+      return {
+        requests: requests.map(request => this.formatRequest(request)),
+        meta: {
+          page: filters.page,
+          limit: filters.limit,
+          total,
+          totalPages: Math.ceil(total / filters.limit),
+          hasNext: filters.page * filters.limit < total,
+          hasPrev: filters.page > 1,
+        },
+      };
+
+    } catch (error) {
+      logger.error('❌ Get verification queue error:', error);
+      throw error;
+    }
+  }
+
+  static async reviewVerification(requestId: string, moderatorId: string, decision: VerificationDecision, note?: string) {
+    try {
+      const request = await prisma.expertiseVerificationRequest.findUnique({
+        where: { id: requestId },
+        include: { expertise: { select: { id: true, name: true } } },
+      });
+
+      if (!request) {
+        throw new Error('Demande de vérification non trouvée');
+      }
+      if (request.status !== ExpertiseVerificationStatus.PENDING) {
+        throw new Error('Cette demande a déjà été traitée');
+      }
+
+      const approved = decision === 'APPROVE';
+
+      await prisma.$transaction([
+        prisma.expertiseVerificationRequest.update({
+          where: { id: requestId },
+          data: {
+            status: approved ? ExpertiseVerificationStatus.APPROVED : ExpertiseVerificationStatus.REJECTED,
+            reviewedById: moderatorId,
+            reviewedAt: new Date(),
+            reviewNote: note,
+          },
+        }),
+        ...(approved ? [prisma.userExpertise.update({ where: { id: request.expertiseId }, data: { verified: true } })] : []),
+      ]);
+
+      try {
+        await NotificationsService.createSystemNotification(
+          request.userId,
+          approved ? 'Expertise vérifiée' : 'Vérification refusée',
+          approved
+            ? `Votre expertise « ${request.expertise.name} » est désormais vérifiée.`
+            : `Votre demande de vérification pour « ${request.expertise.name} » n'a pas été acceptée.${note ? ` Motif : ${note}` : ''}`,
+          '/profile/expertises'
+        );
+      } catch (notificationError) {
+        logger.error('❌ Failed to notify verification decision:', notificationError);
+      }
+
+      logger.info(`🛡️ Verification request ${requestId} ${approved ? 'approved' : 'rejected'} by ${moderatorId}`);
+      return { requestId, expertiseId: request.expertiseId, userId: request.userId, decision };
+
+    } catch (error) {
+      logger.error('❌ Review expertise verification error:', error);
+      throw error;
+    }
+  }
+
+  private static async findExpertise(userId: string, expertiseId: string) {
+    const expertise = await prisma.userExpertise.findFirst({
+      where: { id: expertiseId, userId, user: { deletedAt: null } },
+    });
+
+    if (!expertise) {
+      throw new Error('Expertise non trouvée');
+    }
+
+    return expertise;
+  }
+
+  private static formatRequest<T extends { documents: string }>(request: T) {
+    return { ...request, documents: JSON.parse(request.documents) as VerificationDocument[] };
+  }
+}
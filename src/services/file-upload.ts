@@ -19,6 +19,7 @@ export enum FileType {
   APPLICATION_DOCUMENT = 'application_document',
   EVENT_IMAGE = 'event_image',
   COMPANY_LOGO = 'company_logo',
+  VERIFICATION_DOCUMENT = 'verification_document',
 }
 
 // Configuration pour chaque type de fichier
@@ -59,6 +60,12 @@ const FILE_CONFIGS = {
     folder: 'pme360/companies',
     transformation: { width: 300, height: 300, crop: 'fit', quality: 'auto' },
   },
+  [FileType.VERIFICATION_DOCUMENT]: {
+    maxSize: 10 * 1024 * 1024, // 10MB
+    allowedFormats: ['pdf', 'jpg', 'jpeg', 'png'],
+    folder: 'pme360/verifications',
+    transformation: {},
+  },
 };
 
 interface UploadResult {
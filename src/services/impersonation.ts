@@ -0,0 +1,248 @@
+import { PrismaClient, UserSession } from '@prisma/client';
+import { SessionService, SessionContext, SessionRevokeReason } from './sessions';
+import { NotificationsService } from './notifications';
+import { AuditService, AuditActions } from './audit';
+import { RolesService, Permission } from './roles';
+import { RESTRICTED_USER_STATUSES } from './moderation';
+import { SimpleJWTService } from '../utils/simple-jwt';
+import { config } from '../config';
+import { logger } from '../config/logger';
+
+const prisma = new PrismaClient();
+
+const IMPERSONATION_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Sessions d'assistance terminées (révoquées ou expirées) dont l'utilisateur n'a pas encore été prévenu
+const unfinishedImpersonationFilter = {
+  OR: [{ revokedReason: null }, { revokedReason: { not: SessionRevokeReason.IMPERSONATION_ENDED } }],
+};
+
+export interface ImpersonationRequestLog {
+  userId: string;
+  impersonatorId: string;
+  sessionId?: string;
+  method: string;
+  path: string;
+  statusCode: number;
+  ip?: string;
+  userAgent?: string;
+}
+
+export class ImpersonationService {
+  private static sweepTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Émet un token d'assistance permettant à un administrateur d'agir en tant que l'utilisateur
+   */
+  static async start(userId: string, impersonatorId: string, reason: string, context: SessionContext = {}) {
+    try {
+      if (userId === impersonatorId) {
+        throw new Error('Vous ne pouvez pas vous connecter en tant que vous-même');
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { id: true, name: true, email: true, profileType: true, verified: true, status: true, deletedAt: true },
+      });
+
+      if (!user || user.deletedAt) {
+        throw new Error('Utilisateur non trouvé');
+      }
+      if (RESTRICTED_USER_STATUSES.includes(user.status)) {
+        throw new Error('Impossible de se connecter à un compte suspendu ou banni');
+      }
+
+      // Un compte d'administration ne peut pas être emprunté : ses droits ne doivent jamais être délégués
+      if (
+        await RolesService.hasPermission(user, Permission.USERS_MANAGE) ||
+        await RolesService.hasPermission(user, Permission.USERS_IMPERSONATE)
+      ) {
+        throw new Error('Impossible de se connecter en tant qu\'un administrateur');
+      }
+
+      const { sessionId, expiresAt, token } = await SessionService.startImpersonationSession(
+        user.id,
+        impersonatorId,
+        reason,
+        config.IMPERSONATION_TTL_MINUTES * 60 * 1000,
+        context,
+        sessionId => SimpleJWTService.generateImpersonationToken({
+          userId: user.id,
+          email: user.email,
+          profileType: user.profileType,
+          verified: user.verified,
+          sessionId,
+          impersonatorId,
+        }, config.IMPERSONATION_TTL_MINUTES)
+      );
+
+      await AuditService.logAdminAction(
+        AuditActions.IMPERSONATION_START,
+        impersonatorId,
+        'USER',
+        user.id,
+        { sessionId, reason, expiresAt },
+        context.ipAddress,
+        context.userAgent
+      );
+
+      logger.info(`🕵️ Admin ${impersonatorId} is impersonating user ${user.id} until ${expiresAt.toISOString()}`);
+
+      return {
+        accessToken: token,
+        tokenType: 'Bearer' as const,
+        expiresAt,
+        sessionId,
+        user: { id: user.id, name: user.name, email: user.email, profileType: user.profileType },
+      };
+
+    } catch (error) {
+      logger.error('❌ Start impersonation error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Termine la session d'assistance en cours et prévient l'utilisateur
+   */
+  static async end(sessionId: string, userId: string, context: SessionContext = {}) {
+    try {
+      const session = await prisma.userSession.findFirst({
+        where: { id: sessionId, userId, impersonatorId: { not: null } },
+      });
+
+      if (!session) {
+        throw new Error('Aucune session d\'assistance en cours');
+      }
+
+      await SessionService.revokeSession(sessionId, userId, SessionRevokeReason.IMPERSONATION_ENDED);
+      await this.finalize(session, 'ENDED', context);
+
+      return { success: true };
+
+    } catch (error) {
+      logger.error('❌ End impersonation error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Trace une requête effectuée avec un token d'assistance, sous l'identité de l'utilisateur
+   * et sous celle de l'administrateur
+   */
+  static async auditRequest(entry: ImpersonationRequestLog): Promise<void> {
+    const details = {
+      sessionId: entry.sessionId,
+      method: entry.method,
+      path: entry.path,
+      statusCode: entry.statusCode,
+    };
+    const success = entry.statusCode < 400;
+
+    await AuditService.log({
+      userId: entry.impersonatorId,
+      action: AuditActions.IMPERSONATION_REQUEST,
+      resource: 'USER',
+      resourceId: entry.userId,
+      details: { ...details, impersonatedUserId: entry.userId },
+      ip: entry.ip,
+      userAgent: entry.userAgent,
+      success,
+    });
+
+    await AuditService.log({
+      userId: entry.userId,
+      action: AuditActions.IMPERSONATION_REQUEST,
+      resource: 'USER',
+      resourceId: entry.userId,
+      details: { ...details, impersonatorId: entry.impersonatorId },
+      ip: entry.ip,
+      userAgent: entry.userAgent,
+      success,
+    });
+  }
+
+  /**
+   * Clôture les sessions d'assistance expirées ou révoquées par un autre moyen
+   * (déconnexion, révocation depuis la liste des appareils...)
+   */
+  static async sweepEndedSessions(now: Date = new Date()) {
+    try {
+      const sessions = await prisma.userSession.findMany({
+        where: {
+          impersonatorId: { not: null },
+          AND: [
+            unfinishedImpersonationFilter,
+            { OR: [{ revokedAt: { not: null } }, { expiresAt: { lte: now } }] },
+          ],
+        },
+      });
+
+      for (const session of sessions) {
+        const { count } = await prisma.userSession.updateMany({
+          where: { id: session.id, ...unfinishedImpersonationFilter },
+          data: { revokedAt: session.revokedAt ?? now, revokedReason: SessionRevokeReason.IMPERSONATION_ENDED },
+        });
+
+        if (count > 0) {
+          await this.finalize(session, session.revokedReason || 'EXPIRED');
+        }
+      }
+
+      return sessions.length;
+
+    } catch (error) {
+      logger.error('❌ Impersonation sweep error:', error);
+      return 0;
+    }
+  }
+
+  static startWorker() {
+    if (this.sweepTimer) {
+      return;
+    }
+
+    this.sweepTimer = setInterval(() => this.sweepEndedSessions(), IMPERSONATION_SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+  }
+
+  static stopWorker() {
+    if (this.sweepTimer) clearInterval(this.sweepTimer);
+    this.sweepTimer = null;
+  }
+
+  private static async finalize(session: UserSession, endReason: string, context: SessionContext = {}) {
+    const requestCount = await prisma.auditLog.count({
+      where: {
+        userId: session.userId,
+        action: AuditActions.IMPERSONATION_REQUEST,
+        details: { contains: session.id },
+      },
+    });
+
+    await AuditService.logAdminAction(
+      AuditActions.IMPERSONATION_END,
+      session.impersonatorId!,
+      'USER',
+      session.userId,
+      { sessionId: session.id, endReason, requestCount },
+      context.ipAddress,
+      context.userAgent
+    );
+
+    try {
+      await NotificationsService.createSystemNotification(
+        session.userId,
+        'Connexion de l\'équipe d\'assistance',
+        `Un membre de l'équipe PME 360 s'est connecté à votre compte le ${session.createdAt.toLocaleString('fr-FR')} ` +
+          `(${requestCount} action${requestCount > 1 ? 's' : ''} effectuée${requestCount > 1 ? 's' : ''}). ` +
+          `Motif : ${session.impersonationReason || 'non précisé'}`,
+        '/settings/sessions'
+      );
+    } catch (notificationError) {
+      logger.error('❌ Failed to notify impersonation:', notificationError);
+    }
+
+    logger.info(`🕵️ Impersonation session ${session.id} ended (${endReason}), user ${session.userId} notified`);
+  }
+}
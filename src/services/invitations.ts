@@ -0,0 +1,368 @@
+import { PrismaClient, Prisma, ProfileType, Invitation } from '@prisma/client';
+import crypto from 'crypto';
+import { EmailService } from './email';
+import { normalizeEmailLocale } from './email-templates';
+import { NotificationsService } from './notifications';
+import { RolesService, Permission, PermissionSubject } from './roles';
+import { config } from '../config';
+import { logger } from '../config/logger';
+import { ValidationError } from '../types';
+
+const prisma = new PrismaClient();
+
+// Profils autorisés à parrainer de nouveaux membres (en plus de la permission invitations:manage)
+export const INVITATION_SPONSOR_PROFILE_TYPES: ProfileType[] = [ProfileType.INCUBATOR];
+
+// Alphabet sans caractères ambigus (0/O, 1/I/L) : les codes sont recopiés à la main
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+
+export interface CreateInvitationData {
+  profileType?: ProfileType;
+  maxUses?: number;
+  expiresInDays?: number;
+  label?: string;
+}
+
+export interface SendInvitationsData {
+  emails: string[];
+  profileType?: ProfileType;
+  expiresInDays?: number;
+  label?: string;
+  message?: string;
+}
+
+export interface InvitationFilters {
+  active?: boolean;
+  page: number;
+  limit: number;
+}
+
+const invitationSelect = {
+  id: true,
+  code: true,
+  profileType: true,
+  email: true,
+  label: true,
+  maxUses: true,
+  usedCount: true,
+  expiresAt: true,
+  revokedAt: true,
+  lastSentAt: true,
+  createdAt: true,
+  createdBy: { select: { id: true, name: true, company: true } },
+};
+
+export class InvitationService {
+
+  static async canSponsor(user: PermissionSubject & { profileType: string }): Promise<boolean> {
+    return INVITATION_SPONSOR_PROFILE_TYPES.includes(user.profileType as ProfileType)
+      || await RolesService.hasPermission(user, Permission.INVITATIONS_MANAGE);
+  }
+
+  /**
+   * Crée un code d'invitation, à usage unique ou partagé par une cohorte
+   */
+  static async createInvitation(sponsor: PermissionSubject & { profileType: string }, data: CreateInvitationData, email?: string) {
+    try {
+      await this.assertCanSponsor(sponsor, data.profileType);
+
+      const expiresInDays = data.expiresInDays ?? config.INVITATION_DEFAULT_TTL_DAYS;
+      const invitation = await this.createWithUniqueCode({
+        createdById: sponsor.id,
+        profileType: data.profileType,
+        email: email?.toLowerCase().trim(),
+        label: data.label?.trim(),
+        maxUses: email ? 1 : data.maxUses ?? 1,
+        expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+      });
+
+      logger.info(`🎟️ Invitation ${invitation.code} created by ${sponsor.id} (${invitation.maxUses} use(s))`);
+      return this.formatInvitation(invitation);
+
+    } catch (error) {
+      logger.error('❌ Create invitation error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Invite une liste d'adresses : une invitation nominative par adresse, envoyée par email.
+   * Les adresses déjà inscrites sont ignorées.
+   */
+  static async sendInvitations(sponsor: PermissionSubject & { profileType: string }, data: SendInvitationsData) {
+    try {
+      await this.assertCanSponsor(sponsor, data.profileType);
+
+      const inviter = await prisma.user.findUnique({
+        where: { id: sponsor.id },
+        select: { name: true, company: true, language: true },
+      });
+      if (!inviter) {
+        throw new Error('Utilisateur non trouvé');
+      }
+
+      const emails = Array.from(new Set(data.emails.map(email => email.toLowerCase().trim())));
+      const registered = await prisma.user.findMany({
+        where: { email: { in: emails } },
+        select: { email: true },
+      });
+      const registeredEmails = new Set(registered.map(user => user.email));
+
+      const sent = [];
+      const skipped: Array<{ email: string; reason: string }> = [];
+
+      for (const email of emails) {
+        if (registeredEmails.has(email)) {
+          skipped.push({ email, reason: 'Un compte existe déjà avec cette adresse' });
+          continue;
+        }
+
+        const invitation = await this.createInvitation(sponsor, {
+          profileType: data.profileType,
+          expiresInDays: data.expiresInDays,
+          label: data.label,
+        }, email);
+
+        await EmailService.sendInvitation(email, normalizeEmailLocale(inviter.language), {
+          inviterName: inviter.name,
+          organization: inviter.company,
+          message: data.message,
+          code: invitation.code,
+          expiresAt: invitation.expiresAt,
+        });
+        await prisma.invitation.update({ where: { id: invitation.id }, data: { lastSentAt: new Date() } });
+
+        sent.push(invitation);
+      }
+
+      logger.info(`📨 ${sent.length} invitations sent by ${sponsor.id} (${skipped.length} skipped)`);
+      return { sent, skipped };
+
+    } catch (error) {
+      logger.error('❌ Send invitations error:', error);
+      throw error;
+    }
+  }
+
+  static async listInvitations(sponsor: PermissionSubject, filters: InvitationFilters) {
+    try {
+      const now = new Date();
+      const where: Prisma.InvitationWhereInput = {
+        createdById: sponsor.id,
+        ...(filters.active !== undefined && (filters.active
+          ? { revokedAt: null, OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] }
+          : { OR: [{ revokedAt: { not: null } }, { expiresAt: { lte: now } }] })),
+      };
+
+      const [invitations, total] = await Promise.all([
+        prisma.invitation.findMany({
+          where,
+          select: invitationSelect,
+          orderBy: { createdAt: 'desc' },
+          skip: (filters.page - 1) * filters.limit,
+          take: filters.limit,
+        }),
+        prisma.invitation.count({ where }),
+      ]);
+
+      return {
+        invitations: invitations.map(invitation => this.formatInvitation(invitation)),
+        meta: {
+          page: filters.page,
+          limit: filters.limit,
+          total,
+          totalPages: Math.ceil(total / filters.limit),
+          hasNext: filters.page * filters.limit < total,
+          hasPrev: filters.page > 1,
+        },
+      };
+
+    } catch (error) {
+      logger.error('❌ List invitations error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Détail d'une invitation et membres inscrits grâce à elle
+   */
+  static async getInvitation(sponsor: PermissionSubject, invitationId: string) {
+    const invitation = await this.getManageableInvitation(sponsor, invitationId);
+
+    const users = await prisma.user.findMany({
+      where: { invitationId },
+      select: { id: true, name: true, company: true, profileType: true, createdAt: true },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return { ...this.formatInvitation(invitation), users };
+  }
+
+  static async revokeInvitation(sponsor: PermissionSubject, invitationId: string) {
+    try {
+      const invitation = await this.getManageableInvitation(sponsor, invitationId);
+      if (invitation.revokedAt) {
+        throw new Error('Cette invitation est déjà révoquée');
+      }
+
+      const revoked = await prisma.invitation.update({
+        where: { id: invitationId },
+        data: { revokedAt: new Date() },
+        select: invitationSelect,
+      });
+
+      logger.info(`🎟️ Invitation ${revoked.code} revoked by ${sponsor.id}`);
+      return this.formatInvitation(revoked);
+
+    } catch (error) {
+      logger.error('❌ Revoke invitation error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Aperçu public d'un code, affiché sur la page d'inscription
+   */
+  static async previewCode(code: string) {
+    const invitation = await prisma.invitation.findUnique({
+      where: { code: this.normalizeCode(code) },
+      select: invitationSelect,
+    });
+
+    if (!invitation || this.unusableReason(invitation)) {
+      throw new Error('Code d\'invitation invalide ou expiré');
+    }
+
+    return {
+      code: invitation.code,
+      profileType: invitation.profileType,
+      restrictedToEmail: !!invitation.email,
+      expiresAt: invitation.expiresAt,
+      invitedBy: { name: invitation.createdBy.name, company: invitation.createdBy.company },
+    };
+  }
+
+  /**
+   * Vérifie le code présenté à l'inscription. Retourne null si aucun code n'est fourni
+   * et que les inscriptions sont ouvertes.
+   */
+  static async resolveForRegistration(code: string | undefined, email: string): Promise<Invitation | null> {
+    if (!code) {
+      if (config.REGISTRATION_MODE === 'invitation') {
+        throw new ValidationError('Les inscriptions se font uniquement sur invitation');
+      }
+      return null;
+    }
+
+    const invitation = await prisma.invitation.findUnique({ where: { code: this.normalizeCode(code) } });
+    if (!invitation) {
+      throw new ValidationError('Code d\'invitation invalide');
+    }
+
+    const reason = this.unusableReason(invitation);
+    if (reason) {
+      throw new ValidationError(reason);
+    }
+    if (invitation.email && invitation.email !== email.toLowerCase().trim()) {
+      throw new ValidationError('Cette invitation est destinée à une autre adresse email');
+    }
+
+    return invitation;
+  }
+
+  /**
+   * Consomme une utilisation, dans la transaction de création du compte :
+   * deux inscriptions simultanées ne peuvent pas dépasser maxUses
+   */
+  static async consume(tx: Prisma.TransactionClient, invitation: Invitation) {
+    const { count } = await tx.invitation.updateMany({
+      where: { id: invitation.id, revokedAt: null, usedCount: { lt: invitation.maxUses } },
+      data: { usedCount: { increment: 1 } },
+    });
+
+    if (count === 0) {
+      throw new ValidationError('Cette invitation a déjà été utilisée');
+    }
+  }
+
+  // Informe le parrain de l'arrivée du nouveau membre
+  static async onRegistered(invitation: Invitation, user: { id: string; name: string }) {
+    try {
+      await NotificationsService.createSystemNotification(
+        invitation.createdById,
+        'Invitation acceptée',
+        `${user.name} a rejoint PME 360 grâce à votre invitation${invitation.label ? ` « ${invitation.label} »` : ''}.`,
+        `/profile/${user.id}`
+      );
+    } catch (notificationError) {
+      logger.error('❌ Failed to notify invitation sponsor:', notificationError);
+    }
+  }
+
+  private static async assertCanSponsor(sponsor: PermissionSubject & { profileType: string }, profileType?: ProfileType) {
+    if (!(await this.canSponsor(sponsor))) {
+      throw new Error('Vous n\'êtes pas autorisé à émettre des invitations');
+    }
+    if (profileType === ProfileType.ADMIN) {
+      throw new Error('Ce type de profil ne peut pas être attribué par invitation');
+    }
+  }
+
+  private static async getManageableInvitation(sponsor: PermissionSubject, invitationId: string) {
+    const invitation = await prisma.invitation.findUnique({
+      where: { id: invitationId },
+      select: { ...invitationSelect, createdById: true },
+    });
+
+    if (!invitation) {
+      throw new Error('Invitation non trouvée');
+    }
+    if (invitation.createdById !== sponsor.id && !(await RolesService.hasPermission(sponsor, Permission.INVITATIONS_MANAGE))) {
+      throw new Error('Accès non autorisé à cette invitation');
+    }
+
+    return invitation;
+  }
+
+  private static unusableReason(invitation: { revokedAt: Date | null; expiresAt: Date | null; usedCount: number; maxUses: number }) {
+    if (invitation.revokedAt) return 'Cette invitation a été révoquée';
+    if (invitation.expiresAt && invitation.expiresAt <= new Date()) return 'Cette invitation a expiré';
+    if (invitation.usedCount >= invitation.maxUses) return 'Cette invitation a déjà été utilisée';
+    return null;
+  }
+
+  private static async createWithUniqueCode(data: Omit<Prisma.InvitationUncheckedCreateInput, 'code'>) {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await prisma.invitation.create({
+          data: { ...data, code: this.generateCode() },
+          select: invitationSelect,
+        });
+      } catch (error: any) {
+        if (error.code !== 'P2002' || attempt >= 2) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  private static generateCode(): string {
+    const chars = Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)]);
+    return `${chars.slice(0, 4).join('')}-${chars.slice(4).join('')}`;
+  }
+
+  // Accepte les codes saisis en minuscules, avec ou sans tiret
+  private static normalizeCode(code: string): string {
+    const compact = code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+    return compact.length === CODE_LENGTH ? `${compact.slice(0, 4)}-${compact.slice(4)}` : compact;
+  }
+
+  private static formatInvitation<T extends { revokedAt: Date | null; expiresAt: Date | null; usedCount: number; maxUses: number }>(invitation: T) {
+    return {
+      ...invitation,
+      remainingUses: Math.max(0, invitation.maxUses - invitation.usedCount),
+      active: !this.unusableReason(invitation),
+    };
+  }
+}
@@ -0,0 +1,421 @@
+import { PrismaClient } from '@prisma/client';
+import { logger } from '../config/logger';
+import { COUNTRIES, REGIONS, CITIES, GazetteerCity, GazetteerCountry } from '../data/gazetteer';
+
+const prisma = new PrismaClient();
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LATITUDE = 111.32;
+
+export const DEFAULT_RADIUS_KM = 50;
+export const MAX_RADIUS_KM = 500;
+
+const MIGRATION_BATCH_SIZE = 500;
+const UNRESOLVED_SAMPLE_LIMIT = 20;
+
+// Lieux sans coordonnées : ni ville ni pays à en déduire
+const REMOTE_LOCATIONS = ['en ligne', 'online', 'a distance', 'distanciel', 'remote', 'teletravail', 'visioconference', 'webinaire'];
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface StructuredLocation {
+  city: string | null;
+  regionCode: string | null;
+  countryCode: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+export interface GeoFilters {
+  country?: string;
+  region?: string;
+  near?: GeoPoint;
+  radiusKm?: number;
+}
+
+// Conditions communes aux utilisateurs, opportunités et événements (mêmes colonnes)
+export interface GeoWhere {
+  countryCode?: string;
+  regionCode?: string;
+  latitude?: { gte: number; lte: number };
+  longitude?: { gte: number; lte: number };
+}
+
+export interface LocationSuggestion extends StructuredLocation {
+  label: string;
+  regionName: string | null;
+  countryName: string;
+}
+
+export interface LocationMigrationReport {
+  users: { scanned: number; resolved: number };
+  opportunities: { scanned: number; resolved: number };
+  events: { scanned: number; resolved: number };
+  unresolved: string[];
+}
+
+const EMPTY_LOCATION: StructuredLocation = {
+  city: null,
+  regionCode: null,
+  countryCode: null,
+  latitude: null,
+  longitude: null,
+};
+
+// Clé de comparaison : sans accents, casse ni ponctuation ("Saint-Étienne" → "saint etienne")
+const toKey = (value: string) => value
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .toLowerCase()
+  .replace(/[^a-z0-9]+/g, ' ')
+  .trim();
+
+const index = <T>(entries: T[], names: (entry: T) => string[]) => {
+  const map = new Map<string, T[]>();
+  for (const entry of entries) {
+    for (const name of names(entry)) {
+      const key = toKey(name);
+      map.set(key, [...(map.get(key) ?? []), entry]);
+    }
+  }
+  return map;
+};
+
+// Noms et alias, pour un segment entier ("Cocody" → Abidjan)
+const citiesByName = index(CITIES, city => [city.name, ...(city.aliases ?? [])]);
+// Noms officiels seulement, pour une recherche à l'intérieur d'un segment ("Paris 15e", "Lyon Part-Dieu")
+const citiesByCanonicalName = index(CITIES, city => [city.name]);
+const regionsByName = index(REGIONS, region => [region.name, ...(region.aliases ?? [])]);
+const countriesByName = index(COUNTRIES, country => [country.name, country.nameEn, ...(country.aliases ?? [])]);
+const countriesByCode = new Map(COUNTRIES.map(country => [country.code, country]));
+const regionsByCode = new Map(REGIONS.map(region => [region.code, region]));
+
+export class LocationsService {
+
+  /**
+   * Déduit ville, région, pays et coordonnées d'une localisation saisie librement
+   * ("Abidjan", "Cocody, Abidjan, Côte d'Ivoire", "Palais des Congrès, Paris").
+   * Le pays éventuellement mentionné départage les homonymes. Null si rien n'est reconnu.
+   */
+  static resolve(text?: string | null): StructuredLocation | null {
+    if (!text?.trim() || this.isRemote(text)) {
+      return null;
+    }
+
+    const segments = text.split(/[,;/|()]+/).map(segment => segment.trim()).filter(Boolean);
+    const keys = segments.map(toKey).filter(Boolean);
+
+    const country = segments
+      .map(segment => /^[A-Z]{2}$/.test(segment) ? countriesByCode.get(segment) : countriesByName.get(toKey(segment))?.[0])
+      .find(Boolean) ?? null;
+
+    for (const key of keys) {
+      const city = this.pick(citiesByName.get(key), country);
+      if (city) return this.fromCity(city);
+    }
+
+    // Nom de ville au sein d'un segment : les suites de mots les plus longues d'abord
+    for (const key of keys) {
+      const words = key.split(' ');
+      for (let size = Math.min(words.length - 1, 3); size >= 1; size--) {
+        for (let start = 0; start + size <= words.length; start++) {
+          const city = this.pick(citiesByCanonicalName.get(words.slice(start, start + size).join(' ')), country);
+          if (city) return this.fromCity(city);
+        }
+      }
+    }
+
+    for (const key of keys) {
+      const region = this.pick(regionsByName.get(key), country);
+      if (region) return { ...EMPTY_LOCATION, regionCode: region.code, countryCode: region.countryCode };
+    }
+
+    return country ? { ...EMPTY_LOCATION, countryCode: country.code } : null;
+  }
+
+  /**
+   * Colonnes structurées à enregistrer pour une localisation (toutes à null si elle n'est pas reconnue)
+   */
+  static toFields(text?: string | null): StructuredLocation {
+    return this.resolve(text) ?? { ...EMPTY_LOCATION };
+  }
+
+  static isRemote(text: string): boolean {
+    return REMOTE_LOCATIONS.includes(toKey(text));
+  }
+
+  /**
+   * Libellé lisible d'une localisation structurée ("Abidjan, Côte d'Ivoire")
+   */
+  static describe(location: Pick<StructuredLocation, 'city' | 'regionCode' | 'countryCode'>): string {
+    const country = location.countryCode ? countriesByCode.get(location.countryCode) : undefined;
+    const region = location.regionCode ? regionsByCode.get(location.regionCode) : undefined;
+
+    return [location.city ?? region?.name, country?.name].filter(Boolean).join(', ');
+  }
+
+  /**
+   * Termes ajoutés à l'index de recherche des membres : pays en français et en anglais
+   */
+  static searchTerms(location: Pick<StructuredLocation, 'city' | 'regionCode' | 'countryCode'>): string {
+    const country = location.countryCode ? countriesByCode.get(location.countryCode) : undefined;
+    const region = location.regionCode ? regionsByCode.get(location.regionCode) : undefined;
+
+    return [location.city, region?.name, country?.name, country?.nameEn].filter(Boolean).join(' ');
+  }
+
+  // ==================== GAZETTEER ====================
+
+  /**
+   * Suggestions de villes pour l'autocomplétion (début du nom ou d'un alias)
+   */
+  static suggest(query: string, limit: number = 10, countryCode?: string): LocationSuggestion[] {
+    const key = toKey(query);
+    if (!key) {
+      return [];
+    }
+
+    const matches = new Set<GazetteerCity>();
+    for (const [name, cities] of citiesByName) {
+      if (!name.startsWith(key) && !name.includes(` ${key}`)) continue;
+      for (const city of cities) {
+        if (!countryCode || city.countryCode === countryCode) matches.add(city);
+      }
+    }
+
+    // Correspondances sur le nom officiel d'abord, puis ordre du gazetteer (villes principales)
+    return [...matches]
+      .sort((a, b) => Number(!toKey(a.name).startsWith(key)) - Number(!toKey(b.name).startsWith(key))
+        || CITIES.indexOf(a) - CITIES.indexOf(b))
+      .slice(0, limit)
+      .map(city => {
+        const location = this.fromCity(city);
+        return {
+          ...location,
+          label: this.describe(location),
+          regionName: city.regionCode ? regionsByCode.get(city.regionCode)?.name ?? null : null,
+          countryName: countriesByCode.get(city.countryCode)!.name,
+        };
+      });
+  }
+
+  /**
+   * Pays et régions connus, pour les filtres par code
+   */
+  static listCountries() {
+    return COUNTRIES
+      .map(country => ({
+        code: country.code,
+        name: country.name,
+        nameEn: country.nameEn,
+        regions: REGIONS
+          .filter(region => region.countryCode === country.code)
+          .map(region => ({ code: region.code, name: region.name })),
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name, 'fr'));
+  }
+
+  // ==================== RECHERCHE PAR DISTANCE ====================
+
+  /**
+   * Conditions Prisma des filtres géographiques. Le rayon est approché par un cadre
+   * (à affiner avec rankByDistance) pour profiter de l'index sur les coordonnées.
+   */
+  static where(filters: GeoFilters): GeoWhere {
+    const where: GeoWhere = {};
+
+    if (filters.country) {
+      where.countryCode = filters.country.toUpperCase();
+    }
+    if (filters.region) {
+      where.regionCode = filters.region.toUpperCase();
+    }
+
+    if (filters.near) {
+      const radiusKm = filters.radiusKm ?? DEFAULT_RADIUS_KM;
+      const { latitude, longitude } = filters.near;
+      const latitudeDelta = radiusKm / KM_PER_DEGREE_LATITUDE;
+      const longitudeDelta = radiusKm / (KM_PER_DEGREE_LATITUDE * Math.max(Math.cos(latitude * Math.PI / 180), 0.01));
+
+      where.latitude = { gte: Math.max(latitude - latitudeDelta, -90), lte: Math.min(latitude + latitudeDelta, 90) };
+      where.longitude = { gte: longitude - longitudeDelta, lte: longitude + longitudeDelta };
+    }
+
+    return where;
+  }
+
+  /**
+   * Lignes situées dans le rayon, de la plus proche à la plus éloignée
+   */
+  static rankByDistance(
+    rows: Array<{ id: string; latitude: number | null; longitude: number | null }>,
+    near: GeoPoint,
+    radiusKm: number = DEFAULT_RADIUS_KM
+  ): Array<{ id: string; distanceKm: number }> {
+    return rows
+      .filter(row => row.latitude !== null && row.longitude !== null)
+      .map(row => ({
+        id: row.id,
+        distanceKm: this.distanceKm(near, { latitude: row.latitude!, longitude: row.longitude! }),
+      }))
+      .filter(row => row.distanceKm <= radiusKm)
+      .sort((a, b) => a.distanceKm - b.distanceKm);
+  }
+
+  /**
+   * Page de résultats triés par distance : identifiants de la page, distances et total dans le rayon
+   */
+  static paginateByDistance(
+    rows: Array<{ id: string; latitude: number | null; longitude: number | null }>,
+    filters: GeoFilters & { near: GeoPoint },
+    page: number,
+    limit: number
+  ) {
+    const ranked = this.rankByDistance(rows, filters.near, filters.radiusKm);
+    const pageRows = ranked.slice((page - 1) * limit, page * limit);
+
+    return {
+      ids: pageRows.map(row => row.id),
+      distances: new Map(pageRows.map(row => [row.id, row.distanceKm])),
+      total: ranked.length,
+    };
+  }
+
+  /**
+   * Distance orthodromique (formule de haversine), arrondie à 100 m
+   */
+  static distanceKm(from: GeoPoint, to: GeoPoint): number {
+    const toRadians = (degrees: number) => degrees * Math.PI / 180;
+    const dLatitude = toRadians(to.latitude - from.latitude);
+    const dLongitude = toRadians(to.longitude - from.longitude);
+
+    const a = Math.sin(dLatitude / 2) ** 2
+      + Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLongitude / 2) ** 2;
+
+    return Math.round(2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a)) * 10) / 10;
+  }
+
+  // ==================== MIGRATION ====================
+
+  /**
+   * Renseigne les colonnes structurées des localisations saisies avant leur introduction.
+   * Seules les lignes encore non structurées sont traitées : l'opération peut être relancée sans risque.
+   */
+  static async migrateFreeText(): Promise<LocationMigrationReport> {
+    try {
+      const unresolved = new Map<string, number>();
+      const pending = { location: { not: null }, countryCode: null };
+
+      const users = await this.migrateBatches(
+        afterId => prisma.user.findMany({
+          where: { ...pending, deletedAt: null, id: { gt: afterId } },
+          select: { id: true, location: true },
+          orderBy: { id: 'asc' },
+          take: MIGRATION_BATCH_SIZE,
+        }),
+        (id, fields) => prisma.user.update({ where: { id }, data: fields }),
+        unresolved
+      );
+
+      const opportunities = await this.migrateBatches(
+        afterId => prisma.opportunity.findMany({
+          where: { ...pending, id: { gt: afterId } },
+          select: { id: true, location: true },
+          orderBy: { id: 'asc' },
+          take: MIGRATION_BATCH_SIZE,
+        }),
+        (id, fields) => prisma.opportunity.update({ where: { id }, data: fields }),
+        unresolved
+      );
+
+      const events = await this.migrateBatches(
+        afterId => prisma.event.findMany({
+          where: { ...pending, id: { gt: afterId } },
+          select: { id: true, location: true },
+          orderBy: { id: 'asc' },
+          take: MIGRATION_BATCH_SIZE,
+        }),
+        (id, fields) => prisma.event.update({ where: { id }, data: fields }),
+        unresolved
+      );
+
+      // Le pays et la région rejoignent l'index de recherche des membres
+      const { SearchService } = await import('./search');
+      await SearchService.reindexUsers(users.resolvedIds);
+
+      const report: LocationMigrationReport = {
+        users: { scanned: users.scanned, resolved: users.resolvedIds.length },
+        opportunities: { scanned: opportunities.scanned, resolved: opportunities.resolvedIds.length },
+        events: { scanned: events.scanned, resolved: events.resolvedIds.length },
+        // Saisies les plus fréquentes à ajouter au gazetteer
+        unresolved: [...unresolved.entries()]
+          .sort((a, b) => b[1] - a[1])
+          .slice(0, UNRESOLVED_SAMPLE_LIMIT)
+          .map(([location]) => location),
+      };
+
+      const resolved = report.users.resolved + report.opportunities.resolved + report.events.resolved;
+      if (resolved > 0) {
+        logger.info(`🗺️ Structured locations migrated: ${report.users.resolved} user(s), ${report.opportunities.resolved} opportunit(ies), ${report.events.resolved} event(s)`);
+      }
+
+      return report;
+
+    } catch (error) {
+      logger.error('❌ Location migration error:', error);
+      throw error;
+    }
+  }
+
+  private static async migrateBatches(
+    findBatch: (afterId: string) => Promise<Array<{ id: string; location: string | null }>>,
+    update: (id: string, fields: StructuredLocation) => Promise<unknown>,
+    unresolved: Map<string, number>
+  ) {
+    const resolvedIds: string[] = [];
+    let scanned = 0;
+    let afterId = '';
+
+    for (;;) {
+      const batch = await findBatch(afterId);
+      if (batch.length === 0) break;
+
+      for (const row of batch) {
+        const fields = this.resolve(row.location);
+        if (fields) {
+          await update(row.id, fields);
+          resolvedIds.push(row.id);
+        } else if (row.location && !this.isRemote(row.location)) {
+          unresolved.set(row.location, (unresolved.get(row.location) ?? 0) + 1);
+        }
+      }
+
+      scanned += batch.length;
+      afterId = batch[batch.length - 1].id;
+    }
+
+    return { scanned, resolvedIds };
+  }
+
+  private static pick<T extends { countryCode: string }>(candidates: T[] | undefined, country: GazetteerCountry | null): T | null {
+    if (!candidates?.length) {
+      return null;
+    }
+    return country
+      ? candidates.find(candidate => candidate.countryCode === country.code) ?? null
+      : candidates[0];
+  }
+
+  private static fromCity(city: GazetteerCity): StructuredLocation {
+    return {
+      city: city.name,
+      regionCode: city.regionCode,
+      countryCode: city.countryCode,
+      latitude: city.latitude,
+      longitude: city.longitude,
+    };
+  }
+}
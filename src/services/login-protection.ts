@@ -0,0 +1,389 @@
+import { PrismaClient } from '@prisma/client';
+import { SessionContext } from './sessions';
+import { TwoFactorService } from './two-factor';
+import { NotificationsService } from './notifications';
+import { EmailService } from './email';
+import { AuditService, AuditActions } from './audit';
+import { SimpleJWTService } from '../utils/simple-jwt';
+import { TooManyRequestsError } from '../types';
+import { config } from '../config';
+import { logger } from '../config/logger';
+
+const prisma = new PrismaClient();
+
+const IP_WINDOW_MS = 15 * 60 * 1000;
+const RISK_WINDOW_MS = 60 * 60 * 1000;
+// Délai progressif : 1 s après le 2e échec consécutif, puis doublé à chaque échec (plafonné)
+const PROGRESSIVE_DELAY_AFTER = 2;
+const PROGRESSIVE_DELAY_MAX_SECONDS = 30;
+// Au-delà, la tentative est tracée dans l'audit comme SUSPICIOUS_ACTIVITY
+const SUSPICIOUS_RISK_THRESHOLD = 50;
+// Nombre d'emails différents essayés depuis une même IP en 1 h évoquant du credential stuffing
+const CREDENTIAL_STUFFING_DISTINCT_EMAILS = 5;
+
+export enum LoginFailureReason {
+  UNKNOWN_EMAIL = 'UNKNOWN_EMAIL',
+  INVALID_PASSWORD = 'INVALID_PASSWORD',
+  INVALID_2FA = 'INVALID_2FA',
+}
+
+export interface LoginRiskAssessment {
+  riskScore: number;
+  factors: string[];
+  newIp: boolean;
+  newCountry: boolean;
+}
+
+interface LoginUser {
+  id: string;
+  email: string;
+}
+
+export class LoginProtectionService {
+
+  /**
+   * Refuse la tentative si l'IP est bloquée, si le compte est verrouillé
+   * ou si le délai progressif depuis le dernier échec n'est pas écoulé.
+   */
+  static async assertLoginAllowed(email: string, ipAddress?: string): Promise<void> {
+    const now = Date.now();
+
+    if (ipAddress) {
+      const ipFailures = await prisma.loginAttempt.findMany({
+        where: { ipAddress, success: false, createdAt: { gte: new Date(now - IP_WINDOW_MS) } },
+        select: { createdAt: true },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      if (ipFailures.length >= config.LOGIN_IP_MAX_FAILURES) {
+        // L'IP est débloquée quand les échecs les plus anciens sortent de la fenêtre
+        const releaseAt = ipFailures[ipFailures.length - config.LOGIN_IP_MAX_FAILURES].createdAt.getTime() + IP_WINDOW_MS;
+        logger.warn(`🚫 Login blocked for IP ${ipAddress} (${ipFailures.length} failures)`);
+        throw new TooManyRequestsError(
+          'Trop de tentatives de connexion depuis cette adresse, veuillez réessayer plus tard',
+          Math.max(Math.ceil((releaseAt - now) / 1000), 1)
+        );
+      }
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: email.toLowerCase() },
+      select: { id: true, failedLoginAttempts: true, lastFailedLoginAt: true, lockedUntil: true },
+    });
+
+    if (!user) {
+      return;
+    }
+
+    if (user.lockedUntil && user.lockedUntil.getTime() > now) {
+      throw new TooManyRequestsError(
+        'Compte temporairement verrouillé suite à de trop nombreuses tentatives de connexion',
+        Math.ceil((user.lockedUntil.getTime() - now) / 1000)
+      );
+    }
+
+    const delaySeconds = this.getProgressiveDelay(user.failedLoginAttempts);
+    if (delaySeconds > 0 && user.lastFailedLoginAt) {
+      const remainingMs = user.lastFailedLoginAt.getTime() + delaySeconds * 1000 - now;
+      if (remainingMs > 0) {
+        throw new TooManyRequestsError(
+          'Veuillez patienter avant une nouvelle tentative de connexion',
+          Math.ceil(remainingMs / 1000)
+        );
+      }
+    }
+  }
+
+  /**
+   * Enregistre un échec ; verrouille le compte et prévient son propriétaire au-delà du seuil
+   */
+  static async recordFailure(
+    email: string,
+    context: SessionContext,
+    user: LoginUser | null,
+    reason: LoginFailureReason
+  ): Promise<void> {
+    try {
+      const assessment = await this.assessRisk(email, context, user?.id);
+
+      await prisma.loginAttempt.create({
+        data: {
+          userId: user?.id,
+          email: email.toLowerCase(),
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+          country: context.country,
+          success: false,
+          failureReason: reason,
+          riskScore: assessment.riskScore,
+        },
+      });
+
+      if (assessment.riskScore >= SUSPICIOUS_RISK_THRESHOLD) {
+        await AuditService.logSecurityEvent(
+          AuditActions.SUSPICIOUS_ACTIVITY,
+          'Tentative de connexion suspecte',
+          context.ipAddress,
+          context.userAgent,
+          user?.id,
+          { email: email.toLowerCase(), reason, ...assessment }
+        );
+      }
+
+      if (!user) {
+        return;
+      }
+
+      const updated = await prisma.user.update({
+        where: { id: user.id },
+        data: { failedLoginAttempts: { increment: 1 }, lastFailedLoginAt: new Date() },
+        select: { failedLoginAttempts: true },
+      });
+
+      if (updated.failedLoginAttempts >= config.LOGIN_MAX_FAILED_ATTEMPTS) {
+        await this.lockAccount(user, context, updated.failedLoginAttempts, assessment.riskScore);
+      }
+
+    } catch (error) {
+      // Ne pas masquer l'erreur d'identifiants renvoyée à l'appelant
+      logger.error('❌ Failed to record login failure:', error);
+    }
+  }
+
+  /**
+   * Enregistre une connexion réussie et prévient le propriétaire si elle vient d'une IP ou d'un pays inconnus
+   */
+  static async recordSuccess(user: LoginUser, context: SessionContext): Promise<LoginRiskAssessment | null> {
+    try {
+      const assessment = await this.assessRisk(user.email, context, user.id);
+
+      await prisma.$transaction([
+        prisma.loginAttempt.create({
+          data: {
+            userId: user.id,
+            email: user.email,
+            ipAddress: context.ipAddress,
+            userAgent: context.userAgent,
+            country: context.country,
+            success: true,
+            riskScore: assessment.riskScore,
+          },
+        }),
+        prisma.user.update({
+          where: { id: user.id },
+          data: { failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null },
+        }),
+      ]);
+
+      if (assessment.riskScore >= SUSPICIOUS_RISK_THRESHOLD) {
+        await AuditService.logSecurityEvent(
+          AuditActions.SUSPICIOUS_ACTIVITY,
+          'Connexion réussie à risque élevé',
+          context.ipAddress,
+          context.userAgent,
+          user.id,
+          assessment
+        );
+      }
+
+      if (assessment.newIp || assessment.newCountry) {
+        await this.notifyNewLogin(user, context);
+      }
+
+      return assessment;
+
+    } catch (error) {
+      logger.error('❌ Failed to record login success:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Seconde étape de connexion : un code 2FA erroné compte comme un échec de connexion
+   */
+  static async verifyTwoFactorChallenge(challengeToken: string, code: string, context: SessionContext): Promise<string> {
+    const pendingUserId = SimpleJWTService.verifyChallengeToken(challengeToken, 'login');
+    const user = pendingUserId
+      ? await prisma.user.findUnique({ where: { id: pendingUserId }, select: { id: true, email: true } })
+      : null;
+
+    if (!user) {
+      throw new Error('Challenge 2FA invalide ou expiré');
+    }
+
+    await this.assertLoginAllowed(user.email, context.ipAddress);
+
+    try {
+      return await TwoFactorService.verifyLoginChallenge(challengeToken, code);
+    } catch (error: any) {
+      if (error.message === 'Code de vérification invalide') {
+        await this.recordFailure(user.email, context, user, LoginFailureReason.INVALID_2FA);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Score de risque (0-100) d'une tentative, à partir de l'historique des connexions
+   */
+  static async assessRisk(email: string, context: SessionContext, userId?: string): Promise<LoginRiskAssessment> {
+    const since = new Date(Date.now() - RISK_WINDOW_MS);
+    const factors: string[] = [];
+    let riskScore = 0;
+
+    const [accountFailures, ipFailures, knownLogins] = await Promise.all([
+      prisma.loginAttempt.count({
+        where: { email: email.toLowerCase(), success: false, createdAt: { gte: since } },
+      }),
+      context.ipAddress
+        ? prisma.loginAttempt.findMany({
+          where: { ipAddress: context.ipAddress, success: false, createdAt: { gte: since } },
+          select: { email: true },
+        })
+        : Promise.resolve([]),
+      userId
+        ? prisma.loginAttempt.findMany({
+          where: { userId, success: true },
+          select: { ipAddress: true, country: true },
+          orderBy: { createdAt: 'desc' },
+          take: 50,
+        })
+        : Promise.resolve([]),
+    ]);
+
+    if (accountFailures > 0) {
+      factors.push(`${accountFailures} échec(s) de connexion sur le compte en 1h`);
+      riskScore += Math.min(accountFailures * 10, 40);
+    }
+
+    const distinctEmails = new Set(ipFailures.map(attempt => attempt.email)).size;
+    if (distinctEmails >= CREDENTIAL_STUFFING_DISTINCT_EMAILS) {
+      factors.push(`${distinctEmails} comptes différents essayés depuis cette adresse IP en 1h`);
+      riskScore += 40;
+    } else if (ipFailures.length >= 10) {
+      factors.push(`${ipFailures.length} échecs de connexion depuis cette adresse IP en 1h`);
+      riskScore += 20;
+    }
+
+    // Sans historique (première connexion), rien ne permet de juger l'IP ou le pays
+    const newIp = knownLogins.length > 0 && !!context.ipAddress
+      && !knownLogins.some(login => login.ipAddress === context.ipAddress);
+    const knownCountries = knownLogins.map(login => login.country).filter(Boolean);
+    const newCountry = knownCountries.length > 0 && !!context.country
+      && !knownCountries.includes(context.country);
+
+    if (newCountry) {
+      factors.push(`Connexion depuis un nouveau pays (${context.country})`);
+      riskScore += 30;
+    } else if (newIp) {
+      factors.push('Connexion depuis une nouvelle adresse IP');
+      riskScore += 15;
+    }
+
+    return { riskScore: Math.min(riskScore, 100), factors, newIp, newCountry };
+  }
+
+  static async getLoginHistory(userId: string, limit: number = 20) {
+    return prisma.loginAttempt.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        ipAddress: true,
+        userAgent: true,
+        country: true,
+        success: true,
+        failureReason: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  // Déverrouillage manuel par un administrateur
+  static async unlockAccount(userId: string) {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+    if (!user) {
+      throw new Error('Utilisateur non trouvé');
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null },
+    });
+
+    logger.info(`🔓 Account unlocked: ${userId}`);
+    return { success: true };
+  }
+
+  // ==================== MÉTHODES PRIVÉES ====================
+
+  private static getProgressiveDelay(consecutiveFailures: number): number {
+    if (consecutiveFailures < PROGRESSIVE_DELAY_AFTER) {
+      return 0;
+    }
+    return Math.min(2 ** (consecutiveFailures - PROGRESSIVE_DELAY_AFTER), PROGRESSIVE_DELAY_MAX_SECONDS);
+  }
+
+  private static async lockAccount(user: LoginUser, context: SessionContext, failures: number, riskScore: number) {
+    const lockedUntil = new Date(Date.now() + config.LOGIN_LOCKOUT_MINUTES * 60 * 1000);
+
+    // Le compteur repart de zéro : à la fin du verrouillage, l'utilisateur dispose de nouveau de N essais
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { lockedUntil, failedLoginAttempts: 0 },
+    });
+
+    logger.warn(`🔒 Account locked until ${lockedUntil.toISOString()}: ${user.email}`);
+
+    await AuditService.logSecurityEvent(
+      AuditActions.ACCOUNT_LOCKED,
+      `Compte verrouillé après ${failures} échecs de connexion`,
+      context.ipAddress,
+      context.userAgent,
+      user.id,
+      { lockedUntil: lockedUntil.toISOString(), riskScore }
+    );
+
+    try {
+      await NotificationsService.createSystemNotification(
+        user.id,
+        'Compte temporairement verrouillé',
+        `Suite à ${failures} tentatives de connexion échouées, votre compte est verrouillé pendant ${config.LOGIN_LOCKOUT_MINUTES} minutes.`,
+        '/settings/security'
+      );
+      await EmailService.sendSecurityAlert(user.id, {
+        alert: 'ACCOUNT_LOCKED',
+        date: new Date(),
+        lockedUntil,
+        ipAddress: context.ipAddress,
+        country: context.country,
+        device: context.deviceName,
+      });
+    } catch (notificationError) {
+      logger.error('❌ Failed to notify account lockout:', notificationError);
+    }
+  }
+
+  private static async notifyNewLogin(user: LoginUser, context: SessionContext) {
+    try {
+      const origin = [context.ipAddress, context.country].filter(Boolean).join(', ');
+
+      await NotificationsService.createSystemNotification(
+        user.id,
+        'Nouvelle connexion détectée',
+        `Une connexion à votre compte a eu lieu depuis un nouvel emplacement (${origin}). Si ce n'était pas vous, changez votre mot de passe.`,
+        '/settings/security'
+      );
+      await EmailService.sendSecurityAlert(user.id, {
+        alert: 'NEW_LOGIN',
+        date: new Date(),
+        ipAddress: context.ipAddress,
+        country: context.country,
+        device: context.deviceName,
+      });
+    } catch (error) {
+      logger.error('❌ Failed to notify new login:', error);
+    }
+  }
+}
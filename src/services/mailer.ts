@@ -0,0 +1,308 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import tls from 'tls';
+import { config } from '../config';
+import { logger } from '../config/logger';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  // Retourne l'identifiant attribué par le fournisseur, s'il en donne un
+  send(message: MailMessage): Promise<string | null>;
+}
+
+// Production : API HTTP v3 de SendGrid (config.SENDGRID_API_KEY / config.FROM_EMAIL)
+export class SendGridTransport implements MailTransport {
+  readonly name = 'sendgrid';
+
+  constructor(private apiKey: string, private from: string) {}
+
+  async send(message: MailMessage): Promise<string | null> {
+    const response = await fetch('https://api.sendgrid.com/v3/mail/send', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        personalizations: [{ to: [{ email: message.to }] }],
+        from: { email: this.from, name: 'PME 360' },
+        subject: message.subject,
+        content: [
+          { type: 'text/plain', value: message.text },
+          { type: 'text/html', value: message.html },
+        ],
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new Error(`SendGrid error ${response.status}: ${body}`);
+    }
+
+    return response.headers.get('x-message-id');
+  }
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // TLS implicite (port 465) ; sinon STARTTLS si le serveur le propose
+  user?: string;
+  pass?: string;
+}
+
+// Client SMTP minimal (EHLO, STARTTLS, AUTH PLAIN) : suffisant pour un relais d'entreprise
+// ou un serveur de test local comme Mailpit/MailHog, sans dépendance supplémentaire
+export class SmtpTransport implements MailTransport {
+  readonly name = 'smtp';
+  private static readonly TIMEOUT_MS = 30000;
+
+  constructor(private options: SmtpOptions, private from: string) {}
+
+  async send(message: MailMessage): Promise<string | null> {
+    let connection = await SmtpConnection.open(this.options, SmtpTransport.TIMEOUT_MS);
+
+    try {
+      await connection.expect(220);
+      let capabilities = await connection.command(`EHLO ${os.hostname()}`, 250);
+
+      if (!this.options.secure && /^STARTTLS$/m.test(capabilities.replace(/^\d{3}[ -]/gm, ''))) {
+        await connection.command('STARTTLS', 220);
+        connection = await connection.upgrade(this.options.host);
+        capabilities = await connection.command(`EHLO ${os.hostname()}`, 250);
+      }
+
+      if (this.options.user) {
+        const credentials = Buffer.from(`\0${this.options.user}\0${this.options.pass || ''}`).toString('base64');
+        await connection.command(`AUTH PLAIN ${credentials}`, 235);
+      }
+
+      await connection.command(`MAIL FROM:<${this.from}>`, 250);
+      await connection.command(`RCPT TO:<${message.to}>`, [250, 251]);
+      await connection.command('DATA', 354);
+
+      const messageId = `<${crypto.randomUUID()}@${this.from.split('@')[1] || 'pme360.com'}>`;
+      const body = this.buildMime(message, messageId)
+        .replace(/\r?\n/g, '\r\n')
+        .replace(/^\./gm, '..'); // dot-stuffing (RFC 5321 §4.5.2)
+      await connection.command(`${body}\r\n.`, 250);
+
+      await connection.command('QUIT', 221).catch(() => undefined);
+      return messageId;
+
+    } finally {
+      connection.close();
+    }
+  }
+
+  private buildMime(message: MailMessage, messageId: string): string {
+    const boundary = `pme360-${crypto.randomBytes(12).toString('hex')}`;
+    const encodeHeader = (value: string) => `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+    const encodeBody = (value: string) => Buffer.from(value).toString('base64').replace(/(.{76})/g, '$1\r\n');
+
+    return [
+      `From: ${encodeHeader('PME 360')} <${this.from}>`,
+      `To: <${message.to}>`,
+      `Subject: ${encodeHeader(message.subject)}`,
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: ${messageId}`,
+      'MIME-Version: 1.0',
+      `Content-Type: multipart/alternative; boundary="${boundary}"`,
+      '',
+      `--${boundary}`,
+      'Content-Type: text/plain; charset=UTF-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      encodeBody(message.text),
+      `--${boundary}`,
+      'Content-Type: text/html; charset=UTF-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      encodeBody(message.html),
+      `--${boundary}--`,
+    ].join('\r\n');
+  }
+}
+
+// Lecture ligne à ligne des réponses SMTP (une réponse se termine par "NNN " sans tiret)
+class SmtpConnection {
+  private buffer = '';
+  private lines: string[] = [];
+  private waiter: (() => void) | null = null;
+  private failure: Error | null = null;
+
+  private constructor(private socket: net.Socket, private timeoutMs: number) {
+    socket.setEncoding('utf8');
+    socket.setTimeout(timeoutMs, () => this.fail(new Error('SMTP timeout')));
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      const parts = this.buffer.split('\r\n');
+      this.buffer = parts.pop() || '';
+      this.lines.push(...parts);
+      this.notify();
+    });
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('Connexion SMTP fermée')));
+  }
+
+  static open(options: SmtpOptions, timeoutMs: number): Promise<SmtpConnection> {
+    return new Promise((resolve, reject) => {
+      const socket = options.secure
+        ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+        : net.connect({ host: options.host, port: options.port });
+
+      socket.once(options.secure ? 'secureConnect' : 'connect', () => {
+        socket.removeListener('error', reject);
+        resolve(new SmtpConnection(socket, timeoutMs));
+      });
+      socket.once('error', reject);
+    });
+  }
+
+  upgrade(host: string): Promise<SmtpConnection> {
+    this.socket.removeAllListeners('data');
+    this.socket.removeAllListeners('close');
+    this.socket.removeAllListeners('error');
+    this.socket.setTimeout(0);
+
+    return new Promise((resolve, reject) => {
+      const secureSocket = tls.connect({ socket: this.socket, servername: host }, () => {
+        secureSocket.removeListener('error', reject);
+        resolve(new SmtpConnection(secureSocket, this.timeoutMs));
+      });
+      secureSocket.once('error', reject);
+    });
+  }
+
+  async command(line: string, expected: number | number[]): Promise<string> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected);
+  }
+
+  async expect(expected: number | number[]): Promise<string> {
+    const response = await this.readResponse();
+    const code = parseInt(response.slice(0, 3), 10);
+    const accepted = Array.isArray(expected) ? expected : [expected];
+
+    if (!accepted.includes(code)) {
+      throw new Error(`SMTP error: ${response.replace(/\r?\n/g, ' | ')}`);
+    }
+    return response;
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+
+  private async readResponse(): Promise<string> {
+    const received: string[] = [];
+
+    while (true) {
+      while (this.lines.length > 0) {
+        const line = this.lines.shift()!;
+        received.push(line);
+        if (/^\d{3}( |$)/.test(line)) {
+          return received.join('\n');
+        }
+      }
+
+      if (this.failure) {
+        throw this.failure;
+      }
+      await new Promise<void>(resolve => { this.waiter = resolve; });
+    }
+  }
+
+  private notify(): void {
+    const waiter = this.waiter;
+    this.waiter = null;
+    waiter?.();
+  }
+
+  private fail(error: Error): void {
+    this.failure = this.failure || error;
+    this.notify();
+  }
+}
+
+// Développement et tests : chaque email est écrit dans un fichier JSON au lieu d'être envoyé
+export class FileTransport implements MailTransport {
+  readonly name = 'file';
+
+  constructor(private directory: string, private from: string) {}
+
+  async send(message: MailMessage): Promise<string | null> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const fileName = `${Date.now()}-${safeRecipient}.json`;
+    const filePath = path.join(this.directory, fileName);
+
+    await fs.promises.writeFile(
+      filePath,
+      JSON.stringify({ from: this.from, ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+
+    logger.info(`📧 Email written to ${filePath}`);
+    return fileName;
+  }
+}
+
+export class MailerService {
+  private static transport: MailTransport | null = null;
+
+  static getTransport(): MailTransport {
+    if (!this.transport) {
+      this.transport = this.createTransport();
+      logger.info(`📧 Mail transport: ${this.transport.name}`);
+    }
+    return this.transport;
+  }
+
+  // Permet de remplacer le transport (tests, scripts)
+  static setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  static async send(message: MailMessage): Promise<string | null> {
+    try {
+      const providerMessageId = await this.getTransport().send(message);
+      logger.info(`📧 Email "${message.subject}" sent to ${message.to}`);
+      return providerMessageId;
+    } catch (error) {
+      logger.error('❌ Email sending error:', error);
+      throw error;
+    }
+  }
+
+  private static createTransport(): MailTransport {
+    if (config.MAIL_TRANSPORT === 'sendgrid') {
+      if (!config.SENDGRID_API_KEY) {
+        throw new Error('SENDGRID_API_KEY requis pour MAIL_TRANSPORT=sendgrid');
+      }
+      return new SendGridTransport(config.SENDGRID_API_KEY, config.FROM_EMAIL);
+    }
+
+    if (config.MAIL_TRANSPORT === 'smtp') {
+      return new SmtpTransport({
+        host: config.SMTP_HOST,
+        port: config.SMTP_PORT,
+        secure: config.SMTP_SECURE,
+        user: config.SMTP_USER,
+        pass: config.SMTP_PASS,
+      }, config.FROM_EMAIL);
+    }
+
+    return new FileTransport(config.MAIL_FILE_DIR, config.FROM_EMAIL);
+  }
+}
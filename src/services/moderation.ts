@@ -0,0 +1,247 @@
+import { PrismaClient, UserStatus } from '@prisma/client';
+import { NotificationsService } from './notifications';
+import { EmailService } from './email';
+import { SessionService, SessionRevokeReason } from './sessions';
+import { RolesService, Permission } from './roles';
+import redisManager from '../config/redis';
+import { logger } from '../config/logger';
+import { AccountSuspendedError } from '../types';
+
+const prisma = new PrismaClient();
+
+// Statut du compte consulté à chaque requête authentifiée : cache court, invalidé à chaque décision
+const ACCOUNT_STATUS_CACHE_TTL_SECONDS = 60;
+
+// Comptes dont l'accès est bloqué et dont les contenus sont masqués des listes publiques
+export const RESTRICTED_USER_STATUSES: UserStatus[] = [UserStatus.SUSPENDED, UserStatus.BANNED];
+
+export interface SuspendUserData {
+  reason: string;
+  until?: Date;
+}
+
+interface AccountStatusSnapshot {
+  id: string;
+  status: UserStatus;
+  statusReason?: string | null;
+  suspendedUntil?: Date | null;
+}
+
+export class ModerationService {
+
+  /**
+   * Refuse l'accès aux comptes suspendus ou bannis.
+   * Une suspension arrivée à échéance est levée automatiquement.
+   */
+  static async assertAccountActive(user: AccountStatusSnapshot): Promise<void> {
+    if (user.status === UserStatus.BANNED) {
+      throw new AccountSuspendedError('Ce compte a été banni', 'ACCOUNT_BANNED');
+    }
+
+    if (user.status !== UserStatus.SUSPENDED) {
+      return;
+    }
+
+    if (user.suspendedUntil && user.suspendedUntil <= new Date()) {
+      await this.liftExpiredSuspension(user.id);
+      return;
+    }
+
+    throw new AccountSuspendedError(
+      user.suspendedUntil
+        ? `Ce compte est suspendu jusqu'au ${user.suspendedUntil.toLocaleDateString('fr-FR')}`
+        : 'Ce compte est suspendu',
+      'ACCOUNT_SUSPENDED',
+      user.suspendedUntil ?? null
+    );
+  }
+
+  /**
+   * Vérification légère utilisée sur les tokens existants (API, clés d'API, WebSocket)
+   */
+  static async isAccessAllowed(userId: string): Promise<boolean> {
+    const cacheKey = `account_status:${userId}`;
+    const cached = await redisManager.cacheGet<{ allowed: boolean }>(cacheKey);
+    if (cached) {
+      return cached.allowed;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, status: true, suspendedUntil: true },
+    });
+
+    let allowed = !!user;
+    if (user) {
+      try {
+        await this.assertAccountActive(user);
+      } catch (error) {
+        if (!(error instanceof AccountSuspendedError)) {
+          throw error;
+        }
+        allowed = false;
+      }
+    }
+
+    await redisManager.cacheSet(cacheKey, { allowed }, ACCOUNT_STATUS_CACHE_TTL_SECONDS);
+    return allowed;
+  }
+
+  static async suspendUser(userId: string, moderatorId: string, data: SuspendUserData) {
+    try {
+      const user = await this.getModeratableUser(userId, moderatorId);
+      if (user.status === UserStatus.BANNED) {
+        throw new Error('Ce compte est banni');
+      }
+      if (data.until && data.until <= new Date()) {
+        throw new Error('La date de fin de suspension doit être dans le futur');
+      }
+
+      const updated = await this.applyStatus(userId, moderatorId, UserStatus.SUSPENDED, data.reason, data.until ?? null);
+
+      await this.notify(userId, {
+        title: 'Compte suspendu',
+        message: data.until
+          ? `Votre compte est suspendu jusqu'au ${data.until.toLocaleDateString('fr-FR')}. Motif : ${data.reason}`
+          : `Votre compte est suspendu. Motif : ${data.reason}`,
+      }, { status: 'SUSPENDED', reason: data.reason, until: data.until ?? null });
+
+      logger.info(`⛔ User ${userId} suspended by ${moderatorId}${data.until ? ` until ${data.until.toISOString()}` : ''}`);
+      return updated;
+
+    } catch (error) {
+      logger.error('❌ Suspend user error:', error);
+      throw error;
+    }
+  }
+
+  static async banUser(userId: string, moderatorId: string, reason: string) {
+    try {
+      const user = await this.getModeratableUser(userId, moderatorId);
+      if (user.status === UserStatus.BANNED) {
+        throw new Error('Ce compte est déjà banni');
+      }
+
+      const updated = await this.applyStatus(userId, moderatorId, UserStatus.BANNED, reason, null);
+
+      await this.notify(userId, {
+        title: 'Compte banni',
+        message: `Votre compte a été fermé. Motif : ${reason}`,
+      }, { status: 'BANNED', reason });
+
+      logger.info(`⛔ User ${userId} banned by ${moderatorId}`);
+      return updated;
+
+    } catch (error) {
+      logger.error('❌ Ban user error:', error);
+      throw error;
+    }
+  }
+
+  static async reactivateUser(userId: string, moderatorId: string) {
+    try {
+      const user = await this.getModeratableUser(userId, moderatorId);
+      if (!RESTRICTED_USER_STATUSES.includes(user.status)) {
+        throw new Error('Ce compte est déjà actif');
+      }
+
+      const updated = await this.applyStatus(userId, moderatorId, UserStatus.ACTIVE, null, null);
+
+      await this.notify(userId, {
+        title: 'Compte réactivé',
+        message: 'Votre compte a été réactivé.',
+      }, { status: 'ACTIVE' });
+
+      logger.info(`✅ User ${userId} reactivated by ${moderatorId}`);
+      return { ...updated, previousStatus: user.status };
+
+    } catch (error) {
+      logger.error('❌ Reactivate user error:', error);
+      throw error;
+    }
+  }
+
+  private static async getModeratableUser(userId: string, moderatorId: string) {
+    if (userId === moderatorId) {
+      throw new Error('Vous ne pouvez pas modérer votre propre compte');
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, status: true, profileType: true },
+    });
+    if (!user) {
+      throw new Error('Utilisateur non trouvé');
+    }
+
+    // Les administrateurs ne peuvent pas être écartés par la modération
+    if (await RolesService.hasPermission(user, Permission.USERS_MANAGE)) {
+      throw new Error('Impossible de modérer un compte administrateur');
+    }
+
+    return user;
+  }
+
+  private static async applyStatus(
+    userId: string,
+    moderatorId: string,
+    status: UserStatus,
+    reason: string | null,
+    until: Date | null
+  ) {
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: {
+        status,
+        statusReason: reason,
+        suspendedUntil: until,
+        statusChangedAt: new Date(),
+        statusChangedBy: moderatorId,
+      },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        status: true,
+        statusReason: true,
+        suspendedUntil: true,
+        statusChangedAt: true,
+      },
+    });
+
+    await redisManager.del(`account_status:${userId}`);
+
+    if (RESTRICTED_USER_STATUSES.includes(status)) {
+      await SessionService.revokeAllSessions(userId, SessionRevokeReason.ACCOUNT_SUSPENDED);
+
+      const wsService = (global as any).wsService;
+      if (wsService) {
+        wsService.disconnectUser(userId, 'Account suspended');
+      }
+    }
+
+    return user;
+  }
+
+  private static async liftExpiredSuspension(userId: string) {
+    await prisma.user.updateMany({
+      where: { id: userId, status: UserStatus.SUSPENDED },
+      data: { status: UserStatus.ACTIVE, statusReason: null, suspendedUntil: null, statusChangedAt: new Date() },
+    });
+    await redisManager.del(`account_status:${userId}`);
+    logger.info(`✅ Suspension of user ${userId} expired, account reactivated`);
+  }
+
+  private static async notify(
+    userId: string,
+    notification: { title: string; message: string },
+    email: Parameters<typeof EmailService.sendAccountStatus>[1]
+  ) {
+    try {
+      await NotificationsService.createSystemNotification(userId, notification.title, notification.message);
+      await EmailService.sendAccountStatus(userId, email);
+    } catch (notificationError) {
+      logger.error('❌ Failed to notify account status change:', notificationError);
+    }
+  }
+}
@@ -271,6 +271,17 @@ export class NotificationsService {
     });
   }
 
+  static async createConnectionAcceptedNotification(requesterId: string, targetName: string, targetId: string) {
+    return this.createNotification({
+      userId: requesterId,
+      type: NotificationType.CONNECTION_REQUEST,
+      title: 'Demande de connexion acceptée',
+      message: `${targetName} a accepté votre demande de connexion`,
+      actionUrl: `/profile/${targetId}`,
+      data: { userId: targetId },
+    });
+  }
+
   static async createOpportunityMatchNotification(userId: string, opportunityTitle: string, opportunityId: string) {
     return this.createNotification({
       userId,
@@ -1,5 +1,12 @@
-import { PrismaClient, OpportunityType, OpportunityStatus } from '@prisma/client';
+import { PrismaClient, OpportunityType, OpportunityStatus, ApplicationStatus, BookmarkTarget } from '@prisma/client';
 import { NotificationsService } from './notifications';
+import { EmailService } from './email';
+import { RESTRICTED_USER_STATUSES } from './moderation';
+import { OrganizationsService, organizationSummarySelect } from './organizations';
+import { PrivacyService } from './privacy';
+import { LocationsService, GeoFilters } from './locations';
+import { BookmarksService } from './bookmarks';
+import { ConnectionsService } from './connections';
 
 const prisma = new PrismaClient();
 
@@ -15,9 +22,10 @@ export interface CreateOpportunityData {
   startDate?: Date;
   skills?: string[];
   experience?: string;
+  organizationId?: string;
 }
 
-export interface OpportunityFilters {
+export interface OpportunityFilters extends GeoFilters {
   type?: string;
   status?: string;
   location?: string;
@@ -27,6 +35,10 @@ export interface OpportunityFilters {
   skills?: string;
   search?: string;
   authorId?: string;
+  organizationId?: string;
+  // Fenêtre de création, utilisée par les alertes des recherches sauvegardées
+  createdAfter?: Date;
+  createdBefore?: Date;
 }
 
 export interface OpportunityPagination {
@@ -48,6 +60,10 @@ export class OpportunitiesService {
     try {
       console.log(`📝 Creating opportunity: ${opportunityData.title}`);
 
+      if (opportunityData.organizationId) {
+        await OrganizationsService.assertCanPublish(opportunityData.organizationId, authorId);
+      }
+
       const opportunity = await prisma.opportunity.create({
         data: {
           authorId,
@@ -57,10 +73,12 @@ export class OpportunitiesService {
           budget: opportunityData.budget,
           amount: opportunityData.amount,
           location: opportunityData.location,
+          ...LocationsService.toFields(opportunityData.location),
           remote: opportunityData.remote || false,
           deadline: opportunityData.deadline,
           startDate: opportunityData.startDate,
           experience: opportunityData.experience,
+          organizationId: opportunityData.organizationId,
           skills: opportunityData.skills ? {
             create: opportunityData.skills.map(skill => ({ skill }))
           } : undefined,
@@ -77,6 +95,7 @@ export class OpportunitiesService {
             },
           },
           skills: true,
+          organization: { select: organizationSummarySelect },
           _count: {
             select: {
               applications: true,
@@ -86,7 +105,7 @@ export class OpportunitiesService {
       });
 
       console.log(`✅ Opportunity created: ${opportunity.id}`);
-      return opportunity;
+      return { ...opportunity, author: await PrivacyService.serialize(authorId, opportunity.author) };
 
     } catch (error) {
       console.error('❌ Create opportunity error:', error);
@@ -94,12 +113,14 @@ export class OpportunitiesService {
     }
   }
 
-  static async getOpportunities(filters: OpportunityFilters, pagination: OpportunityPagination) {
+  static async getOpportunities(filters: OpportunityFilters, pagination: OpportunityPagination, viewerId?: string) {
     try {
       console.log('📋 Getting opportunities with filters:', filters);
 
       const where: any = {
         status: OpportunityStatus.ACTIVE, // Par défaut, ne montrer que les opportunités actives
+        // Masquer les opportunités des comptes suspendus ou bannis
+        author: { status: { notIn: RESTRICTED_USER_STATUSES } },
       };
 
       // Filtres
@@ -115,6 +136,10 @@ export class OpportunitiesService {
         where.location = { contains: filters.location };
       }
 
+      if (filters.country || filters.region || filters.near) {
+        Object.assign(where, LocationsService.where(filters));
+      }
+
       if (filters.remote !== undefined) {
         where.remote = filters.remote;
       }
@@ -123,6 +148,14 @@ export class OpportunitiesService {
         where.authorId = filters.authorId;
       }
 
+      if (filters.organizationId) {
+        where.organizationId = filters.organizationId;
+      }
+
+      if (filters.createdAfter || filters.createdBefore) {
+        where.createdAt = { gt: filters.createdAfter, lte: filters.createdBefore };
+      }
+
       if (filters.search) {
         where.OR = [
           { title: { contains: filters.search } },
@@ -140,38 +173,65 @@ export class OpportunitiesService {
         };
       }
 
-      const total = await prisma.opportunity.count({ where });
-
-      const opportunities = await prisma.opportunity.findMany({
-        where,
-        include: {
-          author: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-              profileType: true,
-              avatar: true,
-              company: true,
-              location: true,
-            },
-          },
-          skills: true,
-          _count: {
-            select: {
-              applications: true,
-            },
+      const include = {
+        author: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            profileType: true,
+            avatar: true,
+            company: true,
+            location: true,
           },
         },
-        orderBy: {
-          [pagination.sortBy || 'createdAt']: pagination.sortOrder || 'desc',
+        skills: true,
+        organization: { select: organizationSummarySelect },
+        _count: {
+          select: {
+            applications: true,
+          },
         },
-        skip: (pagination.page - 1) * pagination.limit,
-        take: pagination.limit,
-      });
+      };
+
+      let total: number;
+      let opportunities;
+      let distances: Map<string, number> | undefined;
+
+      if (filters.near) {
+        // Rayon : les plus proches d'abord, la page est ensuite chargée par identifiants
+        const candidates = await prisma.opportunity.findMany({
+          where,
+          select: { id: true, latitude: true, longitude: true },
+        });
+        const nearby = LocationsService.paginateByDistance(candidates, { ...filters, near: filters.near }, pagination.page, pagination.limit);
+        const rows = await prisma.opportunity.findMany({ where: { id: { in: nearby.ids } }, include });
+        const rowsById = new Map(rows.map(row => [row.id, row]));
+
+        total = nearby.total;
+        distances = nearby.distances;
+        opportunities = nearby.ids.filter(id => rowsById.has(id)).map(id => rowsById.get(id)!);
+      } else {
+        total = await prisma.opportunity.count({ where });
+        opportunities = await prisma.opportunity.findMany({
+          where,
+          include,
+          orderBy: {
+            [pagination.sortBy || 'createdAt']: pagination.sortOrder || 'desc',
+          },
+          skip: (pagination.page - 1) * pagination.limit,
+          take: pagination.limit,
+        });
+      }
+
+      const privacy = await PrivacyService.scope(viewerId, opportunities.map(opportunity => opportunity.author));
 
       return {
-        opportunities,
+        opportunities: opportunities.map(opportunity => ({
+          ...opportunity,
+          ...(distances ? { distanceKm: distances.get(opportunity.id) } : {}),
+          author: privacy.serialize(opportunity.author),
+        })),
         meta: {
           page: pagination.page,
           limit: pagination.limit,
@@ -210,6 +270,7 @@ export class OpportunitiesService {
             },
           },
           skills: true,
+          organization: { select: organizationSummarySelect },
           applications: userId ? {
             where: { applicantId: userId },
             include: {
@@ -234,7 +295,16 @@ export class OpportunitiesService {
         throw new Error('Opportunité non trouvée');
       }
 
-      return opportunity;
+      // Les publications d'un membre bloqué (ou qui a bloqué le visiteur) restent masquées
+      if (userId && userId !== opportunity.authorId && await ConnectionsService.isBlocked(userId, opportunity.authorId)) {
+        throw new Error('Opportunité non trouvée');
+      }
+
+      return {
+        ...opportunity,
+        author: await PrivacyService.serialize(userId, opportunity.author),
+        isBookmarked: await BookmarksService.isBookmarked(userId, BookmarkTarget.OPPORTUNITY, opportunityId),
+      };
 
     } catch (error) {
       console.error('❌ Get opportunity by ID error:', error);
@@ -242,7 +312,7 @@ export class OpportunitiesService {
     }
   }
 
-  static async updateOpportunity(opportunityId: string, authorId: string, updateData: Partial<CreateOpportunityData>) {
+  static async updateOpportunity(opportunityId: string, authorId: string, updateData: Partial<CreateOpportunityData>, canModerate = false) {
     try {
       console.log(`📝 Updating opportunity ${opportunityId}`);
 
@@ -255,7 +325,11 @@ export class OpportunitiesService {
         throw new Error('Opportunité non trouvée');
       }
 
-      if (existingOpportunity.authorId !== authorId) {
+      if (
+        existingOpportunity.authorId !== authorId &&
+        !canModerate &&
+        !(await OrganizationsService.canManage(existingOpportunity.organizationId, authorId))
+      ) {
         throw new Error('Non autorisé à modifier cette opportunité');
       }
 
@@ -269,6 +343,7 @@ export class OpportunitiesService {
           budget: updateData.budget,
           amount: updateData.amount,
           location: updateData.location,
+          ...(updateData.location !== undefined ? LocationsService.toFields(updateData.location) : {}),
           remote: updateData.remote,
           deadline: updateData.deadline,
           startDate: updateData.startDate,
@@ -286,6 +361,7 @@ export class OpportunitiesService {
             },
           },
           skills: true,
+          organization: { select: organizationSummarySelect },
           _count: {
             select: {
               applications: true,
@@ -310,11 +386,12 @@ export class OpportunitiesService {
         });
 
         // Recharger l'opportunité avec les nouvelles compétences
-        return await this.getOpportunityById(opportunityId);
+        return await this.getOpportunityById(opportunityId, authorId);
       }
 
       console.log(`✅ Opportunity updated: ${opportunity.id}`);
-      return opportunity;
+      // Un administrateur de l'organisation peut modifier l'opportunité d'un autre membre
+      return { ...opportunity, author: await PrivacyService.serialize(authorId, opportunity.author) };
 
     } catch (error) {
       console.error('❌ Update opportunity error:', error);
@@ -322,7 +399,7 @@ export class OpportunitiesService {
     }
   }
 
-  static async deleteOpportunity(opportunityId: string, authorId: string) {
+  static async deleteOpportunity(opportunityId: string, authorId: string, canModerate = false) {
     try {
       console.log(`🗑️ Deleting opportunity ${opportunityId}`);
 
@@ -334,13 +411,18 @@ export class OpportunitiesService {
         throw new Error('Opportunité non trouvée');
       }
 
-      if (existingOpportunity.authorId !== authorId) {
+      if (
+        existingOpportunity.authorId !== authorId &&
+        !canModerate &&
+        !(await OrganizationsService.canManage(existingOpportunity.organizationId, authorId))
+      ) {
         throw new Error('Non autorisé à supprimer cette opportunité');
       }
 
       await prisma.opportunity.delete({
         where: { id: opportunityId },
       });
+      await BookmarksService.removeTarget(BookmarkTarget.OPPORTUNITY, opportunityId);
 
       console.log(`✅ Opportunity deleted: ${opportunityId}`);
       return { success: true };
@@ -414,6 +496,7 @@ export class OpportunitiesService {
               type: true,
               author: {
                 select: {
+                  id: true,
                   name: true,
                   email: true,
                 },
@@ -446,7 +529,13 @@ export class OpportunitiesService {
         console.error('❌ Failed to create application notification:', notificationError);
       }
       
-      return application;
+      return {
+        ...application,
+        opportunity: {
+          ...application.opportunity,
+          author: await PrivacyService.serialize(applicantId, application.opportunity.author),
+        },
+      };
 
     } catch (error) {
       console.error('❌ Apply to opportunity error:', error);
@@ -467,7 +556,10 @@ export class OpportunitiesService {
         throw new Error('Opportunité non trouvée');
       }
 
-      if (opportunity.authorId !== authorId) {
+      if (
+        opportunity.authorId !== authorId &&
+        !(await OrganizationsService.canManage(opportunity.organizationId, authorId))
+      ) {
         throw new Error('Non autorisé à voir les candidatures');
       }
 
@@ -504,8 +596,13 @@ export class OpportunitiesService {
         take: pagination.limit,
       });
 
+      const privacy = await PrivacyService.scope(authorId, applications.map(application => application.applicant));
+
       return {
-        applications,
+        applications: applications.map(application => ({
+          ...application,
+          applicant: privacy.serialize(application.applicant),
+        })),
         meta: {
           page: pagination.page,
           limit: pagination.limit,
@@ -522,6 +619,76 @@ export class OpportunitiesService {
     }
   }
 
+  static async updateApplicationStatus(
+    opportunityId: string,
+    applicationId: string,
+    authorId: string,
+    status: ApplicationStatus
+  ) {
+    try {
+      console.log(`📝 Updating application ${applicationId} to ${status}`);
+
+      const application = await prisma.application.findUnique({
+        where: { id: applicationId },
+        include: {
+          opportunity: {
+            select: { id: true, title: true, authorId: true, organizationId: true },
+          },
+        },
+      });
+
+      if (!application || application.opportunityId !== opportunityId) {
+        throw new Error('Candidature non trouvée');
+      }
+
+      if (
+        application.opportunity.authorId !== authorId &&
+        !(await OrganizationsService.canManage(application.opportunity.organizationId, authorId))
+      ) {
+        throw new Error('Non autorisé à modifier cette candidature');
+      }
+
+      if (application.status === ApplicationStatus.WITHDRAWN) {
+        throw new Error('Cette candidature a été retirée');
+      }
+
+      if (application.status === status) {
+        return application;
+      }
+
+      const updatedApplication = await prisma.application.update({
+        where: { id: applicationId },
+        data: { status },
+      });
+
+      console.log(`✅ Application ${applicationId} updated to ${status}`);
+
+      // Prévenir le candidat (notification in-app + email)
+      try {
+        await NotificationsService.createApplicationUpdateNotification(
+          application.applicantId,
+          application.opportunity.title,
+          status,
+          opportunityId
+        );
+        await EmailService.sendApplicationUpdate(
+          application.applicantId,
+          opportunityId,
+          application.opportunity.title,
+          status
+        );
+      } catch (notificationError) {
+        console.error('❌ Failed to notify applicant:', notificationError);
+      }
+
+      return updatedApplication;
+
+    } catch (error) {
+      console.error('❌ Update application status error:', error);
+      throw error;
+    }
+  }
+
   static async getUserApplications(userId: string, pagination: OpportunityPagination) {
     try {
       console.log(`📋 Getting applications for user ${userId}`);
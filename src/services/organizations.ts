@@ -0,0 +1,636 @@
+import {
+  PrismaClient,
+  Prisma,
+  OrganizationRole,
+  OrganizationMemberStatus,
+  OrganizationSize,
+} from '@prisma/client';
+import { NotificationsService } from './notifications';
+import { ProfileCompletionService } from './profile-completion';
+import { logger } from '../config/logger';
+
+const prisma = new PrismaClient();
+
+// Rôles autorisés à gérer l'organisation, ses membres et les contenus publiés en son nom
+export const ORGANIZATION_MANAGER_ROLES: OrganizationRole[] = [OrganizationRole.OWNER, OrganizationRole.ADMIN];
+
+export interface OrganizationData {
+  name: string;
+  legalName: string;
+  registrationNumber?: string;
+  sector?: string;
+  size?: OrganizationSize;
+  country?: string;
+  description?: string;
+  website?: string;
+}
+
+export interface OrganizationFilters {
+  search?: string;
+  sector?: string;
+  country?: string;
+  size?: OrganizationSize;
+  page: number;
+  limit: number;
+}
+
+const organizationSelect = {
+  id: true,
+  name: true,
+  legalName: true,
+  registrationNumber: true,
+  sector: true,
+  size: true,
+  country: true,
+  description: true,
+  website: true,
+  logo: true,
+  createdAt: true,
+  updatedAt: true,
+};
+
+// Référence compacte incluse dans les opportunités, événements et ressources
+export const organizationSummarySelect = {
+  id: true,
+  name: true,
+  logo: true,
+};
+
+const memberUserSelect = {
+  id: true,
+  name: true,
+  avatar: true,
+  profileType: true,
+};
+
+export class OrganizationsService {
+
+  static async createOrganization(userId: string, data: OrganizationData) {
+    try {
+      const organization = await prisma.organization.create({
+        data: {
+          ...this.cleanData(data),
+          createdById: userId,
+          members: {
+            create: {
+              userId,
+              role: OrganizationRole.OWNER,
+              status: OrganizationMemberStatus.ACTIVE,
+              joinedAt: new Date(),
+            },
+          },
+        },
+        select: organizationSelect,
+      });
+      await ProfileCompletionService.refresh(userId);
+
+      logger.info(`🏢 Organization ${organization.id} created by ${userId}`);
+      return organization;
+
+    } catch (error) {
+      this.handleUniqueError(error);
+      logger.error('❌ Create organization error:', error);
+      throw error;
+    }
+  }
+
+  static async getOrganizations(filters: OrganizationFilters) {
+    try {
+      const where: Prisma.OrganizationWhereInput = {
+        ...(filters.sector && { sector: filters.sector }),
+        ...(filters.country && { country: filters.country.toUpperCase() }),
+        ...(filters.size && { size: filters.size }),
+        ...(filters.search && {
+          OR: [
+            { name: { contains: filters.search } },
+            { legalName: { contains: filters.search } },
+            { registrationNumber: { equals: filters.search } },
+          ],
+        }),
+      };
+
+      const [organizations, total] = await Promise.all([
+        prisma.organization.findMany({
+          where,
+          select: {
+            ...organizationSelect,
+            _count: { select: { members: { where: { status: OrganizationMemberStatus.ACTIVE } } } },
+          },
+          orderBy: { name: 'asc' },
+          skip: (filters.page - 1) * filters.limit,
+          take: filters.limit,
+        }),
+        prisma.organization.count({ where }),
+      ]);
+
+      return {
+        organizations,
+        meta: {
+          page: filters.page,
+          limit: filters.limit,
+          total,
+          totalPages: Math.ceil(total / filters.limit),
+          hasNext: filters.page * filters.limit < total,
+          hasPrev: filters.page > 1,
+        },
+      };
+
+    } catch (error) {
+      logger.error('❌ Get organizations error:', error);
+      throw error;
+    }
+  }
+
+  static async getOrganizationById(organizationId: string, userId?: string) {
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: {
+        ...organizationSelect,
+        _count: {
+          select: {
+            members: { where: { status: OrganizationMemberStatus.ACTIVE } },
+            opportunities: true,
+            events: true,
+            resources: true,
+          },
+        },
+      },
+    });
+
+    if (!organization) {
+      throw new Error('Organisation non trouvée');
+    }
+
+    const membership = userId
+      ? await prisma.organizationMember.findUnique({
+        where: { organizationId_userId: { organizationId, userId } },
+        select: { role: true, status: true, joinedAt: true },
+      })
+      : null;
+
+    return { ...organization, membership };
+  }
+
+  static async updateOrganization(organizationId: string, userId: string, data: Partial<OrganizationData>) {
+    try {
+      await this.assertManager(organizationId, userId);
+
+      const organization = await prisma.organization.update({
+        where: { id: organizationId },
+        data: this.cleanData(data),
+        select: organizationSelect,
+      });
+
+      logger.info(`🏢 Organization ${organizationId} updated by ${userId}`);
+      return organization;
+
+    } catch (error) {
+      this.handleUniqueError(error);
+      logger.error('❌ Update organization error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remplace le logo. Retourne l'identifiant Cloudinary de l'ancien logo, à supprimer par l'appelant.
+   */
+  static async updateLogo(organizationId: string, userId: string, logo: { url: string; publicId: string }) {
+    try {
+      await this.assertManager(organizationId, userId);
+
+      const previous = await prisma.organization.findUnique({
+        where: { id: organizationId },
+        select: { logoPublicId: true },
+      });
+
+      const organization = await prisma.organization.update({
+        where: { id: organizationId },
+        data: { logo: logo.url, logoPublicId: logo.publicId },
+        select: organizationSelect,
+      });
+
+      return { organization, previousLogoPublicId: previous?.logoPublicId ?? null };
+
+    } catch (error) {
+      logger.error('❌ Update organization logo error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Supprime l'organisation. Les contenus publiés en son nom sont conservés et rattachés à leur seul auteur.
+   */
+  static async deleteOrganization(organizationId: string, userId: string) {
+    try {
+      const membership = await this.getActiveMembership(organizationId, userId);
+      if (membership?.role !== OrganizationRole.OWNER) {
+        throw new Error('Seul un propriétaire peut supprimer l\'organisation');
+      }
+
+      const members = await prisma.organizationMember.findMany({
+        where: { organizationId, status: OrganizationMemberStatus.ACTIVE },
+        select: { userId: true },
+      });
+
+      await prisma.organization.delete({ where: { id: organizationId } });
+      await ProfileCompletionService.refresh(members.map(member => member.userId));
+
+      logger.info(`🗑️ Organization ${organizationId} deleted by ${userId}`);
+      return { success: true };
+
+    } catch (error) {
+      logger.error('❌ Delete organization error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Membres actifs ; les demandes et invitations en attente ne sont visibles que des administrateurs
+   */
+  static async getMembers(organizationId: string, userId?: string) {
+    await this.assertExists(organizationId);
+
+    const isManager = userId ? await this.canManage(organizationId, userId) : false;
+
+    return prisma.organizationMember.findMany({
+      where: {
+        organizationId,
+        ...(!isManager && { status: OrganizationMemberStatus.ACTIVE }),
+      },
+      select: {
+        role: true,
+        status: true,
+        joinedAt: true,
+        createdAt: true,
+        ...(isManager && { message: true }),
+        user: { select: memberUserSelect },
+      },
+      orderBy: [{ status: 'asc' }, { role: 'asc' }, { joinedAt: 'asc' }],
+    });
+  }
+
+  static async getUserOrganizations(userId: string) {
+    const memberships = await prisma.organizationMember.findMany({
+      where: { userId },
+      select: {
+        role: true,
+        status: true,
+        joinedAt: true,
+        organization: { select: organizationSelect },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return memberships;
+  }
+
+  /**
+   * Demande d'adhésion, soumise à l'approbation d'un administrateur.
+   * Si l'utilisateur avait été invité, la demande vaut acceptation.
+   */
+  static async requestToJoin(organizationId: string, userId: string, message?: string) {
+    try {
+      const organization = await this.assertExists(organizationId);
+
+      const existing = await prisma.organizationMember.findUnique({
+        where: { organizationId_userId: { organizationId, userId } },
+      });
+
+      if (existing?.status === OrganizationMemberStatus.ACTIVE) {
+        throw new Error('Vous êtes déjà membre de cette organisation');
+      }
+      if (existing?.status === OrganizationMemberStatus.PENDING) {
+        throw new Error('Une demande d\'adhésion est déjà en attente');
+      }
+      if (existing?.status === OrganizationMemberStatus.INVITED) {
+        return this.activate(existing.id, organization.name, userId, userId);
+      }
+
+      const membership = await prisma.organizationMember.create({
+        data: { organizationId, userId, message, status: OrganizationMemberStatus.PENDING },
+        select: { role: true, status: true, createdAt: true },
+      });
+
+      const requester = await prisma.user.findUnique({ where: { id: userId }, select: { name: true } });
+      await this.notifyManagers(
+        organizationId,
+        'Nouvelle demande d\'adhésion',
+        `${requester?.name || 'Un membre'} souhaite rejoindre ${organization.name}.`
+      );
+
+      logger.info(`🏢 User ${userId} requested to join organization ${organizationId}`);
+      return membership;
+
+    } catch (error) {
+      logger.error('❌ Join organization error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Invitation d'un membre par un administrateur ; l'utilisateur doit l'accepter
+   */
+  static async inviteMember(organizationId: string, adminId: string, userId: string, role: OrganizationRole, message?: string) {
+    try {
+      const manager = await this.assertManager(organizationId, adminId);
+      this.assertCanAssignRole(manager.role, role);
+
+      const [organization, user] = await Promise.all([
+        this.assertExists(organizationId),
+        prisma.user.findUnique({ where: { id: userId }, select: { id: true, deletedAt: true } }),
+      ]);
+      if (!user || user.deletedAt) {
+        throw new Error('Utilisateur non trouvé');
+      }
+
+      const existing = await prisma.organizationMember.findUnique({
+        where: { organizationId_userId: { organizationId, userId } },
+      });
+
+      if (existing?.status === OrganizationMemberStatus.ACTIVE) {
+        throw new Error('Cet utilisateur est déjà membre de l\'organisation');
+      }
+      if (existing?.status === OrganizationMemberStatus.INVITED) {
+        throw new Error('Cet utilisateur a déjà été invité');
+      }
+      // L'utilisateur avait lui-même demandé à rejoindre : l'invitation vaut approbation
+      if (existing?.status === OrganizationMemberStatus.PENDING) {
+        await prisma.organizationMember.update({ where: { id: existing.id }, data: { role } });
+        return this.activate(existing.id, organization.name, userId, adminId);
+      }
+
+      const membership = await prisma.organizationMember.create({
+        data: {
+          organizationId,
+          userId,
+          role,
+          message,
+          invitedById: adminId,
+          status: OrganizationMemberStatus.INVITED,
+        },
+        select: { role: true, status: true, createdAt: true, user: { select: memberUserSelect } },
+      });
+
+      await this.notify(
+        userId,
+        'Invitation à rejoindre une organisation',
+        `Vous êtes invité à rejoindre ${organization.name}.`,
+        `/organizations/${organizationId}`
+      );
+
+      logger.info(`🏢 User ${userId} invited to organization ${organizationId} by ${adminId}`);
+      return membership;
+
+    } catch (error) {
+      logger.error('❌ Invite organization member error:', error);
+      throw error;
+    }
+  }
+
+  static async approveRequest(organizationId: string, adminId: string, userId: string) {
+    try {
+      await this.assertManager(organizationId, adminId);
+      const organization = await this.assertExists(organizationId);
+
+      const membership = await prisma.organizationMember.findUnique({
+        where: { organizationId_userId: { organizationId, userId } },
+      });
+      if (!membership || membership.status !== OrganizationMemberStatus.PENDING) {
+        throw new Error('Aucune demande d\'adhésion en attente pour cet utilisateur');
+      }
+
+      return this.activate(membership.id, organization.name, userId, adminId);
+
+    } catch (error) {
+      logger.error('❌ Approve organization member error:', error);
+      throw error;
+    }
+  }
+
+  static async acceptInvitation(organizationId: string, userId: string) {
+    try {
+      const organization = await this.assertExists(organizationId);
+
+      const membership = await prisma.organizationMember.findUnique({
+        where: { organizationId_userId: { organizationId, userId } },
+      });
+      if (!membership || membership.status !== OrganizationMemberStatus.INVITED) {
+        throw new Error('Aucune invitation en attente pour cette organisation');
+      }
+
+      return this.activate(membership.id, organization.name, userId, userId);
+
+    } catch (error) {
+      logger.error('❌ Accept organization invitation error:', error);
+      throw error;
+    }
+  }
+
+  static async updateMemberRole(organizationId: string, actorId: string, userId: string, role: OrganizationRole) {
+    try {
+      const manager = await this.assertManager(organizationId, actorId);
+
+      const membership = await this.getActiveMembership(organizationId, userId);
+      if (!membership) {
+        throw new Error('Membre non trouvé');
+      }
+
+      // Seul un propriétaire peut nommer ou rétrograder un propriétaire
+      this.assertCanAssignRole(manager.role, role);
+      this.assertCanAssignRole(manager.role, membership.role);
+
+      if (membership.role === OrganizationRole.OWNER && role !== OrganizationRole.OWNER) {
+        await this.assertNotLastOwner(organizationId);
+      }
+
+      const updated = await prisma.organizationMember.update({
+        where: { id: membership.id },
+        data: { role },
+        select: { role: true, status: true, joinedAt: true, user: { select: memberUserSelect } },
+      });
+
+      logger.info(`🏢 Member ${userId} of organization ${organizationId} is now ${role}`);
+      return updated;
+
+    } catch (error) {
+      logger.error('❌ Update organization member role error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retire un membre : départ volontaire, refus d'une invitation, rejet d'une demande
+   * ou exclusion par un administrateur
+   */
+  static async removeMember(organizationId: string, actorId: string, userId: string) {
+    try {
+      const membership = await prisma.organizationMember.findUnique({
+        where: { organizationId_userId: { organizationId, userId } },
+      });
+      if (!membership) {
+        throw new Error('Membre non trouvé');
+      }
+
+      if (actorId !== userId) {
+        const manager = await this.assertManager(organizationId, actorId);
+        this.assertCanAssignRole(manager.role, membership.role);
+      }
+
+      if (membership.status === OrganizationMemberStatus.ACTIVE && membership.role === OrganizationRole.OWNER) {
+        await this.assertNotLastOwner(organizationId);
+      }
+
+      await prisma.organizationMember.delete({ where: { id: membership.id } });
+      if (membership.status === OrganizationMemberStatus.ACTIVE) {
+        await ProfileCompletionService.refresh(userId);
+      }
+
+      if (actorId !== userId && membership.status === OrganizationMemberStatus.PENDING) {
+        const organization = await this.assertExists(organizationId);
+        await this.notify(userId, 'Demande d\'adhésion refusée', `Votre demande pour rejoindre ${organization.name} n'a pas été retenue.`);
+      }
+
+      logger.info(`🏢 Member ${userId} removed from organization ${organizationId} by ${actorId}`);
+      return { success: true, previousStatus: membership.status };
+
+    } catch (error) {
+      logger.error('❌ Remove organization member error:', error);
+      throw error;
+    }
+  }
+
+  // ==================== CONTENUS PUBLIÉS AU NOM D'UNE ORGANISATION ====================
+
+  /**
+   * Tout membre actif peut publier au nom de l'organisation. Retourne son nom,
+   * utilisé par défaut comme organisateur ou auteur.
+   */
+  static async assertCanPublish(organizationId: string, userId: string): Promise<string> {
+    const membership = await prisma.organizationMember.findUnique({
+      where: { organizationId_userId: { organizationId, userId } },
+      select: { status: true, organization: { select: { name: true } } },
+    });
+
+    if (membership?.status !== OrganizationMemberStatus.ACTIVE) {
+      throw new Error('Vous devez être membre de l\'organisation pour publier en son nom');
+    }
+
+    return membership.organization.name;
+  }
+
+  // Les propriétaires et administrateurs gèrent les contenus publiés au nom de l'organisation
+  static async canManage(organizationId: string | null | undefined, userId: string | undefined): Promise<boolean> {
+    if (!organizationId || !userId) {
+      return false;
+    }
+
+    const membership = await this.getActiveMembership(organizationId, userId);
+    return !!membership && ORGANIZATION_MANAGER_ROLES.includes(membership.role);
+  }
+
+  // Seul un membre ajouté par un tiers (approbation) est prévenu
+  private static async activate(membershipId: string, organizationName: string, userId: string, approvedBy: string) {
+    const membership = await prisma.organizationMember.update({
+      where: { id: membershipId },
+      data: { status: OrganizationMemberStatus.ACTIVE, joinedAt: new Date() },
+      select: { organizationId: true, role: true, status: true, joinedAt: true, user: { select: memberUserSelect } },
+    });
+    await ProfileCompletionService.refresh(userId);
+
+    if (approvedBy !== userId) {
+      await this.notify(
+        userId,
+        'Adhésion confirmée',
+        `Vous êtes désormais membre de ${organizationName}.`,
+        `/organizations/${membership.organizationId}`
+      );
+    }
+
+    logger.info(`🏢 User ${userId} joined organization ${membership.organizationId}`);
+    return membership;
+  }
+
+  private static async getActiveMembership(organizationId: string, userId: string) {
+    const membership = await prisma.organizationMember.findUnique({
+      where: { organizationId_userId: { organizationId, userId } },
+      select: { id: true, role: true, status: true },
+    });
+
+    return membership?.status === OrganizationMemberStatus.ACTIVE ? membership : null;
+  }
+
+  private static async assertExists(organizationId: string) {
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { id: true, name: true },
+    });
+
+    if (!organization) {
+      throw new Error('Organisation non trouvée');
+    }
+
+    return organization;
+  }
+
+  static async assertManager(organizationId: string, userId: string) {
+    await this.assertExists(organizationId);
+
+    const membership = await this.getActiveMembership(organizationId, userId);
+    if (!membership || !ORGANIZATION_MANAGER_ROLES.includes(membership.role)) {
+      throw new Error('Réservé aux administrateurs de l\'organisation');
+    }
+
+    return membership;
+  }
+
+  private static assertCanAssignRole(actorRole: OrganizationRole, role: OrganizationRole) {
+    if (role === OrganizationRole.OWNER && actorRole !== OrganizationRole.OWNER) {
+      throw new Error('Seul un propriétaire peut gérer les propriétaires');
+    }
+  }
+
+  private static async assertNotLastOwner(organizationId: string) {
+    const owners = await prisma.organizationMember.count({
+      where: { organizationId, role: OrganizationRole.OWNER, status: OrganizationMemberStatus.ACTIVE },
+    });
+
+    if (owners <= 1) {
+      throw new Error('L\'organisation doit conserver au moins un propriétaire');
+    }
+  }
+
+  private static async notifyManagers(organizationId: string, title: string, message: string) {
+    const managers = await prisma.organizationMember.findMany({
+      where: { organizationId, status: OrganizationMemberStatus.ACTIVE, role: { in: ORGANIZATION_MANAGER_ROLES } },
+      select: { userId: true },
+    });
+
+    for (const { userId } of managers) {
+      await this.notify(userId, title, message, `/organizations/${organizationId}/members`);
+    }
+  }
+
+  private static async notify(userId: string, title: string, message: string, actionUrl?: string) {
+    try {
+      await NotificationsService.createSystemNotification(userId, title, message, actionUrl);
+    } catch (notificationError) {
+      logger.error('❌ Failed to send organization notification:', notificationError);
+    }
+  }
+
+  private static cleanData<T extends Partial<OrganizationData>>(data: T) {
+    return {
+      ...data,
+      ...(data.name !== undefined && { name: data.name.trim() }),
+      ...(data.legalName !== undefined && { legalName: data.legalName.trim() }),
+      ...(data.registrationNumber !== undefined && { registrationNumber: data.registrationNumber.replace(/\s+/g, '').toUpperCase() }),
+      ...(data.country !== undefined && { country: data.country.toUpperCase() }),
+    };
+  }
+
+  private static handleUniqueError(error: any) {
+    if (error?.code === 'P2002') {
+      throw new Error('Une organisation avec ce numéro d\'immatriculation existe déjà');
+    }
+  }
+}
@@ -0,0 +1,223 @@
+import { PrismaClient, Prisma, PrivacyVisibility, ConnectionStatus } from '@prisma/client';
+import { logger } from '../config/logger';
+import { SearchService } from './search';
+
+const prisma = new PrismaClient();
+
+export type PrivacyField = 'email' | 'phone' | 'location' | 'connections';
+
+export type PrivacyPreferences = Record<PrivacyField, PrivacyVisibility>;
+
+// Réglages appliqués tant que le membre n'a rien choisi
+export const DEFAULT_PRIVACY: PrivacyPreferences = {
+  email: PrivacyVisibility.CONNECTIONS,
+  phone: PrivacyVisibility.CONNECTIONS,
+  location: PrivacyVisibility.PUBLIC,
+  connections: PrivacyVisibility.MEMBERS,
+};
+
+// Champs de profil masqués par le sérialiseur et réglage dont ils dépendent (le réseau est filtré par chaque service)
+const PROFILE_FIELDS: Array<[keyof ProjectedUser, PrivacyField]> = [
+  ['email', 'email'],
+  ['phone', 'phone'],
+  ['location', 'location'],
+  ['city', 'location'],
+  ['regionCode', 'location'],
+  ['countryCode', 'location'],
+  ['latitude', 'location'],
+  ['longitude', 'location'],
+  ['distanceKm', 'location'],
+];
+
+const privacySettingsSelect = {
+  emailVisibility: true,
+  phoneVisibility: true,
+  locationVisibility: true,
+  connectionsVisibility: true,
+};
+
+// Utilisateur tel que projeté par les services (seul l'id est requis)
+export interface ProjectedUser {
+  id: string;
+  email?: string | null;
+  phone?: string | null;
+  location?: string | null;
+  city?: string | null;
+  regionCode?: string | null;
+  countryCode?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  distanceKm?: number | null;
+}
+
+/**
+ * Vue d'un visiteur sur un ensemble de membres : réglages et relations chargés une fois,
+ * puis appliqués à chaque projection d'utilisateur
+ */
+export class PrivacyScope {
+  constructor(
+    private readonly viewerId: string | null,
+    private readonly preferences: Map<string, PrivacyPreferences>,
+    private readonly connectedIds: Set<string>
+  ) {}
+
+  canSee(ownerId: string, field: PrivacyField): boolean {
+    if (this.viewerId === ownerId) {
+      return true;
+    }
+
+    const visibility = (this.preferences.get(ownerId) ?? DEFAULT_PRIVACY)[field];
+    switch (visibility) {
+      case PrivacyVisibility.PUBLIC:
+        return true;
+      case PrivacyVisibility.MEMBERS:
+        return this.viewerId !== null;
+      case PrivacyVisibility.CONNECTIONS:
+        return this.connectedIds.has(ownerId);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Copie de l'utilisateur dont les coordonnées non autorisées sont remplacées par null
+   */
+  serialize<T extends ProjectedUser | null | undefined>(user: T): T {
+    if (!user) {
+      return user;
+    }
+
+    const serialized = { ...user } as Record<keyof ProjectedUser, unknown>;
+    for (const [column, field] of PROFILE_FIELDS) {
+      if (column in serialized && !this.canSee(user.id, field)) {
+        serialized[column] = null;
+      }
+    }
+
+    return serialized as T;
+  }
+}
+
+export class PrivacyService {
+
+  static async getSettings(userId: string): Promise<PrivacyPreferences> {
+    const settings = await prisma.privacySettings.findUnique({
+      where: { userId },
+      select: privacySettingsSelect,
+    });
+
+    return settings ? this.toPreferences(settings) : { ...DEFAULT_PRIVACY };
+  }
+
+  static async updateSettings(userId: string, data: Partial<PrivacyPreferences>): Promise<PrivacyPreferences> {
+    try {
+      const columns = {
+        emailVisibility: data.email,
+        phoneVisibility: data.phone,
+        locationVisibility: data.location,
+        connectionsVisibility: data.connections,
+      };
+
+      const settings = await prisma.privacySettings.upsert({
+        where: { userId },
+        create: { userId, ...columns },
+        update: columns,
+        select: privacySettingsSelect,
+      });
+
+      // La localisation n'est indexée pour la recherche que si elle est publique
+      if (data.location) {
+        await SearchService.reindexUsers(userId);
+      }
+
+      logger.info(`🔒 Privacy settings updated for ${userId}`);
+      return this.toPreferences(settings);
+
+    } catch (error) {
+      logger.error('❌ Update privacy settings error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Charge en deux requêtes ce qu'il faut pour sérialiser une liste de membres pour un visiteur
+   * (viewerId absent : visiteur non connecté)
+   */
+  static async scope(viewerId: string | null | undefined, users: Array<{ id: string } | null | undefined>): Promise<PrivacyScope> {
+    const ownerIds = [...new Set(users.filter(user => user && user.id !== viewerId).map(user => user!.id))];
+
+    if (ownerIds.length === 0) {
+      return new PrivacyScope(viewerId ?? null, new Map(), new Set());
+    }
+
+    const [settings, connections] = await Promise.all([
+      prisma.privacySettings.findMany({
+        where: { userId: { in: ownerIds } },
+        select: { userId: true, ...privacySettingsSelect },
+      }),
+      viewerId
+        ? prisma.connection.findMany({
+          where: {
+            status: ConnectionStatus.ACCEPTED,
+            OR: [
+              { requesterId: viewerId, targetId: { in: ownerIds } },
+              { targetId: viewerId, requesterId: { in: ownerIds } },
+            ],
+          },
+          select: { requesterId: true, targetId: true },
+        })
+        : Promise.resolve([]),
+    ]);
+
+    return new PrivacyScope(
+      viewerId ?? null,
+      new Map(settings.map(setting => [setting.userId, this.toPreferences(setting)])),
+      new Set(connections.map(c => c.requesterId === viewerId ? c.targetId : c.requesterId))
+    );
+  }
+
+  static async serialize<T extends ProjectedUser | null | undefined>(viewerId: string | null | undefined, user: T): Promise<T> {
+    return (await this.scope(viewerId, [user])).serialize(user);
+  }
+
+  static async serializeMany<T extends ProjectedUser>(viewerId: string | null | undefined, users: T[]): Promise<T[]> {
+    const scope = await this.scope(viewerId, users);
+    return users.map(user => scope.serialize(user));
+  }
+
+  static async canSee(viewerId: string | null | undefined, ownerId: string, field: PrivacyField): Promise<boolean> {
+    return (await this.scope(viewerId, [{ id: ownerId }])).canSee(ownerId, field);
+  }
+
+  /**
+   * Restreint une recherche par localisation aux membres dont la localisation est visible
+   * du visiteur sans relation particulière (les relations restent trouvables via leur réseau)
+   */
+  static locationSearchableWhere(viewerId: string | null | undefined): Prisma.UserWhereInput {
+    const visibilities: PrivacyVisibility[] = viewerId
+      ? [PrivacyVisibility.PUBLIC, PrivacyVisibility.MEMBERS]
+      : [PrivacyVisibility.PUBLIC];
+
+    return {
+      OR: [
+        { privacySettings: null },
+        { privacySettings: { locationVisibility: { in: visibilities } } },
+        ...(viewerId ? [{ id: viewerId }] : []),
+      ],
+    };
+  }
+
+  private static toPreferences(settings: {
+    emailVisibility: PrivacyVisibility;
+    phoneVisibility: PrivacyVisibility;
+    locationVisibility: PrivacyVisibility;
+    connectionsVisibility: PrivacyVisibility;
+  }): PrivacyPreferences {
+    return {
+      email: settings.emailVisibility,
+      phone: settings.phoneVisibility,
+      location: settings.locationVisibility,
+      connections: settings.connectionsVisibility,
+    };
+  }
+}
@@ -0,0 +1,198 @@
+import { PrismaClient, ProfileType, OrganizationMemberStatus } from '@prisma/client';
+import { logger } from '../config/logger';
+
+const prisma = new PrismaClient();
+
+// Longueur minimale d'une description jugée exploitable par les autres membres
+const MIN_DESCRIPTION_LENGTH = 50;
+
+export type CompletionItemKey =
+  | 'verifiedEmail'
+  | 'avatar'
+  | 'description'
+  | 'company'
+  | 'location'
+  | 'website'
+  | 'linkedin'
+  | 'expertises'
+  | 'organization';
+
+interface CompletionCriterion {
+  key: CompletionItemKey;
+  label: string;
+  weight: number;
+  target?: number; // Nombre d'éléments attendus (crédit partiel en dessous)
+  actionUrl: string;
+}
+
+// Données du profil nécessaires au calcul, disponibles dès l'inscription
+export interface CompletionProfile {
+  profileType: ProfileType;
+  verified?: boolean;
+  avatar?: string | null;
+  description?: string | null;
+  company?: string | null;
+  location?: string | null;
+  website?: string | null;
+  linkedin?: string | null;
+  expertiseCount?: number;
+  organizationCount?: number;
+}
+
+export interface CompletionItem {
+  key: CompletionItemKey;
+  label: string;
+  weight: number;
+  earned: number;
+  done: boolean;
+  progress?: { current: number; target: number };
+  actionUrl: string;
+}
+
+export interface ProfileCompletion {
+  score: number;
+  completed: boolean;
+  items: CompletionItem[];
+  missingItems: CompletionItem[];
+}
+
+// Profils individuels : l'expertise et la présence professionnelle priment
+const INDIVIDUAL_PROFILE_TYPES: ProfileType[] = [ProfileType.EXPERT, ProfileType.MENTOR, ProfileType.CONSULTANT];
+
+const INDIVIDUAL_CRITERIA: CompletionCriterion[] = [
+  { key: 'verifiedEmail', label: 'Vérifier votre adresse email', weight: 15, actionUrl: '/settings/account' },
+  { key: 'avatar', label: 'Ajouter une photo de profil', weight: 15, actionUrl: '/profile/edit' },
+  { key: 'description', label: 'Rédiger une présentation d\'au moins 50 caractères', weight: 15, actionUrl: '/profile/edit' },
+  { key: 'expertises', label: 'Renseigner au moins 3 expertises', weight: 25, target: 3, actionUrl: '/profile/expertises' },
+  { key: 'linkedin', label: 'Ajouter votre profil LinkedIn', weight: 15, actionUrl: '/profile/edit' },
+  { key: 'website', label: 'Ajouter un site web ou portfolio', weight: 5, actionUrl: '/profile/edit' },
+  { key: 'location', label: 'Indiquer votre localisation', weight: 5, actionUrl: '/profile/edit' },
+  { key: 'organization', label: 'Rejoindre une organisation', weight: 5, actionUrl: '/organizations' },
+];
+
+// Structures (startups, PME, financeurs...) : l'identité de l'entreprise prime
+const STRUCTURE_CRITERIA: CompletionCriterion[] = [
+  { key: 'verifiedEmail', label: 'Vérifier votre adresse email', weight: 15, actionUrl: '/settings/account' },
+  { key: 'avatar', label: 'Ajouter un logo ou une photo de profil', weight: 10, actionUrl: '/profile/edit' },
+  { key: 'description', label: 'Présenter votre activité en au moins 50 caractères', weight: 20, actionUrl: '/profile/edit' },
+  { key: 'company', label: 'Indiquer le nom de votre structure', weight: 10, actionUrl: '/profile/edit' },
+  { key: 'organization', label: 'Créer ou rejoindre la page de votre organisation', weight: 15, actionUrl: '/organizations' },
+  { key: 'website', label: 'Ajouter le site web de votre structure', weight: 15, actionUrl: '/profile/edit' },
+  { key: 'location', label: 'Indiquer votre localisation', weight: 5, actionUrl: '/profile/edit' },
+  { key: 'linkedin', label: 'Ajouter votre page LinkedIn', weight: 5, actionUrl: '/profile/edit' },
+  { key: 'expertises', label: 'Renseigner au moins un domaine d\'expertise', weight: 5, target: 1, actionUrl: '/profile/expertises' },
+];
+
+export class ProfileCompletionService {
+
+  static getCriteria(profileType: ProfileType): CompletionCriterion[] {
+    return INDIVIDUAL_PROFILE_TYPES.includes(profileType) ? INDIVIDUAL_CRITERIA : STRUCTURE_CRITERIA;
+  }
+
+  /**
+   * Calcule le score (0 à 100) et la liste des éléments manquants, sans accès à la base
+   */
+  static evaluate(profile: CompletionProfile): ProfileCompletion {
+    const items = this.getCriteria(profile.profileType).map(criterion => {
+      const current = this.measure(criterion.key, profile);
+      const target = criterion.target ?? 1;
+      const ratio = Math.min(current, target) / target;
+
+      return {
+        key: criterion.key,
+        label: criterion.label,
+        weight: criterion.weight,
+        earned: Math.round(criterion.weight * ratio),
+        done: ratio >= 1,
+        ...(criterion.target && { progress: { current: Math.min(current, target), target } }),
+        actionUrl: criterion.actionUrl,
+      };
+    });
+
+    const score = Math.min(items.reduce((total, item) => total + item.earned, 0), 100);
+
+    return {
+      score,
+      completed: items.every(item => item.done),
+      items,
+      // Les éléments les plus rentables en premier
+      missingItems: items.filter(item => !item.done).sort((a, b) => (b.weight - b.earned) - (a.weight - a.earned)),
+    };
+  }
+
+  /**
+   * Recalcule le score à partir de la base et le met à jour s'il a changé
+   */
+  static async recompute(userId: string): Promise<ProfileCompletion> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        profileType: true,
+        verified: true,
+        avatar: true,
+        description: true,
+        company: true,
+        location: true,
+        website: true,
+        linkedin: true,
+        completionScore: true,
+        deletedAt: true,
+        _count: {
+          select: {
+            expertises: true,
+            organizationMemberships: { where: { status: OrganizationMemberStatus.ACTIVE } },
+          },
+        },
+      },
+    });
+
+    if (!user || user.deletedAt) {
+      throw new Error('Utilisateur non trouvé');
+    }
+
+    const completion = this.evaluate({
+      ...user,
+      expertiseCount: user._count.expertises,
+      organizationCount: user._count.organizationMemberships,
+    });
+
+    if (completion.score !== user.completionScore) {
+      await prisma.user.update({
+        where: { id: userId },
+        data: { completionScore: completion.score },
+      });
+      logger.info(`📈 Completion score of ${userId}: ${user.completionScore} → ${completion.score}`);
+    }
+
+    return completion;
+  }
+
+  /**
+   * Variante pour les déclencheurs secondaires (vérification d'email, adhésions...) :
+   * un échec de recalcul ne doit pas faire échouer l'action de l'utilisateur
+   */
+  static async refresh(userIds: string | string[]): Promise<void> {
+    for (const userId of Array.isArray(userIds) ? userIds : [userIds]) {
+      try {
+        await this.recompute(userId);
+      } catch (error) {
+        logger.error(`❌ Completion score refresh error for ${userId}:`, error);
+      }
+    }
+  }
+
+  private static measure(key: CompletionItemKey, profile: CompletionProfile): number {
+    switch (key) {
+      case 'verifiedEmail':
+        return profile.verified ? 1 : 0;
+      case 'description':
+        return (profile.description?.trim().length ?? 0) >= MIN_DESCRIPTION_LENGTH ? 1 : 0;
+      case 'expertises':
+        return profile.expertiseCount ?? 0;
+      case 'organization':
+        return profile.organizationCount ?? 0;
+      default:
+        return profile[key]?.trim() ? 1 : 0;
+    }
+  }
+}
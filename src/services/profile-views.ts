@@ -0,0 +1,213 @@
+import { PrismaClient } from '@prisma/client';
+import crypto from 'crypto';
+import { logger } from '../config/logger';
+import { PrivacyService } from './privacy';
+import { ConnectionsService } from './connections';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ProfileVisitor {
+  userId?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface ProfileViewerFilters {
+  days: number;
+  page: number;
+  limit: number;
+}
+
+export class ProfileViewsService {
+
+  /**
+   * Enregistre une consultation de profil : une seule vue par visiteur et par jour.
+   * Les visiteurs non connectés et les membres en navigation anonyme sont comptés sans être identifiés.
+   * Un échec d'enregistrement ne doit pas empêcher l'affichage du profil.
+   */
+  static async record(profileId: string, visitor: ProfileVisitor): Promise<void> {
+    try {
+      if (visitor.userId === profileId) {
+        return;
+      }
+
+      if (visitor.userId && await ConnectionsService.isBlocked(visitor.userId, profileId)) {
+        return;
+      }
+
+      let viewerId: string | null = null;
+      if (visitor.userId) {
+        const viewer = await prisma.user.findUnique({
+          where: { id: visitor.userId },
+          select: { browseAnonymously: true },
+        });
+        viewerId = viewer && !viewer.browseAnonymously ? visitor.userId : null;
+      } else if (!visitor.ipAddress) {
+        return; // Visiteur impossible à dédupliquer
+      }
+
+      const visitorKey = this.hashVisitor(visitor);
+      const day = this.startOfDay(new Date());
+
+      await prisma.profileView.upsert({
+        where: { profileId_visitorKey_day: { profileId, visitorKey, day } },
+        create: { profileId, viewerId, visitorKey, anonymous: viewerId === null, day },
+        // Le mode de navigation le plus récent de la journée fait foi
+        update: { viewerId, anonymous: viewerId === null, lastViewedAt: new Date() },
+      });
+
+    } catch (error) {
+      logger.error(`❌ Profile view recording error for ${profileId}:`, error);
+    }
+  }
+
+  /**
+   * Nombre de vues par jour sur la période, vues identifiées et anonymes séparées
+   */
+  static async getStats(userId: string, days: number = 30) {
+    try {
+      const today = this.startOfDay(new Date());
+      const since = new Date(today.getTime() - (days - 1) * DAY_MS);
+
+      const views = await prisma.profileView.findMany({
+        where: { profileId: userId, day: { gte: since } },
+        select: { day: true, anonymous: true },
+      });
+
+      const series = new Map<string, { date: string; views: number; identified: number; anonymous: number }>();
+      for (let i = 0; i < days; i++) {
+        const date = new Date(since.getTime() + i * DAY_MS).toISOString().split('T')[0];
+        series.set(date, { date, views: 0, identified: 0, anonymous: 0 });
+      }
+
+      for (const view of views) {
+        const point = series.get(view.day.toISOString().split('T')[0]);
+        if (!point) continue;
+        point.views++;
+        if (view.anonymous) point.anonymous++;
+        else point.identified++;
+      }
+
+      const anonymous = views.filter(view => view.anonymous).length;
+
+      return {
+        period: `${days} days`,
+        total: views.length,
+        identified: views.length - anonymous,
+        anonymous,
+        series: [...series.values()],
+      };
+
+    } catch (error) {
+      logger.error(`❌ Profile view stats error for ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Membres ayant consulté le profil à visage découvert, du plus récent au plus ancien
+   */
+  static async getRecentViewers(userId: string, filters: ProfileViewerFilters) {
+    try {
+      const since = new Date(this.startOfDay(new Date()).getTime() - (filters.days - 1) * DAY_MS);
+      const where = {
+        profileId: userId,
+        day: { gte: since },
+        viewerId: { not: null },
+        viewer: { deletedAt: null },
+      };
+
+      // Une ligne par membre : sa consultation la plus récente
+      const [latest, anonymousViews] = await Promise.all([
+        prisma.profileView.groupBy({
+          by: ['viewerId'],
+          where,
+          _max: { lastViewedAt: true },
+          _count: { _all: true },
+          orderBy: { _max: { lastViewedAt: 'desc' } },
+        }),
+        prisma.profileView.count({ where: { profileId: userId, day: { gte: since }, anonymous: true } }),
+      ]);
+
+      const page = latest.slice((filters.page - 1) * filters.limit, filters.page * filters.limit);
+      const viewers = await prisma.user.findMany({
+        where: { id: { in: page.map(entry => entry.viewerId as string) } },
+        select: { id: true, name: true, avatar: true, profileType: true, company: true, location: true },
+      });
+      const privacy = await PrivacyService.scope(userId, viewers);
+      const viewersById = new Map(viewers.map(viewer => [viewer.id, privacy.serialize(viewer)]));
+
+      const total = latest.length;
+
+      return {
+        viewers: page
+          .filter(entry => viewersById.has(entry.viewerId as string))
+          .map(entry => ({
+            viewer: viewersById.get(entry.viewerId as string),
+            lastViewedAt: entry._max.lastViewedAt,
+            visitDays: entry._count?._all ?? 0,
+          })),
+        anonymousViews,
+        meta: {
+          page: filters.page,
+          limit: filters.limit,
+          total,
+          totalPages: Math.ceil(total / filters.limit),
+          hasNext: filters.page * filters.limit < total,
+          hasPrev: filters.page > 1,
+        },
+      };
+
+    } catch (error) {
+      logger.error(`❌ Recent profile viewers error for ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Nombre de vues (dédupliquées par jour) reçues depuis une date
+   */
+  static async countSince(userId: string, since: Date): Promise<number> {
+    return prisma.profileView.count({
+      where: { profileId: userId, day: { gte: this.startOfDay(since) } },
+    });
+  }
+
+  static async getSettings(userId: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { browseAnonymously: true },
+    });
+
+    if (!user) {
+      throw new Error('Utilisateur non trouvé');
+    }
+
+    return user;
+  }
+
+  static async setBrowseAnonymously(userId: string, browseAnonymously: boolean) {
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: { browseAnonymously },
+      select: { browseAnonymously: true },
+    });
+
+    logger.info(`🕶️ Anonymous browsing ${browseAnonymously ? 'enabled' : 'disabled'} for ${userId}`);
+    return user;
+  }
+
+  private static hashVisitor(visitor: ProfileVisitor): string {
+    const key = visitor.userId
+      ? `member:${visitor.userId}`
+      : `guest:${visitor.ipAddress}|${visitor.userAgent ?? ''}`;
+
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+
+  private static startOfDay(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  }
+}
@@ -0,0 +1,599 @@
+import { PrismaClient, ProfileType, ConnectionStatus } from '@prisma/client';
+import { logger } from '../config/logger';
+import { RESTRICTED_USER_STATUSES } from './moderation';
+import { LocationsService } from './locations';
+import { PrivacyService } from './privacy';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Suggestions conservées par membre à chaque calcul
+const RECOMMENDATIONS_PER_USER = 50;
+
+// Candidats examinés par source (profils complémentaires, membres proches)
+const CANDIDATE_POOL_LIMIT = 200;
+
+const NEARBY_RADIUS_KM = 100;
+
+// Au-delà, les suggestions sont recalculées à la consultation
+const STALE_AFTER_MS = 2 * DAY_MS;
+
+// Calcul nocturne (heure du serveur), limité aux membres actifs récemment
+const PRECOMPUTE_HOUR = 3;
+const PRECOMPUTE_ACTIVE_WITHIN_MS = 90 * DAY_MS;
+const PRECOMPUTE_BATCH_SIZE = 200;
+
+// Poids des signaux et plafonds (nombre d'éléments pris en compte)
+const WEIGHTS = {
+  mutualConnection: 3,
+  mutualConnectionCap: 10,
+  complementaryProfile: 15,
+  sharedExpertise: 4,
+  sharedExpertiseCap: 5,
+  sharedEvent: 5,
+  sharedEventCap: 4,
+  nearby: 10, // Moins de 25 km
+  sameArea: 6, // Dans le rayon de proximité
+  sameRegion: 5,
+  sameCountry: 3,
+  completeness: 2, // Départage : profils les mieux renseignés
+};
+
+/**
+ * Profils que chaque type de membre a intérêt à rencontrer
+ * (une startup cherche des investisseurs, mentors et experts...)
+ */
+export const COMPLEMENTARY_PROFILES: Partial<Record<ProfileType, ProfileType[]>> = {
+  [ProfileType.STARTUP]: [ProfileType.INVESTOR, ProfileType.MENTOR, ProfileType.EXPERT, ProfileType.INCUBATOR, ProfileType.FINANCIAL_INSTITUTION],
+  [ProfileType.PME]: [ProfileType.FINANCIAL_INSTITUTION, ProfileType.CONSULTANT, ProfileType.EXPERT, ProfileType.TECH_PARTNER, ProfileType.PUBLIC_ORGANIZATION],
+  [ProfileType.INVESTOR]: [ProfileType.STARTUP, ProfileType.INCUBATOR],
+  [ProfileType.MENTOR]: [ProfileType.STARTUP, ProfileType.INCUBATOR],
+  [ProfileType.EXPERT]: [ProfileType.STARTUP, ProfileType.PME],
+  [ProfileType.INCUBATOR]: [ProfileType.STARTUP, ProfileType.MENTOR, ProfileType.INVESTOR],
+  [ProfileType.FINANCIAL_INSTITUTION]: [ProfileType.PME, ProfileType.STARTUP],
+  [ProfileType.PUBLIC_ORGANIZATION]: [ProfileType.PME, ProfileType.STARTUP, ProfileType.INCUBATOR],
+  [ProfileType.TECH_PARTNER]: [ProfileType.STARTUP, ProfileType.PME],
+  [ProfileType.CONSULTANT]: [ProfileType.PME, ProfileType.STARTUP],
+};
+
+const PROFILE_TYPE_LABELS: Partial<Record<ProfileType, string>> = {
+  [ProfileType.STARTUP]: 'Startup',
+  [ProfileType.EXPERT]: 'Expert',
+  [ProfileType.MENTOR]: 'Mentor',
+  [ProfileType.INCUBATOR]: 'Incubateur',
+  [ProfileType.INVESTOR]: 'Investisseur',
+  [ProfileType.FINANCIAL_INSTITUTION]: 'Institution financière',
+  [ProfileType.PUBLIC_ORGANIZATION]: 'Organisme public',
+  [ProfileType.TECH_PARTNER]: 'Partenaire technologique',
+  [ProfileType.PME]: 'PME',
+  [ProfileType.CONSULTANT]: 'Consultant',
+};
+
+export type RecommendationReasonType =
+  | 'MUTUAL_CONNECTIONS'
+  | 'COMPLEMENTARY_PROFILE'
+  | 'SHARED_EXPERTISES'
+  | 'SHARED_EVENTS'
+  | 'NEARBY';
+
+export interface RecommendationReason {
+  type: RecommendationReasonType;
+  label: string; // Explication affichée au membre
+  details: Record<string, any>;
+}
+
+export interface RecommendationFilters {
+  page: number;
+  limit: number;
+}
+
+interface CandidateSignals {
+  mutualIds: Set<string>;
+  expertises: Set<string>;
+  eventIds: Set<string>;
+}
+
+const eligibleMemberWhere = {
+  deletedAt: null,
+  status: { notIn: RESTRICTED_USER_STATUSES },
+};
+
+const recommendedMemberSelect = {
+  id: true,
+  name: true,
+  avatar: true,
+  profileType: true,
+  company: true,
+  location: true,
+  verified: true,
+  completionScore: true,
+  endorsementCount: true,
+};
+
+export class RecommendationsService {
+  private static precomputeTimer: NodeJS.Timeout | null = null;
+  private static precomputing = false;
+
+  /**
+   * Suggestions « Vous connaissez peut-être », de la plus pertinente à la moins pertinente.
+   * Calculées la nuit ; recalculées à la demande si elles n'existent pas encore ou sont périmées.
+   */
+  static async getRecommendations(userId: string, filters: RecommendationFilters) {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { recommendationsComputedAt: true },
+      });
+
+      if (!user) {
+        throw new Error('Utilisateur non trouvé');
+      }
+
+      if (!user.recommendationsComputedAt || Date.now() - user.recommendationsComputedAt.getTime() > STALE_AFTER_MS) {
+        await this.computeForUser(userId);
+      }
+
+      // Relations nouées ou refusées depuis le calcul
+      const linkedIds = await this.getLinkedUserIds(userId);
+      const where = {
+        userId,
+        candidateId: { notIn: linkedIds },
+        candidate: eligibleMemberWhere,
+      };
+
+      const [recommendations, total] = await Promise.all([
+        prisma.memberRecommendation.findMany({
+          where,
+          include: { candidate: { select: recommendedMemberSelect } },
+          orderBy: [{ score: 'desc' }, { candidateId: 'asc' }],
+          skip: (filters.page - 1) * filters.limit,
+          take: filters.limit,
+        }),
+        prisma.memberRecommendation.count({ where }),
+      ]);
+
+      const privacy = await PrivacyService.scope(userId, recommendations.map(recommendation => recommendation.candidate));
+
+      return {
+        recommendations: recommendations.map(recommendation => {
+          const reasons = JSON.parse(recommendation.reasons) as RecommendationReason[];
+          return {
+            user: privacy.serialize(recommendation.candidate),
+            score: Math.round(recommendation.score * 10) / 10,
+            reasons,
+            explanation: reasons.map(reason => reason.label).join(' · '),
+            computedAt: recommendation.computedAt,
+          };
+        }),
+        meta: {
+          page: filters.page,
+          limit: filters.limit,
+          total,
+          totalPages: Math.ceil(total / filters.limit),
+          hasNext: filters.page * filters.limit < total,
+          hasPrev: filters.page > 1,
+        },
+      };
+
+    } catch (error) {
+      logger.error('❌ Get recommendations error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Écarte une suggestion : le membre ne sera plus proposé
+   */
+  static async dismiss(userId: string, candidateId: string) {
+    try {
+      if (userId === candidateId) {
+        throw new Error('Vous ne pouvez pas écarter votre propre profil');
+      }
+
+      const candidate = await prisma.user.findFirst({
+        where: { id: candidateId, deletedAt: null },
+        select: { id: true },
+      });
+
+      if (!candidate) {
+        throw new Error('Utilisateur non trouvé');
+      }
+
+      await prisma.$transaction([
+        prisma.recommendationDismissal.upsert({
+          where: { userId_candidateId: { userId, candidateId } },
+          create: { userId, candidateId },
+          update: {},
+        }),
+        prisma.memberRecommendation.deleteMany({ where: { userId, candidateId } }),
+      ]);
+
+      logger.info(`🙈 Recommendation of ${candidateId} dismissed by ${userId}`);
+      return { success: true };
+
+    } catch (error) {
+      logger.error('❌ Dismiss recommendation error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Annule une mise à l'écart : le membre pourra de nouveau être proposé au prochain calcul
+   */
+  static async restore(userId: string, candidateId: string) {
+    try {
+      const { count } = await prisma.recommendationDismissal.deleteMany({
+        where: { userId, candidateId },
+      });
+
+      if (count === 0) {
+        throw new Error('Suggestion écartée non trouvée');
+      }
+
+      return { success: true };
+
+    } catch (error) {
+      logger.error('❌ Restore recommendation error:', error);
+      throw error;
+    }
+  }
+
+  // ==================== CALCUL ====================
+
+  /**
+   * Recalcule les suggestions d'un membre : relations de ses relations, profils complémentaires,
+   * expertises partagées, événements suivis en commun et proximité géographique.
+   * Les membres déjà en relation (ou en attente, ou bloqués) et les suggestions écartées sont exclus.
+   */
+  static async computeForUser(userId: string): Promise<number> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        profileType: true,
+        deletedAt: true,
+        regionCode: true,
+        countryCode: true,
+        latitude: true,
+        longitude: true,
+        expertises: { select: { name: true } },
+        eventRegistrations: { select: { eventId: true } },
+      },
+    });
+
+    if (!user || user.deletedAt) {
+      return 0;
+    }
+
+    const [connections, dismissals] = await Promise.all([
+      prisma.connection.findMany({
+        where: { OR: [{ requesterId: userId }, { targetId: userId }] },
+        select: { requesterId: true, targetId: true, status: true },
+      }),
+      prisma.recommendationDismissal.findMany({
+        where: { userId },
+        select: { candidateId: true },
+      }),
+    ]);
+
+    const otherOf = (connection: { requesterId: string; targetId: string }) =>
+      connection.requesterId === userId ? connection.targetId : connection.requesterId;
+    const connectedIds = new Set(connections.filter(c => c.status === ConnectionStatus.ACCEPTED).map(otherOf));
+    const excluded = new Set([userId, ...connections.map(otherOf), ...dismissals.map(d => d.candidateId)]);
+
+    const signals = new Map<string, CandidateSignals>();
+    const signalFor = (candidateId: string): CandidateSignals | null => {
+      if (excluded.has(candidateId)) return null;
+      if (!signals.has(candidateId)) {
+        signals.set(candidateId, { mutualIds: new Set(), expertises: new Set(), eventIds: new Set() });
+      }
+      return signals.get(candidateId)!;
+    };
+
+    // Relations de mes relations
+    if (connectedIds.size > 0) {
+      const secondDegree = await prisma.connection.findMany({
+        where: {
+          status: ConnectionStatus.ACCEPTED,
+          OR: [{ requesterId: { in: [...connectedIds] } }, { targetId: { in: [...connectedIds] } }],
+        },
+        select: { requesterId: true, targetId: true },
+      });
+
+      for (const link of secondDegree) {
+        if (connectedIds.has(link.requesterId)) signalFor(link.targetId)?.mutualIds.add(link.requesterId);
+        if (connectedIds.has(link.targetId)) signalFor(link.requesterId)?.mutualIds.add(link.targetId);
+      }
+    }
+
+    // Expertises portant le même nom (sans tenir compte de la casse)
+    const expertiseNames = [...new Set(user.expertises.map(expertise => expertise.name))];
+    if (expertiseNames.length > 0) {
+      const myExpertises = new Set(expertiseNames.map(name => name.toLowerCase()));
+      const shared = await prisma.userExpertise.findMany({
+        where: { name: { in: expertiseNames }, userId: { not: userId } },
+        select: { userId: true, name: true },
+      });
+
+      for (const expertise of shared) {
+        if (myExpertises.has(expertise.name.toLowerCase())) signalFor(expertise.userId)?.expertises.add(expertise.name);
+      }
+    }
+
+    // Participants aux mêmes événements
+    const eventIds = user.eventRegistrations.map(registration => registration.eventId);
+    if (eventIds.length > 0) {
+      const coAttendees = await prisma.eventRegistration.findMany({
+        where: { eventId: { in: eventIds }, userId: { not: userId } },
+        select: { userId: true, eventId: true },
+      });
+
+      for (const registration of coAttendees) {
+        signalFor(registration.userId)?.eventIds.add(registration.eventId);
+      }
+    }
+
+    // Profils complémentaires et membres proches, les mieux renseignés d'abord
+    const complementaryTypes = COMPLEMENTARY_PROFILES[user.profileType] ?? [];
+    const origin = user.latitude !== null && user.longitude !== null
+      ? { latitude: user.latitude, longitude: user.longitude }
+      : null;
+    const areaWhere = origin
+      ? LocationsService.where({ near: origin, radiusKm: NEARBY_RADIUS_KM })
+      : user.countryCode ? { countryCode: user.countryCode } : null;
+
+    const [complementaryPool, nearbyPool] = await Promise.all([
+      complementaryTypes.length > 0
+        ? prisma.user.findMany({
+          where: { ...eligibleMemberWhere, profileType: { in: complementaryTypes }, id: { notIn: [...excluded] } },
+          select: { id: true },
+          orderBy: { completionScore: 'desc' },
+          take: CANDIDATE_POOL_LIMIT,
+        })
+        : Promise.resolve([]),
+      areaWhere
+        ? prisma.user.findMany({
+          where: { ...eligibleMemberWhere, ...areaWhere, id: { notIn: [...excluded] } },
+          select: { id: true },
+          orderBy: { completionScore: 'desc' },
+          take: CANDIDATE_POOL_LIMIT,
+        })
+        : Promise.resolve([]),
+    ]);
+
+    for (const candidate of [...complementaryPool, ...nearbyPool]) {
+      signalFor(candidate.id);
+    }
+
+    const candidates = (await prisma.user.findMany({
+      where: { ...eligibleMemberWhere, id: { in: [...signals.keys()] } },
+      select: {
+        id: true,
+        profileType: true,
+        completionScore: true,
+        regionCode: true,
+        countryCode: true,
+        latitude: true,
+        longitude: true,
+      },
+    })).filter(candidate => candidate.profileType !== 'ADMIN');
+
+    // Noms et titres cités dans les explications
+    const [mutualUsers, events, privacy] = await Promise.all([
+      prisma.user.findMany({ where: { id: { in: [...connectedIds] } }, select: { id: true, name: true } }),
+      prisma.event.findMany({ where: { id: { in: eventIds } }, select: { id: true, title: true } }),
+      PrivacyService.scope(userId, candidates),
+    ]);
+    const mutualNames = new Map(mutualUsers.map(mutual => [mutual.id, mutual.name]));
+    const eventTitles = new Map(events.map(event => [event.id, event.title]));
+
+    const scored = candidates
+      .map(candidate => {
+        const signal = signals.get(candidate.id)!;
+        const reasons: RecommendationReason[] = [];
+        let score = 0;
+
+        // Relations communes : seulement si le candidat laisse voir son réseau
+        if (signal.mutualIds.size > 0 && privacy.canSee(candidate.id, 'connections')) {
+          const count = signal.mutualIds.size;
+          score += Math.min(count, WEIGHTS.mutualConnectionCap) * WEIGHTS.mutualConnection;
+          reasons.push({
+            type: 'MUTUAL_CONNECTIONS',
+            label: count === 1 ? '1 relation en commun' : `${count} relations en commun`,
+            details: { count, names: [...signal.mutualIds].slice(0, 3).map(id => mutualNames.get(id)).filter(Boolean) },
+          });
+        }
+
+        if (complementaryTypes.includes(candidate.profileType)) {
+          score += WEIGHTS.complementaryProfile;
+          reasons.push({
+            type: 'COMPLEMENTARY_PROFILE',
+            label: `Profil complémentaire : ${PROFILE_TYPE_LABELS[candidate.profileType] ?? candidate.profileType}`,
+            details: { profileType: candidate.profileType },
+          });
+        }
+
+        if (signal.expertises.size > 0) {
+          const expertises = [...signal.expertises];
+          score += Math.min(expertises.length, WEIGHTS.sharedExpertiseCap) * WEIGHTS.sharedExpertise;
+          reasons.push({
+            type: 'SHARED_EXPERTISES',
+            label: `Expertises en commun : ${expertises.slice(0, 3).join(', ')}`,
+            details: { expertises: expertises.slice(0, 5) },
+          });
+        }
+
+        if (signal.eventIds.size > 0) {
+          const titles = [...signal.eventIds].map(id => eventTitles.get(id)).filter(Boolean) as string[];
+          score += Math.min(signal.eventIds.size, WEIGHTS.sharedEventCap) * WEIGHTS.sharedEvent;
+          reasons.push({
+            type: 'SHARED_EVENTS',
+            label: signal.eventIds.size === 1
+              ? `Inscrit au même événement : ${titles[0]}`
+              : `${signal.eventIds.size} événements en commun`,
+            details: { count: signal.eventIds.size, events: titles.slice(0, 3) },
+          });
+        }
+
+        // Proximité : seulement si le candidat laisse voir sa localisation
+        if (privacy.canSee(candidate.id, 'location')) {
+          const proximity = this.proximity(user, candidate);
+          if (proximity) {
+            score += proximity.weight;
+            reasons.push(proximity.reason);
+          }
+        }
+
+        return { candidateId: candidate.id, score, reasons, completionScore: candidate.completionScore };
+      })
+      .filter(entry => entry.reasons.length > 0)
+      .map(entry => ({ ...entry, score: entry.score + (entry.completionScore / 100) * WEIGHTS.completeness }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, RECOMMENDATIONS_PER_USER);
+
+    const computedAt = new Date();
+    await prisma.$transaction([
+      prisma.memberRecommendation.deleteMany({ where: { userId } }),
+      prisma.memberRecommendation.createMany({
+        data: scored.map(entry => ({
+          userId,
+          candidateId: entry.candidateId,
+          score: entry.score,
+          reasons: JSON.stringify(entry.reasons),
+          computedAt,
+        })),
+      }),
+      prisma.user.update({ where: { id: userId }, data: { recommendationsComputedAt: computedAt } }),
+    ]);
+
+    return scored.length;
+  }
+
+  /**
+   * Calcul nocturne pour les membres actifs récemment (les autres le sont à leur retour)
+   */
+  static async precomputeAll(): Promise<number> {
+    if (this.precomputing) {
+      return 0;
+    }
+
+    this.precomputing = true;
+    let processed = 0;
+
+    try {
+      const activeSince = new Date(Date.now() - PRECOMPUTE_ACTIVE_WITHIN_MS);
+      let afterId = '';
+
+      for (;;) {
+        const users = await prisma.user.findMany({
+          where: {
+            ...eligibleMemberWhere,
+            id: { gt: afterId },
+            OR: [{ lastLogin: { gte: activeSince } }, { createdAt: { gte: activeSince } }],
+          },
+          select: { id: true },
+          orderBy: { id: 'asc' },
+          take: PRECOMPUTE_BATCH_SIZE,
+        });
+        if (users.length === 0) break;
+
+        for (const user of users) {
+          try {
+            await this.computeForUser(user.id);
+            processed++;
+          } catch (error) {
+            logger.error(`❌ Recommendation computation error for ${user.id}:`, error);
+          }
+        }
+
+        afterId = users[users.length - 1].id;
+      }
+
+      logger.info(`🤝 Recommendations precomputed for ${processed} member(s)`);
+      return processed;
+
+    } catch (error) {
+      logger.error('❌ Recommendation precomputation error:', error);
+      return processed;
+    } finally {
+      this.precomputing = false;
+    }
+  }
+
+  static startWorker() {
+    if (this.precomputeTimer) {
+      return;
+    }
+
+    this.scheduleNextRun();
+  }
+
+  static stopWorker() {
+    if (this.precomputeTimer) clearTimeout(this.precomputeTimer);
+    this.precomputeTimer = null;
+  }
+
+  private static scheduleNextRun() {
+    const now = new Date();
+    const nextRun = new Date(now);
+    nextRun.setHours(PRECOMPUTE_HOUR, 0, 0, 0);
+    if (nextRun <= now) {
+      nextRun.setDate(nextRun.getDate() + 1);
+    }
+
+    this.precomputeTimer = setTimeout(async () => {
+      await this.precomputeAll();
+      this.scheduleNextRun();
+    }, nextRun.getTime() - now.getTime());
+    this.precomputeTimer.unref();
+  }
+
+  // Membres avec qui une relation existe déjà, quel que soit son statut
+  private static async getLinkedUserIds(userId: string): Promise<string[]> {
+    const connections = await prisma.connection.findMany({
+      where: { OR: [{ requesterId: userId }, { targetId: userId }] },
+      select: { requesterId: true, targetId: true },
+    });
+
+    return connections.map(c => c.requesterId === userId ? c.targetId : c.requesterId);
+  }
+
+  private static proximity(
+    user: { regionCode: string | null; countryCode: string | null; latitude: number | null; longitude: number | null },
+    candidate: { regionCode: string | null; countryCode: string | null; latitude: number | null; longitude: number | null }
+  ): { weight: number; reason: RecommendationReason } | null {
+    if (user.latitude !== null && user.longitude !== null && candidate.latitude !== null && candidate.longitude !== null) {
+      const distanceKm = LocationsService.distanceKm(
+        { latitude: user.latitude, longitude: user.longitude },
+        { latitude: candidate.latitude, longitude: candidate.longitude }
+      );
+      if (distanceKm <= NEARBY_RADIUS_KM) {
+        return {
+          weight: distanceKm < 25 ? WEIGHTS.nearby : WEIGHTS.sameArea,
+          reason: {
+            type: 'NEARBY',
+            label: distanceKm < 1 ? 'Dans la même ville que vous' : `À ${Math.round(distanceKm)} km de vous`,
+            details: { distanceKm },
+          },
+        };
+      }
+    }
+
+    if (user.regionCode && user.regionCode === candidate.regionCode) {
+      return {
+        weight: WEIGHTS.sameRegion,
+        reason: { type: 'NEARBY', label: 'Dans la même région que vous', details: { regionCode: candidate.regionCode } },
+      };
+    }
+
+    if (user.countryCode && user.countryCode === candidate.countryCode) {
+      return {
+        weight: WEIGHTS.sameCountry,
+        reason: { type: 'NEARBY', label: 'Dans le même pays que vous', details: { countryCode: candidate.countryCode } },
+      };
+    }
+
+    return null;
+  }
+}
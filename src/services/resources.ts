@@ -1,4 +1,6 @@
-import { PrismaClient, ResourceType } from '@prisma/client';
+import { PrismaClient, ResourceType, BookmarkTarget } from '@prisma/client';
+import { OrganizationsService, organizationSummarySelect } from './organizations';
+import { BookmarksService } from './bookmarks';
 
 const prisma = new PrismaClient();
 
@@ -14,6 +16,7 @@ export interface CreateResourceData {
   author: string;
   tags?: string[];
   isPremium?: boolean;
+  organizationId?: string;
 }
 
 export interface ResourceFilters {
@@ -22,6 +25,10 @@ export interface ResourceFilters {
   search?: string;
   tags?: string;
   isPremium?: boolean;
+  organizationId?: string;
+  // Fenêtre de création, utilisée par les alertes des recherches sauvegardées
+  createdAfter?: Date;
+  createdBefore?: Date;
 }
 
 export interface ResourcePagination {
@@ -37,6 +44,11 @@ export class ResourcesService {
     try {
       console.log(`📝 Creating resource: ${resourceData.title}`);
 
+      // Au nom d'une organisation, celle-ci est l'auteur par défaut
+      const organizationName = resourceData.organizationId
+        ? await OrganizationsService.assertCanPublish(resourceData.organizationId, resourceData.creatorId)
+        : undefined;
+
       // Upload thumbnail if provided as file
       let thumbnailUrl = resourceData.thumbnail;
       if (resourceData.thumbnailFile && resourceData.creatorId) {
@@ -57,14 +69,16 @@ export class ResourcesService {
           url: resourceData.url,
           thumbnail: thumbnailUrl,
           type: resourceData.type,
-          author: resourceData.author,
+          author: resourceData.author || organizationName,
           isPremium: resourceData.isPremium || false,
+          organizationId: resourceData.organizationId,
           tags: resourceData.tags ? {
             create: resourceData.tags.map(tag => ({ tag }))
           } : undefined,
         },
         include: {
           tags: true,
+          organization: { select: organizationSummarySelect },
         },
       });
 
@@ -96,6 +110,14 @@ export class ResourcesService {
         where.isPremium = filters.isPremium;
       }
 
+      if (filters.organizationId) {
+        where.organizationId = filters.organizationId;
+      }
+
+      if (filters.createdAfter || filters.createdBefore) {
+        where.createdAt = { gt: filters.createdAfter, lte: filters.createdBefore };
+      }
+
       if (filters.search) {
         where.OR = [
           { title: { contains: filters.search } },
@@ -119,6 +141,7 @@ export class ResourcesService {
         where,
         include: {
           tags: true,
+          organization: { select: organizationSummarySelect },
         },
         orderBy: {
           [pagination.sortBy || 'createdAt']: pagination.sortOrder || 'desc',
@@ -145,7 +168,7 @@ export class ResourcesService {
     }
   }
 
-  static async getResourceById(resourceId: string, incrementView: boolean = false) {
+  static async getResourceById(resourceId: string, incrementView: boolean = false, userId?: string) {
     try {
       console.log(`📄 Getting resource ${resourceId}`);
 
@@ -153,6 +176,7 @@ export class ResourcesService {
         where: { id: resourceId },
         include: {
           tags: true,
+          organization: { select: organizationSummarySelect },
         },
       });
 
@@ -169,7 +193,10 @@ export class ResourcesService {
         resource.viewCount += 1;
       }
 
-      return resource;
+      return {
+        ...resource,
+        isBookmarked: await BookmarksService.isBookmarked(userId, BookmarkTarget.RESOURCE, resourceId),
+      };
 
     } catch (error) {
       console.error('❌ Get resource by ID error:', error);
@@ -177,7 +204,7 @@ export class ResourcesService {
     }
   }
 
-  static async updateResource(resourceId: string, authorName: string, updateData: Partial<CreateResourceData>) {
+  static async updateResource(resourceId: string, authorName: string, updateData: Partial<CreateResourceData>, canModerate = false, userId?: string) {
     try {
       console.log(`📝 Updating resource ${resourceId}`);
 
@@ -190,7 +217,11 @@ export class ResourcesService {
         throw new Error('Ressource non trouvée');
       }
 
-      if (existingResource.author !== authorName) {
+      if (
+        existingResource.author !== authorName &&
+        !canModerate &&
+        !(await OrganizationsService.canManage(existingResource.organizationId, userId))
+      ) {
         throw new Error('Non autorisé à modifier cette ressource');
       }
 
@@ -229,6 +260,7 @@ export class ResourcesService {
         },
         include: {
           tags: true,
+          organization: { select: organizationSummarySelect },
         },
       });
 
@@ -260,7 +292,7 @@ export class ResourcesService {
     }
   }
 
-  static async deleteResource(resourceId: string, authorName: string) {
+  static async deleteResource(resourceId: string, authorName: string, canModerate = false, userId?: string) {
     try {
       console.log(`🗑️ Deleting resource ${resourceId}`);
 
@@ -272,13 +304,18 @@ export class ResourcesService {
         throw new Error('Ressource non trouvée');
       }
 
-      if (existingResource.author !== authorName) {
+      if (
+        existingResource.author !== authorName &&
+        !canModerate &&
+        !(await OrganizationsService.canManage(existingResource.organizationId, userId))
+      ) {
         throw new Error('Non autorisé à supprimer cette ressource');
       }
 
       await prisma.resource.delete({
         where: { id: resourceId },
       });
+      await BookmarksService.removeTarget(BookmarkTarget.RESOURCE, resourceId);
 
       console.log(`✅ Resource deleted: ${resourceId}`);
       return { success: true };
@@ -301,6 +338,7 @@ export class ResourcesService {
         where: { author: { contains: authorName } },
         include: {
           tags: true,
+          organization: { select: organizationSummarySelect },
         },
         orderBy: { createdAt: 'desc' },
         skip: (pagination.page - 1) * pagination.limit,
@@ -332,6 +370,7 @@ export class ResourcesService {
       const resources = await prisma.resource.findMany({
         include: {
           tags: true,
+          organization: { select: organizationSummarySelect },
         },
         orderBy: { viewCount: 'desc' },
         skip: (pagination.page - 1) * pagination.limit,
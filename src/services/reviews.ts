@@ -0,0 +1,478 @@
+import {
+  PrismaClient,
+  Prisma,
+  ApplicationStatus,
+  EventStatus,
+  ReviewContext,
+  ReviewStatus,
+  ReviewReportStatus,
+} from '@prisma/client';
+import { NotificationsService } from './notifications';
+import { ConnectionsService } from './connections';
+import { logger } from '../config/logger';
+
+const prisma = new PrismaClient();
+
+// Critères optionnels notés de 1 à 5 en complément de la note globale
+export const REVIEW_CRITERIA = ['communication', 'quality', 'reliability', 'expertise'] as const;
+export type ReviewCriterion = typeof REVIEW_CRITERIA[number];
+
+export const REVIEW_REPORT_REASONS = ['ABUSIVE', 'FAKE', 'PERSONAL_DATA', 'OFF_TOPIC', 'OTHER'] as const;
+
+export interface CreateReviewData {
+  context: ReviewContext;
+  contextId: string;
+  score: number;
+  comment: string;
+  criteria?: Partial<Record<ReviewCriterion, number>>;
+}
+
+export interface ReviewPagination {
+  page: number;
+  limit: number;
+}
+
+export interface ReviewReportFilters extends ReviewPagination {
+  status?: ReviewReportStatus;
+}
+
+export type ReviewReportDecision = 'DISMISS' | 'HIDE';
+
+const reviewUserSelect = {
+  id: true,
+  name: true,
+  avatar: true,
+  profileType: true,
+  company: true,
+};
+
+interface ReviewableInteraction {
+  revieweeId: string;
+  title: string;
+}
+
+export class ReviewsService {
+
+  /**
+   * Avis laissé après une interaction réelle : candidature acceptée ou événement terminé
+   * auquel l'auteur de l'avis était inscrit
+   */
+  static async createReview(reviewerId: string, data: CreateReviewData) {
+    try {
+      const interaction = await this.resolveInteraction(reviewerId, data.context, data.contextId);
+
+      if (await ConnectionsService.isBlocked(reviewerId, interaction.revieweeId)) {
+        throw new Error('Impossible de laisser un avis à cet utilisateur');
+      }
+
+      const review = await prisma.review.create({
+        data: {
+          reviewerId,
+          revieweeId: interaction.revieweeId,
+          context: data.context,
+          contextId: data.contextId,
+          score: data.score,
+          comment: data.comment.trim(),
+          criteria: data.criteria && Object.keys(data.criteria).length > 0 ? JSON.stringify(data.criteria) : null,
+        },
+        include: { reviewer: { select: reviewUserSelect } },
+      });
+
+      await this.recomputeRating(interaction.revieweeId);
+
+      await this.notify(
+        interaction.revieweeId,
+        'Nouvel avis reçu',
+        `${review.reviewer.name} a laissé un avis (${review.score}/5) suite à « ${interaction.title} ».`,
+        `/reviews/${review.id}`
+      );
+
+      logger.info(`⭐ Review ${review.id} left by ${reviewerId} for ${interaction.revieweeId}`);
+      return this.format(review);
+
+    } catch (error: any) {
+      if (error?.code === 'P2002') {
+        throw new Error('Vous avez déjà laissé un avis pour cette collaboration');
+      }
+      logger.error('❌ Create review error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Avis publiés sur un profil, avec la répartition des notes
+   */
+  static async getUserReviews(userId: string, pagination: ReviewPagination) {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { rating: true, reviewCount: true, deletedAt: true },
+      });
+
+      if (!user || user.deletedAt) {
+        throw new Error('Utilisateur non trouvé');
+      }
+
+      const where: Prisma.ReviewWhereInput = { revieweeId: userId, status: ReviewStatus.PUBLISHED };
+
+      const [reviews, total, distribution] = await Promise.all([
+        prisma.review.findMany({
+          where,
+          include: { reviewer: { select: reviewUserSelect } },
+          orderBy: { createdAt: 'desc' },
+          skip: (pagination.page - 1) * pagination.limit,
+          take: pagination.limit,
+        }),
+        prisma.review.count({ where }),
+        prisma.review.groupBy({ by: ['score'], where, _count: { _all: true } }),
+      ]);
+
+      return {
+        reviews: reviews.map(review => this.format(review)),
+        summary: {
+          rating: user.rating,
+          reviewCount: user.reviewCount,
+          distribution: [5, 4, 3, 2, 1].map(score => ({
+            score,
+            count: distribution.find(group => group.score === score)?._count._all ?? 0,
+          })),
+        },
+        meta: {
+          page: pagination.page,
+          limit: pagination.limit,
+          total,
+          totalPages: Math.ceil(total / pagination.limit),
+          hasNext: pagination.page * pagination.limit < total,
+          hasPrev: pagination.page > 1,
+        },
+      };
+
+    } catch (error) {
+      logger.error('❌ Get user reviews error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Collaborations terminées que l'utilisateur peut encore évaluer
+   */
+  static async getPendingReviews(userId: string) {
+    try {
+      const now = new Date();
+
+      const [applications, registrations, given] = await Promise.all([
+        prisma.application.findMany({
+          where: {
+            status: ApplicationStatus.ACCEPTED,
+            OR: [{ applicantId: userId }, { opportunity: { authorId: userId } }],
+          },
+          select: {
+            id: true,
+            applicant: { select: reviewUserSelect },
+            opportunity: { select: { title: true, author: { select: reviewUserSelect } } },
+          },
+        }),
+        prisma.eventRegistration.findMany({
+          where: {
+            userId,
+            event: {
+              status: { not: EventStatus.CANCELLED },
+              creatorId: { not: userId },
+              OR: [{ endDate: { lt: now } }, { endDate: null, startDate: { lt: now } }],
+            },
+          },
+          select: { event: { select: { id: true, title: true, creator: { select: reviewUserSelect } } } },
+        }),
+        prisma.review.findMany({
+          where: { reviewerId: userId },
+          select: { context: true, contextId: true },
+        }),
+      ]);
+
+      const alreadyReviewed = new Set(given.map(review => `${review.context}:${review.contextId}`));
+
+      const pending = [
+        ...applications.map(application => ({
+          context: ReviewContext.APPLICATION,
+          contextId: application.id,
+          title: application.opportunity.title,
+          reviewee: application.applicant.id === userId ? application.opportunity.author : application.applicant,
+        })),
+        ...registrations
+          .filter(registration => registration.event.creator)
+          .map(registration => ({
+            context: ReviewContext.EVENT,
+            contextId: registration.event.id,
+            title: registration.event.title,
+            reviewee: registration.event.creator!,
+          })),
+      ];
+
+      return pending.filter(item => !alreadyReviewed.has(`${item.context}:${item.contextId}`));
+
+    } catch (error) {
+      logger.error('❌ Get pending reviews error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Réponse publique de la personne évaluée (modifiable)
+   */
+  static async replyToReview(reviewId: string, userId: string, reply: string) {
+    try {
+      const review = await prisma.review.findUnique({ where: { id: reviewId } });
+
+      if (!review || review.status !== ReviewStatus.PUBLISHED) {
+        throw new Error('Avis non trouvé');
+      }
+      if (review.revieweeId !== userId) {
+        throw new Error('Seule la personne évaluée peut répondre à cet avis');
+      }
+
+      const updated = await prisma.review.update({
+        where: { id: reviewId },
+        data: { reply: reply.trim(), repliedAt: new Date() },
+        include: { reviewer: { select: reviewUserSelect } },
+      });
+
+      if (!review.reply) {
+        await this.notify(review.reviewerId, 'Réponse à votre avis', 'La personne que vous avez évaluée a répondu à votre avis.', `/reviews/${reviewId}`);
+      }
+
+      return this.format(updated);
+
+    } catch (error) {
+      logger.error('❌ Reply to review error:', error);
+      throw error;
+    }
+  }
+
+  static async reportReview(reviewId: string, reporterId: string, reason: string, details?: string) {
+    try {
+      const review = await prisma.review.findUnique({
+        where: { id: reviewId },
+        select: { id: true, reviewerId: true, status: true },
+      });
+
+      if (!review || review.status !== ReviewStatus.PUBLISHED) {
+        throw new Error('Avis non trouvé');
+      }
+      if (review.reviewerId === reporterId) {
+        throw new Error('Vous ne pouvez pas signaler votre propre avis');
+      }
+
+      const report = await prisma.reviewReport.create({
+        data: { reviewId, reporterId, reason, details: details?.trim() },
+      });
+
+      logger.warn(`🚩 Review ${reviewId} reported by ${reporterId} (${reason})`);
+      return report;
+
+    } catch (error: any) {
+      if (error?.code === 'P2002') {
+        throw new Error('Vous avez déjà signalé cet avis');
+      }
+      logger.error('❌ Report review error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * File de modération des signalements (les plus anciens d'abord)
+   */
+  static async getReports(filters: ReviewReportFilters) {
+    try {
+      const where: Prisma.ReviewReportWhereInput = { status: filters.status ?? ReviewReportStatus.OPEN };
+
+      const [reports, total] = await Promise.all([
+        prisma.reviewReport.findMany({
+          where,
+          include: {
+            reporter: { select: reviewUserSelect },
+            review: {
+              include: {
+                reviewer: { select: reviewUserSelect },
+                reviewee: { select: reviewUserSelect },
+                _count: { select: { reports: true } },
+              },
+            },
+          },
+          orderBy: { createdAt: 'asc' },
+          skip: (filters.page - 1) * filters.limit,
+          take: filters.limit,
+        }),
+        prisma.reviewReport.count({ where }),
+      ]);
+
+      return {
+        reports: reports.map(report => ({ ...report, review: this.format(report.review) })),
+        meta: {
+          page: filters.page,
+          limit: filters.limit,
+          total,
+          totalPages: Math.ceil(total / filters.limit),
+          hasNext: filters.page * filters.limit < total,
+          hasPrev: filters.page > 1,
+        },
+      };
+
+    } catch (error) {
+      logger.error('❌ Get review reports error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Décision de modération : rejeter le signalement, ou masquer l'avis
+   * (tous les signalements ouverts sur cet avis sont alors retenus)
+   */
+  static async resolveReport(reportId: string, moderatorId: string, decision: ReviewReportDecision, reason?: string) {
+    try {
+      const report = await prisma.reviewReport.findUnique({
+        where: { id: reportId },
+        include: { review: { select: { id: true, revieweeId: true, reviewerId: true } } },
+      });
+
+      if (!report) {
+        throw new Error('Signalement non trouvé');
+      }
+      if (report.status !== ReviewReportStatus.OPEN) {
+        throw new Error('Ce signalement a déjà été traité');
+      }
+
+      const now = new Date();
+
+      if (decision === 'DISMISS') {
+        await prisma.reviewReport.update({
+          where: { id: reportId },
+          data: { status: ReviewReportStatus.DISMISSED, resolvedById: moderatorId, resolvedAt: now },
+        });
+      } else {
+        await prisma.$transaction([
+          prisma.review.update({
+            where: { id: report.review.id },
+            data: { status: ReviewStatus.HIDDEN, hiddenReason: reason ?? report.reason },
+          }),
+          prisma.reviewReport.updateMany({
+            where: { reviewId: report.review.id, status: ReviewReportStatus.OPEN },
+            data: { status: ReviewReportStatus.UPHELD, resolvedById: moderatorId, resolvedAt: now },
+          }),
+        ]);
+
+        await this.recomputeRating(report.review.revieweeId);
+        await this.notify(
+          report.review.reviewerId,
+          'Avis masqué',
+          'Un de vos avis a été masqué par la modération car il ne respecte pas la charte de la communauté.'
+        );
+      }
+
+      logger.info(`🛡️ Review report ${reportId} resolved by ${moderatorId}: ${decision}`);
+      return { reportId, reviewId: report.review.id, decision };
+
+    } catch (error) {
+      logger.error('❌ Resolve review report error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Note moyenne et nombre d'avis publiés, dénormalisés sur le profil
+   */
+  static async recomputeRating(userId: string) {
+    const where: Prisma.ReviewWhereInput = { revieweeId: userId, status: ReviewStatus.PUBLISHED };
+
+    const [{ _avg }, reviewCount] = await Promise.all([
+      prisma.review.aggregate({ where, _avg: { score: true } }),
+      prisma.review.count({ where }),
+    ]);
+
+    const rating = _avg.score !== null ? Math.round(_avg.score * 100) / 100 : null;
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { rating, reviewCount },
+    });
+
+    return { rating, reviewCount };
+  }
+
+  private static async resolveInteraction(
+    reviewerId: string,
+    context: ReviewContext,
+    contextId: string
+  ): Promise<ReviewableInteraction> {
+    let interaction: ReviewableInteraction;
+
+    if (context === ReviewContext.APPLICATION) {
+      const application = await prisma.application.findUnique({
+        where: { id: contextId },
+        select: { status: true, applicantId: true, opportunity: { select: { title: true, authorId: true } } },
+      });
+
+      const participants = [application?.applicantId, application?.opportunity.authorId];
+      if (!application || !participants.includes(reviewerId)) {
+        throw new Error('Collaboration non trouvée');
+      }
+      if (application.status !== ApplicationStatus.ACCEPTED) {
+        throw new Error('Un avis ne peut être laissé qu\'après une candidature acceptée');
+      }
+
+      interaction = {
+        revieweeId: application.applicantId === reviewerId ? application.opportunity.authorId : application.applicantId,
+        title: application.opportunity.title,
+      };
+    } else {
+      const event = await prisma.event.findUnique({
+        where: { id: contextId },
+        select: {
+          title: true,
+          status: true,
+          startDate: true,
+          endDate: true,
+          creatorId: true,
+          registrations: { where: { userId: reviewerId }, select: { id: true } },
+        },
+      });
+
+      if (!event || event.registrations.length === 0 || !event.creatorId || event.creatorId === reviewerId) {
+        throw new Error('Collaboration non trouvée');
+      }
+      if (event.status === EventStatus.CANCELLED || (event.endDate ?? event.startDate) > new Date()) {
+        throw new Error('Un avis ne peut être laissé qu\'après la fin de l\'événement');
+      }
+
+      interaction = { revieweeId: event.creatorId, title: event.title };
+    }
+
+    if (interaction.revieweeId === reviewerId) {
+      throw new Error('Vous ne pouvez pas vous évaluer vous-même');
+    }
+
+    const reviewee = await prisma.user.findUnique({
+      where: { id: interaction.revieweeId },
+      select: { deletedAt: true },
+    });
+    if (!reviewee || reviewee.deletedAt) {
+      throw new Error('Utilisateur non trouvé');
+    }
+
+    return interaction;
+  }
+
+  private static format<T extends { criteria: string | null }>(review: T) {
+    return {
+      ...review,
+      criteria: review.criteria ? JSON.parse(review.criteria) as Partial<Record<ReviewCriterion, number>> : null,
+    };
+  }
+
+  private static async notify(userId: string, title: string, message: string, actionUrl?: string) {
+    try {
+      await NotificationsService.createSystemNotification(userId, title, message, actionUrl);
+    } catch (notificationError) {
+      logger.error('❌ Failed to send review notification:', notificationError);
+    }
+  }
+}
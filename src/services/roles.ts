@@ -0,0 +1,246 @@
+import { PrismaClient, ProfileType, Role } from '@prisma/client';
+import { NotificationsService } from './notifications';
+import redisManager from '../config/redis';
+import { logger } from '../config/logger';
+
+const prisma = new PrismaClient();
+
+// Les permissions changent rarement : un cache court suffit, invalidé à chaque attribution/retrait
+const PERMISSIONS_CACHE_TTL_SECONDS = 60;
+
+export enum Permission {
+  // Utilisateurs
+  USERS_MANAGE = 'users:manage',
+  USERS_MODERATE = 'users:moderate',
+  USERS_IMPERSONATE = 'users:impersonate',
+  INVITATIONS_MANAGE = 'invitations:manage',
+  EXPERTISES_VERIFY = 'expertises:verify',
+
+  // Contenus publiés par les membres
+  OPPORTUNITIES_MODERATE = 'opportunities:moderate',
+  EVENTS_MODERATE = 'events:moderate',
+  EVENTS_REGISTRATIONS = 'events:registrations',
+  RESOURCES_MODERATE = 'resources:moderate',
+
+  // Pilotage
+  ANALYTICS_READ = 'analytics:read',
+  AUDIT_READ = 'audit:read',
+  MONITORING_READ = 'monitoring:read',
+
+  // Administration de la plateforme
+  SECURITY_MANAGE = 'security:manage',
+  EMAILS_MANAGE = 'emails:manage',
+  ROLES_MANAGE = 'roles:manage',
+}
+
+export const PERMISSION_DESCRIPTIONS: Record<Permission, string> = {
+  [Permission.USERS_MANAGE]: 'Gérer les comptes (déverrouillage, suspension, suppression)',
+  [Permission.USERS_MODERATE]: 'Modérer les profils et les signalements',
+  [Permission.USERS_IMPERSONATE]: 'Se connecter en tant qu\'un membre pour l\'assistance',
+  [Permission.INVITATIONS_MANAGE]: 'Émettre des invitations pour tout type de profil et gérer toutes les invitations',
+  [Permission.EXPERTISES_VERIFY]: 'Examiner les justificatifs et vérifier les expertises déclarées',
+  [Permission.OPPORTUNITIES_MODERATE]: 'Modifier ou supprimer toute opportunité',
+  [Permission.EVENTS_MODERATE]: 'Modifier ou supprimer tout événement',
+  [Permission.EVENTS_REGISTRATIONS]: 'Consulter les inscrits de tout événement',
+  [Permission.RESOURCES_MODERATE]: 'Modifier ou supprimer toute ressource',
+  [Permission.ANALYTICS_READ]: 'Consulter les statistiques de la plateforme',
+  [Permission.AUDIT_READ]: 'Consulter la piste d\'audit',
+  [Permission.MONITORING_READ]: 'Consulter le tableau de bord technique',
+  [Permission.SECURITY_MANAGE]: 'Gérer les politiques de sécurité (2FA, verrouillages)',
+  [Permission.EMAILS_MANAGE]: 'Superviser la file d\'envoi des emails',
+  [Permission.ROLES_MANAGE]: 'Attribuer et retirer les rôles',
+};
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  [Role.SUPER_ADMIN]: Object.values(Permission),
+  [Role.MODERATOR]: [
+    Permission.USERS_MODERATE,
+    Permission.EXPERTISES_VERIFY,
+    Permission.OPPORTUNITIES_MODERATE,
+    Permission.EVENTS_MODERATE,
+    Permission.RESOURCES_MODERATE,
+  ],
+  [Role.ANALYST]: [
+    Permission.ANALYTICS_READ,
+    Permission.AUDIT_READ,
+    Permission.MONITORING_READ,
+  ],
+  [Role.EVENT_MANAGER]: [
+    Permission.EVENTS_MODERATE,
+    Permission.EVENTS_REGISTRATIONS,
+  ],
+};
+
+const ROLE_LABELS: Record<Role, string> = {
+  [Role.SUPER_ADMIN]: 'Super administrateur',
+  [Role.MODERATOR]: 'Modérateur',
+  [Role.ANALYST]: 'Analyste',
+  [Role.EVENT_MANAGER]: 'Gestionnaire d\'événements',
+};
+
+export interface PermissionSubject {
+  id: string;
+  profileType: ProfileType | string;
+  apiKeyId?: string;
+}
+
+export class RolesService {
+
+  /**
+   * Rôles effectifs : rôles attribués + SUPER_ADMIN implicite pour les comptes de type ADMIN
+   * (compatibilité avec les administrateurs créés avant l'introduction des rôles)
+   */
+  static async getEffectiveRoles(subject: PermissionSubject): Promise<Role[]> {
+    const assigned = await prisma.userRole.findMany({
+      where: { userId: subject.id },
+      select: { role: true },
+    });
+
+    const roles = new Set<Role>(assigned.map(r => r.role));
+    if (subject.profileType === 'ADMIN') {
+      roles.add(Role.SUPER_ADMIN);
+    }
+    return Array.from(roles);
+  }
+
+  static async getPermissions(subject: PermissionSubject): Promise<Permission[]> {
+    const cacheKey = `permissions:${subject.id}`;
+    const cached = await redisManager.cacheGet<Permission[]>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const roles = await this.getEffectiveRoles(subject);
+    const permissions = Array.from(new Set(roles.flatMap(role => ROLE_PERMISSIONS[role])));
+
+    await redisManager.cacheSet(cacheKey, permissions, PERMISSIONS_CACHE_TTL_SECONDS);
+    return permissions;
+  }
+
+  static async hasPermission(subject: PermissionSubject, ...required: Permission[]): Promise<boolean> {
+    // Une clé d'API ne porte jamais les droits d'administration de son propriétaire
+    if (subject.apiKeyId) {
+      return false;
+    }
+
+    const permissions = await this.getPermissions(subject);
+    return required.every(permission => permissions.includes(permission));
+  }
+
+  static getCatalogue() {
+    return {
+      roles: Object.values(Role).map(role => ({
+        role,
+        label: ROLE_LABELS[role],
+        permissions: ROLE_PERMISSIONS[role],
+      })),
+      permissions: Object.values(Permission).map(permission => ({
+        permission,
+        description: PERMISSION_DESCRIPTIONS[permission],
+      })),
+    };
+  }
+
+  static async getUserRoles(userId: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        profileType: true,
+        roles: { select: { role: true, grantedBy: true, createdAt: true } },
+      },
+    });
+
+    if (!user) {
+      throw new Error('Utilisateur non trouvé');
+    }
+
+    return {
+      userId: user.id,
+      roles: user.roles,
+      effectiveRoles: await this.getEffectiveRoles(user),
+      permissions: await this.getPermissions(user),
+    };
+  }
+
+  static async getAssignments(role?: Role) {
+    return prisma.userRole.findMany({
+      where: role ? { role } : {},
+      include: {
+        user: {
+          select: { id: true, name: true, email: true, profileType: true, avatar: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  static async grantRole(userId: string, role: Role, grantedBy: string) {
+    try {
+      const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+      if (!user) {
+        throw new Error('Utilisateur non trouvé');
+      }
+
+      const existing = await prisma.userRole.findUnique({
+        where: { userId_role: { userId, role } },
+      });
+      if (existing) {
+        throw new Error('Ce rôle est déjà attribué à l\'utilisateur');
+      }
+
+      const userRole = await prisma.userRole.create({
+        data: { userId, role, grantedBy },
+      });
+
+      await this.invalidateCache(userId);
+      logger.info(`🛡️ Role ${role} granted to ${userId} by ${grantedBy}`);
+
+      try {
+        await NotificationsService.createSystemNotification(
+          userId,
+          'Nouveau rôle attribué',
+          `Le rôle "${ROLE_LABELS[role]}" vous a été attribué.`
+        );
+      } catch (notificationError) {
+        logger.error('❌ Failed to notify role grant:', notificationError);
+      }
+
+      return userRole;
+
+    } catch (error) {
+      logger.error('❌ Grant role error:', error);
+      throw error;
+    }
+  }
+
+  static async revokeRole(userId: string, role: Role, revokedBy: string) {
+    try {
+      // Éviter qu'un super-admin ne se retire par erreur ses propres droits
+      if (role === Role.SUPER_ADMIN && userId === revokedBy) {
+        throw new Error('Vous ne pouvez pas retirer votre propre rôle de super administrateur');
+      }
+
+      const { count } = await prisma.userRole.deleteMany({
+        where: { userId, role },
+      });
+
+      if (count === 0) {
+        throw new Error('Ce rôle n\'est pas attribué à l\'utilisateur');
+      }
+
+      await this.invalidateCache(userId);
+      logger.info(`🛡️ Role ${role} revoked from ${userId} by ${revokedBy}`);
+
+      return { success: true };
+
+    } catch (error) {
+      logger.error('❌ Revoke role error:', error);
+      throw error;
+    }
+  }
+
+  private static async invalidateCache(userId: string) {
+    await redisManager.del(`permissions:${userId}`);
+  }
+}
@@ -0,0 +1,342 @@
+import { PrismaClient, SavedSearch, SavedSearchTarget, SavedSearchFrequency } from '@prisma/client';
+import { OpportunitiesService, OpportunityFilters } from './opportunities';
+import { EventsService, EventFilters } from './events';
+import { ResourcesService, ResourceFilters } from './resources';
+import { NotificationsService } from './notifications';
+import { EmailService } from './email';
+import { EmailTemplate } from './email-templates';
+import { RESTRICTED_USER_STATUSES } from './moderation';
+import { config } from '../config';
+import { logger } from '../config/logger';
+
+const prisma = new PrismaClient();
+
+export const MAX_SAVED_SEARCHES_PER_USER = 20;
+
+// Passage du worker : cadence des alertes instantanées
+const MATCHER_INTERVAL_MS = 5 * 60 * 1000;
+const MATCHER_BATCH_SIZE = 100;
+
+// Délai minimal entre deux vérifications selon la fréquence choisie
+const FREQUENCY_INTERVAL_MS: Record<SavedSearchFrequency, number> = {
+  INSTANT: 0,
+  DAILY: 24 * 60 * 60 * 1000,
+  WEEKLY: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Nombre de titres cités dans une alerte
+const MATCH_PREVIEW_SIZE = 5;
+
+const TARGET_LABELS: Record<SavedSearchTarget, { singular: string; plural: string; path: string }> = {
+  OPPORTUNITIES: { singular: 'nouvelle opportunité', plural: 'nouvelles opportunités', path: '/opportunities' },
+  EVENTS: { singular: 'nouvel événement', plural: 'nouveaux événements', path: '/events' },
+  RESOURCES: { singular: 'nouvelle ressource', plural: 'nouvelles ressources', path: '/resources' },
+};
+
+export type SavedSearchFilters = OpportunityFilters | EventFilters | ResourceFilters;
+
+export interface CreateSavedSearchData {
+  name: string;
+  target: SavedSearchTarget;
+  filters: SavedSearchFilters;
+  frequency: SavedSearchFrequency;
+  emailDigest: boolean;
+}
+
+export interface UpdateSavedSearchData {
+  name?: string;
+  filters?: SavedSearchFilters;
+  frequency?: SavedSearchFrequency;
+  emailDigest?: boolean;
+  enabled?: boolean;
+}
+
+interface SavedSearchMatches {
+  total: number;
+  items: Array<{ id: string; title: string }>;
+}
+
+export class SavedSearchesService {
+  private static matcherTimer: NodeJS.Timeout | null = null;
+  private static matching = false;
+
+  static async listSavedSearches(userId: string) {
+    const searches = await prisma.savedSearch.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return searches.map(search => this.toResponse(search));
+  }
+
+  static async getSavedSearch(userId: string, searchId: string) {
+    const search = await prisma.savedSearch.findFirst({
+      where: { id: searchId, userId },
+    });
+
+    if (!search) {
+      throw new Error('Recherche sauvegardée non trouvée');
+    }
+
+    return this.toResponse(search);
+  }
+
+  static async createSavedSearch(userId: string, data: CreateSavedSearchData) {
+    try {
+      const count = await prisma.savedSearch.count({ where: { userId } });
+      if (count >= MAX_SAVED_SEARCHES_PER_USER) {
+        throw new Error(`Nombre maximum de recherches sauvegardées atteint (${MAX_SAVED_SEARCHES_PER_USER})`);
+      }
+
+      await this.assertNameAvailable(userId, data.name);
+
+      const search = await prisma.savedSearch.create({
+        data: {
+          userId,
+          name: data.name,
+          target: data.target,
+          filters: JSON.stringify(data.filters),
+          frequency: data.frequency,
+          emailDigest: data.emailDigest,
+        },
+      });
+
+      logger.info(`🔖 Saved search ${search.id} created by ${userId} (${data.target}, ${data.frequency})`);
+      return this.toResponse(search);
+
+    } catch (error) {
+      logger.error('❌ Create saved search error:', error);
+      throw error;
+    }
+  }
+
+  static async updateSavedSearch(userId: string, searchId: string, data: UpdateSavedSearchData) {
+    try {
+      const existing = await prisma.savedSearch.findFirst({
+        where: { id: searchId, userId },
+      });
+
+      if (!existing) {
+        throw new Error('Recherche sauvegardée non trouvée');
+      }
+
+      if (data.name !== undefined && data.name !== existing.name) {
+        await this.assertNameAvailable(userId, data.name);
+      }
+
+      // Une alerte réactivée ne signale pas ce qui a été publié pendant la pause
+      const resumed = data.enabled === true && !existing.enabled;
+
+      const search = await prisma.savedSearch.update({
+        where: { id: searchId },
+        data: {
+          name: data.name,
+          filters: data.filters ? JSON.stringify(data.filters) : undefined,
+          frequency: data.frequency,
+          emailDigest: data.emailDigest,
+          enabled: data.enabled,
+          ...(resumed ? { lastCheckedAt: new Date() } : {}),
+        },
+      });
+
+      logger.info(`🔖 Saved search ${searchId} updated by ${userId}`);
+      return this.toResponse(search);
+
+    } catch (error) {
+      logger.error('❌ Update saved search error:', error);
+      throw error;
+    }
+  }
+
+  static async deleteSavedSearch(userId: string, searchId: string) {
+    try {
+      const { count } = await prisma.savedSearch.deleteMany({
+        where: { id: searchId, userId },
+      });
+
+      if (count === 0) {
+        throw new Error('Recherche sauvegardée non trouvée');
+      }
+
+      logger.info(`🔖 Saved search ${searchId} deleted by ${userId}`);
+      return { success: true };
+
+    } catch (error) {
+      logger.error('❌ Delete saved search error:', error);
+      throw error;
+    }
+  }
+
+  // ==================== ALERTES ====================
+
+  /**
+   * Cherche les éléments publiés depuis la dernière vérification de chaque recherche arrivée à échéance,
+   * notifie les membres concernés et regroupe les emails en un seul récapitulatif par membre
+   */
+  static async runMatcher(now: Date = new Date()) {
+    if (this.matching) {
+      return { checked: 0, notified: 0, emails: 0 };
+    }
+    this.matching = true;
+
+    try {
+      const where = {
+        enabled: true,
+        user: { deletedAt: null, status: { notIn: RESTRICTED_USER_STATUSES } },
+        OR: Object.values(SavedSearchFrequency).map(frequency => ({
+          frequency,
+          lastCheckedAt: { lte: new Date(now.getTime() - FREQUENCY_INTERVAL_MS[frequency]) },
+        })),
+      };
+
+      const digests = new Map<string, Array<{ name: string; total: number; titles: string[] }>>();
+      let checked = 0;
+      let notified = 0;
+      let cursor: string | undefined;
+
+      while (true) {
+        const searches = await prisma.savedSearch.findMany({
+          where: { ...where, ...(cursor ? { id: { gt: cursor } } : {}) },
+          orderBy: { id: 'asc' },
+          take: MATCHER_BATCH_SIZE,
+        });
+
+        if (searches.length === 0) {
+          break;
+        }
+        cursor = searches[searches.length - 1].id;
+
+        for (const search of searches) {
+          const matches = await this.findMatches(search, now).catch(error => {
+            logger.error(`❌ Saved search ${search.id} matching error:`, error);
+            return null;
+          });
+          if (!matches) {
+            continue;
+          }
+
+          checked++;
+          await prisma.savedSearch.update({
+            where: { id: search.id },
+            data: {
+              lastCheckedAt: now,
+              ...(matches.total > 0 ? { lastNotifiedAt: now, lastMatchCount: matches.total } : {}),
+            },
+          });
+
+          if (matches.total === 0) {
+            continue;
+          }
+
+          await this.notify(search, matches);
+          notified++;
+
+          if (search.emailDigest) {
+            const entries = digests.get(search.userId) || [];
+            entries.push({ name: search.name, total: matches.total, titles: matches.items.map(item => item.title) });
+            digests.set(search.userId, entries);
+          }
+        }
+      }
+
+      let emails = 0;
+      for (const [userId, searches] of digests) {
+        const email = await EmailService.queueForUser(userId, EmailTemplate.SAVED_SEARCH_DIGEST, {
+          searches,
+          savedSearchesUrl: `${config.FRONTEND_URL}/saved-searches`,
+        }, { dedupeKey: `saved_search_digest:${userId}:${now.getTime()}` }).catch(() => null);
+
+        if (email) {
+          emails++;
+        }
+      }
+
+      if (notified > 0) {
+        logger.info(`🔔 Saved searches: ${notified} alert(s) sent, ${emails} digest email(s) queued (${checked} checked)`);
+      }
+      return { checked, notified, emails };
+
+    } catch (error) {
+      logger.error('❌ Saved searches matcher error:', error);
+      throw error;
+    } finally {
+      this.matching = false;
+    }
+  }
+
+  static startWorker() {
+    if (this.matcherTimer) {
+      return;
+    }
+
+    const run = () => this.runMatcher().catch(() => undefined);
+
+    this.matcherTimer = setInterval(run, MATCHER_INTERVAL_MS);
+    this.matcherTimer.unref();
+    run();
+  }
+
+  static stopWorker() {
+    if (this.matcherTimer) clearInterval(this.matcherTimer);
+    this.matcherTimer = null;
+  }
+
+  /**
+   * Applique les filtres enregistrés aux éléments créés depuis la dernière vérification,
+   * via les services de liste pour respecter les mêmes règles de visibilité
+   */
+  private static async findMatches(search: SavedSearch, now: Date): Promise<SavedSearchMatches> {
+    const window = { createdAfter: search.lastCheckedAt, createdBefore: now };
+    const pagination = { page: 1, limit: MATCH_PREVIEW_SIZE, sortBy: 'createdAt', sortOrder: 'desc' as 'desc' };
+    const filters = JSON.parse(search.filters);
+
+    switch (search.target) {
+      case SavedSearchTarget.OPPORTUNITIES: {
+        const result = await OpportunitiesService.getOpportunities({ ...filters, ...window }, pagination, search.userId);
+        return { total: result.meta.total, items: result.opportunities };
+      }
+      case SavedSearchTarget.EVENTS: {
+        const result = await EventsService.getEvents({ ...filters, ...window }, pagination);
+        return { total: result.meta.total, items: result.events };
+      }
+      case SavedSearchTarget.RESOURCES: {
+        const result = await ResourcesService.getResources({ ...filters, ...window }, pagination);
+        return { total: result.meta.total, items: result.resources };
+      }
+    }
+  }
+
+  private static async notify(search: SavedSearch, matches: SavedSearchMatches) {
+    const labels = TARGET_LABELS[search.target];
+    const titles = matches.items.map(item => `"${item.title}"`).join(', ');
+    const more = matches.total > matches.items.length ? ` et ${matches.total - matches.items.length} autre(s)` : '';
+
+    // Un seul résultat : lien direct vers l'élément
+    const actionUrl = matches.total === 1
+      ? `${labels.path}/${matches.items[0].id}`
+      : `/saved-searches/${search.id}`;
+
+    await NotificationsService.createSystemNotification(
+      search.userId,
+      `Recherche « ${search.name} »`,
+      `${matches.total} ${matches.total > 1 ? labels.plural : labels.singular} : ${titles}${more}`,
+      actionUrl
+    );
+  }
+
+  private static async assertNameAvailable(userId: string, name: string) {
+    const duplicate = await prisma.savedSearch.findFirst({
+      where: { userId, name },
+      select: { id: true },
+    });
+
+    if (duplicate) {
+      throw new Error('Une recherche sauvegardée porte déjà ce nom');
+    }
+  }
+
+  private static toResponse(search: SavedSearch) {
+    const { userId, filters, ...rest } = search;
+    return { ...rest, filters: JSON.parse(filters) };
+  }
+}
@@ -0,0 +1,454 @@
+import { PrismaClient, Prisma, PrivacyVisibility } from '@prisma/client';
+import { config } from '../config';
+import { logger } from '../config/logger';
+import { LocationsService } from './locations';
+
+const prisma = new PrismaClient();
+
+// Configurations plein texte dérivées de celles de PostgreSQL, avec suppression des accents
+const TEXT_SEARCH_CONFIGURATIONS = [
+  { name: 'pme360_fr', copy: 'french', dictionary: 'french_stem' },
+  { name: 'pme360_en', copy: 'english', dictionary: 'english_stem' },
+  { name: 'pme360_simple', copy: 'simple', dictionary: 'simple' }, // Noms propres : ni racinisation ni mots vides
+];
+
+const LOCATION_FACET_LIMIT = 10;
+
+// Profils indexés au démarrage (les suivants le seront au redémarrage suivant)
+const BACKFILL_LIMIT = 10000;
+
+// Délimiteurs des passages surlignés, remplacés par <mark> après échappement du HTML
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_STOP = '\u0003';
+
+export type MemberSearchSort = 'relevance' | 'completeness' | 'endorsements' | 'createdAt';
+
+export interface MemberSearchParams {
+  query: string;
+  profileType?: string;
+  location?: string;
+  countryCode?: string;
+  regionCode?: string;
+  withinIds?: string[]; // Membres retenus par une recherche par rayon
+  verified?: boolean;
+  sortBy?: MemberSearchSort;
+  page: number;
+  limit: number;
+}
+
+export interface MemberSearchHit {
+  id: string;
+  rank: number;
+  highlights: {
+    name: string | null;
+    company: string | null;
+    description: string | null;
+  } | null;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface MemberSearchResult {
+  hits: MemberSearchHit[];
+  total: number;
+  facets: {
+    profileType: FacetCount[];
+    location: FacetCount[];
+  };
+  mode: 'fulltext' | 'basic';
+}
+
+export class SearchService {
+  private static fullTextAvailable = false;
+
+  /**
+   * Prépare la recherche plein texte (PostgreSQL) puis indexe les profils qui ne le sont pas encore.
+   * En cas d'échec (SQLite, droits insuffisants...), la recherche se replie sur une correspondance simple.
+   */
+  static async initialize(): Promise<void> {
+    if (config.DATABASE_URL.startsWith('postgres')) {
+      try {
+        await prisma.$executeRawUnsafe('CREATE EXTENSION IF NOT EXISTS unaccent');
+        await prisma.$executeRawUnsafe('CREATE EXTENSION IF NOT EXISTS pg_trgm');
+
+        for (const configuration of TEXT_SEARCH_CONFIGURATIONS) {
+          await prisma.$executeRawUnsafe(`
+            DO $$
+            BEGIN
+              IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = '${configuration.name}') THEN
+                CREATE TEXT SEARCH CONFIGURATION ${configuration.name} (COPY = ${configuration.copy});
+                ALTER TEXT SEARCH CONFIGURATION ${configuration.name}
+                  ALTER MAPPING FOR hword, hword_part, word WITH unaccent, ${configuration.dictionary};
+              END IF;
+            END $$;
+          `);
+        }
+
+        // Vérifie que la colonne d'index existe (schéma appliqué)
+        await prisma.$queryRaw`SELECT "searchVector" FROM users LIMIT 1`;
+
+        this.fullTextAvailable = true;
+        logger.info('🔎 Full-text member search ready (PostgreSQL)');
+      } catch (error) {
+        logger.warn('⚠️ Full-text search unavailable, falling back to basic matching:', error);
+      }
+    } else {
+      logger.info('🔎 Basic member search (no full-text support for this database)');
+    }
+
+    try {
+      await this.reindexMissing();
+    } catch (error) {
+      logger.error('❌ Search index backfill failed:', error);
+    }
+  }
+
+  static isFullTextAvailable(): boolean {
+    return this.fullTextAvailable;
+  }
+
+  /**
+   * Recherche de membres classée par pertinence, avec passages surlignés et compteurs par facette
+   */
+  static async searchMembers(params: MemberSearchParams, viewerId?: string): Promise<MemberSearchResult> {
+    try {
+      return this.fullTextAvailable
+        ? await this.fullTextSearch(params, viewerId)
+        : await this.basicSearch(params, viewerId);
+    } catch (error) {
+      logger.error('❌ Member search error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Met à jour l'index de recherche des membres ; un échec ne doit pas faire échouer l'action de l'utilisateur
+   */
+  static async reindexUsers(userIds: string | string[]): Promise<void> {
+    for (const userId of Array.isArray(userIds) ? userIds : [userIds]) {
+      try {
+        await this.indexUser(userId);
+      } catch (error) {
+        logger.error(`❌ Search reindex error for ${userId}:`, error);
+      }
+    }
+  }
+
+  static normalize(value: string): string {
+    return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
+  }
+
+  // ==================== INDEXATION ====================
+
+  private static async indexUser(userId: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        name: true,
+        company: true,
+        description: true,
+        location: true,
+        city: true,
+        regionCode: true,
+        countryCode: true,
+        deletedAt: true,
+        expertises: { select: { name: true } },
+        privacySettings: { select: { locationVisibility: true } },
+      },
+    });
+
+    if (!user) {
+      return;
+    }
+
+    // Compte effacé : plus aucune trace dans l'index
+    if (user.deletedAt) {
+      await prisma.user.update({
+        where: { id: userId },
+        data: { searchText: null },
+      });
+
+      if (this.fullTextAvailable) {
+        await prisma.$executeRaw`UPDATE users SET "searchVector" = NULL WHERE id = ${userId}`;
+      }
+      return;
+    }
+
+    const expertises = user.expertises.map(expertise => expertise.name).join(' ');
+    // Une localisation réservée aux membres ou aux relations ne doit pas être trouvable par la recherche
+    const location = (user.privacySettings?.locationVisibility ?? PrivacyVisibility.PUBLIC) === PrivacyVisibility.PUBLIC
+      ? [user.location, LocationsService.searchTerms(user)].filter(Boolean).join(' ')
+      : '';
+
+    const searchText = this.normalize([user.name, user.company, expertises, user.description, location].filter(Boolean).join(' '));
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { searchText },
+    });
+
+    if (this.fullTextAvailable) {
+      // Poids : A nom, B structure et expertises, C présentation, D localisation
+      await prisma.$executeRaw`
+        UPDATE users SET "searchVector" =
+          setweight(to_tsvector('pme360_simple', coalesce(name, '')), 'A') ||
+          setweight(to_tsvector('pme360_fr', coalesce(company, '') || ' ' || ${expertises}), 'B') ||
+          setweight(to_tsvector('pme360_en', coalesce(company, '') || ' ' || ${expertises}), 'B') ||
+          setweight(to_tsvector('pme360_fr', coalesce(description, '')), 'C') ||
+          setweight(to_tsvector('pme360_en', coalesce(description, '')), 'C') ||
+          setweight(to_tsvector('pme360_simple', ${location}), 'D')
+        WHERE id = ${userId}
+      `;
+    }
+  }
+
+  private static async reindexMissing() {
+    const missing: Array<{ id: string }> = this.fullTextAvailable
+      ? await prisma.$queryRaw`
+        SELECT id FROM users
+        WHERE "deletedAt" IS NULL AND ("searchText" IS NULL OR "searchVector" IS NULL)
+        LIMIT ${BACKFILL_LIMIT}
+      `
+      : await prisma.user.findMany({
+        where: { deletedAt: null, searchText: null },
+        select: { id: true },
+        take: BACKFILL_LIMIT,
+      });
+
+    if (missing.length === 0) {
+      return;
+    }
+
+    await this.reindexUsers(missing.map(user => user.id));
+
+    logger.info(`🔎 Search index built for ${missing.length} member(s)`);
+  }
+
+  // ==================== POSTGRESQL ====================
+
+  private static async fullTextSearch(params: MemberSearchParams, viewerId?: string): Promise<MemberSearchResult> {
+    const normalized = this.normalize(params.query);
+
+    const query = Prisma.sql`(
+      websearch_to_tsquery('pme360_fr', ${params.query}) ||
+      websearch_to_tsquery('pme360_en', ${params.query}) ||
+      websearch_to_tsquery('pme360_simple', ${params.query})
+    )`;
+
+    // Correspondance exacte (racines, sans accents) ou approchée : l'opérateur <% de pg_trgm
+    // (similarité de mots ≥ pg_trgm.word_similarity_threshold, 0,6 par défaut) absorbe les fautes de frappe
+    const match = Prisma.sql`(
+      u."searchVector" @@ ${query}
+      OR ${normalized} <% u."searchText"
+    )`;
+
+    const base: Prisma.Sql[] = [Prisma.sql`u."deletedAt" IS NULL`, match];
+    if (params.verified !== undefined) {
+      base.push(Prisma.sql`u.verified = ${params.verified}`);
+    }
+    const geo: Prisma.Sql[] = [
+      ...(params.countryCode ? [Prisma.sql`u."countryCode" = ${params.countryCode}`] : []),
+      ...(params.regionCode ? [Prisma.sql`u."regionCode" = ${params.regionCode}`] : []),
+      ...(params.withinIds ? [params.withinIds.length > 0 ? Prisma.sql`u.id IN (${Prisma.join(params.withinIds)})` : Prisma.sql`FALSE`] : []),
+    ];
+    if (geo.length > 0) {
+      base.push(...geo, this.locationVisibleSql(viewerId));
+    }
+
+    const profileTypeFilter = params.profileType
+      ? Prisma.sql`u."profileType"::text = ${params.profileType}`
+      : null;
+    const locationFilter = params.location
+      ? Prisma.sql`unaccent(u.location) ILIKE unaccent(${`%${params.location}%`}) AND ${this.locationVisibleSql(viewerId)}`
+      : null;
+
+    const where = this.and([...base, profileTypeFilter, locationFilter]);
+
+    const rank = Prisma.sql`(
+      coalesce(ts_rank_cd('{0.1, 0.3, 0.6, 1.0}', u."searchVector", ${query}), 0) +
+      word_similarity(${normalized}, coalesce(u."searchText", '')) * 0.5
+    )`;
+
+    const orderBy = {
+      relevance: Prisma.sql`rank DESC, u."endorsementCount" DESC, u."completionScore" DESC`,
+      completeness: Prisma.sql`u."completionScore" DESC, rank DESC`,
+      endorsements: Prisma.sql`u."endorsementCount" DESC, rank DESC`,
+      createdAt: Prisma.sql`u."createdAt" DESC`,
+    }[params.sortBy ?? 'relevance'];
+
+    const headline = (column: Prisma.Sql, options: string) => Prisma.sql`
+      ts_headline('pme360_fr', coalesce(${column}, ''), ${query},
+        ${`StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_STOP}", ${options}`})
+    `;
+
+    const [rows, totals, profileTypeFacets, locationFacets] = await Promise.all([
+      prisma.$queryRaw<Array<{ id: string; rank: number; name: string; company: string | null; description: string | null }>>`
+        SELECT u.id, ${rank}::float AS rank,
+          ${headline(Prisma.sql`u.name`, 'HighlightAll=true')} AS name,
+          ${headline(Prisma.sql`u.company`, 'HighlightAll=true')} AS company,
+          ${headline(Prisma.sql`u.description`, 'MaxFragments=2, MaxWords=25, MinWords=8, FragmentDelimiter=" … "')} AS description
+        FROM users u
+        WHERE ${where}
+        ORDER BY ${orderBy}
+        LIMIT ${params.limit} OFFSET ${(params.page - 1) * params.limit}
+      `,
+      prisma.$queryRaw<Array<{ total: number }>>`
+        SELECT COUNT(*)::int AS total FROM users u WHERE ${where}
+      `,
+      // Chaque facette tient compte des autres filtres mais pas du sien
+      prisma.$queryRaw<FacetCount[]>`
+        SELECT u."profileType"::text AS value, COUNT(*)::int AS count
+        FROM users u
+        WHERE ${this.and([...base, locationFilter])}
+        GROUP BY u."profileType"
+        ORDER BY count DESC
+      `,
+      prisma.$queryRaw<FacetCount[]>`
+        SELECT u.location AS value, COUNT(*)::int AS count
+        FROM users u
+        WHERE ${this.and([...base, profileTypeFilter])}
+          AND u.location IS NOT NULL AND u.location <> ''
+          AND ${this.locationVisibleSql(viewerId)}
+        GROUP BY u.location
+        ORDER BY count DESC, u.location ASC
+        LIMIT ${LOCATION_FACET_LIMIT}
+      `,
+    ]);
+
+    return {
+      hits: rows.map(row => ({
+        id: row.id,
+        rank: Math.round(row.rank * 1000) / 1000,
+        highlights: {
+          name: this.toHtml(row.name),
+          company: row.company ? this.toHtml(row.company) : null,
+          description: row.description ? this.toHtml(row.description) : null,
+        },
+      })),
+      total: totals[0]?.total ?? 0,
+      facets: { profileType: profileTypeFacets, location: locationFacets },
+      mode: 'fulltext',
+    };
+  }
+
+  // Localisation visible sans relation particulière (visiteur non connecté : publique uniquement)
+  private static locationVisibleSql(viewerId?: string): Prisma.Sql {
+    const visibilities = viewerId
+      ? [PrivacyVisibility.PUBLIC, PrivacyVisibility.MEMBERS]
+      : [PrivacyVisibility.PUBLIC];
+
+    return Prisma.sql`(
+      ${viewerId ? Prisma.sql`u.id = ${viewerId} OR` : Prisma.empty}
+      NOT EXISTS (
+        SELECT 1 FROM privacy_settings ps
+        WHERE ps."userId" = u.id AND ps."locationVisibility"::text NOT IN (${Prisma.join(visibilities)})
+      )
+    )`;
+  }
+
+  private static and(conditions: Array<Prisma.Sql | null>): Prisma.Sql {
+    return Prisma.join(conditions.filter((condition): condition is Prisma.Sql => condition !== null), ' AND ');
+  }
+
+  private static toHtml(fragment: string): string {
+    return fragment
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .split(HIGHLIGHT_START).join('<mark>')
+      .split(HIGHLIGHT_STOP).join('</mark>');
+  }
+
+  // ==================== REPLI (SQLITE) ====================
+
+  /**
+   * Tous les mots recherchés doivent figurer dans le texte indexé (sans accents) ;
+   * ni tolérance aux fautes de frappe ni passages surlignés
+   */
+  private static async basicSearch(params: MemberSearchParams, viewerId?: string): Promise<MemberSearchResult> {
+    const terms = this.normalize(params.query).split(' ').filter(Boolean);
+
+    const base: Prisma.UserWhereInput[] = [
+      { deletedAt: null },
+      ...terms.map(term => ({ searchText: { contains: term } })),
+      ...(params.verified !== undefined ? [{ verified: params.verified }] : []),
+    ];
+
+    const locationVisible: Prisma.UserWhereInput = {
+      OR: [
+        { privacySettings: null },
+        { privacySettings: { locationVisibility: { in: viewerId ? [PrivacyVisibility.PUBLIC, PrivacyVisibility.MEMBERS] : [PrivacyVisibility.PUBLIC] } } },
+        ...(viewerId ? [{ id: viewerId }] : []),
+      ],
+    };
+
+    if (params.countryCode || params.regionCode || params.withinIds) {
+      base.push({
+        ...(params.countryCode ? { countryCode: params.countryCode } : {}),
+        ...(params.regionCode ? { regionCode: params.regionCode } : {}),
+        ...(params.withinIds ? { id: { in: params.withinIds } } : {}),
+      }, locationVisible);
+    }
+
+    const profileTypeFilter: Prisma.UserWhereInput | null = params.profileType
+      ? { profileType: params.profileType as any }
+      : null;
+    const locationFilter: Prisma.UserWhereInput | null = params.location
+      ? { AND: [{ location: { contains: params.location } }, locationVisible] }
+      : null;
+
+    const where = (filters: Array<Prisma.UserWhereInput | null>): Prisma.UserWhereInput => ({
+      AND: [...base, ...filters.filter((filter): filter is Prisma.UserWhereInput => filter !== null)],
+    });
+
+    const orderBy: Prisma.UserOrderByWithRelationInput[] = {
+      relevance: [{ endorsementCount: 'desc' as const }, { completionScore: 'desc' as const }],
+      completeness: [{ completionScore: 'desc' as const }, { createdAt: 'desc' as const }],
+      endorsements: [{ endorsementCount: 'desc' as const }, { completionScore: 'desc' as const }],
+      createdAt: [{ createdAt: 'desc' as const }],
+    }[params.sortBy ?? 'relevance'];
+
+    const [users, total, profileTypeGroups, locationGroups] = await Promise.all([
+      prisma.user.findMany({
+        where: where([profileTypeFilter, locationFilter]),
+        select: { id: true },
+        orderBy,
+        skip: (params.page - 1) * params.limit,
+        take: params.limit,
+      }),
+      prisma.user.count({ where: where([profileTypeFilter, locationFilter]) }),
+      prisma.user.groupBy({
+        by: ['profileType'],
+        where: where([locationFilter]),
+        _count: { _all: true },
+      }),
+      prisma.user.groupBy({
+        by: ['location'],
+        where: where([profileTypeFilter, { location: { not: null } }, locationVisible]),
+        _count: { _all: true },
+      }),
+    ]);
+
+    const byCount = (a: FacetCount, b: FacetCount) => b.count - a.count || a.value.localeCompare(b.value);
+
+    return {
+      hits: users.map(user => ({ id: user.id, rank: 0, highlights: null })),
+      total,
+      facets: {
+        profileType: profileTypeGroups
+          .map(group => ({ value: group.profileType as string, count: group._count?._all ?? 0 }))
+          .sort(byCount),
+        location: locationGroups
+          .filter(group => group.location)
+          .map(group => ({ value: group.location as string, count: group._count?._all ?? 0 }))
+          .sort(byCount)
+          .slice(0, LOCATION_FACET_LIMIT),
+      },
+      mode: 'basic',
+    };
+  }
+}
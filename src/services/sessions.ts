@@ -0,0 +1,357 @@
+import crypto from 'crypto';
+import { PrismaClient, User, UserSession } from '@prisma/client';
+import redisManager from '../config/redis';
+import { SimpleJWTService } from '../utils/simple-jwt';
+import { logger } from '../config/logger';
+import { AuditService, AuditActions } from './audit';
+import { NotificationsService } from './notifications';
+import { ModerationService } from './moderation';
+
+const prisma = new PrismaClient();
+
+// Durée de vie d'une session, prolongée à chaque rotation (alignée sur le refresh token)
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Cache Redis de l'état d'une session, consulté à chaque requête authentifiée
+const SESSION_STATE_CACHE_TTL = 60;
+
+export interface SessionContext {
+  ipAddress?: string;
+  userAgent?: string;
+  deviceName?: string;
+  country?: string; // Code pays ISO fourni par le proxy, utilisé pour la détection des connexions inhabituelles
+}
+
+export enum SessionRevokeReason {
+  LOGOUT = 'LOGOUT',
+  USER_REVOKED = 'USER_REVOKED',
+  PASSWORD_CHANGED = 'PASSWORD_CHANGED',
+  REFRESH_TOKEN_REUSE = 'REFRESH_TOKEN_REUSE',
+  ACCOUNT_SUSPENDED = 'ACCOUNT_SUSPENDED',
+  ACCOUNT_DELETION = 'ACCOUNT_DELETION',
+  IMPERSONATION_ENDED = 'IMPERSONATION_ENDED',
+}
+
+type IssuedTokens = { refreshToken: string };
+
+export class SessionService {
+
+  /**
+   * Ouvre une nouvelle session pour un appareil et émet ses premiers tokens.
+   * Les tokens sont générés par l'appelant car ils doivent embarquer l'id de session.
+   */
+  static async startSession<T extends IssuedTokens>(
+    userId: string,
+    context: SessionContext,
+    issueTokens: (sessionId: string) => T
+  ): Promise<T> {
+    try {
+      const session = await prisma.userSession.create({
+        data: {
+          userId,
+          deviceName: context.deviceName?.trim() || this.describeDevice(context.userAgent),
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+          expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+        },
+      });
+
+      const tokens = issueTokens(session.id);
+
+      await prisma.userSession.update({
+        where: { id: session.id },
+        data: { refreshTokenHash: this.hashToken(tokens.refreshToken) },
+      });
+
+      logger.info(`🔑 Session ${session.id} started for user ${userId}`);
+      return tokens;
+
+    } catch (error) {
+      logger.error('❌ Start session error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Ouvre une session d'assistance pour un administrateur connecté en tant que l'utilisateur.
+   * Sans refresh token : elle ne peut pas être prolongée au-delà de sa durée initiale.
+   */
+  static async startImpersonationSession<T>(
+    userId: string,
+    impersonatorId: string,
+    reason: string,
+    ttlMs: number,
+    context: SessionContext,
+    issueToken: (sessionId: string) => T
+  ): Promise<{ sessionId: string; expiresAt: Date; token: T }> {
+    try {
+      const session = await prisma.userSession.create({
+        data: {
+          userId,
+          impersonatorId,
+          impersonationReason: reason,
+          deviceName: 'Assistance PME 360',
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+          expiresAt: new Date(Date.now() + ttlMs),
+        },
+      });
+
+      logger.info(`🕵️ Impersonation session ${session.id} started for user ${userId} by ${impersonatorId}`);
+      return { sessionId: session.id, expiresAt: session.expiresAt, token: issueToken(session.id) };
+
+    } catch (error) {
+      logger.error('❌ Start impersonation session error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Échange un refresh token contre une nouvelle paire (rotation).
+   * Un token déjà utilisé révoque toute la famille, c'est-à-dire la session.
+   */
+  static async rotateSession<T extends IssuedTokens>(
+    sessionId: string,
+    refreshToken: string,
+    context: SessionContext,
+    issueTokens: (session: UserSession & { user: User }) => T
+  ): Promise<T> {
+    try {
+      const session = await prisma.userSession.findUnique({
+        where: { id: sessionId },
+        include: { user: true },
+      });
+
+      if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+        throw new Error('Session expirée ou révoquée');
+      }
+
+      const presentedHash = this.hashToken(refreshToken);
+      if (session.refreshTokenHash !== presentedHash) {
+        await this.handleTokenReuse(session, context);
+        throw new Error('Refresh token déjà utilisé, session révoquée');
+      }
+
+      const tokens = issueTokens(session);
+
+      // Mise à jour conditionnelle : deux rotations concurrentes du même token ne peuvent pas réussir toutes les deux
+      const { count } = await prisma.userSession.updateMany({
+        where: {
+          id: sessionId,
+          refreshTokenHash: presentedHash,
+          revokedAt: null,
+        },
+        data: {
+          refreshTokenHash: this.hashToken(tokens.refreshToken),
+          lastUsedAt: new Date(),
+          expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+          ipAddress: context.ipAddress ?? session.ipAddress,
+          userAgent: context.userAgent ?? session.userAgent,
+        },
+      });
+
+      if (count === 0) {
+        await this.handleTokenReuse(session, context);
+        throw new Error('Refresh token déjà utilisé, session révoquée');
+      }
+
+      logger.debug(`🔄 Session ${sessionId} rotated`);
+      return tokens;
+
+    } catch (error) {
+      logger.error('❌ Rotate session error:', error);
+      throw error;
+    }
+  }
+
+  // Vérifie un access token puis l'état de sa session : un token de session révoquée est refusé
+  static async authenticateAccessToken(token: string) {
+    const payload = SimpleJWTService.verifyAccessToken(token);
+    if (!payload || !payload.sessionId) {
+      return null;
+    }
+
+    if (!(await this.isSessionActive(payload.sessionId))) {
+      logger.debug(`🚫 Session ${payload.sessionId} revoked or expired`);
+      return null;
+    }
+
+    if (!(await ModerationService.isAccessAllowed(payload.userId))) {
+      logger.debug(`🚫 Account ${payload.userId} suspended or banned`);
+      return null;
+    }
+
+    return payload;
+  }
+
+  static async isSessionActive(sessionId: string): Promise<boolean> {
+    try {
+      const cached = await redisManager.getSession<{ active: boolean }>(sessionId);
+      if (cached) {
+        return cached.active;
+      }
+
+      const session = await prisma.userSession.findUnique({
+        where: { id: sessionId },
+        select: { revokedAt: true, expiresAt: true },
+      });
+
+      const active = !!session && !session.revokedAt && session.expiresAt > new Date();
+      await redisManager.setSession(sessionId, { active }, SESSION_STATE_CACHE_TTL);
+
+      return active;
+
+    } catch (error) {
+      logger.error('❌ Session check error:', error);
+      return false;
+    }
+  }
+
+  static async getUserSessions(userId: string, currentSessionId?: string) {
+    try {
+      const sessions = await prisma.userSession.findMany({
+        where: {
+          userId,
+          revokedAt: null,
+          expiresAt: { gt: new Date() },
+        },
+        orderBy: { lastUsedAt: 'desc' },
+      });
+
+      return sessions.map(session => ({
+        id: session.id,
+        deviceName: session.deviceName,
+        ipAddress: session.ipAddress,
+        userAgent: session.userAgent,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        expiresAt: session.expiresAt,
+        impersonated: !!session.impersonatorId,
+        current: session.id === currentSessionId,
+      }));
+
+    } catch (error) {
+      logger.error('❌ Get user sessions error:', error);
+      throw error;
+    }
+  }
+
+  static async revokeSession(sessionId: string, userId: string, reason: SessionRevokeReason = SessionRevokeReason.USER_REVOKED) {
+    try {
+      const { count } = await prisma.userSession.updateMany({
+        where: { id: sessionId, userId, revokedAt: null },
+        data: { revokedAt: new Date(), revokedReason: reason },
+      });
+
+      if (count === 0) {
+        throw new Error('Session non trouvée');
+      }
+
+      await redisManager.setSession(sessionId, { active: false }, SESSION_STATE_CACHE_TTL);
+
+      logger.info(`🔒 Session ${sessionId} revoked (${reason})`);
+      return { success: true };
+
+    } catch (error) {
+      logger.error('❌ Revoke session error:', error);
+      throw error;
+    }
+  }
+
+  // Révoque toutes les sessions actives d'un utilisateur, sauf éventuellement la session courante
+  static async revokeAllSessions(userId: string, reason: SessionRevokeReason, exceptSessionId?: string): Promise<number> {
+    try {
+      const sessions = await prisma.userSession.findMany({
+        where: {
+          userId,
+          revokedAt: null,
+          ...(exceptSessionId && { id: { not: exceptSessionId } }),
+        },
+        select: { id: true },
+      });
+
+      if (sessions.length === 0) {
+        return 0;
+      }
+
+      const ids = sessions.map(s => s.id);
+      await prisma.userSession.updateMany({
+        where: { id: { in: ids } },
+        data: { revokedAt: new Date(), revokedReason: reason },
+      });
+
+      await Promise.all(ids.map(id => redisManager.setSession(id, { active: false }, SESSION_STATE_CACHE_TTL)));
+
+      logger.info(`🔒 ${ids.length} sessions revoked for user ${userId} (${reason})`);
+      return ids.length;
+
+    } catch (error) {
+      logger.error('❌ Revoke all sessions error:', error);
+      throw error;
+    }
+  }
+
+  private static async handleTokenReuse(session: UserSession, context: SessionContext) {
+    logger.warn(`🚨 Refresh token reuse detected on session ${session.id} (user ${session.userId})`);
+
+    await prisma.userSession.update({
+      where: { id: session.id },
+      data: { revokedAt: new Date(), revokedReason: SessionRevokeReason.REFRESH_TOKEN_REUSE },
+    });
+    await redisManager.setSession(session.id, { active: false }, SESSION_STATE_CACHE_TTL);
+
+    await AuditService.logSecurityEvent(
+      AuditActions.SUSPICIOUS_ACTIVITY,
+      'Refresh token reuse detected, session revoked',
+      context.ipAddress,
+      context.userAgent,
+      session.userId,
+      { sessionId: session.id, deviceName: session.deviceName }
+    );
+
+    try {
+      await NotificationsService.createSystemNotification(
+        session.userId,
+        'Session déconnectée par sécurité',
+        `Une utilisation suspecte de votre session "${session.deviceName || 'appareil inconnu'}" a été détectée. Reconnectez-vous et changez votre mot de passe si ce n'était pas vous.`,
+        '/settings/sessions'
+      );
+    } catch (notificationError) {
+      logger.error('❌ Failed to create session reuse notification:', notificationError);
+    }
+  }
+
+  private static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  // Libellé lisible de l'appareil, déduit du User-Agent quand le client n'en fournit pas
+  private static describeDevice(userAgent?: string): string {
+    if (!userAgent) {
+      return 'Appareil inconnu';
+    }
+
+    const browser = [
+      ['Edg/', 'Edge'],
+      ['OPR/', 'Opera'],
+      ['Firefox/', 'Firefox'],
+      ['Chrome/', 'Chrome'],
+      ['Safari/', 'Safari'],
+    ].find(([marker]) => userAgent.includes(marker))?.[1];
+
+    const os = [
+      ['Windows', 'Windows'],
+      ['Android', 'Android'],
+      ['iPhone', 'iPhone'],
+      ['iPad', 'iPad'],
+      ['Mac OS', 'macOS'],
+      ['Linux', 'Linux'],
+    ].find(([marker]) => userAgent.includes(marker))?.[1];
+
+    if (browser && os) {
+      return `${browser} sur ${os}`;
+    }
+
+    return browser || os || userAgent.substring(0, 100);
+  }
+}
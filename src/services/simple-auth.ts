@@ -1,6 +1,15 @@
-import { PrismaClient, User } from '@prisma/client';
+import { PrismaClient, User, ProfileType } from '@prisma/client';
 import { SimpleJWTService } from '../utils/simple-jwt';
 import { PasswordService } from '../utils/password';
+import { SessionService, SessionContext } from './sessions';
+import { ModerationService } from './moderation';
+import { LoginProtectionService, LoginFailureReason } from './login-protection';
+import { TwoFactorService } from './two-factor';
+import { EmailVerificationService } from './email-verification';
+import { InvitationService } from './invitations';
+import { ProfileCompletionService } from './profile-completion';
+import { SearchService } from './search';
+import { LocationsService } from './locations';
 import { logger } from '../config/logger';
 
 const prisma = new PrismaClient();
@@ -12,6 +21,7 @@ interface RegisterData {
   profileType: string;
   company?: string;
   location?: string;
+  invitationCode?: string;
 }
 
 interface LoginCredentials {
@@ -21,7 +31,7 @@ interface LoginCredentials {
 
 export class SimpleAuthService {
   
-  static async register(userData: RegisterData) {
+  static async register(userData: RegisterData, context: SessionContext = {}) {
     try {
       logger.info(`📝 Starting registration for: ${userData.email}`);
 
@@ -41,32 +51,64 @@ export class SimpleAuthService {
         throw new Error(passwordValidation.errors.join(', '));
       }
 
+      // Code d'invitation : obligatoire en mode "invitation", il peut imposer le type de profil
+      const invitation = await InvitationService.resolveForRegistration(userData.invitationCode, userData.email);
+      const profileType = invitation?.profileType ?? this.parseProfileType(userData.profileType);
+
       // Hasher le mot de passe
       const hashedPassword = await PasswordService.hash(userData.password);
 
-      // Créer l'utilisateur
-      const newUser = await prisma.user.create({
-        data: {
-          name: userData.name.trim(),
-          email: userData.email.toLowerCase().trim(),
-          password: hashedPassword,
-          profileType: userData.profileType as any,
-          company: userData.company?.trim(),
-          location: userData.location?.trim(),
-          verified: false,
-          completionScore: 25,
-        },
+      // Créer l'utilisateur (et consommer l'invitation dans la même transaction)
+      const company = userData.company?.trim();
+      const location = userData.location?.trim();
+
+      const newUser = await prisma.$transaction(async (tx) => {
+        if (invitation) {
+          await InvitationService.consume(tx, invitation);
+        }
+
+        return tx.user.create({
+          data: {
+            name: userData.name.trim(),
+            email: userData.email.toLowerCase().trim(),
+            password: hashedPassword,
+            profileType,
+            company,
+            location,
+            ...LocationsService.toFields(location),
+            verified: false,
+            completionScore: ProfileCompletionService.evaluate({ profileType, company, location }).score,
+            invitationId: invitation?.id,
+            invitedById: invitation?.createdById,
+          },
+        });
       });
 
       logger.info(`✅ User registered successfully: ${newUser.email}`);
 
-      // Générer les tokens JWT
-      const authResponse = SimpleJWTService.generateAuthResponse({
-        userId: newUser.id,
-        email: newUser.email,
-        profileType: newUser.profileType,
-        verified: newUser.verified,
-      });
+      await SearchService.reindexUsers(newUser.id);
+
+      if (invitation) {
+        await InvitationService.onRegistered(invitation, newUser);
+      }
+
+      // Envoyer le lien de vérification ; un échec d'envoi ne bloque pas l'inscription (renvoi possible)
+      try {
+        await EmailVerificationService.sendVerificationEmail(newUser.id);
+      } catch (mailError) {
+        logger.error('❌ Failed to send verification email:', mailError);
+      }
+
+      // Ouvrir une session pour cet appareil et générer les tokens JWT
+      const tokens = await SessionService.startSession(newUser.id, context, (sessionId) =>
+        SimpleJWTService.generateAuthResponse({
+          userId: newUser.id,
+          email: newUser.email,
+          profileType: newUser.profileType,
+          verified: newUser.verified,
+          sessionId,
+        }).tokens
+      );
 
       return {
         user: {
@@ -82,7 +124,7 @@ export class SimpleAuthService {
           createdAt: newUser.createdAt,
           updatedAt: newUser.updatedAt,
         },
-        tokens: authResponse.tokens,
+        tokens,
       };
     } catch (error) {
       logger.error('❌ Registration error:', error);
@@ -90,10 +132,13 @@ export class SimpleAuthService {
     }
   }
 
-  static async login(credentials: LoginCredentials) {
+  static async login(credentials: LoginCredentials, context: SessionContext = {}) {
     try {
       logger.info(`🔐 Login attempt for: ${credentials.email}`);
 
+      // Compte verrouillé, IP bloquée ou délai progressif en cours
+      await LoginProtectionService.assertLoginAllowed(credentials.email, context.ipAddress);
+
       // Rechercher l'utilisateur
       const user = await prisma.user.findUnique({
         where: { email: credentials.email.toLowerCase() },
@@ -101,6 +146,7 @@ export class SimpleAuthService {
 
       if (!user) {
         logger.warn(`⚠️ Login attempt with non-existent email: ${credentials.email}`);
+        await LoginProtectionService.recordFailure(credentials.email, context, null, LoginFailureReason.UNKNOWN_EMAIL);
         throw new Error('Identifiants invalides');
       }
 
@@ -108,44 +154,100 @@ export class SimpleAuthService {
       const isPasswordValid = await PasswordService.verify(credentials.password, user.password);
       if (!isPasswordValid) {
         logger.warn(`⚠️ Invalid password for user: ${credentials.email}`);
+        await LoginProtectionService.recordFailure(credentials.email, context, user, LoginFailureReason.INVALID_PASSWORD);
         throw new Error('Identifiants invalides');
       }
 
-      // Mettre à jour la dernière connexion
-      await prisma.user.update({
-        where: { id: user.id },
-        data: { lastLogin: new Date() },
-      });
+      // Compte suspendu ou banni par la modération
+      await ModerationService.assertAccountActive(user);
 
-      logger.info(`✅ User logged in successfully: ${user.email}`);
+      // Double authentification : la session n'est ouverte qu'après vérification du second facteur
+      const challenge = await TwoFactorService.getLoginChallenge(user.id, user.profileType);
+      if (challenge) {
+        logger.info(`🔐 2FA challenge issued for: ${user.email}`);
+        return challenge;
+      }
 
-      // Générer les tokens JWT
-      const authResponse = SimpleJWTService.generateAuthResponse({
-        userId: user.id,
-        email: user.email,
-        profileType: user.profileType,
-        verified: user.verified,
-      });
+      return await this.completeLogin(user, context);
+    } catch (error) {
+      logger.error('❌ Login error:', error);
+      throw error;
+    }
+  }
+
+  // Seconde étape de connexion lorsque la 2FA est activée
+  static async verifyTwoFactorLogin(challengeToken: string, code: string, context: SessionContext = {}) {
+    try {
+      const userId = await LoginProtectionService.verifyTwoFactorChallenge(challengeToken, code, context);
+
+      const user = await prisma.user.findUnique({ where: { id: userId } });
+      if (!user) {
+        throw new Error('Utilisateur non trouvé');
+      }
+
+      // Le compte a pu être suspendu ou banni entre les deux étapes
+      await ModerationService.assertAccountActive(user);
+
+      return await this.completeLogin(user, context);
+    } catch (error) {
+      logger.error('❌ 2FA login error:', error);
+      throw error;
+    }
+  }
+
+  // Enrôlement imposé à la connexion (2FA obligatoire pour le type de profil)
+  static async beginRequiredTwoFactorSetup(challengeToken: string) {
+    const userId = TwoFactorService.resolveSetupChallenge(challengeToken);
+    return TwoFactorService.beginSetup(userId);
+  }
+
+  static async completeRequiredTwoFactorSetup(challengeToken: string, code: string, context: SessionContext = {}) {
+    try {
+      const userId = TwoFactorService.resolveSetupChallenge(challengeToken);
+
+      const user = await prisma.user.findUnique({ where: { id: userId } });
+      if (!user) {
+        throw new Error('Utilisateur non trouvé');
+      }
+
+      // Le compte a pu être suspendu ou banni depuis l'émission du challenge
+      await ModerationService.assertAccountActive(user);
+
+      const { recoveryCodes } = await TwoFactorService.confirmSetup(userId, code);
 
       return {
-        user: {
-          id: user.id,
-          email: user.email,
-          name: user.name,
-          profileType: user.profileType,
-          status: user.status,
-          company: user.company,
-          location: user.location,
-          verified: user.verified,
-          completionScore: user.completionScore,
-          createdAt: user.createdAt,
-          updatedAt: user.updatedAt,
-          lastLogin: user.lastLogin,
-        },
-        tokens: authResponse.tokens,
+        ...(await this.completeLogin(user, context)),
+        recoveryCodes,
       };
     } catch (error) {
-      logger.error('❌ Login error:', error);
+      logger.error('❌ 2FA required setup error:', error);
+      throw error;
+    }
+  }
+
+  static async refreshTokens(refreshToken: string, context: SessionContext = {}) {
+    try {
+      logger.debug('🔄 Token refresh attempt');
+
+      const decoded = SimpleJWTService.verifyRefreshToken(refreshToken);
+      if (!decoded || !decoded.sessionId) {
+        throw new Error('Refresh token invalide');
+      }
+
+      const tokens = await SessionService.rotateSession(decoded.sessionId, refreshToken, context, (session) =>
+        SimpleJWTService.generateAuthResponse({
+          userId: session.user.id,
+          email: session.user.email,
+          profileType: session.user.profileType,
+          verified: session.user.verified,
+          sessionId: session.id,
+        }).tokens
+      );
+
+      logger.info(`✅ Tokens refreshed for user: ${decoded.userId}`);
+      return { tokens };
+    } catch (error) {
+      logger.error('❌ Token refresh error:', error);
       throw error;
     }
   }
@@ -195,4 +297,55 @@ export class SimpleAuthService {
       throw error;
     }
   }
-}
\ No newline at end of file
+
+  private static async completeLogin(user: User, context: SessionContext) {
+    // Mettre à jour la dernière connexion
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { lastLogin: new Date() },
+    });
+
+    logger.info(`✅ User logged in successfully: ${user.email}`);
+
+    // Historique de connexion : réinitialise les échecs et détecte les nouvelles IP/pays
+    await LoginProtectionService.recordSuccess(user, context);
+
+    // Ouvrir une session pour cet appareil et générer les tokens JWT
+    const tokens = await SessionService.startSession(user.id, context, (sessionId) =>
+      SimpleJWTService.generateAuthResponse({
+        userId: user.id,
+        email: user.email,
+        profileType: user.profileType,
+        verified: user.verified,
+        sessionId,
+      }).tokens
+    );
+
+    return {
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        profileType: user.profileType,
+        status: user.status,
+        company: user.company,
+        location: user.location,
+        verified: user.verified,
+        completionScore: user.completionScore,
+        createdAt: user.createdAt,
+        updatedAt: user.updatedAt,
+        lastLogin: user.lastLogin,
+      },
+      tokens,
+    };
+  }
+
+  // Le service peut être appelé sans passer par le schéma d'inscription : le type est revalidé contre l'enum Prisma
+  private static parseProfileType(value: string): ProfileType {
+    const profileType = Object.values(ProfileType).find(candidate => candidate === value);
+    if (!profileType) {
+      throw new Error('Type de profil invalide');
+    }
+    return profileType;
+  }
+}
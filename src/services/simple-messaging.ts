@@ -1,5 +1,7 @@
 import { PrismaClient, MessageType } from '@prisma/client';
 import { NotificationsService } from './notifications';
+import { PrivacyScope, PrivacyService } from './privacy';
+import { ConnectionsService } from './connections';
 
 const prisma = new PrismaClient();
 
@@ -37,6 +39,11 @@ export class SimpleMessagingService {
         throw new Error('Destinataire introuvable');
       }
 
+      // Aucun échange possible si l'un des deux a bloqué l'autre
+      if (await ConnectionsService.isBlocked(senderId, messageData.recipientId)) {
+        throw new Error('Impossible d\'envoyer un message à cet utilisateur');
+      }
+
       // Trouver ou créer une conversation entre les deux utilisateurs
       let conversation = await prisma.conversation.findFirst({
         where: {
@@ -134,7 +141,8 @@ export class SimpleMessagingService {
         // Ne pas faire échouer l'envoi du message si la notification échoue
       }
       
-      return message;
+      const privacy = await PrivacyService.scope(senderId, [message.recipient]);
+      return this.serializeMessage(message, privacy);
 
     } catch (error) {
       console.error('❌ Send message error:', error);
@@ -206,8 +214,10 @@ export class SimpleMessagingService {
         take: pagination.limit,
       });
 
+      const privacy = await PrivacyService.scope(userId, messages.flatMap(message => [message.sender, message.recipient]));
+
       return {
-        messages,
+        messages: messages.map(message => this.serializeMessage(message, privacy)),
         meta: {
           page: pagination.page,
           limit: pagination.limit,
@@ -278,7 +288,8 @@ export class SimpleMessagingService {
         message.readAt = new Date();
       }
 
-      return message;
+      const privacy = await PrivacyService.scope(userId, [message.sender, message.recipient]);
+      return this.serializeMessage(message, privacy);
 
     } catch (error) {
       console.error('❌ Get message by ID error:', error);
@@ -387,6 +398,11 @@ export class SimpleMessagingService {
         take: pagination.limit,
       });
 
+      const privacy = await PrivacyService.scope(
+        userId,
+        conversations.flatMap(conv => conv.participants.map(p => p.user))
+      );
+
       // Pour chaque conversation, calculer les messages non lus
       const conversationDetails = await Promise.all(
         conversations.map(async (conv) => {
@@ -403,7 +419,8 @@ export class SimpleMessagingService {
 
           return {
             ...conv,
-            otherUser: otherParticipant?.user || null,
+            participants: conv.participants.map(p => ({ ...p, user: privacy.serialize(p.user) })),
+            otherUser: privacy.serialize(otherParticipant?.user) || null,
             lastMessage: conv.messages[0] || null,
             unreadCount,
             totalMessages: conv._count.messages,
@@ -443,4 +460,13 @@ export class SimpleMessagingService {
       throw error;
     }
   }
-}
\ No newline at end of file
+
+  // Coordonnées de l'expéditeur et du destinataire selon leurs réglages de confidentialité
+  private static serializeMessage<T extends { sender: { id: string }; recipient: { id: string } }>(message: T, privacy: PrivacyScope): T {
+    return {
+      ...message,
+      sender: privacy.serialize(message.sender),
+      recipient: privacy.serialize(message.recipient),
+    };
+  }
+}
@@ -0,0 +1,320 @@
+import crypto from 'crypto';
+import { PrismaClient, ProfileType } from '@prisma/client';
+import { TOTPService } from '../utils/totp';
+import { PasswordService } from '../utils/password';
+import { SimpleJWTService } from '../utils/simple-jwt';
+import { logger } from '../config/logger';
+
+const prisma = new PrismaClient();
+
+const RECOVERY_CODES_COUNT = 10;
+
+export interface TwoFactorChallenge {
+  twoFactorRequired?: boolean;
+  twoFactorSetupRequired?: boolean;
+  challengeToken: string;
+  expiresIn: string;
+}
+
+export class TwoFactorService {
+
+  /**
+   * Retourne le challenge à renvoyer au client si la connexion nécessite une seconde étape,
+   * ou null si le mot de passe suffit.
+   */
+  static async getLoginChallenge(userId: string, profileType: ProfileType): Promise<TwoFactorChallenge | null> {
+    const twoFactor = await prisma.twoFactorAuth.findUnique({ where: { userId } });
+
+    if (twoFactor?.enabled) {
+      return {
+        twoFactorRequired: true,
+        challengeToken: SimpleJWTService.generateChallengeToken(userId, 'login'),
+        expiresIn: '5m',
+      };
+    }
+
+    if (await this.isRequiredFor(profileType)) {
+      return {
+        twoFactorSetupRequired: true,
+        challengeToken: SimpleJWTService.generateChallengeToken(userId, 'setup'),
+        expiresIn: '5m',
+      };
+    }
+
+    return null;
+  }
+
+  // Seconde étape de connexion : retourne l'id de l'utilisateur si le code est valide
+  static async verifyLoginChallenge(challengeToken: string, code: string): Promise<string> {
+    const userId = SimpleJWTService.verifyChallengeToken(challengeToken, 'login');
+    if (!userId) {
+      throw new Error('Challenge 2FA invalide ou expiré');
+    }
+
+    if (!(await this.verifyCode(userId, code))) {
+      logger.warn(`⚠️ Invalid 2FA code for user: ${userId}`);
+      throw new Error('Code de vérification invalide');
+    }
+
+    return userId;
+  }
+
+  static resolveSetupChallenge(challengeToken: string): string {
+    const userId = SimpleJWTService.verifyChallengeToken(challengeToken, 'setup');
+    if (!userId) {
+      throw new Error('Challenge 2FA invalide ou expiré');
+    }
+
+    return userId;
+  }
+
+  /**
+   * Démarre l'enrôlement : génère un nouveau secret, actif seulement après confirmation
+   */
+  static async beginSetup(userId: string) {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { email: true, twoFactorAuth: { select: { enabled: true } } },
+      });
+
+      if (!user) {
+        throw new Error('Utilisateur non trouvé');
+      }
+
+      if (user.twoFactorAuth?.enabled) {
+        throw new Error('La double authentification est déjà activée');
+      }
+
+      const secret = TOTPService.generateSecret();
+      const encryptedSecret = TOTPService.encryptSecret(secret);
+
+      await prisma.twoFactorAuth.upsert({
+        where: { userId },
+        create: { userId, secret: encryptedSecret },
+        update: { secret: encryptedSecret, recoveryCodes: null, lastUsedStep: null },
+      });
+
+      logger.info(`🔐 2FA setup started for user: ${userId}`);
+
+      return {
+        secret,
+        otpauthUrl: TOTPService.buildProvisioningUri(secret, user.email),
+      };
+
+    } catch (error) {
+      logger.error('❌ 2FA setup error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Confirme l'enrôlement avec un premier code et retourne les codes de secours (affichés une seule fois)
+   */
+  static async confirmSetup(userId: string, code: string) {
+    try {
+      const twoFactor = await prisma.twoFactorAuth.findUnique({ where: { userId } });
+
+      if (!twoFactor || twoFactor.enabled) {
+        throw new Error('Aucune configuration 2FA en cours');
+      }
+
+      const step = TOTPService.verifyCode(TOTPService.decryptSecret(twoFactor.secret), code);
+      if (step === null) {
+        throw new Error('Code de vérification invalide');
+      }
+
+      const recoveryCodes = this.generateRecoveryCodes();
+
+      await prisma.twoFactorAuth.update({
+        where: { userId },
+        data: {
+          enabled: true,
+          enabledAt: new Date(),
+          lastUsedStep: step,
+          recoveryCodes: JSON.stringify(recoveryCodes.map(c => this.hashRecoveryCode(c))),
+        },
+      });
+
+      logger.info(`✅ 2FA enabled for user: ${userId}`);
+      return { recoveryCodes };
+
+    } catch (error) {
+      logger.error('❌ 2FA confirm error:', error);
+      throw error;
+    }
+  }
+
+  static async disable(userId: string, password: string, code: string) {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { password: true, profileType: true, twoFactorAuth: { select: { enabled: true } } },
+      });
+
+      if (!user) {
+        throw new Error('Utilisateur non trouvé');
+      }
+
+      if (!user.twoFactorAuth?.enabled) {
+        throw new Error('La double authentification n\'est pas activée');
+      }
+
+      if (await this.isRequiredFor(user.profileType)) {
+        throw new Error('La double authentification est obligatoire pour votre type de profil');
+      }
+
+      if (!(await PasswordService.verify(password, user.password))) {
+        throw new Error('Mot de passe incorrect');
+      }
+
+      if (!(await this.verifyCode(userId, code))) {
+        throw new Error('Code de vérification invalide');
+      }
+
+      await prisma.twoFactorAuth.delete({ where: { userId } });
+
+      logger.info(`🔓 2FA disabled for user: ${userId}`);
+      return { success: true };
+
+    } catch (error) {
+      logger.error('❌ 2FA disable error:', error);
+      throw error;
+    }
+  }
+
+  static async regenerateRecoveryCodes(userId: string, code: string) {
+    try {
+      const twoFactor = await prisma.twoFactorAuth.findUnique({ where: { userId } });
+
+      if (!twoFactor?.enabled) {
+        throw new Error('La double authentification n\'est pas activée');
+      }
+
+      if (!(await this.verifyCode(userId, code))) {
+        throw new Error('Code de vérification invalide');
+      }
+
+      const recoveryCodes = this.generateRecoveryCodes();
+
+      await prisma.twoFactorAuth.update({
+        where: { userId },
+        data: { recoveryCodes: JSON.stringify(recoveryCodes.map(c => this.hashRecoveryCode(c))) },
+      });
+
+      logger.info(`🔁 2FA recovery codes regenerated for user: ${userId}`);
+      return { recoveryCodes };
+
+    } catch (error) {
+      logger.error('❌ 2FA recovery codes error:', error);
+      throw error;
+    }
+  }
+
+  static async getStatus(userId: string, profileType: ProfileType) {
+    const twoFactor = await prisma.twoFactorAuth.findUnique({ where: { userId } });
+
+    return {
+      enabled: !!twoFactor?.enabled,
+      enabledAt: twoFactor?.enabledAt || null,
+      required: await this.isRequiredFor(profileType),
+      recoveryCodesRemaining: twoFactor?.recoveryCodes ? JSON.parse(twoFactor.recoveryCodes).length : 0,
+    };
+  }
+
+  /**
+   * Vérifie un code TOTP (avec protection anti-rejeu) ou consomme un code de secours
+   */
+  static async verifyCode(userId: string, code: string): Promise<boolean> {
+    const twoFactor = await prisma.twoFactorAuth.findUnique({ where: { userId } });
+    if (!twoFactor?.enabled) {
+      return false;
+    }
+
+    const step = TOTPService.verifyCode(TOTPService.decryptSecret(twoFactor.secret), code);
+    if (step !== null) {
+      // Mise à jour conditionnelle : un même code ne peut être accepté qu'une fois
+      const { count } = await prisma.twoFactorAuth.updateMany({
+        where: {
+          userId,
+          OR: [{ lastUsedStep: null }, { lastUsedStep: { lt: step } }],
+        },
+        data: { lastUsedStep: step },
+      });
+      return count > 0;
+    }
+
+    return this.consumeRecoveryCode(userId, twoFactor.recoveryCodes, code);
+  }
+
+  // ==================== POLITIQUE PAR TYPE DE PROFIL ====================
+
+  static async isRequiredFor(profileType: ProfileType): Promise<boolean> {
+    const policy = await prisma.twoFactorPolicy.findUnique({ where: { profileType } });
+    return !!policy?.required;
+  }
+
+  static async getPolicies() {
+    const policies = await prisma.twoFactorPolicy.findMany();
+    const requiredByType = new Map(policies.map(p => [p.profileType, p]));
+
+    return Object.values(ProfileType).map(profileType => ({
+      profileType,
+      required: !!requiredByType.get(profileType)?.required,
+      updatedAt: requiredByType.get(profileType)?.updatedAt || null,
+    }));
+  }
+
+  static async setPolicy(profileType: ProfileType, required: boolean, adminId: string) {
+    try {
+      const policy = await prisma.twoFactorPolicy.upsert({
+        where: { profileType },
+        create: { profileType, required, updatedBy: adminId },
+        update: { required, updatedBy: adminId },
+      });
+
+      logger.info(`🛡️ 2FA ${required ? 'required' : 'optional'} for ${profileType} (by ${adminId})`);
+      return policy;
+
+    } catch (error) {
+      logger.error('❌ 2FA policy update error:', error);
+      throw error;
+    }
+  }
+
+  private static async consumeRecoveryCode(userId: string, storedCodes: string | null, code: string): Promise<boolean> {
+    if (!storedCodes) {
+      return false;
+    }
+
+    const hashes: string[] = JSON.parse(storedCodes);
+    const hash = this.hashRecoveryCode(code);
+    if (!hashes.includes(hash)) {
+      return false;
+    }
+
+    // Mise à jour conditionnelle sur la liste lue : deux utilisations simultanées du même code échouent
+    const { count } = await prisma.twoFactorAuth.updateMany({
+      where: { userId, recoveryCodes: storedCodes },
+      data: { recoveryCodes: JSON.stringify(hashes.filter(h => h !== hash)) },
+    });
+
+    if (count > 0) {
+      logger.info(`🔑 Recovery code used by user: ${userId} (${hashes.length - 1} remaining)`);
+    }
+    return count > 0;
+  }
+
+  // Codes de secours au format XXXX-XXXX
+  private static generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODES_COUNT }, () => {
+      const raw = crypto.randomBytes(4).toString('hex').toUpperCase();
+      return `${raw.slice(0, 4)}-${raw.slice(4)}`;
+    });
+  }
+
+  private static hashRecoveryCode(code: string): string {
+    const normalized = code.replace(/[\s-]/g, '').toUpperCase();
+    return crypto.createHash('sha256').update(normalized).digest('hex');
+  }
+}
@@ -1,5 +1,12 @@
 import { PrismaClient } from '@prisma/client';
 import { logger } from '../config/logger';
+import { AccountDeletionService } from './account-deletion';
+import { ProfileCompletionService } from './profile-completion';
+import { ExpertisesService } from './expertises';
+import { PrivacyService } from './privacy';
+import { ConnectionsService } from './connections';
+import { SearchService, MemberSearchSort } from './search';
+import { LocationsService, GeoFilters, GeoPoint } from './locations';
 
 const prisma = new PrismaClient();
 
@@ -11,11 +18,12 @@ interface UpdateUserData {
   website?: string;
   linkedin?: string;
   phone?: string;
+  language?: string;
   avatar?: string;
   avatarFile?: Express.Multer.File;
 }
 
-interface UserFilters {
+interface UserFilters extends GeoFilters {
   profileType?: string;
   location?: string;
   verified?: boolean;
@@ -29,9 +37,40 @@ interface PaginationParams {
   sortOrder?: 'asc' | 'desc';
 }
 
+const directoryUserSelect = {
+  id: true,
+  name: true,
+  email: true,
+  profileType: true,
+  status: true,
+  company: true,
+  location: true,
+  city: true,
+  regionCode: true,
+  countryCode: true,
+  latitude: true,
+  longitude: true,
+  avatar: true,
+  description: true,
+  website: true,
+  linkedin: true,
+  verified: true,
+  completionScore: true,
+  rating: true,
+  reviewCount: true,
+  endorsementCount: true,
+  createdAt: true,
+  updatedAt: true,
+  lastLogin: true,
+};
+
 export class UsersService {
   
-  static async getAllUsers(filters: UserFilters = {}, pagination: PaginationParams = {}) {
+  /**
+   * Annuaire des membres ; les coordonnées sont filtrées selon les réglages de confidentialité
+   * de chacun vis-à-vis du visiteur (viewerId absent : visiteur non connecté)
+   */
+  static async getAllUsers(filters: UserFilters = {}, pagination: PaginationParams = {}, viewerId?: string) {
     try {
       const {
         page = 1,
@@ -40,10 +79,16 @@ export class UsersService {
         sortOrder = 'desc',
       } = pagination;
 
+      if (filters.search?.trim()) {
+        return await this.searchUsers(filters, { page, limit, sortBy }, viewerId);
+      }
+
       const skip = (page - 1) * limit;
+      // Alias publics : "completeness" (score de complétion), "endorsements" (recommandations reçues)
+      const orderField = sortBy === 'completeness' ? 'completionScore' : sortBy === 'endorsements' ? 'endorsementCount' : sortBy;
 
-      // Construction des filtres Prisma
-      const where: any = {};
+      // Construction des filtres Prisma (les comptes anonymisés n'apparaissent plus)
+      const where: any = { deletedAt: null };
 
       if (filters.profileType) {
         where.profileType = filters.profileType;
@@ -54,18 +99,21 @@ export class UsersService {
           contains: filters.location,
           mode: 'insensitive',
         };
+        // Ne pas révéler par la recherche une localisation masquée au visiteur
+        where.AND = [PrivacyService.locationSearchableWhere(viewerId)];
+      }
+
+      if (filters.country || filters.region || filters.near) {
+        Object.assign(where, LocationsService.where(filters));
+        where.AND = [PrivacyService.locationSearchableWhere(viewerId)];
       }
 
       if (filters.verified !== undefined) {
         where.verified = filters.verified;
       }
 
-      if (filters.search) {
-        where.OR = [
-          { name: { contains: filters.search, mode: 'insensitive' } },
-          { company: { contains: filters.search, mode: 'insensitive' } },
-          { description: { contains: filters.search, mode: 'insensitive' } },
-        ];
+      if (filters.near) {
+        return await this.getUsersNear(where, { ...filters, near: filters.near }, page, limit, viewerId);
       }
 
       // Récupérer les utilisateurs avec pagination
@@ -74,27 +122,13 @@ export class UsersService {
           where,
           skip,
           take: limit,
-          orderBy: { [sortBy]: sortOrder },
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            profileType: true,
-            status: true,
-            company: true,
-            location: true,
-            avatar: true,
-            description: true,
-            website: true,
-            linkedin: true,
-            verified: true,
-            completionScore: true,
-            rating: true,
-            reviewCount: true,
-            createdAt: true,
-            updatedAt: true,
-            lastLogin: true,
-          },
+          // À score de complétion égal, les profils les plus récents d'abord
+          orderBy: orderField === 'completionScore'
+            ? [{ completionScore: sortOrder }, { createdAt: 'desc' }]
+            : orderField === 'endorsementCount'
+              ? [{ endorsementCount: sortOrder }, { completionScore: 'desc' }, { createdAt: 'desc' }]
+              : { [orderField]: sortOrder },
+          select: directoryUserSelect,
         }),
         prisma.user.count({ where }),
       ]);
@@ -102,7 +136,7 @@ export class UsersService {
       const totalPages = Math.ceil(total / limit);
 
       return {
-        users,
+        users: await PrivacyService.serializeMany(viewerId, users),
         meta: {
           page,
           limit,
@@ -118,7 +152,120 @@ export class UsersService {
     }
   }
 
-  static async getUserById(userId: string) {
+  /**
+   * Membres situés dans le rayon demandé, du plus proche au plus éloigné
+   */
+  private static async getUsersNear(
+    where: any,
+    filters: UserFilters & { near: GeoPoint },
+    page: number,
+    limit: number,
+    viewerId?: string
+  ) {
+    const candidates = await prisma.user.findMany({
+      where,
+      select: { id: true, latitude: true, longitude: true },
+    });
+    const { ids, distances, total } = LocationsService.paginateByDistance(candidates, filters, page, limit);
+
+    const users = await prisma.user.findMany({
+      where: { id: { in: ids } },
+      select: directoryUserSelect,
+    });
+    const usersById = new Map(users.map(user => [user.id, user]));
+
+    const nearest = ids
+      .filter(id => usersById.has(id))
+      .map(id => ({ ...usersById.get(id)!, distanceKm: distances.get(id)! }));
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      users: await PrivacyService.serializeMany(viewerId, nearest),
+      meta: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Recherche classée par pertinence (plein texte sous PostgreSQL), avec passages surlignés
+   * et compteurs par type de profil et localisation
+   */
+  private static async searchUsers(
+    filters: UserFilters,
+    pagination: { page: number; limit: number; sortBy: string },
+    viewerId?: string
+  ) {
+    const { page, limit } = pagination;
+    const sortBy: MemberSearchSort = ['completeness', 'endorsements', 'createdAt'].includes(pagination.sortBy)
+      ? pagination.sortBy as MemberSearchSort
+      : 'relevance';
+
+    // Rayon : présélection des membres proches, classés ensuite par pertinence
+    let distances: Map<string, number> | undefined;
+    if (filters.near) {
+      const candidates = await prisma.user.findMany({
+        where: { deletedAt: null, ...LocationsService.where(filters) },
+        select: { id: true, latitude: true, longitude: true },
+      });
+      distances = new Map(LocationsService.rankByDistance(candidates, filters.near, filters.radiusKm)
+        .map(row => [row.id, row.distanceKm]));
+    }
+
+    const result = await SearchService.searchMembers({
+      query: filters.search!,
+      profileType: filters.profileType,
+      location: filters.location,
+      countryCode: filters.country?.toUpperCase(),
+      regionCode: filters.region?.toUpperCase(),
+      withinIds: distances ? [...distances.keys()] : undefined,
+      verified: filters.verified,
+      sortBy,
+      page,
+      limit,
+    }, viewerId);
+
+    const users = await prisma.user.findMany({
+      where: { id: { in: result.hits.map(hit => hit.id) } },
+      select: directoryUserSelect,
+    });
+    const usersById = new Map(users.map(user => [user.id, user]));
+
+    const ranked = result.hits
+      .filter(hit => usersById.has(hit.id))
+      .map(hit => ({
+        ...usersById.get(hit.id)!,
+        ...(distances ? { distanceKm: distances.get(hit.id) ?? null } : {}),
+        search: { rank: hit.rank, highlights: hit.highlights },
+      }));
+
+    const totalPages = Math.ceil(result.total / limit);
+
+    return {
+      users: await PrivacyService.serializeMany(viewerId, ranked),
+      meta: {
+        page,
+        limit,
+        total: result.total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+      facets: result.facets,
+      searchMode: result.mode,
+    };
+  }
+
+  /**
+   * Profil d'un membre vu par viewerId (null : visiteur non connecté ; par défaut, le membre lui-même)
+   */
+  static async getUserById(userId: string, viewerId: string | null = userId) {
     try {
       const user = await prisma.user.findUnique({
         where: { id: userId },
@@ -126,8 +273,8 @@ export class UsersService {
           expertises: true,
           _count: {
             select: {
-              connections: true,
-              connectedTo: true,
+              connections: { where: { status: 'ACCEPTED' } },
+              connectedTo: { where: { status: 'ACCEPTED' } },
               opportunities: true,
               applications: true,
             },
@@ -139,7 +286,14 @@ export class UsersService {
         throw new Error('Utilisateur non trouvé');
       }
 
-      return {
+      // Un membre bloqué (dans un sens ou dans l'autre) n'a pas accès au profil
+      if (viewerId && viewerId !== userId && await ConnectionsService.isBlocked(viewerId, userId)) {
+        throw new Error('Utilisateur non trouvé');
+      }
+
+      const privacy = await PrivacyService.scope(viewerId, [user]);
+
+      return privacy.serialize({
         id: user.id,
         name: user.name,
         email: user.email,
@@ -147,6 +301,11 @@ export class UsersService {
         status: user.status,
         company: user.company,
         location: user.location,
+        city: user.city,
+        regionCode: user.regionCode,
+        countryCode: user.countryCode,
+        latitude: user.latitude,
+        longitude: user.longitude,
         avatar: user.avatar,
         description: user.description,
         website: user.website,
@@ -156,21 +315,25 @@ export class UsersService {
         completionScore: user.completionScore,
         rating: user.rating,
         reviewCount: user.reviewCount,
+        endorsementCount: user.endorsementCount,
         expertises: user.expertises.map(exp => ({
           id: exp.id,
           name: exp.name,
           level: exp.level,
           verified: exp.verified,
+          endorsementCount: exp.endorsementCount,
         })),
         stats: {
-          connectionsCount: user._count.connections + user._count.connectedTo,
+          connectionsCount: privacy.canSee(user.id, 'connections')
+            ? user._count.connections + user._count.connectedTo
+            : null,
           opportunitiesCount: user._count.opportunities,
           applicationsCount: user._count.applications,
         },
         createdAt: user.createdAt,
         updatedAt: user.updatedAt,
         lastLogin: user.lastLogin,
-      };
+      });
     } catch (error) {
       logger.error('❌ Get user by ID error:', error);
       throw error;
@@ -212,6 +375,8 @@ export class UsersService {
       const { avatarFile, ...updateDataWithoutFile } = updateData;
       const finalUpdateData = {
         ...updateDataWithoutFile,
+        // Une nouvelle localisation remplace aussi ses colonnes structurées
+        ...(updateData.location !== undefined ? LocationsService.toFields(updateData.location) : {}),
         avatar: avatarUrl,
       };
 
@@ -224,16 +389,9 @@ export class UsersService {
         },
       });
 
-      // Calculer le nouveau score de complétion
-      const completionScore = this.calculateCompletionScore(updatedUser);
-
-      // Mettre à jour le score de complétion
-      if (completionScore !== updatedUser.completionScore) {
-        await prisma.user.update({
-          where: { id: userId },
-          data: { completionScore },
-        });
-      }
+      // Recalculer le score de complétion
+      const { score: completionScore } = await ProfileCompletionService.recompute(userId);
+      await SearchService.reindexUsers(userId);
 
       logger.info(`✅ User updated successfully: ${updatedUser.email}`);
 
@@ -245,6 +403,11 @@ export class UsersService {
         status: updatedUser.status,
         company: updatedUser.company,
         location: updatedUser.location,
+        city: updatedUser.city,
+        regionCode: updatedUser.regionCode,
+        countryCode: updatedUser.countryCode,
+        latitude: updatedUser.latitude,
+        longitude: updatedUser.longitude,
         avatar: updatedUser.avatar,
         description: updatedUser.description,
         website: updatedUser.website,
@@ -254,11 +417,13 @@ export class UsersService {
         completionScore,
         rating: updatedUser.rating,
         reviewCount: updatedUser.reviewCount,
+        endorsementCount: updatedUser.endorsementCount,
         expertises: updatedUser.expertises.map(exp => ({
           id: exp.id,
           name: exp.name,
           level: exp.level,
           verified: exp.verified,
+          endorsementCount: exp.endorsementCount,
         })),
         updatedAt: updatedUser.updatedAt,
       };
@@ -268,23 +433,14 @@ export class UsersService {
     }
   }
 
-  static async deleteUser(userId: string) {
+  /**
+   * Effacement immédiat (sans délai de grâce) : le compte est anonymisé plutôt que supprimé,
+   * pour préserver les conversations et candidatures des autres membres
+   */
+  static async deleteUser(userId: string, erasedBy?: string) {
     try {
-      // Vérifier que l'utilisateur existe
-      const existingUser = await prisma.user.findUnique({
-        where: { id: userId },
-      });
-
-      if (!existingUser) {
-        throw new Error('Utilisateur non trouvé');
-      }
-
-      // Supprimer l'utilisateur (cascade automatique)
-      await prisma.user.delete({
-        where: { id: userId },
-      });
-
-      logger.info(`✅ User deleted successfully: ${existingUser.email}`);
+      await AccountDeletionService.eraseUser(userId, erasedBy);
+      logger.info(`✅ User erased successfully: ${userId}`);
     } catch (error) {
       logger.error('❌ Delete user error:', error);
       throw error;
@@ -323,6 +479,9 @@ export class UsersService {
         },
       });
 
+      await ProfileCompletionService.refresh(userId);
+      await SearchService.reindexUsers(userId);
+
       logger.info(`✅ Expertise added for user: ${userId}`);
 
       return {
@@ -330,6 +489,7 @@ export class UsersService {
         name: expertise.name,
         level: expertise.level,
         verified: expertise.verified,
+        endorsementCount: expertise.endorsementCount,
       };
     } catch (error) {
       logger.error('❌ Add expertise error:', error);
@@ -356,32 +516,14 @@ export class UsersService {
         where: { id: expertiseId },
       });
 
+      await ExpertisesService.syncUserCount(userId);
+      await ProfileCompletionService.refresh(userId);
+      await SearchService.reindexUsers(userId);
+
       logger.info(`✅ Expertise removed for user: ${userId}`);
     } catch (error) {
       logger.error('❌ Remove expertise error:', error);
       throw error;
     }
   }
-
-  private static calculateCompletionScore(user: any): number {
-    let score = 30; // Score de base
-
-    // Informations de profil (+10 points chacun)
-    if (user.company) score += 10;
-    if (user.location) score += 10;
-    if (user.description) score += 15;
-    if (user.website) score += 5;
-    if (user.linkedin) score += 5;
-    if (user.phone) score += 5;
-
-    // Avatar (+10 points)
-    if (user.avatar) score += 10;
-
-    // Expertises (+2 points par expertise, max 10)
-    if (user.expertises) {
-      score += Math.min(user.expertises.length * 2, 10);
-    }
-
-    return Math.min(score, 100);
-  }
-}
\ No newline at end of file
+}
@@ -1,6 +1,6 @@
 import { WebSocket, WebSocketServer } from 'ws';
 import { IncomingMessage } from 'http';
-import { SimpleJWTService } from '../utils/simple-jwt';
+import { SessionService } from './sessions';
 
 interface AuthenticatedWebSocket extends WebSocket {
   userId?: string;
@@ -23,7 +23,7 @@ export class WebSocketNotificationService {
     console.log('✅ WebSocket server initialized on /ws/notifications');
   }
 
-  private handleConnection(ws: AuthenticatedWebSocket, request: IncomingMessage) {
+  private async handleConnection(ws: AuthenticatedWebSocket, request: IncomingMessage) {
     console.log('👋 New WebSocket connection attempt');
 
     // Authentifier le client via token dans l'URL ou les headers
@@ -36,7 +36,7 @@ export class WebSocketNotificationService {
       return;
     }
 
-    const payload = SimpleJWTService.verifyAccessToken(token);
+    const payload = await SessionService.authenticateAccessToken(token);
     if (!payload) {
       console.log('❌ WebSocket connection rejected: Invalid token');
       ws.close(4001, 'Invalid token');
@@ -147,6 +147,16 @@ export class WebSocketNotificationService {
     return false;
   }
 
+  // Ferme la connexion d'un utilisateur (compte suspendu, banni...)
+  public disconnectUser(userId: string, reason: string) {
+    const client = this.clients.get(userId);
+    if (client) {
+      client.close(4003, reason);
+      this.clients.delete(userId);
+      console.log(`🔌 WebSocket closed for user ${userId}: ${reason}`);
+    }
+  }
+
   // Diffuser un message à tous les clients connectés
   public broadcast(message: any) {
     let sentCount = 0;
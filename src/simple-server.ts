@@ -3,6 +3,7 @@ import cors from 'cors';
 import { PrismaClient } from '@prisma/client';
 import { SimpleAuthService } from './services/simple-auth';
 import { SimpleJWTService } from './utils/simple-jwt';
+import { SessionService } from './services/sessions';
 import { PasswordService } from './utils/password';
 import { UsersService } from './services/users';
 
@@ -116,7 +117,7 @@ app.get('/api/v1/auth/profile', async (req: Request, res: Response) => {
       return;
     }
 
-    const payload = SimpleJWTService.verifyAccessToken(token);
+    const payload = await SessionService.authenticateAccessToken(token);
     if (!payload) {
       res.status(401).json({
         success: false,
@@ -185,7 +186,7 @@ app.get('/api/v1/users/:userId', async (req: Request, res: Response) => {
   try {
     const { userId } = req.params;
     
-    const user = await UsersService.getUserById(userId);
+    const user = await UsersService.getUserById(userId, null);
 
     res.json({
       success: true,
@@ -220,7 +221,7 @@ app.put('/api/v1/users/me', async (req: Request, res: Response) => {
       return;
     }
 
-    const payload = SimpleJWTService.verifyAccessToken(token);
+    const payload = await SessionService.authenticateAccessToken(token);
     if (!payload) {
       res.status(401).json({
         success: false,
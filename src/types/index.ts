@@ -9,6 +9,10 @@ export interface AuthenticatedRequest extends Request {
     email: string;
     profileType: ProfileType;
     verified: boolean;
+    sessionId?: string;
+    apiKeyId?: string;
+    scopes?: string[];
+    impersonatorId?: string;
   };
 }
 
@@ -73,6 +77,7 @@ export interface RegisterData {
   profileType: ProfileType;
   company?: string;
   location?: string;
+  invitationCode?: string;
 }
 
 export interface AuthTokens {
@@ -92,12 +97,17 @@ export interface JWTPayload {
   email: string;
   profileType: ProfileType;
   verified: boolean;
+  sessionId?: string;
+  impersonatorId?: string;
   iat?: number;
   exp?: number;
   iss?: string;
   aud?: string;
 }
 
+// Contenu du token de rafraîchissement : la session permet la rotation et la révocation
+export type JWTRefreshPayload = Pick<JWTPayload, 'userId' | 'email' | 'sessionId'>;
+
 // ==================== API RESPONSES ====================
 
 export interface ApiResponse<T = any> {
@@ -315,4 +325,24 @@ export class ConflictError extends AppError {
   constructor(message: string = 'Conflit de ressource') {
     super(message, 409);
   }
-}
\ No newline at end of file
+}
+
+export class TooManyRequestsError extends AppError {
+  public retryAfterSeconds: number;
+
+  constructor(message: string = 'Trop de requêtes', retryAfterSeconds: number = 60) {
+    super(message, 429);
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+export class AccountSuspendedError extends ForbiddenError {
+  public code: 'ACCOUNT_SUSPENDED' | 'ACCOUNT_BANNED';
+  public until: Date | null;
+
+  constructor(message: string, code: 'ACCOUNT_SUSPENDED' | 'ACCOUNT_BANNED', until: Date | null = null) {
+    super(message);
+    this.code = code;
+    this.until = until;
+  }
+}
@@ -1,6 +1,7 @@
 import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
 import { config } from '../config';
-import { JWTPayload } from '../types';
+import { JWTPayload, JWTRefreshPayload } from '../types';
 import { logger } from '../config/logger';
 
 export class JWTService {
@@ -28,13 +29,20 @@ export class JWTService {
    */
   static generateRefreshToken(payload: JWTPayload): string {
     try {
+      const refreshPayload: JWTRefreshPayload = {
+        userId: payload.userId,
+        email: payload.email,
+        sessionId: payload.sessionId,
+      };
       const token = jwt.sign(
-        { userId: payload.userId, email: payload.email } as any,
+        refreshPayload,
         config.JWT_REFRESH_SECRET,
         {
           expiresIn: config.JWT_REFRESH_EXPIRES_IN,
           issuer: 'pme360-api',
           audience: 'pme360-frontend',
+          // Identifiant unique : deux rotations successives ne produisent jamais le même token
+          jwtid: crypto.randomBytes(16).toString('hex'),
         }
       );
       
@@ -86,12 +94,12 @@ export class JWTService {
   /**
    * Vérifie et decode un token de rafraîchissement
    */
-  static verifyRefreshToken(token: string): { userId: string; email: string } | null {
+  static verifyRefreshToken(token: string): JWTRefreshPayload | null {
     try {
       const decoded = jwt.verify(token, config.JWT_REFRESH_SECRET, {
         issuer: 'pme360-api',
         audience: 'pme360-frontend',
-      }) as { userId: string; email: string };
+      }) as JWTRefreshPayload;
       
       logger.debug(`✅ Refresh token verified for user: ${decoded.userId}`);
       return decoded;
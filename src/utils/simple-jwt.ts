@@ -1,4 +1,5 @@
 import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
 import { config } from '../config';
 import { logger } from '../config/logger';
 
@@ -7,8 +8,13 @@ interface SimpleJWTPayload {
   email: string;
   profileType: string;
   verified: boolean;
+  sessionId?: string;
+  impersonatorId?: string; // Présent uniquement sur les tokens d'assistance émis pour un administrateur
 }
 
+// login : 2FA activée, code attendu ; setup : 2FA obligatoire mais pas encore configurée
+export type TwoFactorChallengePurpose = 'login' | 'setup';
+
 export class SimpleJWTService {
   
   static generateAccessToken(payload: SimpleJWTPayload): string {
@@ -19,6 +25,7 @@ export class SimpleJWTService {
           email: payload.email,
           profileType: payload.profileType,
           verified: payload.verified,
+          sessionId: payload.sessionId,
         },
         config.JWT_SECRET,
         {
@@ -36,18 +43,52 @@ export class SimpleJWTService {
     }
   }
 
+  /**
+   * Token d'assistance : agit au nom de l'utilisateur, mais porte l'identité de l'administrateur.
+   * Courte durée de vie et jamais accompagné d'un refresh token.
+   */
+  static generateImpersonationToken(payload: SimpleJWTPayload & { impersonatorId: string }, expiresInMinutes: number): string {
+    try {
+      const token = jwt.sign(
+        {
+          userId: payload.userId,
+          email: payload.email,
+          profileType: payload.profileType,
+          verified: payload.verified,
+          sessionId: payload.sessionId,
+          impersonatorId: payload.impersonatorId,
+        },
+        config.JWT_SECRET,
+        {
+          expiresIn: expiresInMinutes * 60,
+          issuer: 'pme360-api',
+          audience: 'pme360-frontend',
+        }
+      );
+
+      logger.debug(`✅ Impersonation token generated for user ${payload.userId} by ${payload.impersonatorId}`);
+      return token;
+    } catch (error) {
+      logger.error('❌ Error generating impersonation token:', error);
+      throw new Error('Failed to generate impersonation token');
+    }
+  }
+
   static generateRefreshToken(payload: SimpleJWTPayload): string {
     try {
       const token = jwt.sign(
         {
           userId: payload.userId,
           email: payload.email,
+          sessionId: payload.sessionId,
         },
         config.JWT_REFRESH_SECRET,
         {
           expiresIn: '7d',
           issuer: 'pme360-api',
           audience: 'pme360-frontend',
+          // Identifiant unique : deux rotations successives ne produisent jamais le même token
+          jwtid: crypto.randomBytes(16).toString('hex'),
         }
       );
       
@@ -72,6 +113,8 @@ export class SimpleJWTService {
         email: decoded.email,
         profileType: decoded.profileType,
         verified: decoded.verified,
+        sessionId: decoded.sessionId,
+        impersonatorId: decoded.impersonatorId,
       };
     } catch (error) {
       if (error instanceof jwt.TokenExpiredError) {
@@ -85,6 +128,90 @@ export class SimpleJWTService {
     }
   }
 
+  static verifyRefreshToken(token: string): { userId: string; email: string; sessionId?: string } | null {
+    try {
+      const decoded = jwt.verify(token, config.JWT_REFRESH_SECRET, {
+        issuer: 'pme360-api',
+        audience: 'pme360-frontend',
+      }) as any;
+      
+      logger.debug(`✅ Refresh token verified for user: ${decoded.userId}`);
+      return {
+        userId: decoded.userId,
+        email: decoded.email,
+        sessionId: decoded.sessionId,
+      };
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        logger.debug('⏰ Refresh token expired');
+      } else if (error instanceof jwt.JsonWebTokenError) {
+        logger.debug('❌ Invalid refresh token');
+      } else {
+        logger.error('❌ Error verifying refresh token:', error);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Token intermédiaire de connexion en deux étapes : prouve que le mot de passe
+   * a été vérifié, sans donner accès à l'API. Audience distincte des access tokens.
+   */
+  static generateChallengeToken(userId: string, purpose: TwoFactorChallengePurpose): string {
+    return jwt.sign(
+      { userId, purpose },
+      config.JWT_SECRET,
+      {
+        expiresIn: '5m',
+        issuer: 'pme360-api',
+        audience: 'pme360-2fa',
+      }
+    );
+  }
+
+  static verifyChallengeToken(token: string, purpose: TwoFactorChallengePurpose): string | null {
+    try {
+      const decoded = jwt.verify(token, config.JWT_SECRET, {
+        issuer: 'pme360-api',
+        audience: 'pme360-2fa',
+      }) as any;
+
+      return decoded.purpose === purpose ? decoded.userId : null;
+    } catch (error) {
+      logger.debug('❌ Invalid or expired 2FA challenge token');
+      return null;
+    }
+  }
+
+  /**
+   * Token de vérification d'adresse email, lié à l'email courant : un changement d'email l'invalide
+   */
+  static generateEmailVerificationToken(userId: string, email: string): string {
+    return jwt.sign(
+      { userId, email },
+      config.JWT_SECRET,
+      {
+        expiresIn: '24h',
+        issuer: 'pme360-api',
+        audience: 'pme360-email-verification',
+      }
+    );
+  }
+
+  static verifyEmailVerificationToken(token: string): { userId: string; email: string } | null {
+    try {
+      const decoded = jwt.verify(token, config.JWT_SECRET, {
+        issuer: 'pme360-api',
+        audience: 'pme360-email-verification',
+      }) as any;
+
+      return { userId: decoded.userId, email: decoded.email };
+    } catch (error) {
+      logger.debug('❌ Invalid or expired email verification token');
+      return null;
+    }
+  }
+
   static extractTokenFromHeader(authHeader: string | undefined): string | null {
     if (!authHeader) return null;
     
@@ -0,0 +1,147 @@
+import crypto from 'crypto';
+import { config } from '../config';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export class TOTPService {
+  private static readonly ISSUER = 'PME 360';
+  private static readonly DIGITS = 6;
+  private static readonly PERIOD_SECONDS = 30;
+  // Tolérance de ±1 intervalle pour absorber le décalage d'horloge du téléphone
+  private static readonly WINDOW = 1;
+
+  /**
+   * Génère un secret aléatoire de 160 bits encodé en base32 (RFC 4226 §4)
+   */
+  static generateSecret(): string {
+    return this.base32Encode(crypto.randomBytes(20));
+  }
+
+  /**
+   * URI otpauth:// à afficher sous forme de QR code dans l'application cliente
+   */
+  static buildProvisioningUri(secret: string, accountName: string): string {
+    const label = encodeURIComponent(`${this.ISSUER}:${accountName}`);
+    // encodeURIComponent plutôt que URLSearchParams : certaines applications affichent le "+" tel quel
+    const params = [
+      `secret=${secret}`,
+      `issuer=${encodeURIComponent(this.ISSUER)}`,
+      'algorithm=SHA1',
+      `digits=${this.DIGITS}`,
+      `period=${this.PERIOD_SECONDS}`,
+    ].join('&');
+
+    return `otpauth://totp/${label}?${params}`;
+  }
+
+  /**
+   * Intervalle de temps courant (T dans la RFC 6238)
+   */
+  static currentTimeStep(now: number = Date.now()): number {
+    return Math.floor(now / 1000 / this.PERIOD_SECONDS);
+  }
+
+  /**
+   * Génère le code HOTP pour un intervalle donné (RFC 4226 §5.3)
+   */
+  static generateCode(secret: string, timeStep: number = this.currentTimeStep()): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(timeStep));
+
+    const hmac = crypto.createHmac('sha1', this.base32Decode(secret)).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary =
+      ((hmac[offset] & 0x7f) << 24) |
+      ((hmac[offset + 1] & 0xff) << 16) |
+      ((hmac[offset + 2] & 0xff) << 8) |
+      (hmac[offset + 3] & 0xff);
+
+    return (binary % 10 ** this.DIGITS).toString().padStart(this.DIGITS, '0');
+  }
+
+  /**
+   * Vérifie un code et retourne l'intervalle correspondant (pour empêcher le rejeu), ou null
+   */
+  static verifyCode(secret: string, code: string, now: number = Date.now()): number | null {
+    const normalized = code.replace(/\s/g, '');
+    if (!/^\d{6}$/.test(normalized)) {
+      return null;
+    }
+
+    const current = this.currentTimeStep(now);
+    for (let delta = -this.WINDOW; delta <= this.WINDOW; delta++) {
+      const expected = this.generateCode(secret, current + delta);
+      if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+        return current + delta;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Chiffre le secret avant stockage en base (AES-256-GCM)
+   */
+  static encryptSecret(secret: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.encryptionKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+    return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join(':');
+  }
+
+  static decryptSecret(payload: string): string {
+    const [iv, authTag, encrypted] = payload.split(':').map(part => Buffer.from(part, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.encryptionKey(), iv);
+    decipher.setAuthTag(authTag);
+
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+  }
+
+  private static encryptionKey(): Buffer {
+    return crypto.createHash('sha256').update(config.TOTP_ENCRYPTION_KEY).digest();
+  }
+
+  private static base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+      value = (value << 8) | byte;
+      bits += 8;
+      while (bits >= 5) {
+        output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+
+    if (bits > 0) {
+      output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+  }
+
+  private static base32Decode(input: string): Buffer {
+    const cleaned = input.toUpperCase().replace(/=+$/, '');
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+
+    for (const char of cleaned) {
+      const index = BASE32_ALPHABET.indexOf(char);
+      if (index === -1) {
+        throw new Error('Secret TOTP invalide');
+      }
+      value = (value << 5) | index;
+      bits += 5;
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 0xff);
+        bits -= 8;
+      }
+    }
+
+    return Buffer.from(bytes);
+  }
+}
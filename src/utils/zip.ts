@@ -0,0 +1,100 @@
+import zlib from 'zlib';
+
+export interface ZipEntry {
+  name: string;
+  content: Buffer | string;
+}
+
+// Table CRC-32 (polynôme 0xEDB88320) calculée une fois au chargement
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export class ZipService {
+  // Bit 11 : noms de fichiers encodés en UTF-8
+  private static readonly UTF8_FLAG = 0x0800;
+  private static readonly METHOD_DEFLATE = 8;
+
+  /**
+   * Construit une archive ZIP (compression deflate) en mémoire.
+   * Suffisant pour les exports de données : pas de ZIP64, donc moins de 4 Go et 65535 fichiers.
+   */
+  static create(entries: ZipEntry[], date: Date = new Date()): Buffer {
+    const localParts: Buffer[] = [];
+    const centralParts: Buffer[] = [];
+    const { dosTime, dosDate } = this.toDosDateTime(date);
+    let offset = 0;
+
+    for (const entry of entries) {
+      const name = Buffer.from(entry.name, 'utf8');
+      const data = Buffer.isBuffer(entry.content) ? entry.content : Buffer.from(entry.content, 'utf8');
+      const compressed = zlib.deflateRawSync(data);
+      const crc = this.crc32(data);
+
+      const local = Buffer.alloc(30);
+      local.writeUInt32LE(0x04034b50, 0);
+      local.writeUInt16LE(20, 4);
+      local.writeUInt16LE(this.UTF8_FLAG, 6);
+      local.writeUInt16LE(this.METHOD_DEFLATE, 8);
+      local.writeUInt16LE(dosTime, 10);
+      local.writeUInt16LE(dosDate, 12);
+      local.writeUInt32LE(crc, 14);
+      local.writeUInt32LE(compressed.length, 18);
+      local.writeUInt32LE(data.length, 22);
+      local.writeUInt16LE(name.length, 26);
+      local.writeUInt16LE(0, 28);
+
+      const central = Buffer.alloc(46);
+      central.writeUInt32LE(0x02014b50, 0);
+      central.writeUInt16LE(20, 4);
+      central.writeUInt16LE(20, 6);
+      central.writeUInt16LE(this.UTF8_FLAG, 8);
+      central.writeUInt16LE(this.METHOD_DEFLATE, 10);
+      central.writeUInt16LE(dosTime, 12);
+      central.writeUInt16LE(dosDate, 14);
+      central.writeUInt32LE(crc, 16);
+      central.writeUInt32LE(compressed.length, 20);
+      central.writeUInt32LE(data.length, 24);
+      central.writeUInt16LE(name.length, 28);
+      central.writeUInt32LE(offset, 42);
+
+      localParts.push(local, name, compressed);
+      centralParts.push(central, name);
+      offset += local.length + name.length + compressed.length;
+    }
+
+    const centralDirectory = Buffer.concat(centralParts);
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(centralDirectory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...localParts, centralDirectory, end]);
+  }
+
+  static crc32(data: Buffer): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+      crc = CRC32_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+  }
+
+  private static toDosDateTime(date: Date) {
+    return {
+      dosTime: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+      dosDate: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    };
+  }
+}
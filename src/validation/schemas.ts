@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { Role } from '@prisma/client';
 
 // ==================== SCHEMAS DE BASE ====================
 
@@ -27,21 +28,64 @@ export const urlSchema = z
 
 export const uuidSchema = z.string().uuid('ID invalide');
 
+// Identifiants générés par Prisma (@default(cuid()))
+export const cuidSchema = z.string().cuid('ID invalide');
+
+export const profileTypeSchema = z.enum(['STARTUP', 'EXPERT', 'MENTOR', 'INCUBATOR', 'INVESTOR', 'FINANCIAL_INSTITUTION', 'PUBLIC_ORGANIZATION', 'TECH_PARTNER', 'PME', 'CONSULTANT', 'ADMIN']);
+
 // ==================== VALIDATION UTILISATEUR ====================
 
 export const registerSchema = z.object({
   email: emailSchema,
   password: passwordSchema,
   name: nameSchema,
-  profileType: z.enum(['STARTUP', 'EXPERT', 'MENTOR', 'INCUBATOR', 'INVESTOR', 'FINANCIAL_INSTITUTION', 'PUBLIC_ORGANIZATION', 'TECH_PARTNER', 'PME', 'CONSULTANT', 'ADMIN']),
+  profileType: profileTypeSchema,
   company: z.string().max(200).optional(),
   location: z.string().max(200).optional(),
   phone: phoneSchema,
+  invitationCode: z.string().max(20, 'Code d\'invitation invalide').trim().optional(),
 });
 
 export const loginSchema = z.object({
   email: emailSchema,
   password: z.string().min(1, 'Mot de passe requis'),
+  deviceName: z.string().max(100).optional(),
+});
+
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, 'Refresh token requis'),
+});
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1, 'Token de vérification requis'),
+});
+
+// ==================== VALIDATION DOUBLE AUTHENTIFICATION ====================
+
+// Code TOTP à 6 chiffres ou code de secours XXXX-XXXX
+const twoFactorCode = z.string().min(6, 'Code de vérification requis').max(20, 'Code de vérification invalide');
+
+export const twoFactorChallengeSchema = z.object({
+  challengeToken: z.string().min(1, 'Challenge 2FA requis'),
+});
+
+export const twoFactorLoginSchema = z.object({
+  challengeToken: z.string().min(1, 'Challenge 2FA requis'),
+  code: twoFactorCode,
+  deviceName: z.string().max(100).optional(),
+});
+
+export const twoFactorCodeSchema = z.object({
+  code: twoFactorCode,
+});
+
+export const disableTwoFactorSchema = z.object({
+  password: z.string().min(1, 'Mot de passe requis'),
+  code: twoFactorCode,
+});
+
+export const twoFactorPolicySchema = z.object({
+  required: z.boolean(),
 });
 
 export const updateUserSchema = z.object({
@@ -52,6 +96,7 @@ export const updateUserSchema = z.object({
   website: urlSchema,
   linkedin: urlSchema,
   phone: phoneSchema,
+  language: z.enum(['fr', 'en']).optional(),
 });
 
 // ==================== VALIDATION MESSAGES ====================
@@ -79,6 +124,7 @@ export const createOpportunitySchema = z.object({
   experience: z.string().max(500).optional(),
   requirements: z.array(z.string().max(100)).max(20).optional(),
   tags: z.array(z.string().max(50)).max(10).optional(),
+  organizationId: cuidSchema.optional(),
 });
 
 export const applyToOpportunitySchema = z.object({
@@ -87,6 +133,15 @@ export const applyToOpportunitySchema = z.object({
   expectedBudget: z.string().max(100).optional(),
 });
 
+export const updateApplicationStatusSchema = z.object({
+  status: z.enum(['PENDING', 'ACCEPTED', 'REJECTED']),
+});
+
+export const applicationParamsSchema = z.object({
+  opportunityId: cuidSchema,
+  applicationId: cuidSchema,
+});
+
 // ==================== VALIDATION RESSOURCES ====================
 
 export const createResourceSchema = z.object({
@@ -97,6 +152,7 @@ export const createResourceSchema = z.object({
   type: z.enum(['GUIDE', 'TEMPLATE', 'TOOL', 'ARTICLE', 'VIDEO', 'WEBINAR']),
   tags: z.array(z.string().max(50)).max(10).optional(),
   isPremium: z.boolean().default(false),
+  organizationId: cuidSchema.optional(),
 });
 
 // ==================== VALIDATION ÉVÉNEMENTS ====================
@@ -113,6 +169,7 @@ export const createEventSchema = z.object({
   maxAttendees: z.number().min(1).max(10000).optional(),
   price: z.string().max(50).optional(),
   organizerContact: z.string().max(200).optional(),
+  organizationId: cuidSchema.optional(),
 }).refine(data => {
   if (data.endDate && data.endDate <= data.startDate) {
     return false;
@@ -153,11 +210,42 @@ export const paginationSchema = z.object({
 
 // ==================== VALIDATION FILTRES ====================
 
+// Filtres géographiques communs aux membres, opportunités et événements
+const geoFilterFields = {
+  country: z.string().regex(/^[A-Za-z]{2}$/, 'Code pays ISO 3166-1 invalide (ex. CI)').transform(code => code.toUpperCase()).optional(),
+  region: z.string().regex(/^[A-Za-z]{2}-[A-Za-z0-9]{1,3}$/, 'Code région ISO 3166-2 invalide (ex. FR-IDF)').transform(code => code.toUpperCase()).optional(),
+  near: z
+    .string()
+    .regex(/^-?\d{1,2}(\.\d+)?,\s*-?\d{1,3}(\.\d+)?$/, 'Position invalide (format attendu : lat,lng)')
+    .transform(value => {
+      const [latitude, longitude] = value.split(',').map(Number);
+      return { latitude, longitude };
+    })
+    .refine(point => Math.abs(point.latitude) <= 90 && Math.abs(point.longitude) <= 180, 'Coordonnées hors limites')
+    .optional(),
+  radiusKm: z.coerce.number().positive('Le rayon doit être positif').max(500, 'Rayon limité à 500 km').optional(),
+};
+
+export const geoFiltersSchema = z
+  .object(geoFilterFields)
+  .refine(filters => filters.radiusKm === undefined || filters.near !== undefined, {
+    message: 'Le rayon nécessite une position (near=lat,lng)',
+    path: ['radiusKm'],
+  });
+
+export const locationSuggestSchema = z.object({
+  q: z.string().min(1, 'Recherche requise').max(100),
+  country: geoFilterFields.country,
+  limit: z.coerce.number().min(1).max(25).default(10),
+});
+
 export const userFiltersSchema = z.object({
   profileType: z.string().max(50).optional(),
   location: z.string().max(200).optional(),
   verified: z.coerce.boolean().optional(),
   search: z.string().max(200).optional(),
+  sortBy: z.enum(['createdAt', 'completeness', 'endorsements', 'relevance']).optional(),
+  ...geoFilterFields,
 });
 
 export const opportunityFiltersSchema = z.object({
@@ -169,6 +257,8 @@ export const opportunityFiltersSchema = z.object({
   tags: z.string().max(200).optional(),
   budgetMin: z.coerce.number().min(0).optional(),
   budgetMax: z.coerce.number().min(0).optional(),
+  organizationId: cuidSchema.optional(),
+  ...geoFilterFields,
 });
 
 export const eventFiltersSchema = z.object({
@@ -179,6 +269,8 @@ export const eventFiltersSchema = z.object({
   upcoming: z.coerce.boolean().optional(),
   search: z.string().max(200).optional(),
   organizer: z.string().max(200).optional(),
+  organizationId: cuidSchema.optional(),
+  ...geoFilterFields,
 });
 
 export const resourceFiltersSchema = z.object({
@@ -187,6 +279,7 @@ export const resourceFiltersSchema = z.object({
   search: z.string().max(200).optional(),
   tags: z.string().max(200).optional(),
   isPremium: z.coerce.boolean().optional(),
+  organizationId: cuidSchema.optional(),
 });
 
 export const messageFiltersSchema = z.object({
@@ -212,6 +305,451 @@ export const analyticsTrendsSchema = z.object({
   days: z.coerce.number().min(1).max(365).default(30),
 });
 
+// ==================== VALIDATION AUDIT ====================
+
+export const auditLogFiltersSchema = z.object({
+  userId: z.string().max(50).optional(),
+  action: z.string().max(50).optional(),
+  resource: z.string().max(50).optional(),
+  resourceId: z.string().max(200).optional(),
+  ip: z.string().max(100).optional(),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+  success: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(50),
+});
+
+export const auditStatsSchema = z.object({
+  period: z.enum(['day', 'week', 'month']).default('day'),
+});
+
+// ==================== VALIDATION EMAILS ====================
+
+export const emailOutboxFiltersSchema = z.object({
+  status: z.enum(['PENDING', 'SENDING', 'SENT', 'FAILED']).optional(),
+  template: z.enum(['PASSWORD_RESET', 'EMAIL_VERIFICATION', 'APPLICATION_UPDATE', 'EVENT_REMINDER', 'MESSAGE_DIGEST', 'SECURITY_ALERT', 'ACCOUNT_STATUS', 'INVITATION', 'SAVED_SEARCH_DIGEST']).optional(),
+  userId: cuidSchema.optional(),
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(50),
+});
+
+export const emailIdParamSchema = z.object({
+  emailId: cuidSchema,
+});
+
+// ==================== VALIDATION EXPORT DE DONNÉES ====================
+
+export const dataExportDownloadParamsSchema = z.object({
+  exportId: cuidSchema,
+});
+
+export const dataExportDownloadQuerySchema = z.object({
+  token: z.string().min(20, 'Jeton invalide').max(200, 'Jeton invalide'),
+});
+
+export const deleteAccountSchema = z.object({
+  password: z.string().min(1, 'Mot de passe requis pour confirmer la suppression'),
+});
+
+// ==================== VALIDATION MODÉRATION ====================
+
+export const suspendUserSchema = z.object({
+  reason: z.string().min(3, 'Motif requis').max(500, 'Motif trop long').trim(),
+  until: z.coerce.date().optional(),
+});
+
+export const banUserSchema = z.object({
+  reason: z.string().min(3, 'Motif requis').max(500, 'Motif trop long').trim(),
+});
+
+export const impersonateUserSchema = z.object({
+  reason: z.string().min(10, 'Motif de l\'assistance requis').max(500, 'Motif trop long').trim(),
+});
+
+// ==================== VALIDATION INVITATIONS ====================
+
+const invitableProfileTypeSchema = profileTypeSchema.exclude(['ADMIN']);
+
+export const createInvitationSchema = z.object({
+  profileType: invitableProfileTypeSchema.optional(),
+  maxUses: z.coerce.number().int().min(1).max(500).default(1),
+  expiresInDays: z.coerce.number().int().min(1).max(365).optional(),
+  label: z.string().max(100, 'Libellé trop long').trim().optional(),
+});
+
+export const sendInvitationsSchema = z.object({
+  emails: z.array(emailSchema).min(1, 'Au moins une adresse requise').max(100, 'Maximum 100 adresses par envoi'),
+  profileType: invitableProfileTypeSchema.optional(),
+  expiresInDays: z.coerce.number().int().min(1).max(365).optional(),
+  label: z.string().max(100, 'Libellé trop long').trim().optional(),
+  message: z.string().max(1000, 'Message trop long').trim().optional(),
+});
+
+export const invitationFiltersSchema = z.object({
+  active: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+});
+
+export const invitationIdParamSchema = z.object({
+  invitationId: cuidSchema,
+});
+
+export const invitationCodeParamSchema = z.object({
+  code: z.string().min(4, 'Code d\'invitation invalide').max(20, 'Code d\'invitation invalide'),
+});
+
+// ==================== VALIDATION ORGANISATIONS ====================
+
+export const createOrganizationSchema = z.object({
+  name: z.string().min(2, 'Nom trop court').max(200, 'Nom trop long').trim(),
+  legalName: z.string().max(200, 'Raison sociale trop longue').trim().optional(),
+  registrationNumber: z.string().max(50, 'Numéro d\'immatriculation trop long').trim().optional(),
+  sector: z.string().max(100).trim().optional(),
+  size: z.enum(['MICRO', 'SMALL', 'MEDIUM', 'LARGE']).optional(),
+  country: z.string().max(100).trim().optional(),
+  description: z.string().max(2000, 'Description trop longue').optional(),
+  website: urlSchema,
+});
+
+export const updateOrganizationSchema = createOrganizationSchema.partial();
+
+export const organizationFiltersSchema = z.object({
+  search: z.string().max(200).optional(),
+  sector: z.string().max(100).optional(),
+  size: z.enum(['MICRO', 'SMALL', 'MEDIUM', 'LARGE']).optional(),
+  country: z.string().max(100).optional(),
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+});
+
+export const organizationIdParamSchema = z.object({
+  organizationId: cuidSchema,
+});
+
+export const organizationMemberParamsSchema = z.object({
+  organizationId: cuidSchema,
+  userId: cuidSchema,
+});
+
+const organizationRoleSchema = z.enum(['OWNER', 'ADMIN', 'MEMBER']);
+
+export const joinOrganizationSchema = z.object({
+  message: z.string().max(500, 'Message trop long').trim().optional(),
+});
+
+export const inviteOrganizationMemberSchema = z.object({
+  userId: cuidSchema,
+  role: organizationRoleSchema.default('MEMBER'),
+  message: z.string().max(500, 'Message trop long').trim().optional(),
+});
+
+export const updateOrganizationMemberSchema = z.object({
+  role: organizationRoleSchema,
+});
+
+// ==================== VALIDATION AVIS ====================
+
+const reviewScoreSchema = z.coerce.number().int().min(1, 'Note entre 1 et 5').max(5, 'Note entre 1 et 5');
+
+export const createReviewSchema = z.object({
+  context: z.enum(['APPLICATION', 'EVENT']),
+  contextId: cuidSchema,
+  score: reviewScoreSchema,
+  comment: z.string().min(10, 'Commentaire trop court').max(2000, 'Commentaire trop long').trim(),
+  criteria: z.object({
+    communication: reviewScoreSchema.optional(),
+    quality: reviewScoreSchema.optional(),
+    reliability: reviewScoreSchema.optional(),
+    expertise: reviewScoreSchema.optional(),
+  }).optional(),
+});
+
+export const replyToReviewSchema = z.object({
+  reply: z.string().min(1, 'Réponse requise').max(2000, 'Réponse trop longue').trim(),
+});
+
+export const reportReviewSchema = z.object({
+  reason: z.enum(['ABUSIVE', 'FAKE', 'PERSONAL_DATA', 'OFF_TOPIC', 'OTHER']),
+  details: z.string().max(1000, 'Détails trop longs').trim().optional(),
+});
+
+export const reviewIdParamSchema = z.object({
+  reviewId: cuidSchema,
+});
+
+export const reviewListSchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(50).default(10),
+});
+
+export const reviewReportFiltersSchema = z.object({
+  status: z.enum(['OPEN', 'DISMISSED', 'UPHELD']).optional(),
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+});
+
+export const reviewReportIdParamSchema = z.object({
+  reportId: cuidSchema,
+});
+
+export const resolveReviewReportSchema = z.object({
+  decision: z.enum(['DISMISS', 'HIDE']),
+  reason: z.string().max(500, 'Motif trop long').trim().optional(),
+});
+
+// ==================== VALIDATION EXPERTISES ====================
+
+export const expertiseParamsSchema = z.object({
+  userId: cuidSchema,
+  expertiseId: cuidSchema,
+});
+
+export const myExpertiseParamSchema = z.object({
+  expertiseId: cuidSchema,
+});
+
+export const endorseExpertiseSchema = z.object({
+  comment: z.string().max(500, 'Commentaire trop long').trim().optional(),
+});
+
+export const requestExpertiseVerificationSchema = z.object({
+  message: z.string().max(1000, 'Message trop long').trim().optional(),
+});
+
+export const verificationQueueFiltersSchema = z.object({
+  status: z.enum(['PENDING', 'APPROVED', 'REJECTED']).optional(),
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+});
+
+export const verificationRequestIdParamSchema = z.object({
+  requestId: cuidSchema,
+});
+
+export const reviewExpertiseVerificationSchema = z.object({
+  decision: z.enum(['APPROVE', 'REJECT']),
+  note: z.string().max(1000, 'Note trop longue').trim().optional(),
+}).refine(data => data.decision === 'APPROVE' || !!data.note, {
+  message: 'Un motif est requis en cas de refus',
+  path: ['note'],
+});
+
+// ==================== VALIDATION VUES DE PROFIL ====================
+
+export const profileViewStatsSchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+});
+
+export const profileViewersSchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(90),
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+});
+
+export const profileViewSettingsSchema = z.object({
+  browseAnonymously: z.boolean(),
+});
+
+// ==================== VALIDATION CONFIDENTIALITÉ ====================
+
+const privacyVisibilitySchema = z.enum(['PUBLIC', 'MEMBERS', 'CONNECTIONS', 'NOBODY']);
+
+export const updatePrivacySettingsSchema = z.object({
+  email: privacyVisibilitySchema.optional(),
+  phone: privacyVisibilitySchema.optional(),
+  location: privacyVisibilitySchema.optional(),
+  connections: privacyVisibilitySchema.optional(),
+}).refine(data => Object.values(data).some(value => value !== undefined), {
+  message: 'Au moins un réglage est requis',
+});
+
+// ==================== VALIDATION RECOMMANDATIONS ====================
+
+export const recommendationFiltersSchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(50).default(10),
+});
+
+// ==================== VALIDATION RECHERCHES SAUVEGARDÉES ====================
+
+// Filtres enregistrés tels que les services les reçoivent (booléens et position déjà typés)
+const savedGeoFilterFields = {
+  country: geoFilterFields.country,
+  region: geoFilterFields.region,
+  near: z
+    .object({
+      latitude: z.number().min(-90).max(90),
+      longitude: z.number().min(-180).max(180),
+    })
+    .optional(),
+  radiusKm: z.number().positive('Le rayon doit être positif').max(500, 'Rayon limité à 500 km').optional(),
+};
+
+const radiusRequiresNear = {
+  check: (filters: { near?: unknown; radiusKm?: number }) => filters.radiusKm === undefined || filters.near !== undefined,
+  params: { message: 'Le rayon nécessite une position', path: ['radiusKm'] },
+};
+
+export const savedOpportunityFiltersSchema = z
+  .strictObject({
+    type: z.enum(['FUNDING', 'TALENT', 'SERVICE', 'PARTNERSHIP']).optional(),
+    status: z.enum(['ACTIVE', 'CLOSED', 'DRAFT', 'EXPIRED']).optional(),
+    location: z.string().max(200).optional(),
+    remote: z.boolean().optional(),
+    skills: z.string().max(200).optional(),
+    search: z.string().max(200).optional(),
+    authorId: cuidSchema.optional(),
+    organizationId: cuidSchema.optional(),
+    ...savedGeoFilterFields,
+  })
+  .refine(radiusRequiresNear.check, radiusRequiresNear.params);
+
+export const savedEventFiltersSchema = z
+  .strictObject({
+    type: z.enum(['CONFERENCE', 'WORKSHOP', 'NETWORKING', 'WEBINAR', 'MEETUP']).optional(),
+    status: z.enum(['UPCOMING', 'ONGOING', 'COMPLETED', 'CANCELLED']).optional(),
+    isOnline: z.boolean().optional(),
+    location: z.string().max(200).optional(),
+    upcoming: z.boolean().optional(),
+    search: z.string().max(200).optional(),
+    organizer: z.string().max(200).optional(),
+    organizationId: cuidSchema.optional(),
+    ...savedGeoFilterFields,
+  })
+  .refine(radiusRequiresNear.check, radiusRequiresNear.params);
+
+export const savedResourceFiltersSchema = z.strictObject({
+  type: z.enum(['ARTICLE', 'VIDEO', 'DOCUMENT', 'TOOL', 'TEMPLATE', 'GUIDE']).optional(),
+  author: z.string().max(200).optional(),
+  search: z.string().max(200).optional(),
+  tags: z.string().max(200).optional(),
+  isPremium: z.boolean().optional(),
+  organizationId: cuidSchema.optional(),
+});
+
+// Validation des filtres selon le type de contenu suivi
+export const savedSearchFiltersSchemas = {
+  OPPORTUNITIES: savedOpportunityFiltersSchema,
+  EVENTS: savedEventFiltersSchema,
+  RESOURCES: savedResourceFiltersSchema,
+};
+
+const savedSearchFields = {
+  name: z.string().min(1, 'Nom requis').max(100, 'Nom trop long').trim(),
+  frequency: z.enum(['INSTANT', 'DAILY', 'WEEKLY']).default('DAILY'),
+  emailDigest: z.boolean().default(false),
+};
+
+export const createSavedSearchSchema = z.discriminatedUnion('target', [
+  z.object({ ...savedSearchFields, target: z.literal('OPPORTUNITIES'), filters: savedOpportunityFiltersSchema.default({}) }),
+  z.object({ ...savedSearchFields, target: z.literal('EVENTS'), filters: savedEventFiltersSchema.default({}) }),
+  z.object({ ...savedSearchFields, target: z.literal('RESOURCES'), filters: savedResourceFiltersSchema.default({}) }),
+]);
+
+// Les filtres sont validés par la route selon le type de la recherche enregistrée
+export const updateSavedSearchSchema = z
+  .object({
+    name: savedSearchFields.name.optional(),
+    frequency: z.enum(['INSTANT', 'DAILY', 'WEEKLY']).optional(),
+    emailDigest: z.boolean().optional(),
+    enabled: z.boolean().optional(),
+    filters: z.record(z.string(), z.unknown()).optional(),
+  })
+  .refine(data => Object.values(data).some(value => value !== undefined), 'Aucune modification fournie');
+
+export const savedSearchIdParamSchema = z.object({
+  searchId: cuidSchema,
+});
+
+// ==================== VALIDATION FAVORIS ====================
+
+// Accepte aussi la casse des URL (/bookmarks/opportunity/:id)
+const bookmarkTargetSchema = z.string().toUpperCase().pipe(z.enum(['OPPORTUNITY', 'EVENT', 'RESOURCE', 'USER']));
+
+export const addBookmarkSchema = z.object({
+  targetType: bookmarkTargetSchema,
+  targetId: cuidSchema,
+  collectionId: cuidSchema.nullable().optional(),
+});
+
+export const bookmarkParamsSchema = z.object({
+  targetType: bookmarkTargetSchema,
+  targetId: cuidSchema,
+});
+
+export const bookmarkFiltersSchema = z.object({
+  targetType: bookmarkTargetSchema.optional(),
+  collectionId: z.union([cuidSchema, z.literal('none')]).optional(),
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+});
+
+export const createBookmarkCollectionSchema = z.object({
+  name: z.string().min(1, 'Nom requis').max(100, 'Nom trop long').trim(),
+  description: z.string().max(500, 'Description trop longue').trim().nullable().optional(),
+});
+
+export const updateBookmarkCollectionSchema = createBookmarkCollectionSchema
+  .partial()
+  .refine(data => Object.values(data).some(value => value !== undefined), 'Aucune modification fournie');
+
+export const bookmarkCollectionIdParamSchema = z.object({
+  collectionId: cuidSchema,
+});
+
+// ==================== VALIDATION CLÉS D'API ====================
+
+export const createApiKeySchema = z.object({
+  name: z.string().min(1, 'Nom requis').max(100, 'Nom trop long').trim(),
+  scopes: z.array(z.string().regex(/^[a-z]+:(read|write)$/, 'Scope invalide')).min(1, 'Au moins un scope requis').max(20),
+  expiresInDays: z.coerce.number().int().min(1).max(365).optional(),
+  rateLimitPerHour: z.coerce.number().int().min(1).max(10000).optional(),
+});
+
+export const apiKeyIdParamSchema = z.object({
+  keyId: cuidSchema,
+});
+
+export const organizationApiKeyParamsSchema = z.object({
+  organizationId: cuidSchema,
+  keyId: cuidSchema,
+});
+
+// ==================== VALIDATION RÔLES ====================
+
+export const roleSchema = z.nativeEnum(Role);
+
+export const grantRoleSchema = z.object({
+  role: roleSchema,
+});
+
+export const userRoleParamsSchema = z.object({
+  userId: cuidSchema,
+  role: roleSchema,
+});
+
+export const roleAssignmentsFiltersSchema = z.object({
+  role: roleSchema.optional(),
+});
+
+// ==================== VALIDATION CONNEXIONS ====================
+
+export const sendConnectionRequestSchema = z.object({
+  targetId: cuidSchema,
+  message: z.string().max(500, 'Message trop long').optional(),
+});
+
+export const connectionFiltersSchema = z.object({
+  search: z.string().max(200).optional(),
+  profileType: z.string().max(50).optional(),
+});
+
+export const connectionIdParamSchema = z.object({
+  connectionId: cuidSchema,
+});
+
 // ==================== VALIDATION UPLOAD ====================
 
 export const fileUploadSchema = z.object({
@@ -225,7 +763,7 @@ export const idParamSchema = z.object({
 });
 
 export const userIdParamSchema = z.object({
-  userId: uuidSchema,
+  userId: cuidSchema,
 });
 
 export const opportunityIdParamSchema = z.object({
@@ -248,10 +786,19 @@ export const notificationIdParamSchema = z.object({
   notificationId: uuidSchema,
 });
 
+export const profileTypeParamSchema = z.object({
+  profileType: profileTypeSchema,
+});
+
+export const sessionIdParamSchema = z.object({
+  sessionId: cuidSchema,
+});
+
 // ==================== TYPES EXPORTÉS ====================
 
 export type RegisterData = z.infer<typeof registerSchema>;
 export type LoginData = z.infer<typeof loginSchema>;
+export type RefreshTokenData = z.infer<typeof refreshTokenSchema>;
 export type UpdateUserData = z.infer<typeof updateUserSchema>;
 export type SendMessageData = z.infer<typeof sendMessageSchema>;
 export type CreateOpportunityData = z.infer<typeof createOpportunitySchema>;
@@ -265,4 +812,26 @@ export type OpportunityFiltersData = z.infer<typeof opportunityFiltersSchema>;
 export type EventFiltersData = z.infer<typeof eventFiltersSchema>;
 export type ResourceFiltersData = z.infer<typeof resourceFiltersSchema>;
 export type MessageFiltersData = z.infer<typeof messageFiltersSchema>;
-export type NotificationFiltersData = z.infer<typeof notificationFiltersSchema>;
\ No newline at end of file
+export type NotificationFiltersData = z.infer<typeof notificationFiltersSchema>;
+export type AuditLogFiltersData = z.infer<typeof auditLogFiltersSchema>;
+export type AuditStatsData = z.infer<typeof auditStatsSchema>;
+export type SendConnectionRequestData = z.infer<typeof sendConnectionRequestSchema>;
+export type ConnectionFiltersData = z.infer<typeof connectionFiltersSchema>;
+export type UpdateApplicationStatusData = z.infer<typeof updateApplicationStatusSchema>;
+export type EmailOutboxFiltersData = z.infer<typeof emailOutboxFiltersSchema>;
+export type GrantRoleData = z.infer<typeof grantRoleSchema>;
+export type RoleAssignmentsFiltersData = z.infer<typeof roleAssignmentsFiltersSchema>;
+export type UserRoleParamsData = z.infer<typeof userRoleParamsSchema>;
+export type CreateApiKeyData = z.infer<typeof createApiKeySchema>;
+export type SuspendUserData = z.infer<typeof suspendUserSchema>;
+export type ProfileTypeParamData = z.infer<typeof profileTypeParamSchema>;
+export type InvitationFiltersData = z.infer<typeof invitationFiltersSchema>;
+export type OrganizationFiltersData = z.infer<typeof organizationFiltersSchema>;
+export type ReviewListData = z.infer<typeof reviewListSchema>;
+export type ReviewReportFiltersData = z.infer<typeof reviewReportFiltersSchema>;
+export type VerificationQueueFiltersData = z.infer<typeof verificationQueueFiltersSchema>;
+export type LocationSuggestData = z.infer<typeof locationSuggestSchema>;
+export type ProfileViewStatsData = z.infer<typeof profileViewStatsSchema>;
+export type ProfileViewersData = z.infer<typeof profileViewersSchema>;
+export type RecommendationFiltersData = z.infer<typeof recommendationFiltersSchema>;
+export type BookmarkFiltersData = z.infer<typeof bookmarkFiltersSchema>;